@@ -1,9 +1,21 @@
 import { Transaction, VersionedTransaction, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
 import { LysFlash } from './client';
 import { Signer } from './signer';
 import { MeteoraNamespace } from './meteora';
 import { RaydiumNamespace } from './raydium';
+import { PumpFunUtils } from './pumpfun/utils';
+import { PumpFunAmmUtils } from './pumpfun/amm-utils';
+import type {
+  PumpFunBuyWithSlippageParams,
+  PumpFunSellWithSlippageParams,
+  PumpFunAmmPoolState,
+  PumpFunAmmBuyWithSlippageParams,
+  PumpFunAmmBuyExactQuoteInWithSlippageParams,
+  PumpFunAmmSellWithSlippageParams,
+} from './pumpfun/types';
 import {
+  Amount,
   TransportMode,
   OperationData,
   PumpFunBuyParams,
@@ -30,9 +42,38 @@ import {
   RawTransactionParams,
   TransactionResponse,
   SimulationResponse,
+  SendOptions,
+  ConfirmOptions,
+  Tracer,
   normalizeTransportForServer,
 } from './types';
 import { ExecutionError, ErrorCode } from './errors';
+import { normalizeAmount, toBigInt } from './utils/amount';
+import { withSpan, recordResponse, SPAN_ATTRIBUTES } from './utils/tracing';
+import { transactionExpiry } from './utils/confirmation';
+
+/**
+ * Placeholder blockhash for serialization - will be replaced at execution time
+ * Required because some SDKs (Raydium, Meteora) don't set blockhash until execute()
+ */
+const PLACEHOLDER_BLOCKHASH = '11111111111111111111111111111111';
+
+/**
+ * Convert an operation amount to BN for quote math
+ */
+function toBN(amount: Amount): BN {
+  return new BN(toBigInt(amount).toString());
+}
+
+/**
+ * Total size of the serialized raw transactions in a request, in bytes
+ */
+function payloadSize(operations: OperationData[]): number {
+  return operations.reduce(
+    (size, operation) => size + ((operation as RawTransactionParams).transactionBytes?.length ?? 0),
+    0
+  );
+}
 
 /**
  * Input for raw transaction execution
@@ -308,6 +349,110 @@ export class TransactionBuilder {
     return this;
   }
 
+  /**
+   * Add Pump.fun BUY operation with `tokenAmountOut` computed from a bonding curve quote
+   *
+   * Fetches the bonding curve via the client's `connection`, quotes `solAmountIn` including
+   * protocol and creator fees, and sets `tokenAmountOut` to the quote minus slippage.
+   * `poolAccounts`, `tokenProgram` and `mayhemModeEnabled` are resolved on-chain when omitted.
+   *
+   * @param params - Buy parameters with slippage instead of `tokenAmountOut`
+   * @returns Promise resolving to this (for method chaining)
+   * @throws ExecutionError if no connection is configured
+   * @throws Error if the bonding curve is not found or complete
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .pumpFunBuyWithSlippage({
+   *     pool: "mint_address",
+   *     user: "buyer_wallet",
+   *     solAmountIn: 100_000_000, // 0.1 SOL
+   *     slippageBps: 100          // 1%
+   *   });
+   *
+   * await builder.setFeePayer("buyer_wallet").send();
+   * ```
+   */
+  async pumpFunBuyWithSlippage(params: PumpFunBuyWithSlippageParams): Promise<this> {
+    const { slippageBps, ...buyParams } = params;
+    const connection = this.client.requireConnection();
+    const commitment = this.client.getCommitment();
+
+    const [curve, fees, tokenProgram] = await Promise.all([
+      PumpFunUtils.getBondingCurve(connection, params.pool, commitment),
+      PumpFunUtils.getFees(connection, commitment),
+      params.tokenProgram ?? PumpFunUtils.getTokenProgram(connection, params.pool, commitment),
+    ]);
+
+    const quote = PumpFunUtils.calculateBuyQuote(
+      curve,
+      fees,
+      toBN(params.solAmountIn),
+      slippageBps
+    );
+
+    return this.pumpFunBuy({
+      ...buyParams,
+      tokenProgram,
+      poolAccounts: params.poolAccounts ?? { coinCreator: curve.creator?.toBase58() ?? null },
+      mayhemModeEnabled: params.mayhemModeEnabled ?? curve.isMayhemMode,
+      tokenAmountOut: normalizeAmount(quote.minTokenAmountOut),
+    });
+  }
+
+  /**
+   * Add Pump.fun SELL operation with `minSolAmountOut` computed from a bonding curve quote
+   *
+   * Fetches the bonding curve via the client's `connection`, quotes `tokenAmountIn` net of
+   * protocol and creator fees, and sets `minSolAmountOut` to the quote minus slippage.
+   * `poolAccounts`, `tokenProgram` and `mayhemModeEnabled` are resolved on-chain when omitted.
+   *
+   * @param params - Sell parameters with slippage instead of `minSolAmountOut`
+   * @returns Promise resolving to this (for method chaining)
+   * @throws ExecutionError if no connection is configured
+   * @throws Error if the bonding curve is not found or complete
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .pumpFunSellWithSlippage({
+   *     pool: "mint_address",
+   *     user: "seller_wallet",
+   *     tokenAmountIn: 1_000_000_000,
+   *     slippageBps: 100
+   *   });
+   *
+   * await builder.setFeePayer("seller_wallet").send();
+   * ```
+   */
+  async pumpFunSellWithSlippage(params: PumpFunSellWithSlippageParams): Promise<this> {
+    const { slippageBps, ...sellParams } = params;
+    const connection = this.client.requireConnection();
+    const commitment = this.client.getCommitment();
+
+    const [curve, fees, tokenProgram] = await Promise.all([
+      PumpFunUtils.getBondingCurve(connection, params.pool, commitment),
+      PumpFunUtils.getFees(connection, commitment),
+      params.tokenProgram ?? PumpFunUtils.getTokenProgram(connection, params.pool, commitment),
+    ]);
+
+    const quote = PumpFunUtils.calculateSellQuote(
+      curve,
+      fees,
+      toBN(params.tokenAmountIn),
+      slippageBps
+    );
+
+    return this.pumpFunSell({
+      ...sellParams,
+      tokenProgram,
+      poolAccounts: params.poolAccounts ?? { coinCreator: curve.creator?.toBase58() ?? null },
+      mayhemModeEnabled: params.mayhemModeEnabled ?? curve.isMayhemMode,
+      minSolAmountOut: normalizeAmount(quote.minSolAmountOut),
+    });
+  }
+
   /**
    * Add Pump.fun CREATE operation
    *
@@ -536,6 +681,168 @@ export class TransactionBuilder {
     return this;
   }
 
+  /**
+   * Add Pump.fun AMM BUY operation with `maxQuoteAmountIn` computed from a pool quote
+   *
+   * Fetches the pool via the client's `connection`, quotes the SOL needed for
+   * `baseAmountOut` including LP, protocol and creator fees, and sets `maxQuoteAmountIn`
+   * to the quote plus slippage. Token programs and `poolAccounts` are resolved from the
+   * pool when omitted.
+   *
+   * @param params - AMM buy parameters with slippage instead of `maxQuoteAmountIn`
+   * @returns Promise resolving to this (for method chaining)
+   * @throws ExecutionError if no connection is configured
+   * @throws Error if the pool is not found
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .pumpFunAmmBuyWithSlippage({
+   *     pool: "pool_address",
+   *     user: "buyer_wallet",
+   *     baseAmountOut: 1_000_000,
+   *     slippageBps: 100
+   *   });
+   *
+   * await builder.setFeePayer("buyer_wallet").send();
+   * ```
+   */
+  async pumpFunAmmBuyWithSlippage(params: PumpFunAmmBuyWithSlippageParams): Promise<this> {
+    const { slippageBps, ...buyParams } = params;
+    const [pool, fees] = await this.getPumpFunAmmPool(params.pool);
+
+    const quote = PumpFunAmmUtils.calculateQuoteExactOut(
+      pool,
+      fees,
+      pool.baseMint,
+      toBN(params.baseAmountOut),
+      slippageBps
+    );
+
+    return this.pumpFunAmmBuy({
+      ...this.toPumpFunAmmPoolParams(pool),
+      ...buyParams,
+      maxQuoteAmountIn: normalizeAmount(quote.maximumAmountIn),
+    });
+  }
+
+  /**
+   * Add Pump.fun AMM BUY_EXACT_QUOTE_IN operation with `minBaseAmountOut` computed from a pool quote
+   *
+   * Fetches the pool via the client's `connection`, quotes `spendableQuoteIn` net of LP,
+   * protocol and creator fees, and sets `minBaseAmountOut` to the quote minus slippage.
+   * Token programs and `poolAccounts` are resolved from the pool when omitted.
+   *
+   * @param params - AMM buy parameters with slippage instead of `minBaseAmountOut`
+   * @returns Promise resolving to this (for method chaining)
+   * @throws ExecutionError if no connection is configured
+   * @throws Error if the pool is not found
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .pumpFunAmmBuyExactQuoteInWithSlippage({
+   *     pool: "pool_address",
+   *     user: "buyer_wallet",
+   *     spendableQuoteIn: 10_000_000,
+   *     slippageBps: 100
+   *   });
+   * ```
+   */
+  async pumpFunAmmBuyExactQuoteInWithSlippage(
+    params: PumpFunAmmBuyExactQuoteInWithSlippageParams
+  ): Promise<this> {
+    const { slippageBps, ...buyParams } = params;
+    const [pool, fees] = await this.getPumpFunAmmPool(params.pool);
+
+    const quote = PumpFunAmmUtils.calculateQuote(
+      pool,
+      fees,
+      pool.quoteMint,
+      toBN(params.spendableQuoteIn),
+      slippageBps
+    );
+
+    return this.pumpFunAmmBuyExactQuoteIn({
+      ...this.toPumpFunAmmPoolParams(pool),
+      ...buyParams,
+      minBaseAmountOut: normalizeAmount(quote.minimumAmountOut),
+    });
+  }
+
+  /**
+   * Add Pump.fun AMM SELL operation with `minQuoteAmountOut` computed from a pool quote
+   *
+   * Fetches the pool via the client's `connection`, quotes `baseAmountIn` net of LP,
+   * protocol and creator fees, and sets `minQuoteAmountOut` to the quote minus slippage.
+   * Token programs and `poolAccounts` are resolved from the pool when omitted.
+   *
+   * @param params - AMM sell parameters with slippage instead of `minQuoteAmountOut`
+   * @returns Promise resolving to this (for method chaining)
+   * @throws ExecutionError if no connection is configured
+   * @throws Error if the pool is not found
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .pumpFunAmmSellWithSlippage({
+   *     pool: "pool_address",
+   *     user: "seller_wallet",
+   *     baseAmountIn: 1_000_000,
+   *     slippageBps: 100
+   *   });
+   * ```
+   */
+  async pumpFunAmmSellWithSlippage(params: PumpFunAmmSellWithSlippageParams): Promise<this> {
+    const { slippageBps, ...sellParams } = params;
+    const [pool, fees] = await this.getPumpFunAmmPool(params.pool);
+
+    const quote = PumpFunAmmUtils.calculateQuote(
+      pool,
+      fees,
+      pool.baseMint,
+      toBN(params.baseAmountIn),
+      slippageBps
+    );
+
+    return this.pumpFunAmmSell({
+      ...this.toPumpFunAmmPoolParams(pool),
+      ...sellParams,
+      minQuoteAmountOut: normalizeAmount(quote.minimumAmountOut),
+    });
+  }
+
+  /**
+   * Fetch a Pump.fun AMM pool and its fees via the client's connection
+   * @private
+   */
+  private async getPumpFunAmmPool(poolAddress: string) {
+    const connection = this.client.requireConnection();
+    const commitment = this.client.getCommitment();
+
+    return Promise.all([
+      PumpFunAmmUtils.getPool(connection, poolAddress, commitment),
+      PumpFunAmmUtils.getFees(connection, commitment),
+    ]);
+  }
+
+  /**
+   * Token programs and pool accounts for Pump.fun AMM operations
+   * @private
+   */
+  private toPumpFunAmmPoolParams(pool: PumpFunAmmPoolState) {
+    return {
+      baseTokenProgram: pool.baseTokenProgram.toBase58(),
+      quoteTokenProgram: pool.quoteTokenProgram.toBase58(),
+      poolAccounts: {
+        baseMint: pool.baseMint.toBase58(),
+        quoteMint: pool.quoteMint.toBase58(),
+        coinCreator: pool.coinCreator?.toBase58() ?? null,
+        poolCreator: pool.creator.toBase58(),
+      },
+    };
+  }
+
   /**
    * Add Pump.fun AMM CLAIM_CASHBACK operation
    *
@@ -903,8 +1210,11 @@ export class TransactionBuilder {
   /**
    * Send the transaction
    *
+   * @param options - Send options (e.g. wait for confirmation)
    * @returns Transaction response
    * @throws ExecutionError if validation fails or execution error occurs
+   * @throws ExecutionError (ON_CHAIN_ERROR or TIMEOUT) if `awaitConfirmation` is set and the
+   *   transaction fails on-chain or expires
    *
    * @example
    * ```typescript
@@ -919,19 +1229,142 @@ export class TransactionBuilder {
    *   console.error("Error:", result.error);
    * }
    * ```
+   *
+   * @example Wait for confirmation (requires `connection` on the client)
+   * ```typescript
+   * const result = await builder
+   *   .pumpFunBuy({ ... })
+   *   .setFeePayer("wallet")
+   *   .send({ awaitConfirmation: 'confirmed' });
+   *
+   * console.log("Confirmed in slot", result.slot);
+   * ```
    */
-  async send(): Promise<TransactionResponse> {
+  async send(options: SendOptions = {}): Promise<TransactionResponse> {
     this.validate();
 
-    const resolvedOperations: OperationData[] = this.operations.map((operation) => {
+    const tracer = this.client.getTracer();
+    const executionTypes = this.operations.map((operation) =>
+      (operation as DeferredRawOperation)._deferred
+        ? 'RAW_TRANSACTION'
+        : (operation as OperationData).executionType
+    );
+
+    return withSpan(
+      tracer,
+      'builder.send',
+      {
+        [SPAN_ATTRIBUTES.TRANSPORT_MODE]: this.transport,
+        [SPAN_ATTRIBUTES.EXECUTION_TYPES]: executionTypes,
+        [SPAN_ATTRIBUTES.OPERATION_COUNT]: this.operations.length,
+      },
+      async (span) => {
+        const response = await this.sendOperations(options, tracer);
+        recordResponse(span, response);
+        return response;
+      }
+    );
+  }
+
+  /**
+   * Serialize deferred transactions, execute the request and optionally await confirmation
+   */
+  private async sendOperations(
+    options: SendOptions,
+    tracer: Tracer | undefined
+  ): Promise<TransactionResponse> {
+    const resolvedOperations = withSpan(tracer, 'builder.serialize', {}, (span) => {
+      const operations = this.resolveOperations();
+      span?.setAttribute(SPAN_ATTRIBUTES.PAYLOAD_SIZE, payloadSize(operations));
+      return operations;
+    });
+
+    const requestData: OperationData | OperationData[] =
+      resolvedOperations.length === 1
+        ? (resolvedOperations[0] as OperationData)
+        : resolvedOperations;
+
+    const signingKeypair = this.signer?.toSigningKeypair();
+
+    const response = await this.client.execute(
+      {
+        data: requestData,
+        feePayer: this.feePayer as string,
+        priorityFeeLamports: this.priorityFeeLamports,
+        transport: normalizeTransportForServer(this.transport),
+        bribeLamports: this.bribeLamports,
+      },
+      signingKeypair,
+    );
+
+    const isSimulation = this.transport === 'SIMULATE' || this.transport === 'SIMULATE_DEVNET';
+    if (!options.awaitConfirmation || !response.success || isSimulation) {
+      return response;
+    }
+
+    const confirmation = await withSpan(
+      tracer,
+      'builder.confirm',
+      { [SPAN_ATTRIBUTES.SIGNATURE]: response.signature },
+      () =>
+        this.client.confirm(response.signature, {
+          ...this.confirmExpiry(options.confirmOptions),
+          ...options.confirmOptions,
+          commitment: options.awaitConfirmation,
+        })
+    );
+
+    return {
+      ...response,
+      slot: confirmation.slot,
+      commitment: confirmation.commitment,
+    };
+  }
+
+  /**
+   * Expiry of the submitted transaction, unless the caller passed one
+   *
+   * Taken from the first raw transaction with a real blockhash. FLASH/NONCE sends are
+   * signed with a durable nonce chosen by the engine, so they never expire by blockhash
+   * and only `confirmOptions.nonce` detects their expiry.
+   */
+  private confirmExpiry(
+    options: SendOptions['confirmOptions'] = {}
+  ): Pick<ConfirmOptions, 'blockhash' | 'nonce'> {
+    if (
+      options.lastValidBlockHeight !== undefined ||
+      options.blockhash ||
+      options.nonce ||
+      this.transport === 'FLASH' ||
+      this.transport === 'NONCE'
+    ) {
+      return {};
+    }
+
+    for (const operation of this.operations) {
+      if (!(operation as DeferredRawOperation)._deferred) {
+        continue;
+      }
+
+      const tx = (operation as DeferredRawOperation).transaction;
+      const blockhash = tx instanceof Transaction ? tx.recentBlockhash : tx.message.recentBlockhash;
+      if (blockhash && blockhash !== PLACEHOLDER_BLOCKHASH) {
+        return transactionExpiry(tx);
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * Resolve deferred raw transactions into serialized RAW_TRANSACTION operations
+   */
+  private resolveOperations(): OperationData[] {
+    return this.operations.map((operation) => {
       if ((operation as DeferredRawOperation)._deferred) {
         const deferred = operation as DeferredRawOperation;
         const tx = deferred.transaction;
 
-        // Placeholder blockhash for serialization - will be replaced at execution time
-        // Required because some SDKs (Raydium, Meteora) don't set blockhash until execute()
-        const PLACEHOLDER_BLOCKHASH = '11111111111111111111111111111111';
-
         if (tx instanceof Transaction) {
           // Legacy Transaction - can mutate directly
           if (!tx.recentBlockhash) {
@@ -971,24 +1404,6 @@ export class TransactionBuilder {
 
       return operation as OperationData;
     });
-
-    const requestData: OperationData | OperationData[] =
-      resolvedOperations.length === 1
-        ? (resolvedOperations[0] as OperationData)
-        : resolvedOperations;
-
-    const signingKeypair = this.signer?.toSigningKeypair();
-
-    return this.client.execute(
-      {
-        data: requestData,
-        feePayer: this.feePayer as string,
-        priorityFeeLamports: this.priorityFeeLamports,
-        transport: normalizeTransportForServer(this.transport),
-        bribeLamports: this.bribeLamports,
-      },
-      signingKeypair,
-    );
   }
 
   /**
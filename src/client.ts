@@ -1,30 +1,89 @@
-import type { Connection, Commitment } from '@solana/web3.js';
+import type { Connection, Commitment, PublicKey } from '@solana/web3.js';
 import { ZMQTransport } from './transport/zmq-transport';
-import { HTTPTransport } from './transport/http-transport';
+import { HTTPTransport, isHTTPAddress } from './transport/http-transport';
+import { FailoverTransport } from './transport/failover-transport';
+import { ZMQEventStream } from './transport/zmq-event-stream';
+import { HTTPEventStream } from './transport/http-event-stream';
 import {
   Transport,
   BaseTransportConfig,
   HTTPTransportConfig,
+  EventStream,
+  EventStreamConfig,
 } from './transport/transport.interface';
 import {
   ClientConfig,
   ClientMode,
+  BroadcastResult,
   ClientStats,
+  RequestRecord,
+  ConfirmationResult,
+  ConfirmOptions,
+  EndpointHealth,
   Logger,
+  SubscribeOptions,
+  Subscription,
+  TransactionEvent,
+  Tracer,
+  TransportMode,
   TransactionRequest,
   TransactionResponse,
   WalletCreationRequest,
   WalletCreationResponse,
-  RawTransactionParams,
+  WalletListRequest,
+  WalletListResponse,
+  WalletBalanceRequest,
+  WalletBalanceResponse,
+  WalletExportRequest,
+  WalletExportResponse,
+  WalletRotateRequest,
+  WalletRotationResponse,
+  WalletDeleteRequest,
+  WalletDeletionResponse,
+  NonceStatusRequest,
+  NonceCreateRequest,
+  NoncePoolStatus,
+  NonceCreationResponse,
+  ManagementErrorResponse,
+  SolanaCluster,
+  RaydiumCacheConfig,
 } from './types';
 import type { SigningKeypair } from './transport/transport.interface';
 import { ExecutionError, ErrorCode, fromUnknownError } from './errors';
+import { resolveRetryPolicy, withRetry, ResolvedRetryPolicy } from './utils/retry';
+import {
+  resolveNonceBackpressure,
+  isNoncePoolExhausted,
+  ResolvedNonceBackpressure,
+} from './utils/nonce';
+import { confirmTransaction, toConfirmationCommitment } from './utils/confirmation';
+import { RaydiumCache } from './raydium/cache';
+import { DEFAULT_CLUSTER } from './utils/cluster';
+import { validateOperation, normalizeOperation } from './utils/validation';
+import { parseTransactionEvent } from './utils/events';
+import { LatencyTracker, DEFAULT_LATENCY_WINDOW } from './utils/latency';
 
 /**
  * Default client configuration
  */
 const DEFAULT_CONFIG: Required<
-  Omit<ClientConfig, 'logger' | 'apiKey' | 'contentType' | 'zmqAddress' | 'connection' | 'commitment'>
+  Omit<
+    ClientConfig,
+    | 'logger'
+    | 'apiKey'
+    | 'contentType'
+    | 'zmqAddress'
+    | 'connection'
+    | 'commitment'
+    | 'retryPolicy'
+    | 'nonceBackpressure'
+    | 'failover'
+    | 'raydiumCache'
+    | 'cluster'
+    | 'eventsAddress'
+    | 'tracer'
+    | 'wrapTransport'
+  >
 > & {
   logger: Logger;
   apiKey: string;
@@ -39,15 +98,25 @@ const DEFAULT_CONFIG: Required<
   autoReconnect: true,
   maxReconnectAttempts: 5,
   reconnectDelay: 1000, // 1 second
+  latencyWindow: DEFAULT_LATENCY_WINDOW,
   verbose: false,
   logger: console,
 };
 
 /**
- * Detect transport type from URL scheme
+ * Reject an empty required string argument
+ */
+function requireField(value: string, field: string): void {
+  if (!value) {
+    throw new ExecutionError(`Missing ${field}`, ErrorCode.INVALID_REQUEST, 'CLIENT');
+  }
+}
+
+/**
+ * Check whether an engine-reported code is one of ours
  */
-function isHTTPAddress(address: string): boolean {
-  return address.startsWith('http://') || address.startsWith('https://');
+function isErrorCode(code: unknown): code is ErrorCode {
+  return Object.values(ErrorCode).includes(code as ErrorCode);
 }
 
 /**
@@ -101,11 +170,24 @@ function isHTTPAddress(address: string): boolean {
 export class LysFlash {
   private transport: Transport;
   private config: typeof DEFAULT_CONFIG;
-  private stats: ClientStats;
-  private transportType: 'HTTP' | 'ZMQ';
+  private stats: Omit<ClientStats, 'latency'>;
+  private latencyTracker: LatencyTracker;
+  private latencyCount: number = 0;
+  private retryPolicy: ResolvedRetryPolicy;
+  private nonceBackpressure?: ResolvedNonceBackpressure;
+  private transportType: 'HTTP' | 'ZMQ' | 'FAILOVER';
   private _connection?: Connection;
   private _commitment: Commitment;
+  private _cluster: SolanaCluster;
   private _clientMode: ClientMode;
+  private eventsAddress?: string;
+  private tracer?: Tracer;
+  private raydiumCache?: RaydiumCache;
+  private raydiumCacheConfig?: RaydiumCacheConfig;
+  private eventStreams: Set<EventStream> = new Set();
+  private broadcastLatencySamples: Map<string, number> = new Map();
+  private requestListeners: Set<(record: RequestRecord) => void> = new Set();
+  private reconnectListeners: Set<() => void> = new Set();
 
   /**
    * Create an internal-mode client (no request signing required).
@@ -178,13 +260,51 @@ export class LysFlash {
     // Store connection for DEX operations (Meteora, Raydium, etc.)
     this._connection = config?.connection;
     this._commitment = config?.commitment || 'confirmed';
+    this._cluster = config?.cluster || DEFAULT_CLUSTER;
+    this.eventsAddress = config?.eventsAddress;
+    this.tracer = config?.tracer;
+
+    // Raydium instances and pool info are cached per client (created on first use)
+    this.raydiumCacheConfig = config?.raydiumCache;
+
+    // Resolve retry policy (single attempt when not configured)
+    this.retryPolicy = resolveRetryPolicy(config?.retryPolicy);
+
+    // Resolve nonce backpressure (disabled when not configured)
+    this.nonceBackpressure = resolveNonceBackpressure(config?.nonceBackpressure);
+
+    if (!(this.config.latencyWindow > 0)) {
+      throw new ExecutionError(
+        `Invalid latencyWindow: ${this.config.latencyWindow} (must be a positive number of milliseconds)`,
+        ErrorCode.INVALID_REQUEST,
+        'CLIENT'
+      );
+    }
+    this.latencyTracker = new LatencyTracker(this.config.latencyWindow);
 
     // Determine transport type from address
     const useHTTP = isHTTPAddress(address);
-    this.transportType = useHTTP ? 'HTTP' : 'ZMQ';
+    this.transportType = config?.failover ? 'FAILOVER' : useHTTP ? 'HTTP' : 'ZMQ';
 
     // Create transport based on address scheme
-    if (useHTTP) {
+    if (config?.failover) {
+      this.transport = new FailoverTransport({
+        addresses: config.failover.addresses,
+        strategy: config.failover.strategy || 'priority',
+        healthCheckInterval: config.failover.healthCheckInterval ?? 10000,
+        healthCheckTimeout: config.failover.healthCheckTimeout ?? 2000,
+        apiKey: this.config.apiKey,
+        contentType: this.config.contentType || 'msgpack',
+        timeout: this.config.timeout,
+        autoReconnect: this.config.autoReconnect,
+        maxReconnectAttempts: this.config.maxReconnectAttempts,
+        reconnectDelay: this.config.reconnectDelay,
+        logger: this.config.logger,
+        verbose: this.config.verbose,
+        tracer: this.tracer,
+        onReconnectAttempt: () => this.notifyReconnect(),
+      });
+    } else if (useHTTP) {
       // Validate API key for HTTP transport
       if (!this.config.apiKey) {
         throw new ExecutionError(
@@ -204,6 +324,8 @@ export class LysFlash {
         reconnectDelay: this.config.reconnectDelay,
         logger: this.config.logger,
         verbose: this.config.verbose,
+        tracer: this.tracer,
+        onReconnectAttempt: () => this.notifyReconnect(),
       };
 
       this.transport = new HTTPTransport(httpConfig);
@@ -217,11 +339,18 @@ export class LysFlash {
         reconnectDelay: this.config.reconnectDelay,
         logger: this.config.logger,
         verbose: this.config.verbose,
+        tracer: this.tracer,
+        onReconnectAttempt: () => this.notifyReconnect(),
       };
 
       this.transport = new ZMQTransport(zmqConfig);
     }
 
+    // Let callers decorate the transport (e.g. record/replay in tests)
+    if (config?.wrapTransport) {
+      this.transport = config.wrapTransport(this.transport);
+    }
+
     // Initialize statistics
     this.stats = {
       requestsSent: 0,
@@ -231,6 +360,11 @@ export class LysFlash {
       connected: false,
       connectedSince: new Date(),
       reconnectAttempts: 0,
+      totalAttempts: 0,
+      retryAttempts: 0,
+      requestsRetried: 0,
+      errors: {},
+      broadcasts: {},
     };
 
     // Connect on initialization
@@ -246,10 +380,37 @@ export class LysFlash {
   /**
    * Get the transport type being used
    */
-  getTransportType(): 'HTTP' | 'ZMQ' {
+  getTransportType(): 'HTTP' | 'ZMQ' | 'FAILOVER' {
     return this.transportType;
   }
 
+  /**
+   * Get health of each failover endpoint
+   *
+   * @returns Endpoint health in configured order, or an empty array when failover is not configured
+   *
+   * @example
+   * ```typescript
+   * for (const endpoint of client.getEndpointHealth()) {
+   *   console.log(endpoint.address, endpoint.healthy, endpoint.latency, endpoint.active);
+   * }
+   * ```
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    return this.transport instanceof FailoverTransport ? this.transport.getEndpointHealth() : [];
+  }
+
+  /**
+   * Get the configured tracer
+   *
+   * Used by the transaction builder and DEX namespaces to create spans.
+   *
+   * @returns Tracer, or undefined if tracing is disabled
+   */
+  getTracer(): Tracer | undefined {
+    return this.tracer;
+  }
+
   /**
    * Get the client mode (internal or external).
    */
@@ -298,6 +459,60 @@ export class LysFlash {
     return this._connection;
   }
 
+  /**
+   * Get the Raydium SDK instance and pool-info cache of this client
+   *
+   * Used by this client's Raydium namespaces and router. Pass it to Raydium Utils
+   * methods to share cached instances and pool info with them.
+   *
+   * @returns Raydium cache
+   * @throws ExecutionError if connection is not configured
+   *
+   * @example
+   * ```typescript
+   * const cache = client.getRaydiumCache();
+   * cache.invalidatePool(poolAddress);
+   * ```
+   */
+  getRaydiumCache(): RaydiumCache {
+    const connection = this.requireConnection();
+    if (!this.raydiumCache) {
+      this.raydiumCache = new RaydiumCache(connection, {
+        ...this.raydiumCacheConfig,
+        cluster: this._cluster,
+      });
+    }
+    return this.raydiumCache;
+  }
+
+  /**
+   * Drop cached Raydium pool info
+   *
+   * Call after a trade that moves a pool's price when the next quote must see it.
+   *
+   * @param pool - Pool address (omit to drop all cached pools)
+   *
+   * @example
+   * ```typescript
+   * await builder.raydium.cpmm.swap({ pool, ... });
+   * await builder.send();
+   * client.invalidateRaydiumCache(pool);
+   * ```
+   */
+  invalidateRaydiumCache(pool?: string | PublicKey): void {
+    this.raydiumCache?.invalidatePool(pool);
+  }
+
+  /**
+   * Get the configured Solana cluster
+   *
+   * @returns Cluster used by the Meteora and Raydium integrations
+   * @default 'mainnet'
+   */
+  getCluster(): SolanaCluster {
+    return this._cluster;
+  }
+
   /**
    * Get the configured commitment level
    *
@@ -331,6 +546,10 @@ export class LysFlash {
    * @returns Transaction response with signature or error
    * @throws ExecutionError on network error, timeout, or execution failure
    *
+   * Transport errors are retried according to `retryPolicy` (see {@link ClientConfig}).
+   * With `nonceBackpressure`, a request rejected for lack of a free durable nonce is
+   * resent once one is available.
+   *
    * @example Single operation
    * ```typescript
    * const result = await client.execute({
@@ -366,17 +585,28 @@ export class LysFlash {
    */
   async execute(request: TransactionRequest, signingKeypair?: SigningKeypair): Promise<TransactionResponse> {
     const startTime = Date.now();
+    const retries = { count: 0 };
+    let validated = false;
     this.stats.requestsSent++;
 
     try {
       // Validate request
       this.validateTransactionRequest(request);
+      validated = true;
 
-      const response = await this.transport.request<TransactionResponse>(request, signingKeypair);
+      const response = await this.sendTransaction(
+        this.normalizeTransactionRequest(request),
+        signingKeypair,
+        retries
+      );
 
       // Update statistics
-      const latency = Date.now() - startTime;
-      this.updateLatencyStats(latency);
+      const errorCode = response.success ? undefined : ErrorCode.EXECUTION_FAILED;
+      this.updateBroadcastStats(response.broadcasts);
+      this.recordRequest('execute', Date.now() - startTime, errorCode, request, {
+        retries: retries.count,
+        broadcasts: response.broadcasts,
+      });
 
       if (response.success) {
         this.stats.requestsSuccessful++;
@@ -386,15 +616,20 @@ export class LysFlash {
 
       return response;
     } catch (error) {
+      // Wrap unknown errors in ExecutionError
+      const executionError = fromUnknownError(error, 'CLIENT');
       this.stats.requestsFailed++;
 
-      // If it's already an ExecutionError, re-throw it
-      if (error instanceof ExecutionError) {
-        throw error;
+      // Requests rejected before reaching the transport have no meaningful latency
+      if (validated) {
+        this.recordRequest('execute', Date.now() - startTime, executionError.code, request, {
+          retries: retries.count,
+        });
+      } else {
+        this.recordRequest('execute', 0, executionError.code, request, { rejected: true });
       }
 
-      // Otherwise, wrap it
-      throw fromUnknownError(error, 'CLIENT');
+      throw executionError;
     }
   }
 
@@ -403,7 +638,7 @@ export class LysFlash {
    *
    * @param userPublicKey - User's Solana public key for encryption (base58 encoded)
    * @returns Wallet creation response with encrypted secret key
-   * @throws ExecutionError on network error or wallet creation failure
+   * @throws ExecutionError on network error or if the engine rejects the request
    *
    * @example
    * ```typescript
@@ -425,6 +660,8 @@ export class LysFlash {
    * ```
    */
   async createWallet(userPublicKey: string, signingKeypair?: SigningKeypair): Promise<WalletCreationResponse> {
+    const startTime = Date.now();
+    const retries = { count: 0 };
     this.stats.requestsSent++;
 
     try {
@@ -433,20 +670,348 @@ export class LysFlash {
         userPublicKey,
       };
 
-      const response = await this.transport.request<WalletCreationResponse>(request, signingKeypair);
+      const response = await this.requestManagement<WalletCreationResponse>(
+        request,
+        signingKeypair,
+        retries
+      );
 
+      this.recordRequest('createWallet', Date.now() - startTime, undefined, undefined, {
+        retries: retries.count,
+      });
       this.stats.requestsSuccessful++;
 
       return response;
     } catch (error) {
+      const executionError = fromUnknownError(error, 'CLIENT');
+      this.recordRequest('createWallet', Date.now() - startTime, executionError.code, undefined, {
+        retries: retries.count,
+      });
       this.stats.requestsFailed++;
 
-      if (error instanceof ExecutionError) {
-        throw error;
-      }
+      throw executionError;
+    }
+  }
 
-      throw fromUnknownError(error, 'CLIENT');
+  /**
+   * List the wallets the execution engine manages for this API key
+   *
+   * @returns Wallet public keys and creation times
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * const { wallets } = await client.listWallets();
+   * wallets.forEach((wallet) => console.log(wallet.publicKey));
+   * ```
+   */
+  async listWallets(signingKeypair?: SigningKeypair): Promise<WalletListResponse> {
+    const request: WalletListRequest = { type: 'WALLET_LIST' };
+    return this.requestManagement<WalletListResponse>(request, signingKeypair);
+  }
+
+  /**
+   * Get the SOL balance of a managed wallet
+   *
+   * @param wallet - Wallet public key (base58 encoded)
+   * @returns Balance in lamports
+   * @throws ExecutionError (WALLET_NOT_FOUND) if the engine does not manage the wallet
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * const { lamports } = await client.getWalletBalance(wallet.publicKey);
+   * console.log("Balance:", lamports / 1e9, "SOL");
+   * ```
+   */
+  async getWalletBalance(
+    wallet: string,
+    signingKeypair?: SigningKeypair
+  ): Promise<WalletBalanceResponse> {
+    requireField(wallet, 'wallet');
+
+    const request: WalletBalanceRequest = { type: 'WALLET_BALANCE', wallet };
+    return this.requestManagement<WalletBalanceResponse>(request, signingKeypair);
+  }
+
+  /**
+   * Export a managed wallet's secret key, encrypted to a public key
+   *
+   * The key may differ from the one the wallet was created for, e.g. to hand a wallet
+   * over to another service. Decrypt the result with `decryptWallet()`.
+   *
+   * @param wallet - Wallet public key (base58 encoded)
+   * @param userPublicKey - Solana public key to encrypt to (base58 encoded)
+   * @returns Encrypted secret key
+   * @throws ExecutionError (WALLET_NOT_FOUND) if the engine does not manage the wallet
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * const exported = await client.exportWallet(wallet.publicKey, backupKeypair.publicKey.toBase58());
+   * const walletKeypair = decryptWallet(exported, backupKeypair);
+   * ```
+   */
+  async exportWallet(
+    wallet: string,
+    userPublicKey: string,
+    signingKeypair?: SigningKeypair
+  ): Promise<WalletExportResponse> {
+    requireField(wallet, 'wallet');
+    requireField(userPublicKey, 'userPublicKey');
+
+    const request: WalletExportRequest = { type: 'WALLET_EXPORT', wallet, userPublicKey };
+    return this.requestManagement<WalletExportResponse>(request, signingKeypair);
+  }
+
+  /**
+   * Replace a managed wallet with a new keypair
+   *
+   * The engine generates a new wallet, moves the old wallet's SOL to it and retires the
+   * old wallet. Use the new `publicKey` as fee payer from now on.
+   *
+   * @param wallet - Public key of the wallet to retire (base58 encoded)
+   * @param userPublicKey - Solana public key to encrypt the new secret key to (base58 encoded)
+   * @returns New wallet, encrypted like `createWallet()`, and the retired public key
+   * @throws ExecutionError (WALLET_NOT_FOUND) if the engine does not manage the wallet
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * const rotated = await client.rotateWallet(wallet.publicKey, userKeypair.publicKey.toBase58());
+   * const walletKeypair = decryptWallet(rotated, userKeypair);
+   * ```
+   */
+  async rotateWallet(
+    wallet: string,
+    userPublicKey: string,
+    signingKeypair?: SigningKeypair
+  ): Promise<WalletRotationResponse> {
+    requireField(wallet, 'wallet');
+    requireField(userPublicKey, 'userPublicKey');
+
+    const request: WalletRotateRequest = { type: 'WALLET_ROTATE', wallet, userPublicKey };
+    return this.requestManagement<WalletRotationResponse>(request, signingKeypair);
+  }
+
+  /**
+   * Delete a managed wallet
+   *
+   * The engine forgets the secret key. Export the wallet first if it still holds funds.
+   *
+   * @param wallet - Wallet public key (base58 encoded)
+   * @returns Deleted wallet public key
+   * @throws ExecutionError (WALLET_NOT_FOUND) if the engine does not manage the wallet
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * await client.deleteWallet(wallet.publicKey);
+   * ```
+   */
+  async deleteWallet(
+    wallet: string,
+    signingKeypair?: SigningKeypair
+  ): Promise<WalletDeletionResponse> {
+    requireField(wallet, 'wallet');
+
+    const request: WalletDeleteRequest = { type: 'WALLET_DELETE', wallet };
+    return this.requestManagement<WalletDeletionResponse>(request, signingKeypair);
+  }
+
+  /**
+   * Get the status of the engine's durable nonce pool
+   *
+   * FLASH transactions each hold one nonce account of the fee payer until they land.
+   * When none is available the engine rejects the request with `NONCE_POOL_EXHAUSTED`.
+   *
+   * @param wallet - Only report this wallet (base58 encoded); omit for every wallet
+   * @returns Pool totals and a per-wallet breakdown
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * const status = await client.getNoncePoolStatus(wallet);
+   * console.log(`${status.available}/${status.size} nonces free, ${status.inUse} in use`);
+   * ```
+   */
+  async getNoncePoolStatus(
+    wallet?: string,
+    signingKeypair?: SigningKeypair
+  ): Promise<NoncePoolStatus> {
+    const request: NonceStatusRequest = { type: 'NONCE_STATUS', wallet };
+    return this.requestManagement<NoncePoolStatus>(request, signingKeypair);
+  }
+
+  /**
+   * Create durable nonce accounts for a fee payer
+   *
+   * Pre-warms the pool ahead of a burst of FLASH transactions. The fee payer must be a
+   * wallet managed by the engine (see {@link createWallet}) and pays the rent.
+   *
+   * @param feePayer - Wallet that owns the new nonce accounts (base58 encoded)
+   * @param count - Number of nonce accounts to create
+   * @returns New nonce account addresses and the wallet's pool size
+   * @throws ExecutionError (INVALID_REQUEST) if `feePayer` or `count` is invalid
+   * @throws ExecutionError on network error or if the engine rejects the request
+   *
+   * @example
+   * ```typescript
+   * const { nonceAccounts, size } = await client.createNonceAccounts(wallet, 4);
+   * console.log(`Created ${nonceAccounts.length} nonce accounts (${size} total)`);
+   * ```
+   */
+  async createNonceAccounts(
+    feePayer: string,
+    count: number = 1,
+    signingKeypair?: SigningKeypair
+  ): Promise<NonceCreationResponse> {
+    requireField(feePayer, 'feePayer');
+
+    if (!Number.isInteger(count) || count < 1) {
+      throw new ExecutionError(
+        'Invalid count: must be a positive integer',
+        ErrorCode.INVALID_REQUEST,
+        'CLIENT'
+      );
     }
+
+    const request: NonceCreateRequest = { type: 'NONCE_CREATE', feePayer, count };
+    return this.requestManagement<NonceCreationResponse>(request, signingKeypair);
+  }
+
+  /**
+   * Wait for a transaction to reach a commitment level
+   *
+   * Uses the configured `connection` to poll the signature status.
+   *
+   * @param signature - Transaction signature (base58 encoded)
+   * @param options - Commitment, timeout and expiry options
+   * @returns Slot and commitment level reached
+   * @throws ExecutionError (ON_CHAIN_ERROR) if the transaction failed on-chain
+   * @throws ExecutionError (TIMEOUT) if the blockhash or nonce expired or the timeout elapsed
+   * @throws ExecutionError (INVALID_REQUEST) if no connection is configured
+   *
+   * @example
+   * ```typescript
+   * const result = await client.execute(request);
+   * if (result.success) {
+   *   const confirmation = await client.confirm(result.signature, { commitment: 'finalized' });
+   *   console.log("Finalized in slot", confirmation.slot);
+   * }
+   * ```
+   */
+  async confirm(signature: string, options: ConfirmOptions = {}): Promise<ConfirmationResult> {
+    const { commitment, ...confirmOptions } = options;
+
+    return confirmTransaction(
+      this.requireConnection(),
+      signature,
+      commitment ?? toConfirmationCommitment(this._commitment),
+      confirmOptions
+    );
+  }
+
+  /**
+   * Stream transaction lifecycle events as they happen
+   *
+   * Events arrive per signature: one `submitted` event per broadcast endpoint, then
+   * `landed`, `confirmed` or `failed`. With FLASH multi-broadcast this shows which
+   * endpoints accepted the transaction and which one landed first, before `execute()`
+   * resolves with the final response.
+   *
+   * ZMQ clients subscribe to the engine's PUB socket at `eventsAddress`. HTTP clients
+   * open a Server-Sent Events stream at `eventsAddress`, or `/api/events` on `address`.
+   *
+   * @param onEvent - Called with every matching event
+   * @param options - Signature and event type filters
+   * @returns Subscription handle; call `unsubscribe()` when done
+   * @throws ExecutionError if no event stream address is available
+   *
+   * @example
+   * ```typescript
+   * const subscription = client.subscribe((event) => {
+   *   if (event.type === 'submitted') {
+   *     console.log(`${event.signature} sent via ${event.endpoint}`);
+   *   } else if (event.type === 'landed') {
+   *     console.log(`${event.signature} landed in slot ${event.slot}`);
+   *   }
+   * });
+   *
+   * const result = await client.execute(request);
+   * subscription.unsubscribe();
+   * ```
+   */
+  subscribe(
+    onEvent: (event: TransactionEvent) => void,
+    options: SubscribeOptions = {}
+  ): Subscription {
+    const address = this.resolveEventsAddress();
+    const signatures = options.signatures ?? [];
+    const signatureFilter = signatures.length > 0 ? new Set(signatures) : undefined;
+    const typeFilter = options.types ? new Set(options.types) : undefined;
+    const logger = this.config.logger;
+
+    const streamConfig: EventStreamConfig = {
+      address,
+      signatures,
+      autoReconnect: this.config.autoReconnect,
+      maxReconnectAttempts: this.config.maxReconnectAttempts,
+      reconnectDelay: this.config.reconnectDelay,
+      logger,
+      verbose: this.config.verbose,
+      onEvent: (raw) => {
+        const event = parseTransactionEvent(raw);
+        if (
+          !event ||
+          (signatureFilter && !signatureFilter.has(event.signature)) ||
+          (typeFilter && !typeFilter.has(event.type))
+        ) {
+          return;
+        }
+        try {
+          onEvent(event);
+        } catch (error) {
+          logger.error(
+            `Event listener threw: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      },
+      onError: (error) => {
+        this.eventStreams.delete(stream);
+        if (options.onError) {
+          options.onError(error);
+        }
+      },
+    };
+
+    let stream: EventStream;
+    if (isHTTPAddress(address)) {
+      if (!this.config.apiKey) {
+        throw new ExecutionError(
+          'API key is required for HTTP event streams. Set the apiKey option.',
+          ErrorCode.INVALID_REQUEST,
+          'CLIENT'
+        );
+      }
+      stream = new HTTPEventStream({ ...streamConfig, apiKey: this.config.apiKey });
+    } else {
+      stream = new ZMQEventStream(streamConfig);
+    }
+
+    stream.open();
+    this.eventStreams.add(stream);
+
+    const eventStreams = this.eventStreams;
+    return {
+      get active() {
+        return stream.isOpen();
+      },
+      unsubscribe() {
+        stream.close();
+        eventStreams.delete(stream);
+      },
+    };
   }
 
   /**
@@ -486,6 +1051,51 @@ export class LysFlash {
       ...this.stats,
       connected: this.transport.isConnected(),
       reconnectAttempts: this.transport.getReconnectAttempts(),
+      latency: this.latencyTracker.getStats(),
+      errors: { ...this.stats.errors },
+      broadcasts: Object.fromEntries(
+        Object.entries(this.stats.broadcasts).map(([endpoint, stats]) => [endpoint, { ...stats }])
+      ),
+    };
+  }
+
+  /**
+   * Register a listener called after every `execute()` and `createWallet()` request
+   *
+   * Requests rejected by client-side validation are reported with `rejected: true`.
+   *
+   * @param listener - Called with the request's latency and outcome
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const off = client.onRequestComplete((record) => {
+   *   if (!record.success) {
+   *     console.warn(`${record.method} failed with ${record.errorCode} after ${record.latency}ms`);
+   *   }
+   * });
+   * ```
+   */
+  onRequestComplete(listener: (record: RequestRecord) => void): () => void {
+    this.requestListeners.add(listener);
+    return () => {
+      this.requestListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener called on every transport reconnection attempt
+   *
+   * Unlike `getStats().reconnectAttempts`, which restarts after a successful connect,
+   * this reports every attempt.
+   *
+   * @param listener - Called before each reconnection attempt
+   * @returns Function that removes the listener
+   */
+  onReconnect(listener: () => void): () => void {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
     };
   }
 
@@ -501,7 +1111,15 @@ export class LysFlash {
       connected: this.transport.isConnected(),
       connectedSince: new Date(),
       reconnectAttempts: 0,
+      totalAttempts: 0,
+      retryAttempts: 0,
+      requestsRetried: 0,
+      errors: {},
+      broadcasts: {},
     };
+    this.broadcastLatencySamples.clear();
+    this.latencyTracker.reset();
+    this.latencyCount = 0;
     this.transport.resetReconnectAttempts();
   }
 
@@ -518,6 +1136,10 @@ export class LysFlash {
    * ```
    */
   close(): void {
+    for (const stream of this.eventStreams) {
+      stream.close();
+    }
+    this.eventStreams.clear();
     this.transport.disconnect();
     this.stats.connected = false;
   }
@@ -530,150 +1152,356 @@ export class LysFlash {
   }
 
   /**
-   * Validate transaction request parameters
+   * Address of the transaction event stream
    * @private
    */
-  private validateTransactionRequest(request: TransactionRequest): void {
-    if (!request.data) {
-      throw new ExecutionError(
-        'Missing data field in request',
-        ErrorCode.INVALID_REQUEST,
-        'CLIENT'
-      );
+  private resolveEventsAddress(): string {
+    if (this.eventsAddress) {
+      return this.eventsAddress;
     }
 
-    if (!request.feePayer) {
-      throw new ExecutionError(
-        'Missing feePayer field in request',
-        ErrorCode.INVALID_REQUEST,
-        'CLIENT'
-      );
+    if (this.transportType === 'HTTP') {
+      return new URL('/api/events', this.config.address).toString();
     }
 
-    if (typeof request.priorityFeeLamports !== 'number' || request.priorityFeeLamports < 0) {
-      throw new ExecutionError(
-        'Invalid priorityFeeLamports: must be a non-negative number',
-        ErrorCode.INVALID_REQUEST,
-        'CLIENT'
+    throw new ExecutionError(
+      'eventsAddress is required to subscribe with ZMQ or failover transports. Set the eventsAddress option.',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  /**
+   * Send a request through the transport, retrying per the configured retry policy
+   *
+   * `retries.count` is incremented on every retry attempt.
+   * @private
+   */
+  private requestWithRetry<T>(
+    message: unknown,
+    signingKeypair?: SigningKeypair,
+    retries?: { count: number }
+  ): Promise<T> {
+    return withRetry(
+      () => {
+        this.stats.totalAttempts++;
+        return this.transport.request<T>(message, signingKeypair);
+      },
+      this.retryPolicy,
+      (error, attempt, delay) => {
+        this.stats.retryAttempts++;
+        if (retries) {
+          retries.count++;
+        }
+        if (attempt === 1) {
+          this.stats.requestsRetried++;
+        }
+
+        this.config.logger.warn(
+          `Request failed with ${error.code}. Retrying in ${delay}ms (attempt ${attempt + 1}/${this.retryPolicy.maxAttempts})`
+        );
+      }
+    );
+  }
+
+  /**
+   * Send a wallet or nonce management request, turning error responses into errors
+   *
+   * The error code comes from the response's `code`; responses without a known code
+   * throw `EXECUTION_FAILED`.
+   * @private
+   */
+  private async requestManagement<T>(
+    message: unknown,
+    signingKeypair?: SigningKeypair,
+    retries?: { count: number }
+  ): Promise<T> {
+    let response: T | ManagementErrorResponse;
+    try {
+      response = await this.requestWithRetry<T | ManagementErrorResponse>(
+        message,
+        signingKeypair,
+        retries
       );
+    } catch (error) {
+      throw fromUnknownError(error, 'CLIENT');
     }
 
-    if (!request.transport) {
+    if ((response as { success?: unknown }).success === false) {
+      const { error, code } = response as ManagementErrorResponse;
       throw new ExecutionError(
-        'Missing transport field in request',
-        ErrorCode.INVALID_REQUEST,
-        'CLIENT'
+        error || 'Request failed',
+        isErrorCode(code) ? code : ErrorCode.EXECUTION_FAILED,
+        this.transportType
       );
     }
+    return response as T;
+  }
 
-    // Validate each operation in data array
-    const operations = Array.isArray(request.data) ? request.data : [request.data];
-    for (const operation of operations) {
-      if (!operation.executionType) {
-        throw new ExecutionError(
-          'Missing executionType in operation',
-          ErrorCode.INVALID_REQUEST,
-          'CLIENT'
+  /**
+   * Send a transaction request, waiting for a free durable nonce when backpressure is enabled
+   * @private
+   */
+  private async sendTransaction(
+    request: TransactionRequest,
+    signingKeypair?: SigningKeypair,
+    retries?: { count: number }
+  ): Promise<TransactionResponse> {
+    const backpressure = this.nonceBackpressure;
+    if (!backpressure) {
+      return this.requestWithRetry<TransactionResponse>(request, signingKeypair, retries);
+    }
+
+    const deadline = Date.now() + backpressure.maxWait;
+    for (;;) {
+      let outcome: TransactionResponse | ExecutionError;
+      try {
+        outcome = await this.requestWithRetry<TransactionResponse>(
+          request,
+          signingKeypair,
+          retries
         );
+      } catch (error) {
+        outcome = fromUnknownError(error, 'CLIENT');
       }
 
-      // RAW_TRANSACTION has specific validation
-      if (operation.executionType === 'RAW_TRANSACTION') {
-        this.validateRawTransactionOperation(operation as RawTransactionParams);
-        continue;
+      const exhausted = isNoncePoolExhausted(outcome);
+      if (!exhausted || Date.now() >= deadline) {
+        if (exhausted) {
+          this.config.logger.warn(
+            `No free nonce for ${request.feePayer} after ${backpressure.maxWait}ms`
+          );
+        }
+        if (outcome instanceof ExecutionError) {
+          throw outcome;
+        }
+        return outcome;
       }
 
-      if (!operation.eventType) {
-        throw new ExecutionError(
-          'Missing eventType in operation',
-          ErrorCode.INVALID_REQUEST,
-          'CLIENT'
+      this.config.logger.debug(`Nonce pool exhausted for ${request.feePayer}, waiting`);
+      await this.waitForNonce(request.feePayer, deadline, backpressure, signingKeypair);
+    }
+  }
+
+  /**
+   * Poll the fee payer's nonce pool until a nonce is free or the deadline passes
+   *
+   * Engines that cannot report pool status are simply polled by resending the request.
+   * @private
+   */
+  private async waitForNonce(
+    feePayer: string,
+    deadline: number,
+    backpressure: ResolvedNonceBackpressure,
+    signingKeypair?: SigningKeypair
+  ): Promise<void> {
+    const request: NonceStatusRequest = { type: 'NONCE_STATUS', wallet: feePayer };
+
+    while (Date.now() < deadline) {
+      const delay = Math.min(backpressure.pollInterval, deadline - Date.now());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      try {
+        const status = await this.transport.request<Partial<NoncePoolStatus>>(
+          request,
+          signingKeypair
         );
+        const wallet = status.wallets?.find((entry) => entry.wallet === feePayer);
+        if ((wallet?.available ?? status.available ?? 0) > 0) {
+          return;
+        }
+      } catch {
+        return;
       }
     }
   }
 
   /**
-   * Validate RAW_TRANSACTION operation
+   * Validate transaction request parameters
    * @private
    */
-  private validateRawTransactionOperation(operation: RawTransactionParams): void {
-    if (!operation.transactionBytes) {
+  private validateTransactionRequest(request: TransactionRequest): void {
+    if (!request.data) {
       throw new ExecutionError(
-        'Missing transactionBytes in RAW_TRANSACTION operation',
+        'Missing data field in request',
         ErrorCode.INVALID_REQUEST,
         'CLIENT'
       );
     }
 
-    if (!(operation.transactionBytes instanceof Uint8Array)) {
+    if (!request.feePayer) {
       throw new ExecutionError(
-        'transactionBytes must be a Uint8Array',
+        'Missing feePayer field in request',
         ErrorCode.INVALID_REQUEST,
         'CLIENT'
       );
     }
 
-    // Size validation (Solana tx limit: ~1232 bytes)
-    if (operation.transactionBytes.length < 100) {
+    if (typeof request.priorityFeeLamports !== 'number' || request.priorityFeeLamports < 0) {
       throw new ExecutionError(
-        `Transaction too small (${operation.transactionBytes.length} bytes)`,
+        'Invalid priorityFeeLamports: must be a non-negative number',
         ErrorCode.INVALID_REQUEST,
         'CLIENT'
       );
     }
 
-    if (operation.transactionBytes.length > 1500) {
+    if (!request.transport) {
       throw new ExecutionError(
-        `Transaction too large (${operation.transactionBytes.length} bytes)`,
+        'Missing transport field in request',
         ErrorCode.INVALID_REQUEST,
         'CLIENT'
       );
     }
 
-    // Validate additionalSigners if provided (public keys, base58)
-    if (operation.additionalSigners) {
-      if (!Array.isArray(operation.additionalSigners)) {
-        throw new ExecutionError(
-          'additionalSigners must be an array',
-          ErrorCode.INVALID_REQUEST,
-          'CLIENT'
-        );
-      }
-
-      for (let i = 0; i < operation.additionalSigners.length; i++) {
-        const signer = operation.additionalSigners[i];
-        if (typeof signer !== 'string') {
-          throw new ExecutionError(
-            `additionalSigners[${i}] must be a base58 string`,
-            ErrorCode.INVALID_REQUEST,
-            'CLIENT'
-          );
-        }
-        // Basic base58 validation (32-44 chars for Solana public keys)
-        if (signer.length < 32 || signer.length > 44) {
-          throw new ExecutionError(
-            `additionalSigners[${i}] is not a valid public key`,
-            ErrorCode.INVALID_REQUEST,
-            'CLIENT'
-          );
-        }
-      }
+    // Validate each operation against its schema
+    if (Array.isArray(request.data)) {
+      request.data.forEach((operation, index) => validateOperation(operation, `data[${index}]`));
+    } else {
+      validateOperation(request.data);
     }
   }
 
+  /**
+   * Convert operation amounts to their wire form (see `normalizeOperation`)
+   * @private
+   */
+  private normalizeTransactionRequest(request: TransactionRequest): TransactionRequest {
+    return {
+      ...request,
+      data: Array.isArray(request.data)
+        ? request.data.map(normalizeOperation)
+        : normalizeOperation(request.data),
+    };
+  }
+
   /**
    * Update average latency statistics
    * @private
    */
   private updateLatencyStats(latency: number): void {
-    const totalRequests = this.stats.requestsSuccessful + this.stats.requestsFailed;
-    if (totalRequests === 1) {
+    this.latencyCount++;
+    if (this.latencyCount === 1) {
       this.stats.averageLatency = latency;
     } else {
       // Calculate running average
       this.stats.averageLatency =
-        (this.stats.averageLatency * (totalRequests - 1) + latency) / totalRequests;
+        (this.stats.averageLatency * (this.latencyCount - 1) + latency) / this.latencyCount;
+    }
+  }
+
+  /**
+   * Record a completed request in the statistics and notify request listeners
+   * @private
+   */
+  private recordRequest(
+    method: RequestRecord['method'],
+    latency: number,
+    errorCode?: ErrorCode,
+    request?: TransactionRequest,
+    details: Partial<Pick<RequestRecord, 'retries' | 'broadcasts' | 'rejected'>> = {}
+  ): void {
+    const success = errorCode === undefined;
+    let transport: TransportMode | undefined;
+    const executionTypes = new Set<string>();
+
+    if (method === 'execute') {
+      // Rejected requests may be malformed
+      const data = request?.data;
+      const operations = Array.isArray(data) ? data : [data];
+      for (const operation of operations) {
+        if (operation && typeof operation.executionType === 'string') {
+          executionTypes.add(operation.executionType);
+        }
+      }
+      transport = request?.transport === 'NONCE' ? 'FLASH' : request?.transport;
+    } else {
+      executionTypes.add('WALLET_CREATE');
+    }
+
+    if (!details.rejected) {
+      this.updateLatencyStats(latency);
+      this.latencyTracker.record(latency, success, transport, [...executionTypes]);
+    }
+    if (errorCode !== undefined) {
+      this.countError(errorCode);
+    }
+
+    const record: RequestRecord = {
+      method,
+      latency,
+      success,
+      transport,
+      executionTypes: [...executionTypes],
+      errorCode,
+      retries: details.retries ?? 0,
+      broadcasts: details.broadcasts,
+      rejected: details.rejected,
+    };
+    for (const listener of this.requestListeners) {
+      try {
+        listener(record);
+      } catch (error) {
+        this.config.logger.error(
+          `Request listener threw: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Notify reconnect listeners of a transport reconnection attempt
+   * @private
+   */
+  private notifyReconnect(): void {
+    for (const listener of this.reconnectListeners) {
+      try {
+        listener();
+      } catch (error) {
+        this.config.logger.error(
+          `Reconnect listener threw: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Count a failed request by error code
+   * @private
+   */
+  private countError(code: ErrorCode): void {
+    this.stats.errors[code] = (this.stats.errors[code] ?? 0) + 1;
+  }
+
+  /**
+   * Aggregate per-endpoint broadcast results into statistics
+   * @private
+   */
+  private updateBroadcastStats(broadcasts?: BroadcastResult[]): void {
+    if (!Array.isArray(broadcasts)) {
+      return;
+    }
+
+    for (const broadcast of broadcasts) {
+      let stats = this.stats.broadcasts[broadcast.endpoint];
+      if (!stats) {
+        stats = { sent: 0, failed: 0, landed: 0, winRate: 0, averageLatency: 0 };
+        this.stats.broadcasts[broadcast.endpoint] = stats;
+      }
+
+      stats.sent++;
+      if (!broadcast.success) {
+        stats.failed++;
+      }
+      if (broadcast.landed) {
+        stats.landed++;
+      }
+      stats.winRate = stats.landed / stats.sent;
+
+      if (typeof broadcast.latency === 'number') {
+        const samples = (this.broadcastLatencySamples.get(broadcast.endpoint) ?? 0) + 1;
+        this.broadcastLatencySamples.set(broadcast.endpoint, samples);
+        stats.averageLatency += (broadcast.latency - stats.averageLatency) / samples;
+      }
     }
   }
 }
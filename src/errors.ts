@@ -57,6 +57,11 @@ export enum ErrorCode {
    */
   SERVER_ERROR = 'SERVER_ERROR',
 
+  /**
+   * Transaction landed but failed on-chain (program error)
+   */
+  ON_CHAIN_ERROR = 'ON_CHAIN_ERROR',
+
   /**
    * Unknown error
    */
@@ -186,12 +191,59 @@ export class ExecutionError extends Error {
         return 'Failed to serialize/deserialize message. This is likely a bug.';
       case ErrorCode.CONNECTION_ERROR:
         return 'Failed to connect to the execution engine. Please ensure it is running.';
+      case ErrorCode.ON_CHAIN_ERROR:
+        return `Transaction failed on-chain: ${this.message}`;
       default:
         return `An unexpected error occurred: ${this.message}`;
     }
   }
 }
 
+/**
+ * Client-side validation error for a single request field
+ *
+ * Always has code `INVALID_REQUEST` and transport `CLIENT`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.execute(request);
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     console.error(`${error.field}: ${error.message}`); // "data[1].solAmountIn: ..."
+ *   }
+ * }
+ * ```
+ */
+export class ValidationError extends ExecutionError {
+  /**
+   * Path of the invalid field (e.g. `data[1].poolAccounts.coinCreator`)
+   */
+  public readonly field: string;
+
+  /**
+   * Create a new ValidationError
+   *
+   * @param field - Path of the invalid field
+   * @param reason - What is wrong with the field
+   */
+  constructor(field: string, reason: string) {
+    super(`Invalid ${field}: ${reason}`, ErrorCode.INVALID_REQUEST, 'CLIENT');
+
+    Object.setPrototypeOf(this, ValidationError.prototype);
+
+    this.name = 'ValidationError';
+    this.field = field;
+  }
+
+  /**
+   * Convert error to JSON for logging
+   */
+  toJSON() {
+    return { ...super.toJSON(), field: this.field };
+  }
+}
+
 /**
  * Create an ExecutionError from an unknown error
  *
@@ -39,9 +39,25 @@ export { Signer } from './signer';
 
 // Utilities
 export { decryptWallet } from './utils/wallet';
+export { DEFAULT_CLUSTER } from './utils/cluster';
+export {
+  validateOperation,
+  MAX_TOKEN_NAME_LENGTH,
+  MAX_TOKEN_SYMBOL_LENGTH,
+  MAX_TOKEN_URI_LENGTH,
+} from './utils/validation';
+export { toBigInt, U64_MAX } from './utils/amount';
 
 // Error handling
-export { ExecutionError, ErrorCode, fromUnknownError } from './errors';
+export { ExecutionError, ValidationError, ErrorCode, fromUnknownError } from './errors';
+
+// Pump.fun integration
+export {
+  PumpFunUtils,
+  PumpFunAmmUtils,
+  PUMP_FUN_PROGRAM_ID,
+  PUMP_FUN_AMM_PROGRAM_ID,
+} from './pumpfun';
 
 // Meteora integration
 export {
@@ -60,14 +76,20 @@ export {
 // Raydium integration
 export {
   RaydiumNamespace,
+  RaydiumCache,
+  DEFAULT_RAYDIUM_POOL_TTL,
+  DEFAULT_RAYDIUM_MAX_OWNERS,
+  getRaydiumProgramIds,
   // LaunchPad
   RaydiumLaunchPadNamespace,
   RaydiumLaunchPadUtils,
   RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  RAYDIUM_LAUNCHPAD_DEVNET_PROGRAM_ID,
   // CLMM
   RaydiumCLMMNamespace,
   RaydiumCLMMUtils,
   RAYDIUM_CLMM_PROGRAM_ID,
+  RAYDIUM_CLMM_DEVNET_PROGRAM_ID,
   // CPMM
   RaydiumCPMMNamespace,
   RaydiumCPMMUtils,
@@ -77,6 +99,54 @@ export {
   AMMV4_FEE_BPS,
 } from './raydium';
 
+// Cross-DEX routing
+export {
+  Router,
+  allocateSplits,
+  DEFAULT_ROUTE_SLIPPAGE_BPS,
+  DEFAULT_ROUTE_SPLIT_PARTS,
+} from './router';
+
+// Metrics
+export {
+  PrometheusExporter,
+  DEFAULT_METRICS_PREFIX,
+  DEFAULT_LATENCY_BUCKETS,
+  OPENMETRICS_CONTENT_TYPE,
+} from './metrics';
+export type { PrometheusExporterOptions, MetricsListenOptions } from './metrics';
+
+// Keystore
+export { Keystore, KEYSTORE_VERSION, DEFAULT_SCRYPT_PARAMS } from './keystore';
+export type { KeystoreOptions, KeystoreEntry, KeystoreFile, ScryptParams } from './keystore';
+
+// Testing
+export {
+  MockExecutionEngine,
+  RecordingTransport,
+  ReplayTransport,
+  normalizeTransactionBytes,
+  DEFAULT_MOCK_ZMQ_ADDRESS,
+  DEFAULT_MAX_TIMESTAMP_SKEW,
+  DEFAULT_MOCK_NONCE_POOL_SIZE,
+  FIXTURE_VERSION,
+} from './testing';
+export type {
+  MockEngineOptions,
+  MockEngineAddresses,
+  MockEngineTransport,
+  MockRequest,
+  MockRequestKind,
+  MockRequestHandler,
+  InjectErrorOptions,
+  FixtureEntry,
+  TransportFixture,
+  RecordingTransportOptions,
+  ReplayTransportOptions,
+  RequestNormalizer,
+} from './testing';
+export type { Transport, SigningKeypair } from './transport/transport.interface';
+
 // All types
 export * from './types';
 
@@ -87,18 +157,45 @@ export type {
   ClientMode,
   ClientStats,
   Logger,
+  RaydiumCacheConfig,
+  SolanaCluster,
 
   // Requests & responses
   TransactionRequest,
   TransactionResponse,
   SuccessResponse,
   ErrorResponse,
+  BroadcastResult,
   SimulationResponse,
   WalletCreationResponse,
+  WalletListResponse,
+  WalletBalanceResponse,
+  WalletExportResponse,
+  WalletRotationResponse,
+  WalletDeletionResponse,
+  NoncePoolStatus,
+  NonceCreationResponse,
+  ManagementErrorResponse,
+
+  // Confirmation
+  ConfirmOptions,
+  SendOptions,
+  ConfirmationResult,
+
+  // Transaction events
+  TransactionEvent,
+  SubscribeOptions,
+  Subscription,
+
+  // Tracing
+  Tracer,
 
   // Transport
   TransportMode,
 
+  // Operation amounts
+  Amount,
+
   // Pump.fun operations
   PumpFunBuyParams,
   PumpFunBuyExactSolInParams,
@@ -131,6 +228,23 @@ export type {
   RawTransactionParams,
 } from './types';
 
+// Pump.fun types (re-export for convenience)
+export type {
+  PumpFunBondingCurveState,
+  PumpFunFees,
+  PumpFunBuyQuote,
+  PumpFunSellQuote,
+  PumpFunAmmPoolState,
+  PumpFunAmmFees,
+  PumpFunAmmSwapQuote,
+  PumpFunAmmSwapQuoteExactOut,
+  PumpFunBuyWithSlippageParams,
+  PumpFunSellWithSlippageParams,
+  PumpFunAmmBuyWithSlippageParams,
+  PumpFunAmmBuyExactQuoteInWithSlippageParams,
+  PumpFunAmmSellWithSlippageParams,
+} from './pumpfun';
+
 // Meteora DBC types (re-export for convenience)
 export type {
   // Direction and mode types
@@ -174,9 +288,16 @@ export type {
   DAMMv2Sell2Params,
   DAMMv2BuyExactOutParams,
   DAMMv2SellExactOutParams,
+  // Liquidity params
+  DAMMv2CreatePositionParams,
+  DAMMv2AddLiquidityParams,
+  DAMMv2RemoveLiquidityParams,
+  DAMMv2ClaimPositionFeeParams,
+  DAMMv2ClosePositionParams,
   // State/query types
   DAMMv2PoolState,
   DAMMv2SwapQuote,
+  DAMMv2PositionInfo,
 } from './meteora';
 
 // Meteora DAMM v1 types (re-export for convenience)
@@ -199,13 +320,25 @@ export type {
   DLMMSellParams,
   DLMMBuyExactOutParams,
   DLMMSellExactOutParams,
+  // Liquidity params
+  DLMMStrategyType,
+  DLMMAddLiquidityByStrategyParams,
+  DLMMRemoveLiquidityParams,
+  DLMMClaimSwapFeeParams,
+  DLMMClaimAllRewardsParams,
+  DLMMClosePositionParams,
   // State/query types
   DLMMPoolState,
   DLMMActiveBin,
   DLMMSwapQuote,
   DLMMSwapQuoteExactOut,
+  DLMMPositionBin,
+  DLMMPositionInfo,
 } from './meteora';
 
+// Raydium cache types (re-export for convenience)
+export type { RaydiumPoolKind, RaydiumCacheOptions, RaydiumProgramIds } from './raydium';
+
 // Raydium LaunchPad types (re-export for convenience)
 export type {
   // Direction types
@@ -214,9 +347,13 @@ export type {
   RaydiumLaunchPadSwapParams,
   RaydiumLaunchPadBuyParams,
   RaydiumLaunchPadSellParams,
+  RaydiumLaunchPadSwapExactOutParams,
+  RaydiumLaunchPadBuyExactOutParams,
+  RaydiumLaunchPadSellExactOutParams,
   // State/query types
   RaydiumLaunchPadPoolState,
   RaydiumLaunchPadSwapQuote,
+  RaydiumLaunchPadSwapQuoteExactOut,
 } from './raydium';
 
 // Raydium CLMM types (re-export for convenience)
@@ -231,10 +368,17 @@ export type {
   RaydiumCLMMSellParams,
   RaydiumCLMMBuyExactOutParams,
   RaydiumCLMMSellExactOutParams,
+  // Liquidity params
+  RaydiumCLMMOpenPositionParams,
+  RaydiumCLMMIncreaseLiquidityParams,
+  RaydiumCLMMDecreaseLiquidityParams,
+  RaydiumCLMMHarvestRewardsParams,
+  RaydiumCLMMClosePositionParams,
   // State/query types
   RaydiumCLMMPoolState,
   RaydiumCLMMSwapQuote,
   RaydiumCLMMSwapQuoteExactOut,
+  RaydiumCLMMPositionInfo,
 } from './raydium';
 
 // Raydium CPMM types (re-export for convenience)
@@ -273,6 +417,17 @@ export type {
   RaydiumAMMv4SwapQuoteExactOut,
 } from './raydium';
 
+// Router types (re-export for convenience)
+export type {
+  RouteDex,
+  RoutePool,
+  RoutePoolInput,
+  RouterQuoteParams,
+  RouterSwapParams,
+  RouteLeg,
+  RouteQuote,
+} from './router';
+
 /**
  * Library version
  */
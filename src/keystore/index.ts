@@ -0,0 +1,16 @@
+/**
+ * Keystore Module
+ *
+ * Password-encrypted local storage for wallets and their decrypted keys.
+ *
+ * @module keystore
+ */
+
+// Keystore
+export { Keystore } from './keystore';
+
+// Constants
+export { KEYSTORE_VERSION, DEFAULT_SCRYPT_PARAMS } from './types';
+
+// Types
+export type { KeystoreOptions, KeystoreEntry, KeystoreFile, ScryptParams } from './types';
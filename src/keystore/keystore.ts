@@ -0,0 +1,462 @@
+/**
+ * Encrypted Wallet Keystore
+ *
+ * Password-protected file of named wallets: encrypted `createWallet()` responses and,
+ * optionally, their decrypted secret keys.
+ *
+ * @module keystore/keystore
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { scrypt, randomBytes } from 'crypto';
+import nacl from 'tweetnacl';
+import { Keypair } from '@solana/web3.js';
+import { Signer } from '../signer';
+import { decryptWallet } from '../utils/wallet';
+import type { WalletCreationResponse } from '../types';
+import type {
+  KeystoreEntry,
+  KeystoreFile,
+  KeystoreOptions,
+  ScryptParams,
+  StoredWallet,
+} from './types';
+import { DEFAULT_SCRYPT_PARAMS, KEYSTORE_VERSION } from './types';
+
+/**
+ * Salt length in bytes
+ */
+const SALT_LENGTH = 16;
+
+/**
+ * Largest scrypt memory use (128 * N * r bytes) accepted from options and keystore files
+ *
+ * 1 GiB, e.g. N = 2^20 with r = 8.
+ */
+const MAX_SCRYPT_MEMORY = 1024 * 1024 * 1024;
+
+/**
+ * Largest scrypt parallelization accepted from options and keystore files
+ */
+const MAX_SCRYPT_PARALLELIZATION = 16;
+
+/**
+ * Encrypted keystore for wallets
+ *
+ * Stores `createWallet()` responses and decrypted keypairs under names in a single
+ * file, encrypted with `nacl.secretbox` under a key derived from a password with scrypt.
+ * Every change is written to disk immediately (owner read/write only); concurrent changes
+ * are written one after another.
+ *
+ * @example
+ * ```typescript
+ * import { Keystore, TransactionBuilder, decryptWallet } from '@lyslabs.ai/lys-flash';
+ *
+ * const keystore = await Keystore.create('wallets.keystore', process.env.KEYSTORE_PASSWORD!);
+ * const wallet = await client.createWallet(userKeypair.publicKey.toBase58());
+ * await keystore.addWallet('trading', wallet, decryptWallet(wallet, userKeypair));
+ *
+ * // Later
+ * const reopened = await Keystore.open('wallets.keystore', process.env.KEYSTORE_PASSWORD!);
+ * await new TransactionBuilder(client, reopened.getSigner('trading'))
+ *   .pumpFunBuy({ ... })
+ *   .send();
+ * ```
+ */
+export class Keystore {
+  private readonly file: string;
+  private key: Uint8Array;
+  private kdf: KeystoreFile['kdf'];
+  private readonly wallets: Map<string, StoredWallet>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    file: string,
+    key: Uint8Array,
+    kdf: KeystoreFile['kdf'],
+    wallets: Map<string, StoredWallet>
+  ) {
+    this.file = file;
+    this.key = key;
+    this.kdf = kdf;
+    this.wallets = wallets;
+  }
+
+  /**
+   * Create a new, empty keystore file
+   *
+   * @param file - Keystore file path (parent directories are created)
+   * @param password - Password the encryption key is derived from
+   * @param options - Key derivation parameters
+   * @returns Keystore
+   * @throws Error if the file already exists, the password is empty or the scrypt
+   *   parameters are out of range
+   */
+  static async create(
+    file: string,
+    password: string,
+    options: KeystoreOptions = {}
+  ): Promise<Keystore> {
+    requirePassword(password);
+
+    const kdf: KeystoreFile['kdf'] = {
+      name: 'scrypt',
+      ...DEFAULT_SCRYPT_PARAMS,
+      ...options.scrypt,
+      salt: randomBytes(SALT_LENGTH).toString('base64'),
+    };
+    const key = await deriveKey(password, kdf);
+    const keystore = new Keystore(file, key, kdf, new Map());
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await keystore.write('wx');
+    return keystore;
+  }
+
+  /**
+   * Open an existing keystore file
+   *
+   * @param file - Keystore file path
+   * @param password - Keystore password
+   * @returns Keystore
+   * @throws Error if the file is missing or invalid (including scrypt parameters out of
+   *   range), or the password is wrong
+   */
+  static async open(file: string, password: string): Promise<Keystore> {
+    requirePassword(password);
+
+    const contents = JSON.parse(await fs.readFile(file, 'utf8')) as Partial<KeystoreFile>;
+    if (
+      contents.version !== KEYSTORE_VERSION ||
+      contents.kdf?.name !== 'scrypt' ||
+      typeof contents.nonce !== 'string' ||
+      typeof contents.ciphertext !== 'string'
+    ) {
+      throw new Error(`Invalid keystore file (expected version ${KEYSTORE_VERSION}): ${file}`);
+    }
+
+    const key = await deriveKey(password, contents.kdf);
+    const plaintext = nacl.secretbox.open(
+      Buffer.from(contents.ciphertext, 'base64'),
+      Buffer.from(contents.nonce, 'base64'),
+      key
+    );
+    if (!plaintext) {
+      throw new Error('Failed to decrypt keystore: wrong password or corrupted file');
+    }
+
+    const stored = JSON.parse(Buffer.from(plaintext).toString('utf8')) as Record<
+      string,
+      StoredWallet
+    >;
+    return new Keystore(file, key, contents.kdf, new Map(Object.entries(stored)));
+  }
+
+  /**
+   * Keystore file path
+   */
+  get path(): string {
+    return this.file;
+  }
+
+  /**
+   * Names of the stored wallets, in insertion order
+   */
+  names(): string[] {
+    return [...this.wallets.keys()];
+  }
+
+  /**
+   * Check whether a wallet name is taken
+   */
+  has(name: string): boolean {
+    return this.wallets.has(name);
+  }
+
+  /**
+   * Describe the stored wallets without exposing secrets
+   */
+  list(): KeystoreEntry[] {
+    return [...this.wallets].map(([name, stored]) => ({
+      name,
+      publicKey: stored.publicKey,
+      hasWallet: stored.wallet !== undefined,
+      hasSecretKey: stored.secretKey !== undefined,
+      createdAt: stored.createdAt,
+    }));
+  }
+
+  /**
+   * Store a `createWallet()` response, and optionally its decrypted keypair
+   *
+   * Without the keypair, `getKeypair()` and `getSigner()` need the user keypair the
+   * wallet was encrypted to.
+   *
+   * @param name - Wallet name
+   * @param wallet - Encrypted wallet from `createWallet()` or `exportWallet()`
+   * @param keypair - Decrypted wallet keypair (from `decryptWallet()`)
+   * @throws Error if the name is taken or the keypair does not match the wallet
+   */
+  async addWallet(name: string, wallet: WalletCreationResponse, keypair?: Keypair): Promise<void> {
+    if (keypair && keypair.publicKey.toBase58() !== wallet.publicKey) {
+      throw new Error(`Keypair does not match wallet ${wallet.publicKey}`);
+    }
+
+    await this.add(name, {
+      publicKey: wallet.publicKey,
+      wallet: {
+        success: true,
+        publicKey: wallet.publicKey,
+        encryptedSecretKey: wallet.encryptedSecretKey,
+        nonce: wallet.nonce,
+        ephemeralPublicKey: wallet.ephemeralPublicKey,
+      },
+      secretKey: keypair ? Buffer.from(keypair.secretKey).toString('base64') : undefined,
+      createdAt: Date.now(),
+    });
+  }
+
+  /**
+   * Store a keypair, e.g. the request-signing keypair of an external API key
+   *
+   * @param name - Wallet name
+   * @param keypair - Keypair to store
+   * @throws Error if the name is taken
+   */
+  async addKeypair(name: string, keypair: Keypair): Promise<void> {
+    await this.add(name, {
+      publicKey: keypair.publicKey.toBase58(),
+      secretKey: Buffer.from(keypair.secretKey).toString('base64'),
+      createdAt: Date.now(),
+    });
+  }
+
+  /**
+   * Get a stored `createWallet()` response
+   *
+   * @param name - Wallet name
+   * @returns Encrypted wallet, or undefined if only a keypair is stored
+   * @throws Error if no wallet has that name
+   */
+  getWallet(name: string): WalletCreationResponse | undefined {
+    return this.get(name).wallet;
+  }
+
+  /**
+   * Get a wallet's keypair
+   *
+   * Uses the stored secret key, or decrypts the stored wallet with `userKeypair`.
+   *
+   * @param name - Wallet name
+   * @param userKeypair - Keypair the wallet was encrypted to (when no secret key is stored)
+   * @returns Wallet keypair
+   * @throws Error if no wallet has that name or it cannot be decrypted
+   */
+  getKeypair(name: string, userKeypair?: Keypair): Keypair {
+    const stored = this.get(name);
+
+    if (stored.secretKey !== undefined) {
+      return Keypair.fromSecretKey(Buffer.from(stored.secretKey, 'base64'));
+    }
+    if (!stored.wallet || !userKeypair) {
+      throw new Error(`No secret key stored for wallet "${name}"; pass the user keypair`);
+    }
+    return decryptWallet(stored.wallet, userKeypair);
+  }
+
+  /**
+   * Get a `Signer` for `TransactionBuilder` from a stored wallet
+   *
+   * @param name - Wallet name
+   * @param userKeypair - Keypair the wallet was encrypted to (when no secret key is stored)
+   * @returns Signer
+   * @throws Error if no wallet has that name or it cannot be decrypted
+   */
+  getSigner(name: string, userKeypair?: Keypair): Signer {
+    return new Signer(this.getKeypair(name, userKeypair));
+  }
+
+  /**
+   * Remove a wallet
+   *
+   * @param name - Wallet name
+   * @returns true if the wallet existed
+   */
+  async remove(name: string): Promise<boolean> {
+    const stored = this.wallets.get(name);
+    if (!stored) {
+      return false;
+    }
+
+    this.wallets.delete(name);
+    try {
+      await this.write();
+    } catch (error) {
+      this.wallets.set(name, stored);
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Re-encrypt the keystore under a new password (and a new salt)
+   *
+   * @param password - New password
+   * @throws Error if the password is empty
+   */
+  async changePassword(password: string): Promise<void> {
+    requirePassword(password);
+
+    const kdf: KeystoreFile['kdf'] = {
+      ...this.kdf,
+      salt: randomBytes(SALT_LENGTH).toString('base64'),
+    };
+    const key = await deriveKey(password, kdf);
+
+    // Switch keys only for this write and the ones after it, and switch back if it fails
+    await this.enqueue(async () => {
+      const previous = { key: this.key, kdf: this.kdf };
+      this.key = key;
+      this.kdf = kdf;
+      try {
+        await this.save();
+      } catch (error) {
+        this.key = previous.key;
+        this.kdf = previous.kdf;
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Look up a stored wallet
+   */
+  private get(name: string): StoredWallet {
+    const stored = this.wallets.get(name);
+    if (!stored) {
+      throw new Error(`No wallet named "${name}" in keystore`);
+    }
+    return stored;
+  }
+
+  /**
+   * Add a wallet under a new name and save
+   */
+  private async add(name: string, stored: StoredWallet): Promise<void> {
+    if (!name) {
+      throw new Error('Wallet name must not be empty');
+    }
+    if (this.wallets.has(name)) {
+      throw new Error(`Wallet "${name}" already exists in keystore`);
+    }
+
+    this.wallets.set(name, stored);
+    try {
+      await this.write();
+    } catch (error) {
+      this.wallets.delete(name);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a write of the keystore after any write in progress
+   *
+   * @param flag - `'wx'` to fail if the file exists
+   */
+  private write(flag?: 'wx'): Promise<void> {
+    return this.enqueue(() => this.save(flag));
+  }
+
+  /**
+   * Run a task after any write in progress
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const done = this.writeQueue.then(task);
+    this.writeQueue = done.catch(() => undefined);
+    return done;
+  }
+
+  /**
+   * Encrypt and write the current wallets
+   *
+   * Existing files are replaced atomically via a temporary file.
+   *
+   * @param flag - `'wx'` to fail if the file exists
+   */
+  private async save(flag?: 'wx'): Promise<void> {
+    const plaintext = Buffer.from(JSON.stringify(Object.fromEntries(this.wallets)));
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const contents: KeystoreFile = {
+      version: KEYSTORE_VERSION,
+      kdf: this.kdf,
+      nonce: Buffer.from(nonce).toString('base64'),
+      ciphertext: Buffer.from(nacl.secretbox(plaintext, nonce, this.key)).toString('base64'),
+    };
+    const data = `${JSON.stringify(contents, null, 2)}\n`;
+
+    if (flag) {
+      await fs.writeFile(this.file, data, { flag, mode: 0o600 });
+      return;
+    }
+
+    const temporary = `${this.file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(temporary, data, { mode: 0o600 });
+      await fs.rename(temporary, this.file);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Reject empty passwords
+ */
+function requirePassword(password: string): void {
+  if (!password) {
+    throw new Error('Keystore password must not be empty');
+  }
+}
+
+/**
+ * Reject scrypt parameters that are invalid or would use excessive memory or CPU
+ */
+function requireScryptParams({ N, r, p }: ScryptParams): void {
+  const valid =
+    Number.isSafeInteger(N) &&
+    N > 1 &&
+    (N & (N - 1)) === 0 &&
+    Number.isSafeInteger(r) &&
+    r > 0 &&
+    Number.isSafeInteger(p) &&
+    p > 0 &&
+    p <= MAX_SCRYPT_PARALLELIZATION &&
+    128 * N * r <= MAX_SCRYPT_MEMORY;
+  if (!valid) {
+    throw new Error(`Invalid or excessive scrypt parameters: N=${N}, r=${r}, p=${p}`);
+  }
+}
+
+/**
+ * Derive the secretbox key from a password
+ */
+async function deriveKey(
+  password: string,
+  kdf: ScryptParams & { salt: string }
+): Promise<Uint8Array> {
+  requireScryptParams(kdf);
+
+  const { N, r, p } = kdf;
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password.normalize('NFKC'),
+      Buffer.from(kdf.salt, 'base64'),
+      nacl.secretbox.keyLength,
+      { N, r, p, maxmem: 256 * N * r },
+      (error, key) => (error ? reject(error) : resolve(new Uint8Array(key)))
+    );
+  });
+}
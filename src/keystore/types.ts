@@ -0,0 +1,164 @@
+/**
+ * Keystore Types
+ *
+ * Type definitions and defaults for the encrypted wallet keystore.
+ *
+ * @module keystore/types
+ */
+
+import type { WalletCreationResponse } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Current keystore file format version
+ */
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * Default scrypt parameters (N = 2^15, about 32 MB and 100 ms per unlock)
+ */
+export const DEFAULT_SCRYPT_PARAMS: Readonly<ScryptParams> = {
+  N: 32768,
+  r: 8,
+  p: 1,
+};
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/**
+ * scrypt key derivation parameters
+ */
+export interface ScryptParams {
+  /**
+   * CPU/memory cost (power of two)
+   * @default 32768
+   */
+  N: number;
+
+  /**
+   * Block size
+   * @default 8
+   */
+  r: number;
+
+  /**
+   * Parallelization
+   * @default 1
+   */
+  p: number;
+}
+
+/**
+ * Options for `Keystore.create()`
+ */
+export interface KeystoreOptions {
+  /**
+   * scrypt parameters for deriving the encryption key from the password
+   *
+   * Lower `N` only for tests; the parameters are stored in the file.
+   */
+  scrypt?: Partial<ScryptParams>;
+}
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+/**
+ * Summary of a stored wallet (never includes secret material)
+ */
+export interface KeystoreEntry {
+  /**
+   * Wallet name
+   */
+  name: string;
+
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  publicKey: string;
+
+  /**
+   * Whether the encrypted `createWallet()` response is stored
+   */
+  hasWallet: boolean;
+
+  /**
+   * Whether the decrypted secret key is stored
+   */
+  hasSecretKey: boolean;
+
+  /**
+   * Time the wallet was added (ms since epoch)
+   */
+  createdAt: number;
+}
+
+// ============================================================================
+// File Format
+// ============================================================================
+
+/**
+ * Keystore file contents
+ *
+ * The wallets are serialized to JSON and encrypted with `nacl.secretbox` under a key
+ * derived from the password with scrypt.
+ */
+export interface KeystoreFile {
+  /**
+   * File format version
+   */
+  version: number;
+
+  /**
+   * Key derivation function and parameters
+   */
+  kdf: ScryptParams & {
+    name: 'scrypt';
+
+    /**
+     * Random salt (base64)
+     */
+    salt: string;
+  };
+
+  /**
+   * secretbox nonce (base64)
+   */
+  nonce: string;
+
+  /**
+   * Encrypted wallets (base64)
+   */
+  ciphertext: string;
+}
+
+/**
+ * Stored wallet, as encrypted in the keystore file
+ */
+export interface StoredWallet {
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  publicKey: string;
+
+  /**
+   * Encrypted `createWallet()` response
+   */
+  wallet?: WalletCreationResponse;
+
+  /**
+   * Decrypted 64-byte secret key (base64)
+   */
+  secretKey?: string;
+
+  /**
+   * Time the wallet was added (ms since epoch)
+   */
+  createdAt: number;
+}
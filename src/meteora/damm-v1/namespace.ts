@@ -10,6 +10,9 @@
 import type { Connection, Transaction } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { toMeteoraCluster } from '../../utils/cluster';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type { DAMMv1SwapParams, DAMMv1BuyParams, DAMMv1SellParams } from './types';
@@ -77,6 +80,13 @@ export class DAMMv1Namespace {
     return connection;
   }
 
+  /**
+   * Run a step of a method inside a `lys_flash.meteora.dammV1.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'meteora.dammV1', step, fn);
+  }
+
   /**
    * Execute a swap on Meteora DAMM v1
    *
@@ -125,18 +135,21 @@ export class DAMMv1Namespace {
       : undefined;
 
     // Create pool instance (type assertion for SDK's bundled @solana/web3.js)
-    const pool = await AmmImpl.create(
-      connection as unknown as SDKConnection,
-      poolAddress
+    const pool = await this.trace('fetch_pool', () =>
+      AmmImpl.create(connection as unknown as SDKConnection, poolAddress, {
+        cluster: toMeteoraCluster(this.getClient().getCluster()),
+      })
     );
 
     // Build swap transaction (type assertion for SDK's PublicKey/BN types)
-    const swapTx = await pool.swap(
-      user as unknown as Parameters<typeof pool.swap>[0],
-      inputMint as unknown as Parameters<typeof pool.swap>[1],
-      amountIn,
-      minimumAmountOut,
-      referralOwner as unknown as Parameters<typeof pool.swap>[4]
+    const swapTx = await this.trace('build', () =>
+      pool.swap(
+        user as unknown as Parameters<typeof pool.swap>[0],
+        inputMint as unknown as Parameters<typeof pool.swap>[1],
+        amountIn,
+        minimumAmountOut,
+        referralOwner as unknown as Parameters<typeof pool.swap>[4]
+      )
     );
 
     // Wrap in rawTransaction (type assertion for SDK's Transaction type)
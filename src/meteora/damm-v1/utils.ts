@@ -11,6 +11,8 @@
 import type { Connection } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { DEFAULT_CLUSTER, toMeteoraCluster } from '../../utils/cluster';
+import type { SolanaCluster } from '../../types';
 import type { DAMMv1PoolState, DAMMv1SwapQuote } from './types';
 
 /**
@@ -48,6 +50,7 @@ export class DAMMv1Utils {
    *
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool public key or string
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
    * @returns Pool state information including raw AmmImpl instance
    *
    * @example
@@ -61,7 +64,8 @@ export class DAMMv1Utils {
    */
   static async getPool(
     connection: Connection,
-    poolAddress: string | PublicKey
+    poolAddress: string | PublicKey,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
   ): Promise<DAMMv1PoolState> {
     // Dynamic import to support optional peer dependency
     const AmmImpl = (await import('@meteora-ag/dynamic-amm-sdk')).default;
@@ -70,7 +74,11 @@ export class DAMMv1Utils {
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
 
     // Type assertion needed due to SDK bundling its own @solana/web3.js version
-    const pool = await AmmImpl.create(connection as unknown as Parameters<typeof AmmImpl.create>[0], address);
+    const pool = await AmmImpl.create(
+      connection as unknown as Parameters<typeof AmmImpl.create>[0],
+      address,
+      { cluster: toMeteoraCluster(cluster) }
+    );
 
     return {
       address,
@@ -91,6 +99,7 @@ export class DAMMv1Utils {
    * @param inputMint - Input token mint address
    * @param amountIn - Input amount in smallest units
    * @param slippage - Slippage tolerance as decimal (0.01 = 1%)
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
    * @returns Swap quote with expected output and fees
    *
    * @example
@@ -114,7 +123,8 @@ export class DAMMv1Utils {
     poolAddress: string | PublicKey,
     inputMint: string | PublicKey,
     amountIn: number | BN,
-    slippage: number
+    slippage: number,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
   ): Promise<DAMMv1SwapQuote> {
     // Dynamic import to support optional peer dependency
     const AmmImpl = (await import('@meteora-ag/dynamic-amm-sdk')).default;
@@ -126,7 +136,11 @@ export class DAMMv1Utils {
     const amount = typeof amountIn === 'number' ? new BN(amountIn) : amountIn;
 
     // Type assertion needed due to SDK bundling its own @solana/web3.js version
-    const pool = await AmmImpl.create(connection as unknown as Parameters<typeof AmmImpl.create>[0], address);
+    const pool = await AmmImpl.create(
+      connection as unknown as Parameters<typeof AmmImpl.create>[0],
+      address,
+      { cluster: toMeteoraCluster(cluster) }
+    );
 
     const quote = pool.getSwapQuote(inMint as unknown as Parameters<typeof pool.getSwapQuote>[0], amount, slippage);
 
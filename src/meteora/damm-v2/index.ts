@@ -29,10 +29,17 @@ export type {
   DAMMv2Sell2Params,
   DAMMv2BuyExactOutParams,
   DAMMv2SellExactOutParams,
+  // Liquidity params
+  DAMMv2CreatePositionParams,
+  DAMMv2AddLiquidityParams,
+  DAMMv2RemoveLiquidityParams,
+  DAMMv2ClaimPositionFeeParams,
+  DAMMv2ClosePositionParams,
   // State/query types
   DAMMv2PoolState,
   DAMMv2SwapQuote,
   DAMMv2SwapQuote2,
+  DAMMv2PositionInfo,
 } from './types';
 
 // Constants
@@ -10,6 +10,8 @@
 import type { Connection } from '@solana/web3.js';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type {
@@ -21,6 +23,11 @@ import type {
   DAMMv2Sell2Params,
   DAMMv2BuyExactOutParams,
   DAMMv2SellExactOutParams,
+  DAMMv2CreatePositionParams,
+  DAMMv2AddLiquidityParams,
+  DAMMv2RemoveLiquidityParams,
+  DAMMv2ClaimPositionFeeParams,
+  DAMMv2ClosePositionParams,
 } from './types';
 import { SOL_MINT } from './types';
 
@@ -86,6 +93,12 @@ export class DAMMv2Namespace {
     return this.getClient().requireConnection();
   }
 
+  /**
+   * Run a step of a method inside a `lys_flash.meteora.dammV2.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'meteora.dammV2', step, fn);
+  }
 
   // ============================================================================
   // swap() methods
@@ -151,44 +164,51 @@ export class DAMMv2Namespace {
         : params.referralAccount
       : null;
 
-    // Fetch pool state to get required accounts
-    const poolState = await cpAmm.fetchPoolState(poolAddress);
-    if (!poolState) {
-      throw new Error(`Pool not found: ${poolAddress.toBase58()}`);
-    }
-
-    // Helper to get token program from mint
-    const getTokenProgramForMint = async (mint: PublicKey): Promise<PublicKey> => {
-      try {
-        // Try TOKEN_2022 first
-        await getMint(connection, mint, undefined, TOKEN_2022_PROGRAM_ID);
-        return TOKEN_2022_PROGRAM_ID;
-      } catch {
-        // Fall back to standard TOKEN_PROGRAM_ID
-        return TOKEN_PROGRAM_ID;
+    // Fetch pool state and token programs to get required accounts
+    const { poolState, tokenAProgram, tokenBProgram } = await this.trace('fetch_pool', async () => {
+      const poolState = await cpAmm.fetchPoolState(poolAddress);
+      if (!poolState) {
+        throw new Error(`Pool not found: ${poolAddress.toBase58()}`);
       }
-    };
 
-    // Get token programs
-    const tokenAProgram = await getTokenProgramForMint(poolState.tokenAMint);
-    const tokenBProgram = await getTokenProgramForMint(poolState.tokenBMint);
+      // Helper to get token program from mint
+      const getTokenProgramForMint = async (mint: PublicKey): Promise<PublicKey> => {
+        try {
+          // Try TOKEN_2022 first
+          await getMint(connection, mint, undefined, TOKEN_2022_PROGRAM_ID);
+          return TOKEN_2022_PROGRAM_ID;
+        } catch {
+          // Fall back to standard TOKEN_PROGRAM_ID
+          return TOKEN_PROGRAM_ID;
+        }
+      };
+
+      // Get token programs
+      return {
+        poolState,
+        tokenAProgram: await getTokenProgramForMint(poolState.tokenAMint),
+        tokenBProgram: await getTokenProgramForMint(poolState.tokenBMint),
+      };
+    });
 
     // Build swap transaction using Meteora SDK
-    const swapTx: Transaction = await cpAmm.swap({
-      payer: userAddress,
-      pool: poolAddress,
-      inputTokenMint: inputMint,
-      outputTokenMint: outputMint,
-      amountIn,
-      minimumAmountOut,
-      tokenAMint: poolState.tokenAMint,
-      tokenBMint: poolState.tokenBMint,
-      tokenAVault: poolState.tokenAVault,
-      tokenBVault: poolState.tokenBVault,
-      tokenAProgram,
-      tokenBProgram,
-      referralTokenAccount: referralAccount,
-    });
+    const swapTx: Transaction = await this.trace('build', () =>
+      cpAmm.swap({
+        payer: userAddress,
+        pool: poolAddress,
+        inputTokenMint: inputMint,
+        outputTokenMint: outputMint,
+        amountIn,
+        minimumAmountOut,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        tokenAVault: poolState.tokenAVault,
+        tokenBVault: poolState.tokenBVault,
+        tokenAProgram,
+        tokenBProgram,
+        referralTokenAccount: referralAccount,
+      })
+    );
 
     // Add as raw transaction
     return this.builder.rawTransaction({
@@ -344,27 +364,32 @@ export class DAMMv2Namespace {
         : params.referralAccount
       : null;
 
-    // Fetch pool state to get required accounts
-    const poolState = await cpAmm.fetchPoolState(poolAddress);
-    if (!poolState) {
-      throw new Error(`Pool not found: ${poolAddress.toBase58()}`);
-    }
-
-    // Helper to get token program from mint
-    const getTokenProgramForMint = async (mint: PublicKey): Promise<PublicKey> => {
-      try {
-        // Try TOKEN_2022 first
-        await getMint(connection, mint, undefined, TOKEN_2022_PROGRAM_ID);
-        return TOKEN_2022_PROGRAM_ID;
-      } catch {
-        // Fall back to standard TOKEN_PROGRAM_ID
-        return TOKEN_PROGRAM_ID;
+    // Fetch pool state and token programs to get required accounts
+    const { poolState, tokenAProgram, tokenBProgram } = await this.trace('fetch_pool', async () => {
+      const poolState = await cpAmm.fetchPoolState(poolAddress);
+      if (!poolState) {
+        throw new Error(`Pool not found: ${poolAddress.toBase58()}`);
       }
-    };
 
-    // Get token programs
-    const tokenAProgram = await getTokenProgramForMint(poolState.tokenAMint);
-    const tokenBProgram = await getTokenProgramForMint(poolState.tokenBMint);
+      // Helper to get token program from mint
+      const getTokenProgramForMint = async (mint: PublicKey): Promise<PublicKey> => {
+        try {
+          // Try TOKEN_2022 first
+          await getMint(connection, mint, undefined, TOKEN_2022_PROGRAM_ID);
+          return TOKEN_2022_PROGRAM_ID;
+        } catch {
+          // Fall back to standard TOKEN_PROGRAM_ID
+          return TOKEN_PROGRAM_ID;
+        }
+      };
+
+      // Get token programs
+      return {
+        poolState,
+        tokenAProgram: await getTokenProgramForMint(poolState.tokenAMint),
+        tokenBProgram: await getTokenProgramForMint(poolState.tokenBMint),
+      };
+    });
 
     // Build swap2 parameters based on mode
     let swap2Params: Record<string, unknown>;
@@ -437,8 +462,10 @@ export class DAMMv2Namespace {
     }
 
     // Build swap2 transaction using Meteora SDK
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const swapTx: Transaction = await cpAmm.swap2(swap2Params as any);
+    const swapTx: Transaction = await this.trace('build', () =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      cpAmm.swap2(swap2Params as any)
+    );
 
     // Add as raw transaction
     return this.builder.rawTransaction({
@@ -570,4 +597,333 @@ export class DAMMv2Namespace {
       referralAccount: params.referralAccount,
     });
   }
+
+  // ============================================================================
+  // Liquidity methods
+  // ============================================================================
+
+  /**
+   * Create a new position in a DAMM v2 pool
+   *
+   * The position NFT mint signs the transaction, so it must be a fresh wallet
+   * managed by the execution engine (e.g. created with `client.createWallet()`).
+   *
+   * @param params - Create position parameters
+   * @returns TransactionBuilder (for method chaining)
+   *
+   * @example
+   * ```typescript
+   * const { publicKey: positionNft } = await client.createWallet(userWallet);
+   *
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dammV2.createPosition({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     positionNft,
+   *   });
+   * ```
+   */
+  async createPosition(params: DAMMv2CreatePositionParams): Promise<TransactionBuilder> {
+    const connection = this.getConnection();
+
+    // Dynamic import for optional peer dependency
+    const { CpAmm } = await import('@meteora-ag/cp-amm-sdk');
+
+    const cpAmm = new CpAmm(connection);
+
+    const poolAddress = toPublicKey(params.pool);
+    const userAddress = toPublicKey(params.user);
+    const positionNft = toPublicKey(params.positionNft);
+
+    const createTx: Transaction = await this.trace('build', () =>
+      cpAmm.createPosition({
+        owner: userAddress,
+        payer: userAddress,
+        pool: poolAddress,
+        positionNft,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: createTx,
+      additionalSigners: [positionNft],
+    });
+  }
+
+  /**
+   * Add liquidity to a DAMM v2 position
+   *
+   * When `liquidityDelta` is omitted, it is computed from the maximum amounts at the
+   * current pool price.
+   *
+   * @param params - Add liquidity parameters
+   * @returns TransactionBuilder (for method chaining)
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dammV2.addLiquidity({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionAddress,
+   *     maxAmountTokenA: 1_000_000_000,
+   *     maxAmountTokenB: 1_000_000_000,
+   *   });
+   * ```
+   */
+  async addLiquidity(params: DAMMv2AddLiquidityParams): Promise<TransactionBuilder> {
+    const { cpAmm, poolAddress, positionAddress, poolState, positionNftAccount, tokenPrograms } =
+      await this.loadPosition(params.pool, params.position);
+
+    const maxAmountTokenA = toBN(params.maxAmountTokenA);
+    const maxAmountTokenB = toBN(params.maxAmountTokenB);
+
+    const liquidityDelta =
+      params.liquidityDelta !== undefined
+        ? toBN(params.liquidityDelta)
+        : cpAmm.getLiquidityDelta({
+            maxAmountTokenA,
+            maxAmountTokenB,
+            sqrtPrice: poolState.sqrtPrice,
+            sqrtMinPrice: poolState.sqrtMinPrice,
+            sqrtMaxPrice: poolState.sqrtMaxPrice,
+          });
+
+    const addTx: Transaction = await this.trace('build', () =>
+      cpAmm.addLiquidity({
+        owner: toPublicKey(params.user),
+        pool: poolAddress,
+        position: positionAddress,
+        positionNftAccount,
+        liquidityDelta,
+        maxAmountTokenA,
+        maxAmountTokenB,
+        tokenAAmountThreshold: maxAmountTokenA,
+        tokenBAmountThreshold: maxAmountTokenB,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        tokenAVault: poolState.tokenAVault,
+        tokenBVault: poolState.tokenBVault,
+        ...tokenPrograms,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: addTx,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Remove liquidity from a DAMM v2 position
+   *
+   * Removes all unlocked liquidity when `liquidityDelta` is omitted. Fees are not
+   * claimed; use `claimPositionFee()` for that.
+   *
+   * @param params - Remove liquidity parameters
+   * @returns TransactionBuilder (for method chaining)
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dammV2.removeLiquidity({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionAddress,
+   *     minAmountTokenA: 0,
+   *     minAmountTokenB: 0,
+   *   });
+   * ```
+   */
+  async removeLiquidity(params: DAMMv2RemoveLiquidityParams): Promise<TransactionBuilder> {
+    const connection = this.getConnection();
+    const { getCurrentPoint, ActivationType } = await import('@meteora-ag/cp-amm-sdk');
+
+    const { cpAmm, poolAddress, positionAddress, poolState, positionNftAccount, tokenPrograms } =
+      await this.loadPosition(params.pool, params.position);
+
+    // Vestings are refreshed before removal, so pass them along with the current point
+    const activationType =
+      poolState.activationType === 0 ? ActivationType.Slot : ActivationType.Timestamp;
+    const [vestings, currentPoint] = await this.trace('fetch_position', () =>
+      Promise.all([
+        cpAmm.getAllVestingsByPosition(positionAddress),
+        getCurrentPoint(connection, activationType),
+      ])
+    );
+
+    const removeParams = {
+      owner: toPublicKey(params.user),
+      pool: poolAddress,
+      position: positionAddress,
+      positionNftAccount,
+      tokenAAmountThreshold: toBN(params.minAmountTokenA),
+      tokenBAmountThreshold: toBN(params.minAmountTokenB),
+      tokenAMint: poolState.tokenAMint,
+      tokenBMint: poolState.tokenBMint,
+      tokenAVault: poolState.tokenAVault,
+      tokenBVault: poolState.tokenBVault,
+      ...tokenPrograms,
+      vestings: vestings.map((vesting) => ({
+        account: vesting.publicKey,
+        vestingState: vesting.account,
+      })),
+      currentPoint,
+    };
+
+    const removeTx: Transaction = await this.trace('build', () =>
+      params.liquidityDelta !== undefined
+        ? cpAmm.removeLiquidity({
+            ...removeParams,
+            liquidityDelta: toBN(params.liquidityDelta),
+          })
+        : cpAmm.removeAllLiquidity(removeParams)
+    );
+
+    return this.builder.rawTransaction({
+      transaction: removeTx,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Claim accumulated trading fees of a DAMM v2 position
+   *
+   * @param params - Claim position fee parameters
+   * @returns TransactionBuilder (for method chaining)
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dammV2.claimPositionFee({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionAddress,
+   *   });
+   * ```
+   */
+  async claimPositionFee(params: DAMMv2ClaimPositionFeeParams): Promise<TransactionBuilder> {
+    const { cpAmm, poolAddress, positionAddress, poolState, positionNftAccount, tokenPrograms } =
+      await this.loadPosition(params.pool, params.position);
+
+    const claimTx: Transaction = await this.trace('build', () =>
+      cpAmm.claimPositionFee({
+        owner: toPublicKey(params.user),
+        pool: poolAddress,
+        position: positionAddress,
+        positionNftAccount,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        tokenAVault: poolState.tokenAVault,
+        tokenBVault: poolState.tokenBVault,
+        ...tokenPrograms,
+        receiver: params.receiver ? toPublicKey(params.receiver) : undefined,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: claimTx,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Close an empty DAMM v2 position and reclaim its rent
+   *
+   * Remove all liquidity and claim fees first; the program rejects closing a
+   * position that still holds liquidity.
+   *
+   * @param params - Close position parameters
+   * @returns TransactionBuilder (for method chaining)
+   *
+   * @example
+   * ```typescript
+   * const builder = await (
+   *   await new TransactionBuilder(client).meteora.dammV2.claimPositionFee({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionAddress,
+   *   })
+   * ).meteora.dammV2.closePosition({
+   *   pool: poolAddress,
+   *   user: userWallet,
+   *   position: positionAddress,
+   * });
+   * ```
+   */
+  async closePosition(params: DAMMv2ClosePositionParams): Promise<TransactionBuilder> {
+    const { cpAmm, poolAddress, positionAddress, positionState, positionNftAccount } =
+      await this.loadPosition(params.pool, params.position);
+
+    const closeTx: Transaction = await this.trace('build', () =>
+      cpAmm.closePosition({
+        owner: toPublicKey(params.user),
+        pool: poolAddress,
+        position: positionAddress,
+        positionNftMint: positionState.nftMint,
+        positionNftAccount,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: closeTx,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Fetch pool and position state shared by the liquidity methods
+   * @private
+   */
+  private async loadPosition(pool: string | PublicKey, position: string | PublicKey) {
+    const connection = this.getConnection();
+
+    // Dynamic import for optional peer dependency
+    const { CpAmm, derivePositionNftAccount, getTokenProgram } =
+      await import('@meteora-ag/cp-amm-sdk');
+
+    const cpAmm = new CpAmm(connection);
+
+    const poolAddress = toPublicKey(pool);
+    const positionAddress = toPublicKey(position);
+
+    const [poolState, positionState] = await this.trace('fetch_position', () =>
+      Promise.all([
+        cpAmm.fetchPoolState(poolAddress),
+        cpAmm.fetchPositionState(positionAddress),
+      ])
+    );
+    if (!poolState) {
+      throw new Error(`Pool not found: ${poolAddress.toBase58()}`);
+    }
+    if (!positionState) {
+      throw new Error(`Position not found: ${positionAddress.toBase58()}`);
+    }
+    if (!positionState.pool.equals(poolAddress)) {
+      throw new Error(
+        `Position ${positionAddress.toBase58()} does not belong to pool ${poolAddress.toBase58()}`
+      );
+    }
+
+    return {
+      cpAmm,
+      poolAddress,
+      positionAddress,
+      poolState,
+      positionState,
+      positionNftAccount: derivePositionNftAccount(positionState.nftMint),
+      tokenPrograms: {
+        tokenAProgram: getTokenProgram(poolState.tokenAFlag),
+        tokenBProgram: getTokenProgram(poolState.tokenBFlag),
+      },
+    };
+  }
+}
+
+function toPublicKey(value: string | PublicKey): PublicKey {
+  return typeof value === 'string' ? new PublicKey(value) : value;
+}
+
+function toBN(value: number | BN): BN {
+  return BN.isBN(value) ? value : new BN(value);
 }
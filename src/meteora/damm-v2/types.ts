@@ -395,6 +395,146 @@ export interface DAMMv2SellExactOutParams {
   referralAccount?: string | PublicKey | null;
 }
 
+// ============================================================================
+// Liquidity Parameters
+// ============================================================================
+
+/**
+ * Parameters for creating a DAMM v2 position
+ */
+export interface DAMMv2CreatePositionParams {
+  /**
+   * Pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * Position owner (also pays for the position accounts)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position NFT mint address. Must be a fresh wallet managed by the execution
+   * engine (e.g. from `client.createWallet()`), since it signs the transaction.
+   */
+  positionNft: string | PublicKey;
+}
+
+/**
+ * Parameters for adding liquidity to a DAMM v2 position
+ */
+export interface DAMMv2AddLiquidityParams {
+  /**
+   * Pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * Position owner
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position address
+   */
+  position: string | PublicKey;
+
+  /**
+   * Maximum token A to deposit
+   */
+  maxAmountTokenA: number | BN;
+
+  /**
+   * Maximum token B to deposit
+   */
+  maxAmountTokenB: number | BN;
+
+  /**
+   * Liquidity to add (computed from the maximum amounts at the current price if omitted)
+   */
+  liquidityDelta?: number | BN;
+}
+
+/**
+ * Parameters for removing liquidity from a DAMM v2 position
+ */
+export interface DAMMv2RemoveLiquidityParams {
+  /**
+   * Pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * Position owner
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position address
+   */
+  position: string | PublicKey;
+
+  /**
+   * Liquidity to remove (removes all unlocked liquidity if omitted)
+   */
+  liquidityDelta?: number | BN;
+
+  /**
+   * Minimum token A to receive (slippage protection)
+   */
+  minAmountTokenA: number | BN;
+
+  /**
+   * Minimum token B to receive (slippage protection)
+   */
+  minAmountTokenB: number | BN;
+}
+
+/**
+ * Parameters for claiming DAMM v2 position fees
+ */
+export interface DAMMv2ClaimPositionFeeParams {
+  /**
+   * Pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * Position owner
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position address
+   */
+  position: string | PublicKey;
+
+  /**
+   * Optional fee receiver (defaults to the owner)
+   */
+  receiver?: string | PublicKey;
+}
+
+/**
+ * Parameters for closing a DAMM v2 position
+ */
+export interface DAMMv2ClosePositionParams {
+  /**
+   * Pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * Position owner
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position address
+   */
+  position: string | PublicKey;
+}
+
 // ============================================================================
 // State/Query Types
 // ============================================================================
@@ -508,3 +648,73 @@ export interface DAMMv2SwapQuote2 extends DAMMv2SwapQuote {
    */
   maximumAmountIn?: BN;
 }
+
+/**
+ * Position information returned by getPositions
+ */
+export interface DAMMv2PositionInfo {
+  /**
+   * Position address
+   */
+  address: PublicKey;
+
+  /**
+   * Pool address
+   */
+  pool: PublicKey;
+
+  /**
+   * Position NFT mint
+   */
+  nftMint: PublicKey;
+
+  /**
+   * Position NFT token account holding the NFT
+   */
+  nftAccount: PublicKey;
+
+  /**
+   * Token A mint address
+   */
+  tokenAMint: PublicKey;
+
+  /**
+   * Token B mint address
+   */
+  tokenBMint: PublicKey;
+
+  /**
+   * Liquidity that can be removed
+   */
+  unlockedLiquidity: BN;
+
+  /**
+   * Liquidity locked in vesting schedules
+   */
+  vestedLiquidity: BN;
+
+  /**
+   * Permanently locked liquidity
+   */
+  permanentLockedLiquidity: BN;
+
+  /**
+   * Unclaimed token A fees
+   */
+  unclaimedFeeA: BN;
+
+  /**
+   * Unclaimed token B fees
+   */
+  unclaimedFeeB: BN;
+
+  /**
+   * Unclaimed rewards per reward slot
+   */
+  unclaimedRewards: BN[];
+
+  /**
+   * Raw position state from Meteora SDK (for advanced usage)
+   */
+  raw: unknown;
+}
@@ -16,6 +16,7 @@ import type {
   DAMMv2SwapQuote,
   DAMMv2SwapQuote2,
   DAMMv2SwapMode,
+  DAMMv2PositionInfo,
 } from './types';
 
 /**
@@ -316,4 +317,72 @@ export class DAMMv2Utils {
       maximumAmountIn: quoteResult.maximumAmountIn,
     };
   }
+
+  /**
+   * Get all DAMM v2 positions owned by a user, with unclaimed fees and rewards
+   *
+   * @param connection - Solana RPC connection
+   * @param user - Position owner
+   * @returns Positions sorted by liquidity (largest first)
+   *
+   * @example
+   * ```typescript
+   * const positions = await DAMMv2Utils.getPositions(connection, 'UserWallet...');
+   *
+   * for (const position of positions) {
+   *   console.log('Position:', position.address.toBase58());
+   *   console.log('Unclaimed fee A:', position.unclaimedFeeA.toString());
+   *   console.log('Unclaimed fee B:', position.unclaimedFeeB.toString());
+   * }
+   * ```
+   */
+  static async getPositions(
+    connection: Connection,
+    user: string | PublicKey
+  ): Promise<DAMMv2PositionInfo[]> {
+    const { CpAmm, getUnClaimLpFee } = await import('@meteora-ag/cp-amm-sdk');
+
+    const cpAmm = new CpAmm(connection);
+
+    const owner = typeof user === 'string' ? new PublicKey(user) : user;
+
+    const positions = await cpAmm.getPositionsByUser(owner);
+
+    // Fetch each pool once to compute unclaimed fees
+    const poolAddresses = [
+      ...new Set(positions.map(({ positionState }) => positionState.pool.toBase58())),
+    ];
+    const poolStates = new Map(
+      await Promise.all(
+        poolAddresses.map(
+          async (address) => [address, await cpAmm.fetchPoolState(new PublicKey(address))] as const
+        )
+      )
+    );
+
+    return positions.map(({ position, positionNftAccount, positionState }) => {
+      const poolState = poolStates.get(positionState.pool.toBase58());
+      if (!poolState) {
+        throw new Error(`Pool not found: ${positionState.pool.toBase58()}`);
+      }
+
+      const unclaimed = getUnClaimLpFee(poolState, positionState);
+
+      return {
+        address: position,
+        pool: positionState.pool,
+        nftMint: positionState.nftMint,
+        nftAccount: positionNftAccount,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        unlockedLiquidity: positionState.unlockedLiquidity,
+        vestedLiquidity: positionState.vestedLiquidity,
+        permanentLockedLiquidity: positionState.permanentLockedLiquidity,
+        unclaimedFeeA: unclaimed.feeTokenA,
+        unclaimedFeeB: unclaimed.feeTokenB,
+        unclaimedRewards: unclaimed.rewards,
+        raw: positionState,
+      };
+    });
+  }
 }
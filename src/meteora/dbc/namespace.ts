@@ -10,6 +10,8 @@
 import type { Connection, Commitment } from '@solana/web3.js';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type {
@@ -92,6 +94,13 @@ export class DBCNamespace {
     return this.getClient().getCommitment();
   }
 
+  /**
+   * Run a step of a method inside a `lys_flash.meteora.dbc.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'meteora.dbc', step, fn);
+  }
+
   // ============================================================================
   // swap() methods (Simple ExactIn only)
   // ============================================================================
@@ -161,14 +170,16 @@ export class DBCNamespace {
       : null;
 
     // Build swap transaction using Meteora SDK
-    const swapTx: Transaction = await meteoraClient.pool.swap({
-      amountIn,
-      minimumAmountOut,
-      swapBaseForQuote,
-      owner: userAddress,
-      pool: poolAddress,
-      referralTokenAccount,
-    });
+    const swapTx: Transaction = await this.trace('build', () =>
+      meteoraClient.pool.swap({
+        amountIn,
+        minimumAmountOut,
+        swapBaseForQuote,
+        owner: userAddress,
+        pool: poolAddress,
+        referralTokenAccount,
+      })
+    );
 
     // Add as raw transaction
     return this.builder.rawTransaction({
@@ -377,8 +388,10 @@ export class DBCNamespace {
     }
 
     // Build swap2 transaction using Meteora SDK
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const swapTx: Transaction = await meteoraClient.pool.swap2(swap2Params as any);
+    const swapTx: Transaction = await this.trace('build', () =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      meteoraClient.pool.swap2(swap2Params as any)
+    );
 
     // Add as raw transaction
     return this.builder.rawTransaction({
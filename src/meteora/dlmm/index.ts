@@ -21,9 +21,18 @@ export type {
   DLMMSellParams,
   DLMMBuyExactOutParams,
   DLMMSellExactOutParams,
+  // Liquidity parameters
+  DLMMStrategyType,
+  DLMMAddLiquidityByStrategyParams,
+  DLMMRemoveLiquidityParams,
+  DLMMClaimSwapFeeParams,
+  DLMMClaimAllRewardsParams,
+  DLMMClosePositionParams,
   // State types
   DLMMPoolState,
   DLMMActiveBin,
+  DLMMPositionBin,
+  DLMMPositionInfo,
   // Quote types
   DLMMSwapQuote,
   DLMMSwapQuoteExactOut,
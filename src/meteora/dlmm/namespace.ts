@@ -10,6 +10,9 @@
 import type { Connection, Transaction } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { toMeteoraCluster } from '../../utils/cluster';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type {
@@ -19,16 +22,29 @@ import type {
   DLMMSellParams,
   DLMMBuyExactOutParams,
   DLMMSellExactOutParams,
+  DLMMStrategyType,
+  DLMMAddLiquidityByStrategyParams,
+  DLMMRemoveLiquidityParams,
+  DLMMClaimSwapFeeParams,
+  DLMMClaimAllRewardsParams,
+  DLMMClosePositionParams,
 } from './types';
 import { SOL_MINT } from './types';
 
 // Type alias for SDK's bundled Connection type
 type SDKConnection = Parameters<typeof import('@meteora-ag/dlmm').default.create>[0];
 
+// Bins on each side of the active bin used when opening a position without a range
+const DEFAULT_BIN_RANGE = 10;
+
+// Basis points denominator (100% = 10000 bps)
+const BPS_DENOMINATOR = 10_000;
+
 /**
  * DLMM Namespace
  *
- * Provides methods for swapping tokens on Meteora DLMM pools.
+ * Provides methods for swapping tokens and managing liquidity positions on
+ * Meteora DLMM pools.
  * DLMM pools use concentrated liquidity with discrete price bins.
  *
  * @example
@@ -85,6 +101,13 @@ export class DLMMNamespace {
     return connection;
   }
 
+  /**
+   * Run a step of a method inside a `lys_flash.meteora.dlmm.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'meteora.dlmm', step, fn);
+  }
+
   /**
    * Execute a swap on Meteora DLMM
    *
@@ -133,33 +156,36 @@ export class DLMMNamespace {
         ? new BN(params.minimumAmountOut)
         : params.minimumAmountOut;
 
-    // Create pool instance (type assertion for SDK's bundled @solana/web3.js)
-    const pool = await DLMM.create(
-      connection as unknown as SDKConnection,
-      poolAddress
-    );
+    const { pool, binArrays } = await this.trace('fetch_pool', async () => {
+      // Create pool instance (type assertion for SDK's bundled @solana/web3.js)
+      const pool = await DLMM.create(connection as unknown as SDKConnection, poolAddress, {
+        cluster: toMeteoraCluster(this.getClient().getCluster()),
+      });
 
-    // Determine swap direction
-    const swapForY = inputMint.equals(new PublicKey(pool.tokenX.publicKey));
+      // Determine swap direction
+      const swapForY = inputMint.equals(new PublicKey(pool.tokenX.publicKey));
 
-    // Get bin arrays needed for swap
-    const binArrays = await pool.getBinArrayForSwap(swapForY);
+      // Get bin arrays needed for swap
+      return { pool, binArrays: await pool.getBinArrayForSwap(swapForY) };
+    });
     const binArraysPubkey = binArrays.map(
       (bin: { publicKey: PublicKey }) => bin.publicKey
     );
 
     // Build swap transaction
-    const swapTx = await pool.swap({
-      inToken: inputMint as unknown as Parameters<typeof pool.swap>[0]['inToken'],
-      outToken: outputMint as unknown as Parameters<typeof pool.swap>[0]['outToken'],
-      inAmount: amountIn,
-      minOutAmount: minimumAmountOut,
-      lbPair: poolAddress as unknown as Parameters<typeof pool.swap>[0]['lbPair'],
-      user: user as unknown as Parameters<typeof pool.swap>[0]['user'],
-      binArraysPubkey: binArraysPubkey as unknown as Parameters<
-        typeof pool.swap
-      >[0]['binArraysPubkey'],
-    });
+    const swapTx = await this.trace('build', () =>
+      pool.swap({
+        inToken: inputMint as unknown as Parameters<typeof pool.swap>[0]['inToken'],
+        outToken: outputMint as unknown as Parameters<typeof pool.swap>[0]['outToken'],
+        inAmount: amountIn,
+        minOutAmount: minimumAmountOut,
+        lbPair: poolAddress as unknown as Parameters<typeof pool.swap>[0]['lbPair'],
+        user: user as unknown as Parameters<typeof pool.swap>[0]['user'],
+        binArraysPubkey: binArraysPubkey as unknown as Parameters<
+          typeof pool.swap
+        >[0]['binArraysPubkey'],
+      })
+    );
 
     // Wrap in rawTransaction (type assertion for SDK's Transaction type)
     return this.builder.rawTransaction({
@@ -214,35 +240,38 @@ export class DLMMNamespace {
         ? new BN(params.maximumAmountIn)
         : params.maximumAmountIn;
 
-    // Create pool instance (type assertion for SDK's bundled @solana/web3.js)
-    const pool = await DLMM.create(
-      connection as unknown as SDKConnection,
-      poolAddress
-    );
+    const { pool, binArrays } = await this.trace('fetch_pool', async () => {
+      // Create pool instance (type assertion for SDK's bundled @solana/web3.js)
+      const pool = await DLMM.create(connection as unknown as SDKConnection, poolAddress, {
+        cluster: toMeteoraCluster(this.getClient().getCluster()),
+      });
 
-    // Determine swap direction
-    const swapForY = inputMint.equals(new PublicKey(pool.tokenX.publicKey));
+      // Determine swap direction
+      const swapForY = inputMint.equals(new PublicKey(pool.tokenX.publicKey));
 
-    // Get bin arrays needed for swap
-    const binArrays = await pool.getBinArrayForSwap(swapForY);
+      // Get bin arrays needed for swap
+      return { pool, binArrays: await pool.getBinArrayForSwap(swapForY) };
+    });
     const binArraysPubkey = binArrays.map(
       (bin: { publicKey: PublicKey }) => bin.publicKey
     );
 
     // Build swap exact out transaction
-    const swapTx = await pool.swapExactOut({
-      inToken: inputMint as unknown as Parameters<typeof pool.swapExactOut>[0]['inToken'],
-      outToken: outputMint as unknown as Parameters<
-        typeof pool.swapExactOut
-      >[0]['outToken'],
-      outAmount: amountOut,
-      maxInAmount: maximumAmountIn,
-      lbPair: poolAddress as unknown as Parameters<typeof pool.swapExactOut>[0]['lbPair'],
-      user: user as unknown as Parameters<typeof pool.swapExactOut>[0]['user'],
-      binArraysPubkey: binArraysPubkey as unknown as Parameters<
-        typeof pool.swapExactOut
-      >[0]['binArraysPubkey'],
-    });
+    const swapTx = await this.trace('build', () =>
+      pool.swapExactOut({
+        inToken: inputMint as unknown as Parameters<typeof pool.swapExactOut>[0]['inToken'],
+        outToken: outputMint as unknown as Parameters<
+          typeof pool.swapExactOut
+        >[0]['outToken'],
+        outAmount: amountOut,
+        maxInAmount: maximumAmountIn,
+        lbPair: poolAddress as unknown as Parameters<typeof pool.swapExactOut>[0]['lbPair'],
+        user: user as unknown as Parameters<typeof pool.swapExactOut>[0]['user'],
+        binArraysPubkey: binArraysPubkey as unknown as Parameters<
+          typeof pool.swapExactOut
+        >[0]['binArraysPubkey'],
+      })
+    );
 
     // Wrap in rawTransaction (type assertion for SDK's Transaction type)
     return this.builder.rawTransaction({
@@ -387,4 +416,286 @@ export class DLMMNamespace {
       maximumAmountIn: params.maxTokensIn,
     });
   }
+
+  // ============================================================================
+  // Liquidity methods
+  // ============================================================================
+
+  /**
+   * Add liquidity to a DLMM position using a distribution strategy
+   *
+   * Tokens are spread across the bin range using the `spot`, `curve` or `bidAsk`
+   * strategy. Set `initializePosition` to create the position in the same
+   * transaction; the position account then signs, so it must be a fresh wallet
+   * managed by the execution engine (e.g. created with `client.createWallet()`).
+   *
+   * @param params - Add liquidity parameters
+   * @returns TransactionBuilder for chaining
+   *
+   * @example
+   * ```typescript
+   * const { publicKey: position } = await client.createWallet(wallet);
+   *
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dlmm.addLiquidityByStrategy({
+   *     pool: poolAddress,
+   *     user: wallet,
+   *     position,
+   *     totalXAmount: 1_000_000,
+   *     totalYAmount: 1_000_000_000,
+   *     strategy: 'spot',
+   *     initializePosition: true,
+   *   });
+   * ```
+   */
+  async addLiquidityByStrategy(
+    params: DLMMAddLiquidityByStrategyParams
+  ): Promise<TransactionBuilder> {
+    const { StrategyType } = await import('@meteora-ag/dlmm');
+    const pool = await this.loadPool(params.pool);
+
+    const user = toPublicKey(params.user);
+    const positionAddress = toPublicKey(params.position);
+
+    // Resolve bin range: explicit > existing position range > around active bin
+    let { minBinId, maxBinId } = params;
+    if (minBinId === undefined || maxBinId === undefined) {
+      if (params.initializePosition) {
+        const activeBinId = pool.lbPair.activeId;
+        minBinId ??= activeBinId - DEFAULT_BIN_RANGE;
+        maxBinId ??= activeBinId + DEFAULT_BIN_RANGE;
+      } else {
+        const { positionData } = await this.trace('fetch_position', () =>
+          pool.getPosition(positionAddress)
+        );
+        minBinId ??= positionData.lowerBinId;
+        maxBinId ??= positionData.upperBinId;
+      }
+    }
+
+    const strategyTypes: Record<DLMMStrategyType, number> = {
+      spot: StrategyType.Spot,
+      curve: StrategyType.Curve,
+      bidAsk: StrategyType.BidAsk,
+    };
+
+    const liquidityParams = {
+      positionPubKey: positionAddress,
+      totalXAmount: toBN(params.totalXAmount),
+      totalYAmount: toBN(params.totalYAmount),
+      strategy: {
+        minBinId,
+        maxBinId,
+        strategyType: strategyTypes[params.strategy],
+        singleSidedX: params.singleSidedX,
+      },
+      user,
+      // SDK expects slippage as a percentage
+      slippage: params.slippageBps !== undefined ? params.slippageBps / 100 : undefined,
+    };
+
+    const addTx = await this.trace('build', () =>
+      params.initializePosition
+        ? pool.initializePositionAndAddLiquidityByStrategy(liquidityParams)
+        : pool.addLiquidityByStrategy(liquidityParams)
+    );
+
+    return this.builder.rawTransaction({
+      transaction: addTx as unknown as Transaction,
+      additionalSigners: params.initializePosition ? [positionAddress] : [],
+    });
+  }
+
+  /**
+   * Remove liquidity from a range of bins in a DLMM position
+   *
+   * Withdraws `bps` of the liquidity from every bin between `fromBinId` and
+   * `toBinId` (the whole position by default). Wide ranges may be split into
+   * several transactions by the SDK; each one is added to the builder.
+   *
+   * @param params - Remove liquidity parameters
+   * @returns TransactionBuilder for chaining
+   *
+   * @example
+   * ```typescript
+   * // Withdraw half of the liquidity and keep the position open
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dlmm.removeLiquidity({
+   *     pool: poolAddress,
+   *     user: wallet,
+   *     position: positionAddress,
+   *     bps: 5_000,
+   *   });
+   * ```
+   */
+  async removeLiquidity(params: DLMMRemoveLiquidityParams): Promise<TransactionBuilder> {
+    const pool = await this.loadPool(params.pool);
+
+    const positionAddress = toPublicKey(params.position);
+
+    let { fromBinId, toBinId } = params;
+    if (fromBinId === undefined || toBinId === undefined) {
+      const { positionData } = await this.trace('fetch_position', () =>
+        pool.getPosition(positionAddress)
+      );
+      fromBinId ??= positionData.lowerBinId;
+      toBinId ??= positionData.upperBinId;
+    }
+
+    const removeTxs = await this.trace('build', () =>
+      pool.removeLiquidity({
+        user: toPublicKey(params.user),
+        position: positionAddress,
+        fromBinId,
+        toBinId,
+        bps: new BN(params.bps ?? BPS_DENOMINATOR),
+        shouldClaimAndClose: params.claimAndClose ?? false,
+      })
+    );
+
+    return this.addTransactions(removeTxs);
+  }
+
+  /**
+   * Claim swap fees accrued by a DLMM position
+   *
+   * @param params - Claim swap fee parameters
+   * @returns TransactionBuilder for chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dlmm.claimSwapFee({
+   *     pool: poolAddress,
+   *     user: wallet,
+   *     position: positionAddress,
+   *   });
+   * ```
+   */
+  async claimSwapFee(params: DLMMClaimSwapFeeParams): Promise<TransactionBuilder> {
+    const pool = await this.loadPool(params.pool);
+
+    const position = await this.trace('fetch_position', () =>
+      pool.getPosition(toPublicKey(params.position))
+    );
+
+    const claimTxs = await this.trace('build', () =>
+      pool.claimSwapFee({
+        owner: toPublicKey(params.user),
+        position,
+      })
+    );
+
+    return this.addTransactions(claimTxs);
+  }
+
+  /**
+   * Claim swap fees and liquidity mining rewards from DLMM positions
+   *
+   * Claims from every position the user holds in the pool unless `positions`
+   * is given.
+   *
+   * @param params - Claim all rewards parameters
+   * @returns TransactionBuilder for chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dlmm.claimAllRewards({
+   *     pool: poolAddress,
+   *     user: wallet,
+   *   });
+   * ```
+   */
+  async claimAllRewards(params: DLMMClaimAllRewardsParams): Promise<TransactionBuilder> {
+    const pool = await this.loadPool(params.pool);
+
+    const owner = toPublicKey(params.user);
+
+    const positions = await this.trace('fetch_position', async () =>
+      params.positions
+        ? Promise.all(params.positions.map((position) => pool.getPosition(toPublicKey(position))))
+        : (await pool.getPositionsByUserAndLbPair(owner)).userPositions
+    );
+
+    if (positions.length === 0) {
+      throw new Error(`No DLMM positions found for ${owner.toBase58()}`);
+    }
+
+    const claimTxs = await this.trace('build', () => pool.claimAllRewards({ owner, positions }));
+
+    return this.addTransactions(claimTxs);
+  }
+
+  /**
+   * Close an empty DLMM position and reclaim its rent
+   *
+   * Remove all liquidity and claim fees and rewards first, or use
+   * `removeLiquidity({ ..., claimAndClose: true })` to do it in one step.
+   *
+   * @param params - Close position parameters
+   * @returns TransactionBuilder for chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .meteora.dlmm.closePosition({
+   *     pool: poolAddress,
+   *     user: wallet,
+   *     position: positionAddress,
+   *   });
+   * ```
+   */
+  async closePosition(params: DLMMClosePositionParams): Promise<TransactionBuilder> {
+    const pool = await this.loadPool(params.pool);
+
+    const position = await this.trace('fetch_position', () =>
+      pool.getPosition(toPublicKey(params.position))
+    );
+
+    const closeTx = await this.trace('build', () =>
+      pool.closePosition({
+        owner: toPublicKey(params.user),
+        position,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: closeTx as unknown as Transaction,
+    });
+  }
+
+  /**
+   * Create a DLMM pool instance
+   */
+  private async loadPool(pool: string | PublicKey) {
+    const connection = this.getConnection();
+
+    // Dynamic import to support optional peer dependency
+    const DLMM = (await import('@meteora-ag/dlmm')).default;
+
+    return this.trace('fetch_pool', () =>
+      DLMM.create(connection as unknown as SDKConnection, toPublicKey(pool), {
+        cluster: toMeteoraCluster(this.getClient().getCluster()),
+      })
+    );
+  }
+
+  /**
+   * Add each SDK transaction to the builder, in order
+   */
+  private addTransactions(transactions: unknown[]): TransactionBuilder {
+    for (const transaction of transactions) {
+      this.builder.rawTransaction({ transaction: transaction as Transaction });
+    }
+    return this.builder;
+  }
+}
+
+function toPublicKey(value: string | PublicKey): PublicKey {
+  return typeof value === 'string' ? new PublicKey(value) : value;
+}
+
+function toBN(value: number | BN): BN {
+  return typeof value === 'number' ? new BN(value) : value;
 }
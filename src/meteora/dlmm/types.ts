@@ -129,6 +129,120 @@ export interface DLMMSellExactOutParams {
   maxTokensIn: number | BN;
 }
 
+// =============================================================================
+// LIQUIDITY PARAMETERS
+// =============================================================================
+
+/**
+ * Liquidity distribution strategy
+ *
+ * - `spot`: uniform distribution across the bin range
+ * - `curve`: concentrated around the active bin
+ * - `bidAsk`: concentrated at the edges of the bin range
+ */
+export type DLMMStrategyType = 'spot' | 'curve' | 'bidAsk';
+
+/**
+ * Parameters for addLiquidityByStrategy() operation
+ *
+ * Deposits tokens into a position, distributed across a bin range by strategy.
+ * When `initializePosition` is set, the position account is created in the same
+ * transaction and must be a wallet managed by the execution engine
+ * (e.g. created with `client.createWallet()`), since it signs the transaction.
+ */
+export interface DLMMAddLiquidityByStrategyParams {
+  /** Pool address */
+  pool: string | PublicKey;
+  /** User wallet address (position owner) */
+  user: string | PublicKey;
+  /** Position account address */
+  position: string | PublicKey;
+  /** Amount of token X to deposit (in smallest units) */
+  totalXAmount: number | BN;
+  /** Amount of token Y to deposit (in smallest units) */
+  totalYAmount: number | BN;
+  /** Liquidity distribution strategy */
+  strategy: DLMMStrategyType;
+  /**
+   * Lowest bin ID to deposit into.
+   * Defaults to the position's lower bin, or 10 bins below the active bin for new positions.
+   */
+  minBinId?: number;
+  /**
+   * Highest bin ID to deposit into.
+   * Defaults to the position's upper bin, or 10 bins above the active bin for new positions.
+   */
+  maxBinId?: number;
+  /** Deposit token X only (single-sided) */
+  singleSidedX?: boolean;
+  /** Active bin slippage tolerance in basis points (100 = 1%) */
+  slippageBps?: number;
+  /** Create the position account before depositing (default: false) */
+  initializePosition?: boolean;
+}
+
+/**
+ * Parameters for removeLiquidity() operation
+ *
+ * Withdraws a share of the liquidity from a range of bins.
+ */
+export interface DLMMRemoveLiquidityParams {
+  /** Pool address */
+  pool: string | PublicKey;
+  /** User wallet address (position owner) */
+  user: string | PublicKey;
+  /** Position account address */
+  position: string | PublicKey;
+  /** First bin ID to withdraw from (default: position lower bin) */
+  fromBinId?: number;
+  /** Last bin ID to withdraw from (default: position upper bin) */
+  toBinId?: number;
+  /** Share of liquidity to withdraw from each bin in basis points (default: 10000 = 100%) */
+  bps?: number;
+  /** Claim fees and rewards, then close the position (default: false) */
+  claimAndClose?: boolean;
+}
+
+/**
+ * Parameters for claimSwapFee() operation
+ */
+export interface DLMMClaimSwapFeeParams {
+  /** Pool address */
+  pool: string | PublicKey;
+  /** User wallet address (position owner) */
+  user: string | PublicKey;
+  /** Position account address */
+  position: string | PublicKey;
+}
+
+/**
+ * Parameters for claimAllRewards() operation
+ *
+ * Claims swap fees and liquidity mining rewards.
+ */
+export interface DLMMClaimAllRewardsParams {
+  /** Pool address */
+  pool: string | PublicKey;
+  /** User wallet address (position owner) */
+  user: string | PublicKey;
+  /** Positions to claim from (default: all of the user's positions in the pool) */
+  positions?: (string | PublicKey)[];
+}
+
+/**
+ * Parameters for closePosition() operation
+ *
+ * The position must be empty (no liquidity, fees or rewards left).
+ */
+export interface DLMMClosePositionParams {
+  /** Pool address */
+  pool: string | PublicKey;
+  /** User wallet address (position owner) */
+  user: string | PublicKey;
+  /** Position account address */
+  position: string | PublicKey;
+}
+
 // =============================================================================
 // STATE TYPES
 // =============================================================================
@@ -175,6 +289,66 @@ export interface DLMMActiveBin {
   yAmount: BN;
 }
 
+/**
+ * Liquidity held by a position in a single bin
+ */
+export interface DLMMPositionBin {
+  /** Bin ID */
+  binId: number;
+  /** Price at this bin */
+  price: string;
+  /** Price per token (formatted) */
+  pricePerToken: string;
+  /** Position liquidity share in this bin */
+  liquidity: BN;
+  /** Position X amount in this bin */
+  xAmount: BN;
+  /** Position Y amount in this bin */
+  yAmount: BN;
+  /** Unclaimed X fees accrued in this bin */
+  feeX: BN;
+  /** Unclaimed Y fees accrued in this bin */
+  feeY: BN;
+  /** Unclaimed rewards accrued in this bin (one entry per reward slot) */
+  rewards: BN[];
+}
+
+/**
+ * DLMM Position Information
+ *
+ * Result from getPositionsByUser().
+ */
+export interface DLMMPositionInfo {
+  /** Position account address */
+  address: PublicKey;
+  /** Pool address */
+  pool: PublicKey;
+  /** Token X mint address */
+  tokenXMint: PublicKey;
+  /** Token Y mint address */
+  tokenYMint: PublicKey;
+  /** Lowest bin ID covered by the position */
+  lowerBinId: number;
+  /** Highest bin ID covered by the position */
+  upperBinId: number;
+  /** Total X amount held by the position */
+  totalXAmount: BN;
+  /** Total Y amount held by the position */
+  totalYAmount: BN;
+  /** Unclaimed X fees */
+  feeX: BN;
+  /** Unclaimed Y fees */
+  feeY: BN;
+  /** Unclaimed first reward */
+  rewardOne: BN;
+  /** Unclaimed second reward */
+  rewardTwo: BN;
+  /** Per-bin liquidity and fee accruals */
+  bins: DLMMPositionBin[];
+  /** Raw SDK position for advanced usage */
+  raw: unknown;
+}
+
 // =============================================================================
 // QUOTE TYPES
 // =============================================================================
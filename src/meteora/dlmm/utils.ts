@@ -11,11 +11,14 @@
 import type { Connection } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { DEFAULT_CLUSTER, toMeteoraCluster } from '../../utils/cluster';
+import type { SolanaCluster } from '../../types';
 import type {
   DLMMPoolState,
   DLMMActiveBin,
   DLMMSwapQuote,
   DLMMSwapQuoteExactOut,
+  DLMMPositionInfo,
 } from './types';
 import { SOL_MINT } from './types';
 
@@ -55,6 +58,7 @@ export class DLMMUtils {
    *
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool public key or string
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
    * @returns Pool state information including raw DLMM instance
    *
    * @example
@@ -69,7 +73,8 @@ export class DLMMUtils {
    */
   static async getPool(
     connection: Connection,
-    poolAddress: string | PublicKey
+    poolAddress: string | PublicKey,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
   ): Promise<DLMMPoolState> {
     // Dynamic import to support optional peer dependency
     const DLMM = (await import('@meteora-ag/dlmm')).default;
@@ -80,7 +85,8 @@ export class DLMMUtils {
     // Type assertion needed due to SDK bundling its own @solana/web3.js version
     const pool = await DLMM.create(
       connection as unknown as Parameters<typeof DLMM.create>[0],
-      address
+      address,
+      { cluster: toMeteoraCluster(cluster) }
     );
 
     // Access token properties through type assertion due to SDK types
@@ -105,6 +111,7 @@ export class DLMMUtils {
    *
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool public key or string
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
    * @returns Active bin information
    *
    * @example
@@ -117,7 +124,8 @@ export class DLMMUtils {
    */
   static async getActiveBin(
     connection: Connection,
-    poolAddress: string | PublicKey
+    poolAddress: string | PublicKey,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
   ): Promise<DLMMActiveBin> {
     // Dynamic import to support optional peer dependency
     const DLMM = (await import('@meteora-ag/dlmm')).default;
@@ -128,7 +136,8 @@ export class DLMMUtils {
     // Type assertion needed due to SDK bundling its own @solana/web3.js version
     const pool = await DLMM.create(
       connection as unknown as Parameters<typeof DLMM.create>[0],
-      address
+      address,
+      { cluster: toMeteoraCluster(cluster) }
     );
 
     const activeBin = await pool.getActiveBin();
@@ -150,6 +159,7 @@ export class DLMMUtils {
    * @param inputMint - Input token mint address
    * @param amountIn - Input amount in smallest units
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
    * @returns Swap quote with expected output and fees
    *
    * @example
@@ -173,7 +183,8 @@ export class DLMMUtils {
     poolAddress: string | PublicKey,
     inputMint: string | PublicKey,
     amountIn: number | BN,
-    slippageBps: number
+    slippageBps: number,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
   ): Promise<DLMMSwapQuote> {
     // Dynamic import to support optional peer dependency
     const DLMM = (await import('@meteora-ag/dlmm')).default;
@@ -187,7 +198,8 @@ export class DLMMUtils {
     // Type assertion needed due to SDK bundling its own @solana/web3.js version
     const pool = await DLMM.create(
       connection as unknown as Parameters<typeof DLMM.create>[0],
-      address
+      address,
+      { cluster: toMeteoraCluster(cluster) }
     );
 
     // Determine swap direction (swapForY = true means X -> Y)
@@ -223,6 +235,7 @@ export class DLMMUtils {
    * @param outputMint - Output token mint address
    * @param amountOut - Desired output amount in smallest units
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
    * @returns Swap quote with maximum input needed
    *
    * @example
@@ -244,7 +257,8 @@ export class DLMMUtils {
     poolAddress: string | PublicKey,
     outputMint: string | PublicKey,
     amountOut: number | BN,
-    slippageBps: number
+    slippageBps: number,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
   ): Promise<DLMMSwapQuoteExactOut> {
     // Dynamic import to support optional peer dependency
     const DLMM = (await import('@meteora-ag/dlmm')).default;
@@ -258,7 +272,8 @@ export class DLMMUtils {
     // Type assertion needed due to SDK bundling its own @solana/web3.js version
     const pool = await DLMM.create(
       connection as unknown as Parameters<typeof DLMM.create>[0],
-      address
+      address,
+      { cluster: toMeteoraCluster(cluster) }
     );
 
     // Determine swap direction (swapForY = true means X -> Y, so output is Y)
@@ -287,6 +302,83 @@ export class DLMMUtils {
     };
   }
 
+  /**
+   * Get all DLMM positions owned by a user
+   *
+   * Scans every pool the user has positions in and returns per-bin liquidity
+   * together with unclaimed fees and rewards.
+   *
+   * @param connection - Solana RPC connection
+   * @param user - Position owner address
+   * @param cluster - Solana cluster of the connection (default: 'mainnet')
+   * @returns Positions across all DLMM pools
+   *
+   * @example
+   * ```typescript
+   * const positions = await DLMMUtils.getPositionsByUser(connection, wallet);
+   *
+   * for (const position of positions) {
+   *   console.log('Position:', position.address.toBase58());
+   *   console.log('Range:', position.lowerBinId, '-', position.upperBinId);
+   *   console.log('Unclaimed fees:', position.feeX.toString(), position.feeY.toString());
+   * }
+   * ```
+   */
+  static async getPositionsByUser(
+    connection: Connection,
+    user: string | PublicKey,
+    cluster: SolanaCluster = DEFAULT_CLUSTER
+  ): Promise<DLMMPositionInfo[]> {
+    // Dynamic import to support optional peer dependency
+    const DLMM = (await import('@meteora-ag/dlmm')).default;
+
+    const owner = typeof user === 'string' ? new PublicKey(user) : user;
+
+    // Type assertion needed due to SDK bundling its own @solana/web3.js version
+    const positionsByPool = await DLMM.getAllLbPairPositionsByUser(
+      connection as unknown as Parameters<typeof DLMM.create>[0],
+      owner,
+      { cluster: toMeteoraCluster(cluster) }
+    );
+
+    const positions: DLMMPositionInfo[] = [];
+
+    for (const info of positionsByPool.values()) {
+      for (const position of info.lbPairPositionsData) {
+        const data = position.positionData;
+
+        positions.push({
+          address: position.publicKey,
+          pool: info.publicKey,
+          tokenXMint: info.tokenX.publicKey,
+          tokenYMint: info.tokenY.publicKey,
+          lowerBinId: data.lowerBinId,
+          upperBinId: data.upperBinId,
+          totalXAmount: toAmountBN(data.totalXAmount),
+          totalYAmount: toAmountBN(data.totalYAmount),
+          feeX: data.feeX,
+          feeY: data.feeY,
+          rewardOne: data.rewardOne,
+          rewardTwo: data.rewardTwo,
+          bins: data.positionBinData.map((bin) => ({
+            binId: bin.binId,
+            price: bin.price,
+            pricePerToken: bin.pricePerToken,
+            liquidity: toAmountBN(bin.positionLiquidity),
+            xAmount: toAmountBN(bin.positionXAmount),
+            yAmount: toAmountBN(bin.positionYAmount),
+            feeX: toAmountBN(bin.positionFeeXAmount),
+            feeY: toAmountBN(bin.positionFeeYAmount),
+            rewards: bin.positionRewardAmount.map(toAmountBN),
+          })),
+          raw: position,
+        });
+      }
+    }
+
+    return positions;
+  }
+
   /**
    * Helper to determine if a mint is SOL (native wrapped SOL)
    */
@@ -295,3 +387,23 @@ export class DLMMUtils {
     return mintStr === SOL_MINT;
   }
 }
+
+/**
+ * Convert an SDK amount to a BN, rounding down
+ *
+ * The DLMM SDK reports position totals as decimal.js strings, which switch to
+ * exponent notation from 1e21 and may carry a fractional part.
+ */
+function toAmountBN(value: string | number): BN {
+  const match = /^(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+  if (!match) {
+    throw new Error(`Invalid DLMM amount: ${value}`);
+  }
+
+  const [, integer = '', fraction = '', exponent = '0'] = match;
+  const point = integer.length + Number(exponent);
+  if (point <= 0) {
+    return new BN(0);
+  }
+  return new BN((integer + fraction).padEnd(point, '0').slice(0, point));
+}
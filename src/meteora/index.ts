@@ -74,9 +74,16 @@ export type {
   DAMMv2Sell2Params,
   DAMMv2BuyExactOutParams,
   DAMMv2SellExactOutParams,
+  // Liquidity params
+  DAMMv2CreatePositionParams,
+  DAMMv2AddLiquidityParams,
+  DAMMv2RemoveLiquidityParams,
+  DAMMv2ClaimPositionFeeParams,
+  DAMMv2ClosePositionParams,
   // State/query types
   DAMMv2PoolState,
   DAMMv2SwapQuote,
+  DAMMv2PositionInfo,
 } from './damm-v2';
 
 // DAMM v1 sub-module (re-export everything)
@@ -115,9 +122,18 @@ export type {
   DLMMSellParams,
   DLMMBuyExactOutParams,
   DLMMSellExactOutParams,
+  // Liquidity params
+  DLMMStrategyType,
+  DLMMAddLiquidityByStrategyParams,
+  DLMMRemoveLiquidityParams,
+  DLMMClaimSwapFeeParams,
+  DLMMClaimAllRewardsParams,
+  DLMMClosePositionParams,
   // State/query types
   DLMMPoolState,
   DLMMActiveBin,
   DLMMSwapQuote,
   DLMMSwapQuoteExactOut,
+  DLMMPositionBin,
+  DLMMPositionInfo,
 } from './dlmm';
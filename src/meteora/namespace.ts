@@ -15,6 +15,7 @@ import { DBCNamespace } from './dbc';
 import { DAMMv1Namespace } from './damm-v1';
 import { DAMMv2Namespace } from './damm-v2';
 import { DLMMNamespace } from './dlmm';
+import { traceNamespace } from '../utils/tracing';
 
 /**
  * Meteora Namespace for TransactionBuilder
@@ -86,7 +87,11 @@ export class MeteoraNamespace {
    */
   get dbc(): DBCNamespace {
     if (!this._dbc) {
-      this._dbc = new DBCNamespace(this.builder);
+      this._dbc = traceNamespace(
+        new DBCNamespace(this.builder),
+        'meteora.dbc',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._dbc;
   }
@@ -111,7 +116,11 @@ export class MeteoraNamespace {
    */
   get dammV1(): DAMMv1Namespace {
     if (!this._dammV1) {
-      this._dammV1 = new DAMMv1Namespace(this.builder);
+      this._dammV1 = traceNamespace(
+        new DAMMv1Namespace(this.builder),
+        'meteora.dammV1',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._dammV1;
   }
@@ -136,7 +145,11 @@ export class MeteoraNamespace {
    */
   get dammV2(): DAMMv2Namespace {
     if (!this._dammV2) {
-      this._dammV2 = new DAMMv2Namespace(this.builder);
+      this._dammV2 = traceNamespace(
+        new DAMMv2Namespace(this.builder),
+        'meteora.dammV2',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._dammV2;
   }
@@ -161,7 +174,11 @@ export class MeteoraNamespace {
    */
   get dlmm(): DLMMNamespace {
     if (!this._dlmm) {
-      this._dlmm = new DLMMNamespace(this.builder);
+      this._dlmm = traceNamespace(
+        new DLMMNamespace(this.builder),
+        'meteora.dlmm',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._dlmm;
   }
@@ -0,0 +1,17 @@
+/**
+ * Metrics Module
+ *
+ * Prometheus / OpenMetrics exporter for client request, latency and
+ * connection metrics.
+ *
+ * @module metrics
+ */
+
+// Exporter
+export { PrometheusExporter } from './prometheus';
+
+// Constants
+export { DEFAULT_METRICS_PREFIX, DEFAULT_LATENCY_BUCKETS, OPENMETRICS_CONTENT_TYPE } from './types';
+
+// Types
+export type { PrometheusExporterOptions, MetricsListenOptions } from './types';
@@ -0,0 +1,331 @@
+/**
+ * Prometheus Exporter
+ *
+ * Collects request counters and latency histograms from a client and renders
+ * them, together with its connection statistics, in the OpenMetrics text format.
+ *
+ * @module metrics/prometheus
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { LysFlash } from '../client';
+import type { RequestRecord } from '../types';
+import type { MetricsListenOptions, PrometheusExporterOptions } from './types';
+import { DEFAULT_LATENCY_BUCKETS, DEFAULT_METRICS_PREFIX, OPENMETRICS_CONTENT_TYPE } from './types';
+
+type Labels = Record<string, string>;
+
+/**
+ * Counter value for one label set
+ */
+interface CounterSeries {
+  labels: Labels;
+  value: number;
+}
+
+/**
+ * Histogram state for one label set
+ */
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Prometheus / OpenMetrics exporter for a `LysFlash` client
+ *
+ * Exposes:
+ * - `<prefix>_requests_total{method,transport}` — completed requests
+ * - `<prefix>_request_failures_total{method,code}` — failed requests by `ErrorCode`
+ * - `<prefix>_request_duration_seconds{method,transport}` — request latency histogram
+ * - `<prefix>_retries_total` — retry attempts of those requests
+ * - `<prefix>_reconnects_total` — transport reconnection attempts
+ * - `<prefix>_reconnect_attempts` — current transport reconnection attempts
+ * - `<prefix>_connected` — 1 while the transport is connected
+ * - `<prefix>_broadcasts_total{endpoint}` / `<prefix>_broadcast_wins_total{endpoint}` — FLASH broadcasts
+ *
+ * Counters start when the exporter is created and are not affected by `client.resetStats()`.
+ * Requests rejected by client-side validation count as requests and failures but are left
+ * out of the latency histogram.
+ *
+ * @example Existing HTTP server
+ * ```typescript
+ * import { PrometheusExporter } from '@lyslabs.ai/lys-flash';
+ *
+ * const exporter = new PrometheusExporter(client, { labels: { instance: 'bot-1' } });
+ * app.get('/metrics', exporter.requestHandler);
+ * ```
+ *
+ * @example Built-in listener
+ * ```typescript
+ * const exporter = new PrometheusExporter(client);
+ * await exporter.listen({ port: 9464 }); // http://localhost:9464/metrics
+ * ```
+ */
+export class PrometheusExporter {
+  private readonly client: LysFlash;
+  private readonly prefix: string;
+  private readonly bucketBounds: number[];
+  private readonly constantLabels: Labels;
+  private readonly requests: Map<string, CounterSeries> = new Map();
+  private readonly failures: Map<string, CounterSeries> = new Map();
+  private readonly durations: Map<string, HistogramSeries> = new Map();
+  private readonly broadcasts: Map<string, CounterSeries> = new Map();
+  private readonly broadcastWins: Map<string, CounterSeries> = new Map();
+  private retries = 0;
+  private reconnects = 0;
+  private readonly detach: () => void;
+  private server: http.Server | null = null;
+
+  constructor(client: LysFlash, options: PrometheusExporterOptions = {}) {
+    const buckets = options.buckets ?? [...DEFAULT_LATENCY_BUCKETS];
+    if (buckets.some((bound) => !Number.isFinite(bound) || bound <= 0)) {
+      throw new Error(`Invalid histogram buckets: ${buckets.join(', ')}`);
+    }
+
+    this.client = client;
+    this.prefix = options.prefix ?? DEFAULT_METRICS_PREFIX;
+    this.bucketBounds = [...new Set(buckets)].sort((a, b) => a - b);
+    this.constantLabels = { ...options.labels };
+    const detachRequests = client.onRequestComplete((record) => this.observe(record));
+    const detachReconnects = client.onReconnect(() => {
+      this.reconnects++;
+    });
+    this.detach = () => {
+      detachRequests();
+      detachReconnects();
+    };
+  }
+
+  /**
+   * Render all metrics in the OpenMetrics text format
+   *
+   * @returns Exposition text, terminated by `# EOF`
+   */
+  metrics(): string {
+    const stats = this.client.getStats();
+    const p = this.prefix;
+    const lines: string[] = [];
+
+    lines.push(`# TYPE ${p}_requests counter`, `# HELP ${p}_requests Completed requests.`);
+    for (const series of this.requests.values()) {
+      lines.push(this.sample(`${p}_requests_total`, series.labels, series.value));
+    }
+
+    lines.push(
+      `# TYPE ${p}_request_failures counter`,
+      `# HELP ${p}_request_failures Failed requests by error code.`
+    );
+    for (const series of this.failures.values()) {
+      lines.push(this.sample(`${p}_request_failures_total`, series.labels, series.value));
+    }
+
+    lines.push(
+      `# TYPE ${p}_request_duration_seconds histogram`,
+      `# UNIT ${p}_request_duration_seconds seconds`,
+      `# HELP ${p}_request_duration_seconds Request latency including retries.`
+    );
+    for (const series of this.durations.values()) {
+      const name = `${p}_request_duration_seconds`;
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(
+          this.sample(
+            `${name}_bucket`,
+            { ...series.labels, le: String(bound) },
+            series.buckets[index] ?? 0
+          )
+        );
+      });
+      lines.push(this.sample(`${name}_bucket`, { ...series.labels, le: '+Inf' }, series.count));
+      lines.push(this.sample(`${name}_sum`, series.labels, series.sum));
+      lines.push(this.sample(`${name}_count`, series.labels, series.count));
+    }
+
+    lines.push(`# TYPE ${p}_retries counter`, `# HELP ${p}_retries Retry attempts.`);
+    lines.push(this.sample(`${p}_retries_total`, {}, this.retries));
+
+    lines.push(
+      `# TYPE ${p}_reconnects counter`,
+      `# HELP ${p}_reconnects Transport reconnection attempts.`
+    );
+    lines.push(this.sample(`${p}_reconnects_total`, {}, this.reconnects));
+
+    lines.push(
+      `# TYPE ${p}_reconnect_attempts gauge`,
+      `# HELP ${p}_reconnect_attempts Transport reconnection attempts since the last successful connect.`
+    );
+    lines.push(this.sample(`${p}_reconnect_attempts`, {}, stats.reconnectAttempts));
+
+    lines.push(
+      `# TYPE ${p}_connected gauge`,
+      `# HELP ${p}_connected Whether the transport is connected.`
+    );
+    lines.push(this.sample(`${p}_connected`, {}, stats.connected ? 1 : 0));
+
+    lines.push(
+      `# TYPE ${p}_broadcasts counter`,
+      `# HELP ${p}_broadcasts FLASH broadcasts by endpoint.`
+    );
+    for (const series of this.broadcasts.values()) {
+      lines.push(this.sample(`${p}_broadcasts_total`, series.labels, series.value));
+    }
+
+    lines.push(
+      `# TYPE ${p}_broadcast_wins counter`,
+      `# HELP ${p}_broadcast_wins FLASH broadcasts that landed, by endpoint.`
+    );
+    for (const series of this.broadcastWins.values()) {
+      lines.push(this.sample(`${p}_broadcast_wins_total`, series.labels, series.value));
+    }
+
+    lines.push('# EOF');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Node.js HTTP request listener that responds with the metrics
+   *
+   * Works with `http.createServer()` and Express-style routers.
+   */
+  readonly requestHandler = (_req: http.IncomingMessage, res: http.ServerResponse): void => {
+    const body = this.metrics();
+    res.writeHead(200, {
+      'Content-Type': OPENMETRICS_CONTENT_TYPE,
+      'Content-Length': Buffer.byteLength(body),
+    });
+    res.end(body);
+  };
+
+  /**
+   * Serve metrics from a built-in HTTP listener
+   *
+   * @param options - Port, host and path
+   * @returns Address the listener is bound to
+   */
+  async listen(options: MetricsListenOptions): Promise<AddressInfo> {
+    if (this.server) {
+      throw new Error('Metrics listener is already running');
+    }
+
+    const path = options.path ?? '/metrics';
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (req.method === 'GET' && url.pathname === path) {
+        this.requestHandler(req, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port, options.host ?? '0.0.0.0', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    return server.address() as AddressInfo;
+  }
+
+  /**
+   * Stop collecting metrics and close the built-in listener
+   */
+  async close(): Promise<void> {
+    this.detach();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Update counters and histograms for a completed request
+   */
+  private observe(record: RequestRecord): void {
+    const labels: Labels = { method: record.method };
+    if (record.transport) {
+      labels.transport = record.transport;
+    }
+
+    increment(this.requests, labels);
+    if (record.errorCode) {
+      increment(this.failures, { method: record.method, code: record.errorCode });
+    }
+
+    this.retries += record.retries;
+    for (const broadcast of record.broadcasts ?? []) {
+      increment(this.broadcasts, { endpoint: broadcast.endpoint });
+      if (broadcast.landed) {
+        increment(this.broadcastWins, { endpoint: broadcast.endpoint });
+      }
+    }
+
+    if (record.rejected) {
+      return;
+    }
+
+    const key = seriesKey(labels);
+    const histogram = this.durations.get(key) ?? {
+      labels,
+      buckets: this.bucketBounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.durations.set(key, histogram);
+
+    const seconds = record.latency / 1000;
+    this.bucketBounds.forEach((bound, index) => {
+      if (seconds <= bound) {
+        histogram.buckets[index] = (histogram.buckets[index] ?? 0) + 1;
+      }
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Format one sample line
+   */
+  private sample(name: string, labels: Labels, value: number): string {
+    const entries = Object.entries({ ...this.constantLabels, ...labels });
+    const labelText =
+      entries.length > 0
+        ? `{${entries.map(([key, labelValue]) => `${key}="${escapeLabel(labelValue)}"`).join(',')}}`
+        : '';
+    return `${name}${labelText} ${value}`;
+  }
+}
+
+/**
+ * Increment the counter series for a label set
+ */
+function increment(counters: Map<string, CounterSeries>, labels: Labels): void {
+  const key = seriesKey(labels);
+  const series = counters.get(key);
+  if (series) {
+    series.value++;
+  } else {
+    counters.set(key, { labels, value: 1 });
+  }
+}
+
+/**
+ * Stable map key for a label set
+ */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Escape a label value (backslash, double quote and newline)
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,77 @@
+/**
+ * Metrics Types
+ *
+ * Type definitions and defaults for the Prometheus / OpenMetrics exporter.
+ *
+ * @module metrics/types
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default metric name prefix
+ */
+export const DEFAULT_METRICS_PREFIX = 'lys_flash';
+
+/**
+ * Default request duration histogram buckets (seconds)
+ */
+export const DEFAULT_LATENCY_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Content type of the OpenMetrics text exposition format
+ */
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/**
+ * Options for `PrometheusExporter`
+ */
+export interface PrometheusExporterOptions {
+  /**
+   * Prefix of every metric name
+   * @default 'lys_flash'
+   */
+  prefix?: string;
+
+  /**
+   * Upper bounds of the request duration histogram buckets in seconds
+   * @default [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  buckets?: number[];
+
+  /**
+   * Labels added to every sample (e.g. `{ instance: 'bot-1' }`)
+   */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Options for `PrometheusExporter.listen()`
+ */
+export interface MetricsListenOptions {
+  /**
+   * Port to listen on (0 picks a free port)
+   */
+  port: number;
+
+  /**
+   * Interface to bind
+   * @default '0.0.0.0'
+   */
+  host?: string;
+
+  /**
+   * Path metrics are served on
+   * @default '/metrics'
+   */
+  path?: string;
+}
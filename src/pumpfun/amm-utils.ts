@@ -0,0 +1,468 @@
+/**
+ * Pump.fun AMM Static Utilities
+ *
+ * Static utility functions for Pump.fun AMM (PumpSwap) pools that don't require a
+ * TransactionBuilder instance. Decodes on-chain accounts directly, so no PumpSwap
+ * SDK is needed.
+ *
+ * @module pumpfun/amm-utils
+ */
+
+import type { Connection, Commitment } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import type {
+  PumpFunAmmPoolState,
+  PumpFunAmmFees,
+  PumpFunAmmSwapQuote,
+  PumpFunAmmSwapQuoteExactOut,
+} from './types';
+import { PUMP_FUN_AMM_PROGRAM_ID } from './types';
+import {
+  BPS_DENOMINATOR,
+  applySlippage,
+  applySlippageUp,
+  ceilDiv,
+  ceilFee,
+  ratioPercent,
+} from './math';
+
+// Account layouts (offsets include the 8-byte Anchor discriminator)
+const POOL_LAYOUT = {
+  index: 9,
+  creator: 11,
+  baseMint: 43,
+  quoteMint: 75,
+  lpMint: 107,
+  poolBaseTokenAccount: 139,
+  poolQuoteTokenAccount: 171,
+  lpSupply: 203,
+  coinCreator: 211,
+  isMayhemMode: 243,
+} as const;
+
+const GLOBAL_CONFIG_LAYOUT = {
+  lpFeeBasisPoints: 40,
+  protocolFeeBasisPoints: 48,
+  coinCreatorFeeBasisPoints: 313,
+} as const;
+
+// SPL token account `amount` offset (same for Token and Token-2022)
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+/**
+ * Static utility functions for Pump.fun AMM
+ *
+ * @example
+ * ```typescript
+ * import { Connection } from '@solana/web3.js';
+ * import { PumpFunAmmUtils } from '@lyslabs.ai/lys-flash';
+ *
+ * const connection = new Connection('https://api.mainnet-beta.solana.com');
+ *
+ * // Get pool state, including token programs and reserves
+ * const pool = await PumpFunAmmUtils.getPool(connection, 'PoolAddress...');
+ * console.log('Base mint:', pool.baseMint.toBase58());
+ * console.log('Base token program:', pool.baseTokenProgram.toBase58());
+ *
+ * // Quote a buy of 0.1 SOL
+ * const quote = await PumpFunAmmUtils.getQuote(
+ *   connection,
+ *   'PoolAddress...',
+ *   pool.quoteMint,
+ *   100_000_000,
+ *   100 // 1% slippage
+ * );
+ * console.log('Expected tokens:', quote.amountOut.toString());
+ * ```
+ */
+export class PumpFunAmmUtils {
+  /**
+   * Fetch and decode a Pump.fun AMM pool
+   *
+   * Resolves the base and quote token programs from the mint owners and reads
+   * the pool reserves from its token accounts.
+   *
+   * @param connection - Solana RPC connection
+   * @param poolAddress - Pool address
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Pool state
+   * @throws Error if the pool, its mints or its token accounts don't exist
+   *
+   * @example
+   * ```typescript
+   * const pool = await PumpFunAmmUtils.getPool(connection, 'PoolAddress...');
+   *
+   * console.log('Coin creator:', pool.coinCreator?.toBase58());
+   * console.log('Base reserve:', pool.baseReserve.toString());
+   * console.log('Quote reserve:', pool.quoteReserve.toString());
+   * ```
+   */
+  static async getPool(
+    connection: Connection,
+    poolAddress: string | PublicKey,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunAmmPoolState> {
+    const address = typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
+
+    const accountInfo = await connection.getAccountInfo(address, commitment);
+    if (!accountInfo || !accountInfo.owner.equals(new PublicKey(PUMP_FUN_AMM_PROGRAM_ID))) {
+      throw new Error(`Pump.fun AMM pool not found: ${address.toBase58()}`);
+    }
+
+    const data = accountInfo.data;
+    if (data.length < POOL_LAYOUT.coinCreator) {
+      throw new Error(`Invalid Pump.fun AMM pool account data: ${address.toBase58()}`);
+    }
+
+    const readPublicKey = (offset: number) => new PublicKey(data.subarray(offset, offset + 32));
+
+    const baseMint = readPublicKey(POOL_LAYOUT.baseMint);
+    const quoteMint = readPublicKey(POOL_LAYOUT.quoteMint);
+    const poolBaseTokenAccount = readPublicKey(POOL_LAYOUT.poolBaseTokenAccount);
+    const poolQuoteTokenAccount = readPublicKey(POOL_LAYOUT.poolQuoteTokenAccount);
+
+    let coinCreator: PublicKey | null = null;
+    if (data.length >= POOL_LAYOUT.coinCreator + 32) {
+      const key = readPublicKey(POOL_LAYOUT.coinCreator);
+      coinCreator = key.equals(PublicKey.default) ? null : key;
+    }
+
+    const [baseMintInfo, quoteMintInfo, baseVaultInfo, quoteVaultInfo] =
+      await connection.getMultipleAccountsInfo(
+        [baseMint, quoteMint, poolBaseTokenAccount, poolQuoteTokenAccount],
+        commitment
+      );
+
+    if (!baseMintInfo) {
+      throw new Error(`Mint not found: ${baseMint.toBase58()}`);
+    }
+    if (!quoteMintInfo) {
+      throw new Error(`Mint not found: ${quoteMint.toBase58()}`);
+    }
+    if (!baseVaultInfo || !quoteVaultInfo) {
+      throw new Error(`Pump.fun AMM pool token accounts not found: ${address.toBase58()}`);
+    }
+
+    return {
+      address,
+      index: data.readUInt16LE(POOL_LAYOUT.index),
+      creator: readPublicKey(POOL_LAYOUT.creator),
+      baseMint,
+      quoteMint,
+      lpMint: readPublicKey(POOL_LAYOUT.lpMint),
+      poolBaseTokenAccount,
+      poolQuoteTokenAccount,
+      lpSupply: new BN(data.subarray(POOL_LAYOUT.lpSupply, POOL_LAYOUT.lpSupply + 8), 'le'),
+      coinCreator,
+      isMayhemMode: data[POOL_LAYOUT.isMayhemMode] === 1,
+      baseTokenProgram: baseMintInfo.owner,
+      quoteTokenProgram: quoteMintInfo.owner,
+      baseReserve: readTokenAmount(baseVaultInfo.data),
+      quoteReserve: readTokenAmount(quoteVaultInfo.data),
+    };
+  }
+
+  /**
+   * Fetch the LP, protocol and coin creator fees from the Pump.fun AMM global config
+   *
+   * @param connection - Solana RPC connection
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Fee configuration in basis points
+   * @throws Error if the global config account doesn't exist
+   */
+  static async getFees(
+    connection: Connection,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunAmmFees> {
+    const [globalConfigAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('global_config')],
+      new PublicKey(PUMP_FUN_AMM_PROGRAM_ID)
+    );
+
+    const accountInfo = await connection.getAccountInfo(globalConfigAddress, commitment);
+    if (!accountInfo) {
+      throw new Error(`Pump.fun AMM global config not found: ${globalConfigAddress.toBase58()}`);
+    }
+
+    const data = accountInfo.data;
+    const readBps = (offset: number) =>
+      data.length >= offset + 8 ? new BN(data.subarray(offset, offset + 8), 'le').toNumber() : 0;
+
+    return {
+      lpFeeBps: readBps(GLOBAL_CONFIG_LAYOUT.lpFeeBasisPoints),
+      protocolFeeBps: readBps(GLOBAL_CONFIG_LAYOUT.protocolFeeBasisPoints),
+      coinCreatorFeeBps: readBps(GLOBAL_CONFIG_LAYOUT.coinCreatorFeeBasisPoints),
+    };
+  }
+
+  /**
+   * Get Pump.fun AMM swap quote (ExactIn)
+   *
+   * Quoting the quote mint (SOL) in is a buy, quoting the base mint in is a sell.
+   *
+   * @param connection - Solana RPC connection
+   * @param poolAddress - Pool address
+   * @param inputMint - Input token mint address
+   * @param amountIn - Input amount including fees
+   * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+   * @param fees - Fee override (defaults to the global config fees)
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Swap quote with amounts and fees
+   * @throws Error if the pool is not found or the mint is not in the pool
+   *
+   * @example
+   * ```typescript
+   * const quote = await PumpFunAmmUtils.getQuote(
+   *   connection,
+   *   poolAddress,
+   *   'So11111111111111111111111111111111111111112', // Buy with SOL
+   *   100_000_000, // 0.1 SOL
+   *   100 // 1% slippage
+   * );
+   * console.log('Expected tokens:', quote.amountOut.toString());
+   * console.log('Min tokens:', quote.minimumAmountOut.toString());
+   * ```
+   */
+  static async getQuote(
+    connection: Connection,
+    poolAddress: string | PublicKey,
+    inputMint: string | PublicKey,
+    amountIn: number | BN,
+    slippageBps: number = 100,
+    fees?: PumpFunAmmFees,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunAmmSwapQuote> {
+    const [pool, resolvedFees] = await Promise.all([
+      PumpFunAmmUtils.getPool(connection, poolAddress, commitment),
+      fees ? Promise.resolve(fees) : PumpFunAmmUtils.getFees(connection, commitment),
+    ]);
+
+    return PumpFunAmmUtils.calculateQuote(pool, resolvedFees, inputMint, amountIn, slippageBps);
+  }
+
+  /**
+   * Get Pump.fun AMM swap quote (ExactOut)
+   *
+   * Quoting the base mint out is a buy, quoting the quote mint (SOL) out is a sell.
+   *
+   * @param connection - Solana RPC connection
+   * @param poolAddress - Pool address
+   * @param outputMint - Output token mint address
+   * @param amountOut - Desired output amount after fees
+   * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+   * @param fees - Fee override (defaults to the global config fees)
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Swap quote with amounts and fees
+   * @throws Error if the pool is not found, the mint is not in the pool or the
+   *   output exceeds the pool reserves
+   *
+   * @example
+   * ```typescript
+   * const quote = await PumpFunAmmUtils.getQuoteExactOut(
+   *   connection,
+   *   poolAddress,
+   *   tokenMint, // Buy exactly 1M tokens
+   *   1_000_000,
+   *   100 // 1% slippage
+   * );
+   * console.log('Required SOL:', quote.amountIn.toString());
+   * console.log('Max SOL:', quote.maximumAmountIn.toString());
+   * ```
+   */
+  static async getQuoteExactOut(
+    connection: Connection,
+    poolAddress: string | PublicKey,
+    outputMint: string | PublicKey,
+    amountOut: number | BN,
+    slippageBps: number = 100,
+    fees?: PumpFunAmmFees,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunAmmSwapQuoteExactOut> {
+    const [pool, resolvedFees] = await Promise.all([
+      PumpFunAmmUtils.getPool(connection, poolAddress, commitment),
+      fees ? Promise.resolve(fees) : PumpFunAmmUtils.getFees(connection, commitment),
+    ]);
+
+    return PumpFunAmmUtils.calculateQuoteExactOut(
+      pool,
+      resolvedFees,
+      outputMint,
+      amountOut,
+      slippageBps
+    );
+  }
+
+  /**
+   * Calculate an ExactIn quote from a pool state (no RPC calls)
+   *
+   * Fees are charged in the quote token: deducted from the quote input before a buy,
+   * and from the quote output after a sell. The coin creator fee only applies when
+   * the pool has a coin creator.
+   *
+   * @param pool - Pool state
+   * @param fees - Fee configuration
+   * @param inputMint - Input token mint address
+   * @param amountIn - Input amount including fees
+   * @param slippageBps - Slippage tolerance in basis points
+   * @returns Swap quote
+   * @throws Error if the mint is not in the pool
+   */
+  static calculateQuote(
+    pool: PumpFunAmmPoolState,
+    fees: PumpFunAmmFees,
+    inputMint: string | PublicKey,
+    amountIn: number | BN,
+    slippageBps: number = 100
+  ): PumpFunAmmSwapQuote {
+    const isBuy = PumpFunAmmUtils.isQuoteMint(pool, inputMint);
+    const amount = BN.isBN(amountIn) ? amountIn : new BN(amountIn);
+    const feeBps = PumpFunAmmUtils.getFeeBps(pool, fees);
+
+    if (isBuy) {
+      // Quote that reaches the pool after fees
+      const netQuote = amount.mul(BPS_DENOMINATOR).div(BPS_DENOMINATOR.add(feeBps.total));
+      const baseOut = pool.baseReserve.mul(netQuote).div(pool.quoteReserve.add(netQuote));
+
+      return {
+        amountIn: amount,
+        amountOut: baseOut,
+        minimumAmountOut: applySlippage(baseOut, slippageBps),
+        lpFee: ceilFee(netQuote, feeBps.lp),
+        protocolFee: ceilFee(netQuote, feeBps.protocol),
+        creatorFee: ceilFee(netQuote, feeBps.creator),
+        priceImpact: ratioPercent(netQuote, pool.quoteReserve.add(netQuote)),
+      };
+    }
+
+    const grossQuote = pool.quoteReserve.mul(amount).div(pool.baseReserve.add(amount));
+    const lpFee = ceilFee(grossQuote, feeBps.lp);
+    const protocolFee = ceilFee(grossQuote, feeBps.protocol);
+    const creatorFee = ceilFee(grossQuote, feeBps.creator);
+    const quoteOut = BN.max(grossQuote.sub(lpFee).sub(protocolFee).sub(creatorFee), new BN(0));
+
+    return {
+      amountIn: amount,
+      amountOut: quoteOut,
+      minimumAmountOut: applySlippage(quoteOut, slippageBps),
+      lpFee,
+      protocolFee,
+      creatorFee,
+      priceImpact: ratioPercent(amount, pool.baseReserve.add(amount)),
+    };
+  }
+
+  /**
+   * Calculate an ExactOut quote from a pool state (no RPC calls)
+   *
+   * @param pool - Pool state
+   * @param fees - Fee configuration
+   * @param outputMint - Output token mint address
+   * @param amountOut - Desired output amount after fees
+   * @param slippageBps - Slippage tolerance in basis points
+   * @returns Swap quote
+   * @throws Error if the mint is not in the pool or the output exceeds the pool reserves
+   */
+  static calculateQuoteExactOut(
+    pool: PumpFunAmmPoolState,
+    fees: PumpFunAmmFees,
+    outputMint: string | PublicKey,
+    amountOut: number | BN,
+    slippageBps: number = 100
+  ): PumpFunAmmSwapQuoteExactOut {
+    const isSell = PumpFunAmmUtils.isQuoteMint(pool, outputMint);
+    const amount = BN.isBN(amountOut) ? amountOut : new BN(amountOut);
+    const feeBps = PumpFunAmmUtils.getFeeBps(pool, fees);
+
+    if (!isSell) {
+      if (amount.gte(pool.baseReserve)) {
+        throw new Error(
+          `Output exceeds Pump.fun AMM pool reserves: ${amount.toString()} >= ${pool.baseReserve.toString()}`
+        );
+      }
+
+      const netQuote = ceilDiv(pool.quoteReserve.mul(amount), pool.baseReserve.sub(amount));
+      const lpFee = ceilFee(netQuote, feeBps.lp);
+      const protocolFee = ceilFee(netQuote, feeBps.protocol);
+      const creatorFee = ceilFee(netQuote, feeBps.creator);
+      const quoteIn = netQuote.add(lpFee).add(protocolFee).add(creatorFee);
+
+      return {
+        amountIn: quoteIn,
+        amountOut: amount,
+        maximumAmountIn: applySlippageUp(quoteIn, slippageBps),
+        lpFee,
+        protocolFee,
+        creatorFee,
+        priceImpact: ratioPercent(netQuote, pool.quoteReserve.add(netQuote)),
+      };
+    }
+
+    // Quote the pool must release before fees are deducted. Each fee is rounded up
+    // separately, so step past any shortfall left by the aggregate estimate.
+    let grossQuote = ceilDiv(amount.mul(BPS_DENOMINATOR), BPS_DENOMINATOR.sub(feeBps.total));
+    while (
+      grossQuote
+        .sub(ceilFee(grossQuote, feeBps.lp))
+        .sub(ceilFee(grossQuote, feeBps.protocol))
+        .sub(ceilFee(grossQuote, feeBps.creator))
+        .lt(amount)
+    ) {
+      grossQuote = grossQuote.addn(1);
+    }
+    if (grossQuote.gte(pool.quoteReserve)) {
+      throw new Error(
+        `Output exceeds Pump.fun AMM pool reserves: ${grossQuote.toString()} >= ${pool.quoteReserve.toString()}`
+      );
+    }
+
+    const baseIn = ceilDiv(pool.baseReserve.mul(grossQuote), pool.quoteReserve.sub(grossQuote));
+
+    return {
+      amountIn: baseIn,
+      amountOut: amount,
+      maximumAmountIn: applySlippageUp(baseIn, slippageBps),
+      lpFee: ceilFee(grossQuote, feeBps.lp),
+      protocolFee: ceilFee(grossQuote, feeBps.protocol),
+      creatorFee: ceilFee(grossQuote, feeBps.creator),
+      priceImpact: ratioPercent(baseIn, pool.baseReserve.add(baseIn)),
+    };
+  }
+
+  /**
+   * Whether a mint is the pool's quote mint (false for the base mint)
+   * @private
+   */
+  private static isQuoteMint(pool: PumpFunAmmPoolState, mint: string | PublicKey): boolean {
+    const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+
+    if (mintKey.equals(pool.quoteMint)) {
+      return true;
+    }
+    if (mintKey.equals(pool.baseMint)) {
+      return false;
+    }
+    throw new Error(
+      `Mint ${mintKey.toBase58()} is not in Pump.fun AMM pool: ${pool.address.toBase58()}`
+    );
+  }
+
+  /**
+   * Fee rates applicable to a pool
+   * @private
+   */
+  private static getFeeBps(pool: PumpFunAmmPoolState, fees: PumpFunAmmFees) {
+    const lp = new BN(fees.lpFeeBps);
+    const protocol = new BN(fees.protocolFeeBps);
+    const creator = new BN(pool.coinCreator ? fees.coinCreatorFeeBps : 0);
+
+    return { lp, protocol, creator, total: lp.add(protocol).add(creator) };
+  }
+}
+
+/**
+ * Read the `amount` of an SPL token account
+ */
+function readTokenAmount(data: Buffer): BN {
+  return new BN(data.subarray(TOKEN_ACCOUNT_AMOUNT_OFFSET, TOKEN_ACCOUNT_AMOUNT_OFFSET + 8), 'le');
+}
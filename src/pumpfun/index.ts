@@ -0,0 +1,31 @@
+/**
+ * Pump.fun Module
+ *
+ * @module pumpfun
+ */
+
+// Static utilities
+export { PumpFunUtils } from './utils';
+export { PumpFunAmmUtils } from './amm-utils';
+
+// Types
+export type {
+  // State/query types
+  PumpFunBondingCurveState,
+  PumpFunFees,
+  PumpFunBuyQuote,
+  PumpFunSellQuote,
+  PumpFunAmmPoolState,
+  PumpFunAmmFees,
+  PumpFunAmmSwapQuote,
+  PumpFunAmmSwapQuoteExactOut,
+  // Builder params
+  PumpFunBuyWithSlippageParams,
+  PumpFunSellWithSlippageParams,
+  PumpFunAmmBuyWithSlippageParams,
+  PumpFunAmmBuyExactQuoteInWithSlippageParams,
+  PumpFunAmmSellWithSlippageParams,
+} from './types';
+
+// Constants
+export { PUMP_FUN_PROGRAM_ID, PUMP_FUN_AMM_PROGRAM_ID } from './types';
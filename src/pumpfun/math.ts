@@ -0,0 +1,54 @@
+/**
+ * Pump.fun Fee and Slippage Math
+ *
+ * Integer helpers shared by the bonding curve and AMM quote calculations.
+ *
+ * @module pumpfun/math
+ * @internal
+ */
+
+import BN from 'bn.js';
+
+export const BPS_DENOMINATOR = new BN(10_000);
+
+/**
+ * `numerator / denominator` rounded up
+ */
+export function ceilDiv(numerator: BN, denominator: BN): BN {
+  return numerator.add(denominator.subn(1)).div(denominator);
+}
+
+/**
+ * Fee rounded up, as charged on-chain
+ */
+export function ceilFee(amount: BN, feeBps: BN): BN {
+  return ceilDiv(amount.mul(feeBps), BPS_DENOMINATOR);
+}
+
+/**
+ * Reduce an amount by a slippage tolerance in basis points
+ */
+export function applySlippage(amount: BN, slippageBps: number): BN {
+  return amount.mul(BPS_DENOMINATOR.sub(clampBps(slippageBps))).div(BPS_DENOMINATOR);
+}
+
+/**
+ * Increase an amount by a slippage tolerance in basis points
+ */
+export function applySlippageUp(amount: BN, slippageBps: number): BN {
+  return amount.mul(BPS_DENOMINATOR.add(clampBps(slippageBps))).div(BPS_DENOMINATOR);
+}
+
+/**
+ * `numerator / denominator` as a percentage
+ */
+export function ratioPercent(numerator: BN, denominator: BN): number {
+  if (denominator.isZero()) {
+    return 0;
+  }
+  return (Number(numerator.toString()) / Number(denominator.toString())) * 100;
+}
+
+function clampBps(slippageBps: number): BN {
+  return new BN(Math.min(Math.max(Math.floor(slippageBps), 0), 10_000));
+}
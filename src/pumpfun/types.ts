@@ -0,0 +1,469 @@
+/**
+ * Pump.fun Types
+ *
+ * Type definitions for Pump.fun bonding curve state and quotes.
+ *
+ * @module pumpfun/types
+ */
+
+import type { PublicKey } from '@solana/web3.js';
+import type BN from 'bn.js';
+import type {
+  PumpFunBuyParams,
+  PumpFunSellParams,
+  PumpFunAmmBuyParams,
+  PumpFunAmmBuyExactQuoteInParams,
+  PumpFunAmmSellParams,
+} from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Pump.fun Program ID (Mainnet)
+ */
+export const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+/**
+ * Pump.fun AMM (PumpSwap) Program ID (Mainnet)
+ */
+export const PUMP_FUN_AMM_PROGRAM_ID = 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA';
+
+// ============================================================================
+// State/Query Types
+// ============================================================================
+
+/**
+ * Pump.fun bonding curve state
+ */
+export interface PumpFunBondingCurveState {
+  /**
+   * Bonding curve account address
+   */
+  address: PublicKey;
+
+  /**
+   * Token mint address
+   */
+  mint: PublicKey;
+
+  /**
+   * Virtual token reserves
+   */
+  virtualTokenReserves: BN;
+
+  /**
+   * Virtual SOL reserves (lamports)
+   */
+  virtualSolReserves: BN;
+
+  /**
+   * Real token reserves still available on the curve
+   */
+  realTokenReserves: BN;
+
+  /**
+   * Real SOL collected by the curve (lamports)
+   */
+  realSolReserves: BN;
+
+  /**
+   * Total token supply
+   */
+  tokenTotalSupply: BN;
+
+  /**
+   * Whether the curve is complete (token migrated to Pump.fun AMM)
+   */
+  complete: boolean;
+
+  /**
+   * Coin creator receiving creator fees (null for legacy curves without a creator)
+   */
+  creator: PublicKey | null;
+
+  /**
+   * Whether the token was created in Mayhem mode
+   */
+  isMayhemMode: boolean;
+}
+
+/**
+ * Pump.fun fee configuration
+ */
+export interface PumpFunFees {
+  /**
+   * Protocol fee in basis points
+   */
+  protocolFeeBps: number;
+
+  /**
+   * Creator fee in basis points (charged only when the curve has a creator)
+   */
+  creatorFeeBps: number;
+}
+
+/**
+ * Pump.fun buy quote
+ */
+export interface PumpFunBuyQuote {
+  /**
+   * SOL spent including fees (lamports)
+   */
+  solAmountIn: BN;
+
+  /**
+   * Expected tokens received
+   */
+  tokenAmountOut: BN;
+
+  /**
+   * Minimum tokens received after slippage
+   */
+  minTokenAmountOut: BN;
+
+  /**
+   * Protocol fee (lamports)
+   */
+  protocolFee: BN;
+
+  /**
+   * Creator fee (lamports)
+   */
+  creatorFee: BN;
+
+  /**
+   * Price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+
+  /**
+   * Whether the curve is in Mayhem mode
+   */
+  isMayhemMode: boolean;
+}
+
+/**
+ * Pump.fun sell quote
+ */
+export interface PumpFunSellQuote {
+  /**
+   * Tokens sold
+   */
+  tokenAmountIn: BN;
+
+  /**
+   * Expected SOL received after fees (lamports)
+   */
+  solAmountOut: BN;
+
+  /**
+   * Minimum SOL received after slippage (lamports)
+   */
+  minSolAmountOut: BN;
+
+  /**
+   * Protocol fee (lamports)
+   */
+  protocolFee: BN;
+
+  /**
+   * Creator fee (lamports)
+   */
+  creatorFee: BN;
+
+  /**
+   * Price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+
+  /**
+   * Whether the curve is in Mayhem mode
+   */
+  isMayhemMode: boolean;
+}
+
+/**
+ * Pump.fun AMM pool state
+ */
+export interface PumpFunAmmPoolState {
+  /**
+   * Pool address
+   */
+  address: PublicKey;
+
+  /**
+   * Pool index (0 for canonical pools created by migration)
+   */
+  index: number;
+
+  /**
+   * Pool creator address
+   */
+  creator: PublicKey;
+
+  /**
+   * Base token mint
+   */
+  baseMint: PublicKey;
+
+  /**
+   * Quote token mint (usually WSOL)
+   */
+  quoteMint: PublicKey;
+
+  /**
+   * LP token mint
+   */
+  lpMint: PublicKey;
+
+  /**
+   * Pool base token account
+   */
+  poolBaseTokenAccount: PublicKey;
+
+  /**
+   * Pool quote token account
+   */
+  poolQuoteTokenAccount: PublicKey;
+
+  /**
+   * LP token supply
+   */
+  lpSupply: BN;
+
+  /**
+   * Coin creator receiving creator fees (null when the pool has no coin creator)
+   */
+  coinCreator: PublicKey | null;
+
+  /**
+   * Whether the token was created in Mayhem mode
+   */
+  isMayhemMode: boolean;
+
+  /**
+   * Base token program (SPL Token or Token-2022)
+   */
+  baseTokenProgram: PublicKey;
+
+  /**
+   * Quote token program (SPL Token or Token-2022)
+   */
+  quoteTokenProgram: PublicKey;
+
+  /**
+   * Base token reserve held by the pool
+   */
+  baseReserve: BN;
+
+  /**
+   * Quote token reserve held by the pool
+   */
+  quoteReserve: BN;
+}
+
+/**
+ * Pump.fun AMM fee configuration
+ */
+export interface PumpFunAmmFees {
+  /**
+   * LP fee in basis points
+   */
+  lpFeeBps: number;
+
+  /**
+   * Protocol fee in basis points
+   */
+  protocolFeeBps: number;
+
+  /**
+   * Coin creator fee in basis points (charged only when the pool has a coin creator)
+   */
+  coinCreatorFeeBps: number;
+}
+
+/**
+ * Pump.fun AMM swap quote (ExactIn)
+ */
+export interface PumpFunAmmSwapQuote {
+  /**
+   * Input amount including fees
+   */
+  amountIn: BN;
+
+  /**
+   * Expected output amount after fees
+   */
+  amountOut: BN;
+
+  /**
+   * Minimum output after slippage
+   */
+  minimumAmountOut: BN;
+
+  /**
+   * LP fee (quote token)
+   */
+  lpFee: BN;
+
+  /**
+   * Protocol fee (quote token)
+   */
+  protocolFee: BN;
+
+  /**
+   * Coin creator fee (quote token)
+   */
+  creatorFee: BN;
+
+  /**
+   * Price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+}
+
+/**
+ * Pump.fun AMM swap quote (ExactOut)
+ */
+export interface PumpFunAmmSwapQuoteExactOut {
+  /**
+   * Required input amount including fees
+   */
+  amountIn: BN;
+
+  /**
+   * Desired output amount
+   */
+  amountOut: BN;
+
+  /**
+   * Maximum input after slippage
+   */
+  maximumAmountIn: BN;
+
+  /**
+   * LP fee (quote token)
+   */
+  lpFee: BN;
+
+  /**
+   * Protocol fee (quote token)
+   */
+  protocolFee: BN;
+
+  /**
+   * Coin creator fee (quote token)
+   */
+  creatorFee: BN;
+
+  /**
+   * Price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+}
+
+// ============================================================================
+// Builder Parameters
+// ============================================================================
+
+/**
+ * Parameters for `TransactionBuilder.pumpFunBuyWithSlippage()`
+ *
+ * `tokenAmountOut` is computed from a quote. `poolAccounts`, `tokenProgram` and
+ * `mayhemModeEnabled` are resolved on-chain when omitted.
+ */
+export type PumpFunBuyWithSlippageParams = Omit<
+  PumpFunBuyParams,
+  | 'executionType'
+  | 'eventType'
+  | 'tokenAmountOut'
+  | 'poolAccounts'
+  | 'tokenProgram'
+  | 'mayhemModeEnabled'
+> &
+  Partial<Pick<PumpFunBuyParams, 'poolAccounts' | 'tokenProgram' | 'mayhemModeEnabled'>> & {
+    /**
+     * Slippage tolerance in basis points (e.g., 100 = 1%)
+     */
+    slippageBps: number;
+  };
+
+/**
+ * Parameters for `TransactionBuilder.pumpFunSellWithSlippage()`
+ *
+ * `minSolAmountOut` is computed from a quote. `poolAccounts`, `tokenProgram` and
+ * `mayhemModeEnabled` are resolved on-chain when omitted.
+ */
+export type PumpFunSellWithSlippageParams = Omit<
+  PumpFunSellParams,
+  | 'executionType'
+  | 'eventType'
+  | 'minSolAmountOut'
+  | 'poolAccounts'
+  | 'tokenProgram'
+  | 'mayhemModeEnabled'
+> &
+  Partial<Pick<PumpFunSellParams, 'poolAccounts' | 'tokenProgram' | 'mayhemModeEnabled'>> & {
+    /**
+     * Slippage tolerance in basis points (e.g., 100 = 1%)
+     */
+    slippageBps: number;
+  };
+
+/**
+ * Pool fields resolved on-chain by the Pump.fun AMM slippage helpers
+ */
+type PumpFunAmmResolvedFields = 'baseTokenProgram' | 'quoteTokenProgram' | 'poolAccounts';
+
+/**
+ * Parameters for `TransactionBuilder.pumpFunAmmBuyWithSlippage()`
+ *
+ * `maxQuoteAmountIn` is computed from a quote. Token programs and `poolAccounts` are
+ * resolved from the pool when omitted.
+ */
+export type PumpFunAmmBuyWithSlippageParams = Omit<
+  PumpFunAmmBuyParams,
+  'executionType' | 'eventType' | 'maxQuoteAmountIn' | PumpFunAmmResolvedFields
+> &
+  Partial<Pick<PumpFunAmmBuyParams, PumpFunAmmResolvedFields>> & {
+    /**
+     * Slippage tolerance in basis points (e.g., 100 = 1%)
+     */
+    slippageBps: number;
+  };
+
+/**
+ * Parameters for `TransactionBuilder.pumpFunAmmBuyExactQuoteInWithSlippage()`
+ *
+ * `minBaseAmountOut` is computed from a quote. Token programs and `poolAccounts` are
+ * resolved from the pool when omitted.
+ */
+export type PumpFunAmmBuyExactQuoteInWithSlippageParams = Omit<
+  PumpFunAmmBuyExactQuoteInParams,
+  'executionType' | 'eventType' | 'minBaseAmountOut' | PumpFunAmmResolvedFields
+> &
+  Partial<Pick<PumpFunAmmBuyExactQuoteInParams, PumpFunAmmResolvedFields>> & {
+    /**
+     * Slippage tolerance in basis points (e.g., 100 = 1%)
+     */
+    slippageBps: number;
+  };
+
+/**
+ * Parameters for `TransactionBuilder.pumpFunAmmSellWithSlippage()`
+ *
+ * `minQuoteAmountOut` is computed from a quote. Token programs and `poolAccounts` are
+ * resolved from the pool when omitted.
+ */
+export type PumpFunAmmSellWithSlippageParams = Omit<
+  PumpFunAmmSellParams,
+  'executionType' | 'eventType' | 'minQuoteAmountOut' | PumpFunAmmResolvedFields
+> &
+  Partial<Pick<PumpFunAmmSellParams, PumpFunAmmResolvedFields>> & {
+    /**
+     * Slippage tolerance in basis points (e.g., 100 = 1%)
+     */
+    slippageBps: number;
+  };
@@ -0,0 +1,388 @@
+/**
+ * Pump.fun Static Utilities
+ *
+ * Static utility functions for Pump.fun bonding curve operations that don't require
+ * a TransactionBuilder instance. Decodes on-chain accounts directly, so no Pump.fun
+ * SDK is needed.
+ *
+ * @module pumpfun/utils
+ */
+
+import type { Connection, Commitment } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import type {
+  PumpFunBondingCurveState,
+  PumpFunFees,
+  PumpFunBuyQuote,
+  PumpFunSellQuote,
+} from './types';
+import { PUMP_FUN_PROGRAM_ID } from './types';
+import { BPS_DENOMINATOR, applySlippage, ceilFee, ratioPercent } from './math';
+
+// Account layouts (offsets include the 8-byte Anchor discriminator)
+const BONDING_CURVE_LAYOUT = {
+  virtualTokenReserves: 8,
+  virtualSolReserves: 16,
+  realTokenReserves: 24,
+  realSolReserves: 32,
+  tokenTotalSupply: 40,
+  complete: 48,
+  creator: 49,
+  isMayhemMode: 81,
+} as const;
+
+const GLOBAL_LAYOUT = {
+  feeBasisPoints: 105,
+  creatorFeeBasisPoints: 154,
+} as const;
+
+/**
+ * Static utility functions for Pump.fun
+ *
+ * @example
+ * ```typescript
+ * import { Connection } from '@solana/web3.js';
+ * import { PumpFunUtils } from '@lyslabs.ai/lys-flash';
+ *
+ * const connection = new Connection('https://api.mainnet-beta.solana.com');
+ *
+ * // Get bonding curve state
+ * const curve = await PumpFunUtils.getBondingCurve(connection, 'TokenMint...');
+ * console.log('Virtual SOL reserves:', curve.virtualSolReserves.toString());
+ *
+ * // Get buy quote
+ * const quote = await PumpFunUtils.getBuyQuote(
+ *   connection,
+ *   'TokenMint...',
+ *   100_000_000, // 0.1 SOL
+ *   100          // 1% slippage
+ * );
+ * console.log('Expected tokens:', quote.tokenAmountOut.toString());
+ * console.log('Minimum tokens:', quote.minTokenAmountOut.toString());
+ * ```
+ */
+export class PumpFunUtils {
+  /**
+   * Derive the bonding curve address for a token mint
+   *
+   * @param mint - Token mint address
+   * @returns Bonding curve PDA
+   */
+  static getBondingCurveAddress(mint: string | PublicKey): PublicKey {
+    const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+
+    const [address] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bonding-curve'), mintKey.toBuffer()],
+      new PublicKey(PUMP_FUN_PROGRAM_ID)
+    );
+
+    return address;
+  }
+
+  /**
+   * Fetch and decode the bonding curve of a token
+   *
+   * @param connection - Solana RPC connection
+   * @param mint - Token mint address
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Bonding curve state
+   * @throws Error if the bonding curve account doesn't exist
+   *
+   * @example
+   * ```typescript
+   * const curve = await PumpFunUtils.getBondingCurve(connection, 'TokenMint...');
+   *
+   * console.log('Creator:', curve.creator?.toBase58());
+   * console.log('Complete:', curve.complete);
+   * console.log('Mayhem mode:', curve.isMayhemMode);
+   * ```
+   */
+  static async getBondingCurve(
+    connection: Connection,
+    mint: string | PublicKey,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunBondingCurveState> {
+    const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+    const address = PumpFunUtils.getBondingCurveAddress(mintKey);
+
+    const accountInfo = await connection.getAccountInfo(address, commitment);
+    if (!accountInfo) {
+      throw new Error(`Bonding curve not found: ${address.toBase58()}`);
+    }
+
+    return PumpFunUtils.decodeBondingCurve(address, mintKey, accountInfo.data);
+  }
+
+  /**
+   * Decode raw bonding curve account data
+   *
+   * Handles legacy layouts without the creator and Mayhem mode fields.
+   *
+   * @param address - Bonding curve address
+   * @param mint - Token mint address
+   * @param data - Raw account data
+   * @returns Bonding curve state
+   */
+  static decodeBondingCurve(
+    address: PublicKey,
+    mint: PublicKey,
+    data: Buffer
+  ): PumpFunBondingCurveState {
+    if (data.length <= BONDING_CURVE_LAYOUT.complete) {
+      throw new Error(`Invalid bonding curve account data: ${address.toBase58()}`);
+    }
+
+    const readU64 = (offset: number) => new BN(data.subarray(offset, offset + 8), 'le');
+
+    let creator: PublicKey | null = null;
+    if (data.length >= BONDING_CURVE_LAYOUT.creator + 32) {
+      const key = new PublicKey(
+        data.subarray(BONDING_CURVE_LAYOUT.creator, BONDING_CURVE_LAYOUT.creator + 32)
+      );
+      creator = key.equals(PublicKey.default) ? null : key;
+    }
+
+    return {
+      address,
+      mint,
+      virtualTokenReserves: readU64(BONDING_CURVE_LAYOUT.virtualTokenReserves),
+      virtualSolReserves: readU64(BONDING_CURVE_LAYOUT.virtualSolReserves),
+      realTokenReserves: readU64(BONDING_CURVE_LAYOUT.realTokenReserves),
+      realSolReserves: readU64(BONDING_CURVE_LAYOUT.realSolReserves),
+      tokenTotalSupply: readU64(BONDING_CURVE_LAYOUT.tokenTotalSupply),
+      complete: data[BONDING_CURVE_LAYOUT.complete] === 1,
+      creator,
+      isMayhemMode: data[BONDING_CURVE_LAYOUT.isMayhemMode] === 1,
+    };
+  }
+
+  /**
+   * Resolve the token program (SPL Token or Token-2022) that owns a mint
+   *
+   * @param connection - Solana RPC connection
+   * @param mint - Token mint address
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Token program address (base58)
+   * @throws Error if the mint account doesn't exist
+   */
+  static async getTokenProgram(
+    connection: Connection,
+    mint: string | PublicKey,
+    commitment: Commitment = 'confirmed'
+  ): Promise<string> {
+    const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+
+    const accountInfo = await connection.getAccountInfo(mintKey, commitment);
+    if (!accountInfo) {
+      throw new Error(`Mint not found: ${mintKey.toBase58()}`);
+    }
+
+    return accountInfo.owner.toBase58();
+  }
+
+  /**
+   * Fetch the protocol and creator fees from the Pump.fun global account
+   *
+   * @param connection - Solana RPC connection
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @returns Fee configuration in basis points
+   * @throws Error if the global account doesn't exist
+   */
+  static async getFees(
+    connection: Connection,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunFees> {
+    const [globalAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('global')],
+      new PublicKey(PUMP_FUN_PROGRAM_ID)
+    );
+
+    const accountInfo = await connection.getAccountInfo(globalAddress, commitment);
+    if (!accountInfo) {
+      throw new Error(`Pump.fun global account not found: ${globalAddress.toBase58()}`);
+    }
+
+    const data = accountInfo.data;
+    const readBps = (offset: number) =>
+      data.length >= offset + 8 ? new BN(data.subarray(offset, offset + 8), 'le').toNumber() : 0;
+
+    return {
+      protocolFeeBps: readBps(GLOBAL_LAYOUT.feeBasisPoints),
+      creatorFeeBps: readBps(GLOBAL_LAYOUT.creatorFeeBasisPoints),
+    };
+  }
+
+  /**
+   * Get a buy quote for spending an exact amount of SOL
+   *
+   * @param connection - Solana RPC connection
+   * @param mint - Token mint address
+   * @param solAmountIn - SOL to spend including fees (lamports)
+   * @param slippageBps - Slippage tolerance in basis points (e.g., 100 = 1%)
+   * @param fees - Fee override (defaults to the global account fees)
+   * @param commitment - Commitment level
+   * @returns Buy quote with expected tokens and fees
+   *
+   * @example
+   * ```typescript
+   * const quote = await PumpFunUtils.getBuyQuote(connection, 'TokenMint...', 100_000_000, 100);
+   *
+   * console.log('Expected tokens:', quote.tokenAmountOut.toString());
+   * console.log('Creator fee:', quote.creatorFee.toString());
+   * console.log('Price impact:', quote.priceImpact);
+   * ```
+   */
+  static async getBuyQuote(
+    connection: Connection,
+    mint: string | PublicKey,
+    solAmountIn: number | BN,
+    slippageBps: number = 100,
+    fees?: PumpFunFees,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunBuyQuote> {
+    const [curve, resolvedFees] = await Promise.all([
+      PumpFunUtils.getBondingCurve(connection, mint, commitment),
+      fees ? Promise.resolve(fees) : PumpFunUtils.getFees(connection, commitment),
+    ]);
+
+    return PumpFunUtils.calculateBuyQuote(curve, resolvedFees, solAmountIn, slippageBps);
+  }
+
+  /**
+   * Get a sell quote for an exact amount of tokens
+   *
+   * @param connection - Solana RPC connection
+   * @param mint - Token mint address
+   * @param tokenAmountIn - Tokens to sell
+   * @param slippageBps - Slippage tolerance in basis points (e.g., 100 = 1%)
+   * @param fees - Fee override (defaults to the global account fees)
+   * @param commitment - Commitment level
+   * @returns Sell quote with expected SOL and fees
+   *
+   * @example
+   * ```typescript
+   * const quote = await PumpFunUtils.getSellQuote(connection, 'TokenMint...', 1_000_000_000, 100);
+   *
+   * console.log('Expected SOL:', quote.solAmountOut.toString());
+   * console.log('Minimum SOL:', quote.minSolAmountOut.toString());
+   * ```
+   */
+  static async getSellQuote(
+    connection: Connection,
+    mint: string | PublicKey,
+    tokenAmountIn: number | BN,
+    slippageBps: number = 100,
+    fees?: PumpFunFees,
+    commitment: Commitment = 'confirmed'
+  ): Promise<PumpFunSellQuote> {
+    const [curve, resolvedFees] = await Promise.all([
+      PumpFunUtils.getBondingCurve(connection, mint, commitment),
+      fees ? Promise.resolve(fees) : PumpFunUtils.getFees(connection, commitment),
+    ]);
+
+    return PumpFunUtils.calculateSellQuote(curve, resolvedFees, tokenAmountIn, slippageBps);
+  }
+
+  /**
+   * Calculate a buy quote from a bonding curve state (no RPC calls)
+   *
+   * Fees are deducted from `solAmountIn` before the constant-product swap. The creator
+   * fee only applies when the curve has a creator.
+   *
+   * @param curve - Bonding curve state
+   * @param fees - Fee configuration
+   * @param solAmountIn - SOL to spend including fees (lamports)
+   * @param slippageBps - Slippage tolerance in basis points
+   * @returns Buy quote
+   * @throws Error if the curve is complete
+   */
+  static calculateBuyQuote(
+    curve: PumpFunBondingCurveState,
+    fees: PumpFunFees,
+    solAmountIn: number | BN,
+    slippageBps: number = 100
+  ): PumpFunBuyQuote {
+    PumpFunUtils.assertTradable(curve);
+
+    const amount = BN.isBN(solAmountIn) ? solAmountIn : new BN(solAmountIn);
+    const protocolFeeBps = new BN(fees.protocolFeeBps);
+    const creatorFeeBps = new BN(curve.creator ? fees.creatorFeeBps : 0);
+    const totalFeeBps = protocolFeeBps.add(creatorFeeBps);
+
+    // SOL that reaches the curve after fees (1 lamport reserved for rounding)
+    const netAmount = amount.isZero()
+      ? new BN(0)
+      : amount.subn(1).mul(BPS_DENOMINATOR).div(BPS_DENOMINATOR.add(totalFeeBps));
+
+    const tokensOut = BN.min(
+      netAmount.mul(curve.virtualTokenReserves).div(curve.virtualSolReserves.add(netAmount)),
+      curve.realTokenReserves
+    );
+
+    return {
+      solAmountIn: amount,
+      tokenAmountOut: tokensOut,
+      minTokenAmountOut: applySlippage(tokensOut, slippageBps),
+      protocolFee: ceilFee(netAmount, protocolFeeBps),
+      creatorFee: ceilFee(netAmount, creatorFeeBps),
+      priceImpact: ratioPercent(netAmount, curve.virtualSolReserves),
+      isMayhemMode: curve.isMayhemMode,
+    };
+  }
+
+  /**
+   * Calculate a sell quote from a bonding curve state (no RPC calls)
+   *
+   * Fees are deducted from the SOL returned by the constant-product swap. The creator
+   * fee only applies when the curve has a creator.
+   *
+   * @param curve - Bonding curve state
+   * @param fees - Fee configuration
+   * @param tokenAmountIn - Tokens to sell
+   * @param slippageBps - Slippage tolerance in basis points
+   * @returns Sell quote
+   * @throws Error if the curve is complete
+   */
+  static calculateSellQuote(
+    curve: PumpFunBondingCurveState,
+    fees: PumpFunFees,
+    tokenAmountIn: number | BN,
+    slippageBps: number = 100
+  ): PumpFunSellQuote {
+    PumpFunUtils.assertTradable(curve);
+
+    const amount = BN.isBN(tokenAmountIn) ? tokenAmountIn : new BN(tokenAmountIn);
+    const protocolFeeBps = new BN(fees.protocolFeeBps);
+    const creatorFeeBps = new BN(curve.creator ? fees.creatorFeeBps : 0);
+
+    const grossSol = amount
+      .mul(curve.virtualSolReserves)
+      .div(curve.virtualTokenReserves.add(amount));
+    const protocolFee = ceilFee(grossSol, protocolFeeBps);
+    const creatorFee = ceilFee(grossSol, creatorFeeBps);
+    const solOut = BN.max(grossSol.sub(protocolFee).sub(creatorFee), new BN(0));
+
+    return {
+      tokenAmountIn: amount,
+      solAmountOut: solOut,
+      minSolAmountOut: applySlippage(solOut, slippageBps),
+      protocolFee,
+      creatorFee,
+      priceImpact: ratioPercent(amount, curve.virtualTokenReserves.add(amount)),
+      isMayhemMode: curve.isMayhemMode,
+    };
+  }
+
+  /**
+   * Ensure the curve can still be traded
+   * @private
+   */
+  private static assertTradable(curve: PumpFunBondingCurveState): void {
+    if (curve.complete || curve.virtualTokenReserves.isZero()) {
+      throw new Error(
+        `Bonding curve complete, token migrated to Pump.fun AMM: ${curve.mint.toBase58()}`
+      );
+    }
+  }
+}
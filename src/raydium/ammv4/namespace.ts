@@ -6,9 +6,10 @@
  * @module raydium/ammv4/namespace
  */
 
-import type { Connection } from '@solana/web3.js';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type {
@@ -55,8 +56,11 @@ export class RaydiumAMMv4Namespace {
     return this.builder.getClient();
   }
 
-  private getConnection(): Connection {
-    return this.getClient().requireConnection();
+  /**
+   * Run a step of a method inside a `lys_flash.raydium.ammv4.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'raydium.ammv4', step, fn);
   }
 
   /**
@@ -79,19 +83,13 @@ export class RaydiumAMMv4Namespace {
    * ```
    */
   async swap(params: RaydiumAMMv4SwapParams): Promise<TransactionBuilder> {
-    const connection = this.getConnection();
-
-    const { Raydium, TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
 
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -105,7 +103,11 @@ export class RaydiumAMMv4Namespace {
       : new BN(params.minimumAmountOut);
 
     // Get pool info
-    const data = await raydium.liquidity.getPoolInfoFromRpc({ poolId: poolAddress.toBase58() });
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('ammv4', poolAddress.toBase58(), () =>
+        raydium.liquidity.getPoolInfoFromRpc({ poolId: poolAddress.toBase58() })
+      )
+    );
     if (!data) {
       throw new Error(`AMMv4 pool not found: ${poolAddress.toBase58()}`);
     }
@@ -113,15 +115,17 @@ export class RaydiumAMMv4Namespace {
     const { poolInfo, poolKeys } = data;
 
     // Build swap transaction
-    const result = await raydium.liquidity.swap({
-      poolInfo,
-      poolKeys,
-      amountIn,
-      amountOut: minimumAmountOut,
-      fixedSide: 'in',
-      inputMint: inputMint.toBase58(),
-      txVersion: TxVersion.LEGACY,
-    });
+    const result = await this.trace('build', () =>
+      raydium.liquidity.swap({
+        poolInfo,
+        poolKeys,
+        amountIn,
+        amountOut: minimumAmountOut,
+        fixedSide: 'in',
+        inputMint: inputMint.toBase58(),
+        txVersion: TxVersion.LEGACY,
+      })
+    );
 
     return this.builder.rawTransaction({
       transaction: result.transaction as Transaction,
@@ -149,19 +153,13 @@ export class RaydiumAMMv4Namespace {
    * ```
    */
   async swapExactOut(params: RaydiumAMMv4SwapExactOutParams): Promise<TransactionBuilder> {
-    const connection = this.getConnection();
-
-    const { Raydium, TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
 
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -175,7 +173,11 @@ export class RaydiumAMMv4Namespace {
       : new BN(params.maximumAmountIn);
 
     // Get pool info
-    const data = await raydium.liquidity.getPoolInfoFromRpc({ poolId: poolAddress.toBase58() });
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('ammv4', poolAddress.toBase58(), () =>
+        raydium.liquidity.getPoolInfoFromRpc({ poolId: poolAddress.toBase58() })
+      )
+    );
     if (!data) {
       throw new Error(`AMMv4 pool not found: ${poolAddress.toBase58()}`);
     }
@@ -183,15 +185,17 @@ export class RaydiumAMMv4Namespace {
     const { poolInfo, poolKeys } = data;
 
     // Build swap transaction with fixedSide: 'out'
-    const result = await raydium.liquidity.swap({
-      poolInfo,
-      poolKeys,
-      amountIn: maximumAmountIn,
-      amountOut,
-      fixedSide: 'out',
-      inputMint: inputMint.toBase58(),
-      txVersion: TxVersion.LEGACY,
-    });
+    const result = await this.trace('build', () =>
+      raydium.liquidity.swap({
+        poolInfo,
+        poolKeys,
+        amountIn: maximumAmountIn,
+        amountOut,
+        fixedSide: 'out',
+        inputMint: inputMint.toBase58(),
+        txVersion: TxVersion.LEGACY,
+      })
+    );
 
     return this.builder.rawTransaction({
       transaction: result.transaction as Transaction,
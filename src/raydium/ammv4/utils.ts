@@ -10,6 +10,8 @@
 import type { Connection, Commitment } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { resolveRaydiumCache } from '../cache';
+import type { RaydiumCache } from '../cache';
 import type {
   RaydiumAMMv4PoolState,
   RaydiumAMMv4SwapQuote,
@@ -48,6 +50,7 @@ export class RaydiumAMMv4Utils {
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool address
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Pool state information
    * @throws Error if pool not found
    *
@@ -64,20 +67,18 @@ export class RaydiumAMMv4Utils {
   static async getPool(
     connection: Connection,
     poolAddress: string | PublicKey,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumAMMv4PoolState> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
 
-    const data = await raydium.liquidity.getPoolInfoFromRpc({ poolId: address.toBase58() });
+    const data = await raydiumCache.getPoolInfo('ammv4', address.toBase58(), () =>
+      raydium.liquidity.getPoolInfoFromRpc({ poolId: address.toBase58() })
+    );
 
     if (!data) {
       throw new Error(`AMMv4 pool not found: ${address.toBase58()}`);
@@ -115,6 +116,7 @@ export class RaydiumAMMv4Utils {
    * @param amountIn - Input amount
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -137,15 +139,11 @@ export class RaydiumAMMv4Utils {
     inputMint: string | PublicKey,
     amountIn: number | BN,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumAMMv4SwapQuote> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
@@ -153,7 +151,9 @@ export class RaydiumAMMv4Utils {
       typeof inputMint === 'string' ? new PublicKey(inputMint) : inputMint;
     const amount = BN.isBN(amountIn) ? amountIn : new BN(amountIn);
 
-    const data = await raydium.liquidity.getPoolInfoFromRpc({ poolId: address.toBase58() });
+    const data = await raydiumCache.getPoolInfo('ammv4', address.toBase58(), () =>
+      raydium.liquidity.getPoolInfoFromRpc({ poolId: address.toBase58() })
+    );
     if (!data) {
       throw new Error(`AMMv4 pool not found: ${address.toBase58()}`);
     }
@@ -207,6 +207,7 @@ export class RaydiumAMMv4Utils {
    * @param amountOut - Desired output amount
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -229,15 +230,11 @@ export class RaydiumAMMv4Utils {
     outputMint: string | PublicKey,
     amountOut: number | BN,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumAMMv4SwapQuoteExactOut> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
@@ -245,7 +242,9 @@ export class RaydiumAMMv4Utils {
       typeof outputMint === 'string' ? new PublicKey(outputMint) : outputMint;
     const amount = BN.isBN(amountOut) ? amountOut : new BN(amountOut);
 
-    const data = await raydium.liquidity.getPoolInfoFromRpc({ poolId: address.toBase58() });
+    const data = await raydiumCache.getPoolInfo('ammv4', address.toBase58(), () =>
+      raydium.liquidity.getPoolInfoFromRpc({ poolId: address.toBase58() })
+    );
     if (!data) {
       throw new Error(`AMMv4 pool not found: ${address.toBase58()}`);
     }
@@ -0,0 +1,307 @@
+/**
+ * Raydium Cache
+ *
+ * Caches Raydium SDK instances and pool info per `LysFlash` client so that
+ * Utils and Namespace classes share them across calls.
+ *
+ * @module raydium/cache
+ */
+
+import type { Connection } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import type { RaydiumCacheConfig, SolanaCluster } from '../types/config';
+import { DEFAULT_CLUSTER } from '../utils/cluster';
+
+/**
+ * Loaded Raydium SDK instance
+ */
+export type RaydiumInstance = Awaited<
+  ReturnType<(typeof import('@raydium-io/raydium-sdk-v2'))['Raydium']['load']>
+>;
+
+/**
+ * Raydium pool types with cached pool info
+ */
+export type RaydiumPoolKind = 'launchpad' | 'clmm' | 'cpmm' | 'ammv4';
+
+/**
+ * Default time-to-live of cached pool info (milliseconds)
+ *
+ * Pool info caching is opt-in: quotes read fresh pool state unless `poolTtl` is set.
+ */
+export const DEFAULT_RAYDIUM_POOL_TTL = 0;
+
+/**
+ * Default number of owners whose Raydium instances are kept
+ */
+export const DEFAULT_RAYDIUM_MAX_OWNERS = 16;
+
+/**
+ * Cache key for Raydium instances loaded without an owner
+ */
+const NO_OWNER = '';
+
+/**
+ * RaydiumCache constructor options
+ */
+export interface RaydiumCacheOptions extends RaydiumCacheConfig {
+  /**
+   * Cluster the connection points at, used to load Raydium instances
+   * @default 'mainnet'
+   */
+  cluster?: SolanaCluster;
+}
+
+interface PoolCacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+/**
+ * Raydium SDK instance and pool-info cache for a single connection
+ *
+ * Each `LysFlash` client owns one cache (see `client.getRaydiumCache()`), loaded for
+ * the client's `cluster` and used by its Raydium namespaces and its router. Pass it
+ * to Raydium Utils methods to share it; Utils calls without a cache load a fresh
+ * mainnet instance and pool info every time.
+ *
+ * - Raydium instances are cached per owner. The `maxOwners` most recently used owner
+ *   instances are kept; older ones are evicted. Wallet token accounts are reset each
+ *   time an owner instance is handed out, so transaction building always sees the
+ *   current token accounts.
+ * - Pool info (`getPoolInfoFromRpc` / `getRpcPoolInfo` results) is cached per
+ *   pool and expires after `poolTtl` milliseconds. Pool caching is off by default
+ *   (`poolTtl: 0`).
+ *
+ * @example
+ * ```typescript
+ * const client = new LysFlash({ connection, raydiumCache: { poolTtl: 500 } });
+ * const cache = client.getRaydiumCache();
+ *
+ * const quote = await RaydiumCPMMUtils.getQuote(
+ *   connection, pool, inputMint, amountIn, 100, 'confirmed', cache
+ * );
+ *
+ * // Standalone cache for a devnet connection
+ * const devnetCache = new RaydiumCache(devnetConnection, { cluster: 'devnet' });
+ *
+ * // Drop cached info for a pool after a large trade
+ * cache.invalidatePool(poolAddress);
+ *
+ * // Drop everything
+ * cache.clear();
+ * ```
+ */
+export class RaydiumCache {
+  private connection: Connection;
+  private cluster: SolanaCluster;
+  private enabled = true;
+  private poolTtl = DEFAULT_RAYDIUM_POOL_TTL;
+  private maxOwners = DEFAULT_RAYDIUM_MAX_OWNERS;
+  private instances = new Map<string, Promise<RaydiumInstance>>();
+  private pools = new Map<string, PoolCacheEntry>();
+
+  /**
+   * Create RaydiumCache instance
+   *
+   * @param connection - Solana RPC connection
+   * @param options - Cache configuration and cluster
+   */
+  constructor(connection: Connection, options?: RaydiumCacheOptions) {
+    this.connection = connection;
+    this.cluster = options?.cluster ?? DEFAULT_CLUSTER;
+    if (options) {
+      this.configure(options);
+    }
+  }
+
+  /**
+   * Get the cluster Raydium instances are loaded for
+   *
+   * @returns Cluster of the connection
+   */
+  getCluster(): SolanaCluster {
+    return this.cluster;
+  }
+
+  /**
+   * Update cache configuration
+   *
+   * Disabling the cache also clears it.
+   *
+   * @param config - Cache configuration
+   */
+  configure(config: RaydiumCacheConfig): void {
+    this.enabled = config.enabled ?? this.enabled;
+    this.poolTtl = Math.max(0, config.poolTtl ?? this.poolTtl);
+    this.maxOwners = Math.max(0, config.maxOwners ?? this.maxOwners);
+    if (!this.enabled) {
+      this.clear();
+    } else {
+      this.evictOwners();
+    }
+  }
+
+  /**
+   * Get a loaded Raydium instance
+   *
+   * @param owner - Wallet that will own built transactions (omit for read-only use)
+   * @returns Raydium SDK instance
+   */
+  async getRaydium(owner?: string | PublicKey): Promise<RaydiumInstance> {
+    const ownerKey = owner ? toPublicKey(owner) : undefined;
+
+    if (!this.enabled) {
+      return this.load(ownerKey);
+    }
+
+    const key = instanceKey(ownerKey);
+    let instance = this.instances.get(key);
+    if (instance) {
+      // Move to the end of the map, which is kept in least recently used order
+      this.instances.delete(key);
+      this.instances.set(key, instance);
+    } else {
+      instance = this.load(ownerKey);
+      this.instances.set(key, instance);
+      this.evictOwners();
+      // Failed loads are not cached
+      instance.catch(() => {
+        if (this.instances.get(key) === instance) {
+          this.instances.delete(key);
+        }
+      });
+    }
+
+    const raydium = await instance;
+    if (ownerKey) {
+      raydium.account.resetTokenAccounts();
+    }
+    return raydium;
+  }
+
+  /**
+   * Get pool info, fetching it when missing or expired
+   *
+   * @param kind - Pool type
+   * @param pool - Pool address
+   * @param fetch - Loads the pool info on a cache miss
+   * @returns Cached or freshly fetched pool info
+   */
+  async getPoolInfo<T>(
+    kind: RaydiumPoolKind,
+    pool: string | PublicKey,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    if (!this.enabled || this.poolTtl === 0) {
+      return fetch();
+    }
+
+    const key = poolKey(kind, pool);
+    const now = Date.now();
+    const cached = this.pools.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.value as Promise<T>;
+    }
+
+    const value = fetch();
+    const entry: PoolCacheEntry = { expiresAt: now + this.poolTtl, value };
+    this.pools.set(key, entry);
+    // Failed fetches are not cached
+    value.catch(() => {
+      if (this.pools.get(key) === entry) {
+        this.pools.delete(key);
+      }
+    });
+
+    return value;
+  }
+
+  /**
+   * Drop cached pool info
+   *
+   * @param pool - Pool address (omit to drop all pools)
+   * @param kind - Pool type (omit to match any type)
+   */
+  invalidatePool(pool?: string | PublicKey, kind?: RaydiumPoolKind): void {
+    if (!pool) {
+      this.pools.clear();
+      return;
+    }
+
+    const address = toPublicKey(pool).toBase58();
+    for (const key of [...this.pools.keys()]) {
+      const [entryKind, entryAddress] = key.split(':');
+      if (entryAddress === address && (!kind || entryKind === kind)) {
+        this.pools.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop cached Raydium instances
+   *
+   * @param owner - Owner whose instance to drop (omit to drop all instances)
+   */
+  invalidateInstances(owner?: string | PublicKey): void {
+    if (!owner) {
+      this.instances.clear();
+      return;
+    }
+    this.instances.delete(instanceKey(toPublicKey(owner)));
+  }
+
+  /**
+   * Drop all cached Raydium instances and pool info
+   */
+  clear(): void {
+    this.instances.clear();
+    this.pools.clear();
+  }
+
+  /**
+   * Drop the least recently used owner instances beyond `maxOwners`
+   * @private
+   */
+  private evictOwners(): void {
+    const ownerKeys = [...this.instances.keys()].filter((key) => key !== NO_OWNER);
+    for (const key of ownerKeys.slice(0, Math.max(0, ownerKeys.length - this.maxOwners))) {
+      this.instances.delete(key);
+    }
+  }
+
+  /**
+   * Load a new Raydium instance
+   * @private
+   */
+  private async load(owner?: PublicKey): Promise<RaydiumInstance> {
+    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
+
+    return Raydium.load({
+      connection: this.connection,
+      cluster: this.cluster,
+      disableFeatureCheck: true,
+      owner,
+    });
+  }
+}
+
+/**
+ * Cache to use for a Raydium Utils call: the given cache, or a disabled mainnet one
+ * @internal
+ */
+export function resolveRaydiumCache(connection: Connection, cache?: RaydiumCache): RaydiumCache {
+  return cache ?? new RaydiumCache(connection, { enabled: false });
+}
+
+function instanceKey(owner?: PublicKey): string {
+  return owner ? owner.toBase58() : NO_OWNER;
+}
+
+function poolKey(kind: RaydiumPoolKind, pool: string | PublicKey): string {
+  return `${kind}:${toPublicKey(pool).toBase58()}`;
+}
+
+function toPublicKey(value: string | PublicKey): PublicKey {
+  return typeof value === 'string' ? new PublicKey(value) : value;
+}
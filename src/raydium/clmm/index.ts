@@ -22,11 +22,18 @@ export type {
   RaydiumCLMMSellParams,
   RaydiumCLMMBuyExactOutParams,
   RaydiumCLMMSellExactOutParams,
+  // Liquidity params
+  RaydiumCLMMOpenPositionParams,
+  RaydiumCLMMIncreaseLiquidityParams,
+  RaydiumCLMMDecreaseLiquidityParams,
+  RaydiumCLMMHarvestRewardsParams,
+  RaydiumCLMMClosePositionParams,
   // State/query types
   RaydiumCLMMPoolState,
   RaydiumCLMMSwapQuote,
   RaydiumCLMMSwapQuoteExactOut,
+  RaydiumCLMMPositionInfo,
 } from './types';
 
 // Constants
-export { RAYDIUM_CLMM_PROGRAM_ID, SOL_MINT } from './types';
+export { RAYDIUM_CLMM_PROGRAM_ID, RAYDIUM_CLMM_DEVNET_PROGRAM_ID, SOL_MINT } from './types';
@@ -9,6 +9,8 @@
 import type { Connection } from '@solana/web3.js';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type {
@@ -18,13 +20,19 @@ import type {
   RaydiumCLMMSellParams,
   RaydiumCLMMBuyExactOutParams,
   RaydiumCLMMSellExactOutParams,
+  RaydiumCLMMOpenPositionParams,
+  RaydiumCLMMIncreaseLiquidityParams,
+  RaydiumCLMMDecreaseLiquidityParams,
+  RaydiumCLMMHarvestRewardsParams,
+  RaydiumCLMMClosePositionParams,
 } from './types';
 import { SOL_MINT } from './types';
+import { RaydiumCLMMUtils } from './utils';
 
 /**
  * Raydium CLMM Namespace
  *
- * Provides methods for building CLMM swap transactions.
+ * Provides methods for building CLMM swap and position management transactions.
  *
  * @example
  * ```typescript
@@ -59,6 +67,13 @@ export class RaydiumCLMMNamespace {
     return this.getClient().requireConnection();
   }
 
+  /**
+   * Run a step of a method inside a `lys_flash.raydium.clmm.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'raydium.clmm', step, fn);
+  }
+
   /**
    * Execute a CLMM swap operation (ExactIn)
    *
@@ -79,19 +94,13 @@ export class RaydiumCLMMNamespace {
    * ```
    */
   async swap(params: RaydiumCLMMSwapParams): Promise<TransactionBuilder> {
-    const connection = this.getConnection();
-
-    const { Raydium, TxVersion, PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion, PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
 
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -106,7 +115,9 @@ export class RaydiumCLMMNamespace {
 
     // Get pool info with tick arrays
     const poolId = poolAddress.toBase58();
-    const data = await raydium.clmm.getPoolInfoFromRpc(poolId);
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('clmm', poolId, () => raydium.clmm.getPoolInfoFromRpc(poolId))
+    );
     if (!data) {
       throw new Error(`CLMM pool not found: ${poolId}`);
     }
@@ -117,7 +128,7 @@ export class RaydiumCLMMNamespace {
     const baseIn = inputMint.toBase58() === poolInfo.mintA.address;
 
     // Compute amounts and get remaining accounts from tick data
-    const epochInfo = await raydium.fetchEpochInfo();
+    const epochInfo = await this.trace('fetch_pool', () => raydium.fetchEpochInfo());
     const tickArrayCache = tickData?.[poolId] || {};
     const { remainingAccounts } = await PoolUtils.computeAmountOutFormat({
       poolInfo: computePoolInfo,
@@ -129,19 +140,21 @@ export class RaydiumCLMMNamespace {
     });
 
     // Build swap transaction
-    const result = await raydium.clmm.swap({
-      poolInfo,
-      poolKeys,
-      inputMint: inputMint.toBase58(),
-      amountIn,
-      amountOutMin: minimumAmountOut,
-      observationId: computePoolInfo.observationId,
-      ownerInfo: {
-        useSOLBalance: true,
-      },
-      remainingAccounts,
-      txVersion: TxVersion.LEGACY,
-    });
+    const result = await this.trace('build', () =>
+      raydium.clmm.swap({
+        poolInfo,
+        poolKeys,
+        inputMint: inputMint.toBase58(),
+        amountIn,
+        amountOutMin: minimumAmountOut,
+        observationId: computePoolInfo.observationId,
+        ownerInfo: {
+          useSOLBalance: true,
+        },
+        remainingAccounts,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
 
     return this.builder.rawTransaction({
       transaction: result.transaction as Transaction,
@@ -169,19 +182,13 @@ export class RaydiumCLMMNamespace {
    * ```
    */
   async swapExactOut(params: RaydiumCLMMSwapExactOutParams): Promise<TransactionBuilder> {
-    const connection = this.getConnection();
-
-    const { Raydium, TxVersion, PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion, PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
 
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -196,7 +203,9 @@ export class RaydiumCLMMNamespace {
 
     // Get pool info with tick arrays
     const poolId = poolAddress.toBase58();
-    const data = await raydium.clmm.getPoolInfoFromRpc(poolId);
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('clmm', poolId, () => raydium.clmm.getPoolInfoFromRpc(poolId))
+    );
     if (!data) {
       throw new Error(`CLMM pool not found: ${poolId}`);
     }
@@ -207,7 +216,7 @@ export class RaydiumCLMMNamespace {
     const baseOut = outputMint.toBase58() === poolInfo.mintA.address;
 
     // Compute amounts and get remaining accounts from tick data
-    const epochInfo = await raydium.fetchEpochInfo();
+    const epochInfo = await this.trace('fetch_pool', () => raydium.fetchEpochInfo());
     const tickArrayCache = tickData?.[poolId] || {};
     const { remainingAccounts } = await PoolUtils.computeAmountIn({
       poolInfo: computePoolInfo,
@@ -219,19 +228,21 @@ export class RaydiumCLMMNamespace {
     });
 
     // Build swap transaction using swapBaseOut
-    const result = await raydium.clmm.swapBaseOut({
-      poolInfo,
-      poolKeys,
-      outputMint: outputMint.toBase58(),
-      amountOut,
-      amountInMax: maximumAmountIn,
-      observationId: computePoolInfo.observationId,
-      ownerInfo: {
-        useSOLBalance: true,
-      },
-      remainingAccounts,
-      txVersion: TxVersion.LEGACY,
-    });
+    const result = await this.trace('build', () =>
+      raydium.clmm.swapBaseOut({
+        poolInfo,
+        poolKeys,
+        outputMint: outputMint.toBase58(),
+        amountOut,
+        amountInMax: maximumAmountIn,
+        observationId: computePoolInfo.observationId,
+        ownerInfo: {
+          useSOLBalance: true,
+        },
+        remainingAccounts,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
 
     return this.builder.rawTransaction({
       transaction: result.transaction as Transaction,
@@ -354,4 +365,404 @@ export class RaydiumCLMMNamespace {
       maximumAmountIn: params.maximumAmountIn,
     });
   }
+
+  // ============================================================================
+  // Position methods
+  // ============================================================================
+
+  /**
+   * Open a new CLMM position and deposit liquidity
+   *
+   * The range is given as ticks or as prices. The position NFT mint signs the
+   * transaction, so it must be a fresh wallet managed by the execution engine
+   * (e.g. created with `client.createWallet()`).
+   *
+   * @param params - Open position parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const { publicKey: positionNft } = await client.createWallet(userWallet);
+   *
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.clmm.openPosition({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     positionNft,
+   *     priceLower: 120,
+   *     priceUpper: 180,
+   *     amountMaxA: 1_000_000_000,
+   *     amountMaxB: 150_000_000,
+   *   });
+   * ```
+   */
+  async openPosition(params: RaydiumCLMMOpenPositionParams): Promise<TransactionBuilder> {
+    const { TxVersion, LiquidityMath, SqrtPriceMath } = await import('@raydium-io/raydium-sdk-v2');
+
+    const { raydium, poolInfo, poolKeys, computePoolInfo } = await this.loadPool(
+      params.user,
+      params.pool
+    );
+
+    const { tickLower, tickUpper } = this.resolveTickRange(params, poolInfo);
+    const positionNft = toPublicKey(params.positionNft);
+    const amountMaxA = toBN(params.amountMaxA);
+    const amountMaxB = toBN(params.amountMaxB);
+
+    const liquidity =
+      params.liquidity !== undefined
+        ? toBN(params.liquidity)
+        : LiquidityMath.getLiquidityFromTokenAmounts(
+            computePoolInfo.sqrtPriceX64,
+            SqrtPriceMath.getSqrtPriceX64FromTick(tickLower),
+            SqrtPriceMath.getSqrtPriceX64FromTick(tickUpper),
+            amountMaxA,
+            amountMaxB
+          );
+
+    const result = await this.trace('build', () =>
+      raydium.clmm.openPositionFromLiquidity({
+        poolInfo,
+        poolKeys,
+        ownerInfo: {
+          useSOLBalance: true,
+        },
+        tickLower,
+        tickUpper,
+        liquidity,
+        amountMaxA,
+        amountMaxB,
+        withMetadata: 'create',
+        // Use the managed wallet as NFT mint instead of a locally generated keypair
+        getEphemeralSigners: () => [positionNft],
+        computeBudgetConfig: undefined,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: result.transaction,
+      additionalSigners: [positionNft],
+    });
+  }
+
+  /**
+   * Add liquidity to an existing CLMM position
+   *
+   * @param params - Increase liquidity parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.clmm.increaseLiquidity({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionNftMint,
+   *     amountMaxA: 500_000_000,
+   *     amountMaxB: 75_000_000,
+   *   });
+   * ```
+   */
+  async increaseLiquidity(params: RaydiumCLMMIncreaseLiquidityParams): Promise<TransactionBuilder> {
+    const { TxVersion, LiquidityMath, SqrtPriceMath } = await import('@raydium-io/raydium-sdk-v2');
+
+    const { raydium, poolInfo, poolKeys, computePoolInfo } = await this.loadPool(
+      params.user,
+      params.pool
+    );
+    const ownerPosition = await this.loadPosition(params.position, poolInfo);
+
+    const amountMaxA = toBN(params.amountMaxA);
+    const amountMaxB = toBN(params.amountMaxB);
+
+    const liquidity =
+      params.liquidity !== undefined
+        ? toBN(params.liquidity)
+        : LiquidityMath.getLiquidityFromTokenAmounts(
+            computePoolInfo.sqrtPriceX64,
+            SqrtPriceMath.getSqrtPriceX64FromTick(ownerPosition.tickLower),
+            SqrtPriceMath.getSqrtPriceX64FromTick(ownerPosition.tickUpper),
+            amountMaxA,
+            amountMaxB
+          );
+
+    const result = await this.trace('build', () =>
+      raydium.clmm.increasePositionFromLiquidity({
+        poolInfo,
+        poolKeys,
+        ownerPosition,
+        ownerInfo: {
+          useSOLBalance: true,
+        },
+        liquidity,
+        amountMaxA,
+        amountMaxB,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: result.transaction,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Remove liquidity from a CLMM position
+   *
+   * Removes all liquidity when `liquidity` is omitted. Pending fees are
+   * collected along with the withdrawn tokens. Set `closePosition` to also
+   * close the position after a full withdrawal.
+   *
+   * @param params - Decrease liquidity parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.clmm.decreaseLiquidity({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionNftMint,
+   *     amountMinA: 0,
+   *     amountMinB: 0,
+   *     closePosition: true,
+   *   });
+   * ```
+   */
+  async decreaseLiquidity(params: RaydiumCLMMDecreaseLiquidityParams): Promise<TransactionBuilder> {
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+
+    const { raydium, poolInfo, poolKeys } = await this.loadPool(params.user, params.pool);
+    const ownerPosition = await this.loadPosition(params.position, poolInfo);
+
+    const result = await this.trace('build', () =>
+      raydium.clmm.decreaseLiquidity({
+        poolInfo,
+        poolKeys,
+        ownerPosition,
+        ownerInfo: {
+          useSOLBalance: true,
+          closePosition: params.closePosition ?? false,
+        },
+        liquidity:
+          params.liquidity !== undefined ? toBN(params.liquidity) : ownerPosition.liquidity,
+        amountMinA: toBN(params.amountMinA),
+        amountMinB: toBN(params.amountMinB),
+        txVersion: TxVersion.LEGACY,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: result.transaction,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Harvest pending fees and rewards from CLMM positions
+   *
+   * Harvests every position the user holds in the pool unless `positions`
+   * is given. Many positions may be split over several transactions; each
+   * one is added to the builder.
+   *
+   * @param params - Harvest rewards parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.clmm.harvestRewards({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *   });
+   * ```
+   */
+  async harvestRewards(params: RaydiumCLMMHarvestRewardsParams): Promise<TransactionBuilder> {
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+
+    const { raydium, poolInfo } = await this.loadPool(params.user, params.pool);
+
+    const positions = params.positions
+      ? await Promise.all(params.positions.map((position) => this.loadPosition(position, poolInfo)))
+      : (
+          await this.trace('fetch_position', () =>
+            raydium.clmm.getOwnerPositionInfo({ programId: poolInfo.programId })
+          )
+        ).filter((position) => position.poolId.toBase58() === poolInfo.id);
+
+    if (positions.length === 0) {
+      throw new Error(`No CLMM positions found in pool: ${poolInfo.id}`);
+    }
+
+    const result = await this.trace('build', () =>
+      raydium.clmm.harvestAllRewards({
+        allPoolInfo: { [poolInfo.id]: poolInfo },
+        allPositions: { [poolInfo.id]: positions },
+        ownerInfo: {
+          useSOLBalance: true,
+        },
+        programId: new PublicKey(poolInfo.programId),
+        txVersion: TxVersion.LEGACY,
+      })
+    );
+
+    for (const transaction of result.transactions) {
+      this.builder.rawTransaction({
+        transaction,
+        additionalSigners: [],
+      });
+    }
+
+    return this.builder;
+  }
+
+  /**
+   * Close an empty CLMM position and burn its NFT
+   *
+   * Remove all liquidity first, or use `decreaseLiquidity({ ..., closePosition: true })`
+   * to do it in one step.
+   *
+   * @param params - Close position parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.clmm.closePosition({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     position: positionNftMint,
+   *   });
+   * ```
+   */
+  async closePosition(params: RaydiumCLMMClosePositionParams): Promise<TransactionBuilder> {
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+
+    const { raydium, poolInfo, poolKeys } = await this.loadPool(params.user, params.pool);
+    const ownerPosition = await this.loadPosition(params.position, poolInfo);
+
+    const result = await this.trace('build', () =>
+      raydium.clmm.closePosition({
+        poolInfo,
+        poolKeys,
+        ownerPosition,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
+
+    return this.builder.rawTransaction({
+      transaction: result.transaction,
+      additionalSigners: [],
+    });
+  }
+
+  /**
+   * Load the Raydium SDK for a user along with pool info
+   */
+  private async loadPool(user: string | PublicKey, pool: string | PublicKey) {
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(toPublicKey(user));
+
+    const poolId = toPublicKey(pool).toBase58();
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('clmm', poolId, () => raydium.clmm.getPoolInfoFromRpc(poolId))
+    );
+    if (!data) {
+      throw new Error(`CLMM pool not found: ${poolId}`);
+    }
+
+    return { raydium, ...data };
+  }
+
+  /**
+   * Fetch a personal position by NFT mint and check it belongs to the pool
+   */
+  private async loadPosition(
+    position: string | PublicKey,
+    poolInfo: { id: string; programId: string }
+  ) {
+    const connection = this.getConnection();
+
+    const { PositionInfoLayout, getPdaPersonalPositionAddress } =
+      await import('@raydium-io/raydium-sdk-v2');
+
+    const nftMint = toPublicKey(position);
+    const { publicKey: positionAddress } = getPdaPersonalPositionAddress(
+      new PublicKey(poolInfo.programId),
+      nftMint
+    );
+
+    const account = await this.trace('fetch_position', () =>
+      connection.getAccountInfo(positionAddress)
+    );
+    if (!account) {
+      throw new Error(`CLMM position not found: ${nftMint.toBase58()}`);
+    }
+
+    const ownerPosition = PositionInfoLayout.decode(account.data);
+    if (ownerPosition.poolId.toBase58() !== poolInfo.id) {
+      throw new Error(`CLMM position ${nftMint.toBase58()} does not belong to pool ${poolInfo.id}`);
+    }
+
+    return ownerPosition;
+  }
+
+  /**
+   * Resolve the tick range of a new position from ticks or prices
+   */
+  private resolveTickRange(
+    params: RaydiumCLMMOpenPositionParams,
+    poolInfo: {
+      mintA: { decimals: number };
+      mintB: { decimals: number };
+      config: { tickSpacing: number };
+    }
+  ): { tickLower: number; tickUpper: number } {
+    const { tickSpacing } = poolInfo.config;
+    let tickLower: number;
+    let tickUpper: number;
+
+    if (params.tickLower !== undefined && params.tickUpper !== undefined) {
+      ({ tickLower, tickUpper } = params);
+    } else if (params.priceLower !== undefined && params.priceUpper !== undefined) {
+      const { decimals: decimalsA } = poolInfo.mintA;
+      const { decimals: decimalsB } = poolInfo.mintB;
+      // Widen the range so it covers both prices
+      tickLower = RaydiumCLMMUtils.priceToTick(
+        params.priceLower,
+        decimalsA,
+        decimalsB,
+        tickSpacing,
+        'down'
+      );
+      tickUpper = RaydiumCLMMUtils.priceToTick(
+        params.priceUpper,
+        decimalsA,
+        decimalsB,
+        tickSpacing,
+        'up'
+      );
+    } else {
+      throw new Error('openPosition requires tickLower/tickUpper or priceLower/priceUpper');
+    }
+
+    if (tickLower % tickSpacing !== 0 || tickUpper % tickSpacing !== 0) {
+      throw new Error(`CLMM ticks must be multiples of the pool tick spacing (${tickSpacing})`);
+    }
+    if (tickLower >= tickUpper) {
+      throw new Error(`Invalid CLMM tick range: ${tickLower} >= ${tickUpper}`);
+    }
+
+    return { tickLower, tickUpper };
+  }
+}
+
+function toPublicKey(value: string | PublicKey): PublicKey {
+  return typeof value === 'string' ? new PublicKey(value) : value;
+}
+
+function toBN(value: number | BN): BN {
+  return BN.isBN(value) ? value : new BN(value);
 }
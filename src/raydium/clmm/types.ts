@@ -18,6 +18,11 @@ import type BN from 'bn.js';
  */
 export const RAYDIUM_CLMM_PROGRAM_ID = 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK';
 
+/**
+ * Raydium CLMM Program ID (Devnet)
+ */
+export const RAYDIUM_CLMM_DEVNET_PROGRAM_ID = 'DRayAUgENGQBKVaX8owNhgzkEDyoHTGVEGHVJT1E9pfH';
+
 /**
  * Wrapped SOL Mint Address
  */
@@ -231,6 +236,193 @@ export interface RaydiumCLMMSellExactOutParams {
   maximumAmountIn: number | BN;
 }
 
+// ============================================================================
+// Liquidity Parameters
+// ============================================================================
+
+/**
+ * Parameters for CLMM openPosition operation
+ *
+ * The range is given either as ticks (`tickLower`/`tickUpper`) or as prices
+ * (`priceLower`/`priceUpper`, token B per token A in UI units). Prices are
+ * widened to the nearest initializable ticks.
+ */
+export interface RaydiumCLMMOpenPositionParams {
+  /**
+   * CLMM pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (position owner, will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position NFT mint address
+   *
+   * Signs the transaction, so it must be a fresh wallet managed by the
+   * execution engine (e.g. created with `client.createWallet()`).
+   */
+  positionNft: string | PublicKey;
+
+  /**
+   * Lower tick of the range (must be a multiple of the pool tick spacing)
+   */
+  tickLower?: number;
+
+  /**
+   * Upper tick of the range (must be a multiple of the pool tick spacing)
+   */
+  tickUpper?: number;
+
+  /**
+   * Lower price of the range (token B per token A)
+   */
+  priceLower?: number;
+
+  /**
+   * Upper price of the range (token B per token A)
+   */
+  priceUpper?: number;
+
+  /**
+   * Maximum token A to deposit
+   */
+  amountMaxA: number | BN;
+
+  /**
+   * Maximum token B to deposit
+   */
+  amountMaxB: number | BN;
+
+  /**
+   * Liquidity to mint (default: maximum liquidity for the given amounts at the current price)
+   */
+  liquidity?: number | BN;
+}
+
+/**
+ * Parameters for CLMM increaseLiquidity operation
+ */
+export interface RaydiumCLMMIncreaseLiquidityParams {
+  /**
+   * CLMM pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (position owner, will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position NFT mint address
+   */
+  position: string | PublicKey;
+
+  /**
+   * Maximum token A to deposit
+   */
+  amountMaxA: number | BN;
+
+  /**
+   * Maximum token B to deposit
+   */
+  amountMaxB: number | BN;
+
+  /**
+   * Liquidity to add (default: maximum liquidity for the given amounts at the current price)
+   */
+  liquidity?: number | BN;
+}
+
+/**
+ * Parameters for CLMM decreaseLiquidity operation
+ *
+ * Pending fees and rewards are collected along with the withdrawn tokens.
+ */
+export interface RaydiumCLMMDecreaseLiquidityParams {
+  /**
+   * CLMM pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (position owner, will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position NFT mint address
+   */
+  position: string | PublicKey;
+
+  /**
+   * Liquidity to remove (default: all position liquidity)
+   */
+  liquidity?: number | BN;
+
+  /**
+   * Minimum token A to receive (slippage protection)
+   */
+  amountMinA: number | BN;
+
+  /**
+   * Minimum token B to receive (slippage protection)
+   */
+  amountMinB: number | BN;
+
+  /**
+   * Close the position after removing all liquidity (default: false)
+   */
+  closePosition?: boolean;
+}
+
+/**
+ * Parameters for CLMM harvestRewards operation
+ *
+ * Collects pending trading fees and liquidity mining rewards.
+ */
+export interface RaydiumCLMMHarvestRewardsParams {
+  /**
+   * CLMM pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (position owner, will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position NFT mints to harvest (default: all of the user's positions in the pool)
+   */
+  positions?: (string | PublicKey)[];
+}
+
+/**
+ * Parameters for CLMM closePosition operation
+ *
+ * The position must have no liquidity, fees or rewards left.
+ */
+export interface RaydiumCLMMClosePositionParams {
+  /**
+   * CLMM pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (position owner, will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Position NFT mint address
+   */
+  position: string | PublicKey;
+}
+
 // ============================================================================
 // State/Query Types
 // ============================================================================
@@ -299,12 +491,112 @@ export interface RaydiumCLMMPoolState {
    */
   decimalsB: number;
 
+  /**
+   * CLMM program ID owning the pool
+   */
+  programId: PublicKey;
+
+  /**
+   * Global fee growth of token A (X64 fixed-point)
+   */
+  feeGrowthGlobalX64A: BN;
+
+  /**
+   * Global fee growth of token B (X64 fixed-point)
+   */
+  feeGrowthGlobalX64B: BN;
+
+  /**
+   * Global growth of each reward (X64 fixed-point)
+   */
+  rewardGrowthGlobalX64: BN[];
+
   /**
    * Raw pool info from SDK
    */
   raw: unknown;
 }
 
+/**
+ * CLMM position information
+ */
+export interface RaydiumCLMMPositionInfo {
+  /**
+   * Position NFT mint address
+   */
+  nftMint: PublicKey;
+
+  /**
+   * Personal position account address
+   */
+  address: PublicKey;
+
+  /**
+   * Pool address
+   */
+  pool: PublicKey;
+
+  /**
+   * Lower tick of the range
+   */
+  tickLower: number;
+
+  /**
+   * Upper tick of the range
+   */
+  tickUpper: number;
+
+  /**
+   * Lower price of the range (token B per token A)
+   */
+  priceLower: number;
+
+  /**
+   * Upper price of the range (token B per token A)
+   */
+  priceUpper: number;
+
+  /**
+   * Whether the current pool tick is inside the range
+   */
+  inRange: boolean;
+
+  /**
+   * Position liquidity
+   */
+  liquidity: BN;
+
+  /**
+   * Token A held by the position at the current price
+   */
+  amountA: BN;
+
+  /**
+   * Token B held by the position at the current price
+   */
+  amountB: BN;
+
+  /**
+   * Pending token A fees
+   */
+  pendingFeeA: BN;
+
+  /**
+   * Pending token B fees
+   */
+  pendingFeeB: BN;
+
+  /**
+   * Pending rewards (one entry per pool reward)
+   */
+  pendingRewards: BN[];
+
+  /**
+   * Raw position account from SDK
+   */
+  raw: unknown;
+}
+
 /**
  * CLMM swap quote result (ExactIn)
  */
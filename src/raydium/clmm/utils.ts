@@ -10,12 +10,27 @@
 import type { Connection, Commitment } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { resolveRaydiumCache } from '../cache';
+import type { RaydiumCache } from '../cache';
+import { getRaydiumProgramIds } from '../programs';
 import type {
   RaydiumCLMMPoolState,
   RaydiumCLMMSwapQuote,
   RaydiumCLMMSwapQuoteExactOut,
+  RaydiumCLMMPositionInfo,
 } from './types';
 
+// Price ratio between adjacent ticks
+const TICK_BASE = 1.0001;
+
+// Tolerance for floating point error when converting prices to ticks
+const TICK_EPSILON = 1e-8;
+
+// Tick entry decoded from a tick array account
+type TickState = ReturnType<
+  typeof import('@raydium-io/raydium-sdk-v2').TickArrayLayout.decode
+>['ticks'][number];
+
 /**
  * Static utility class for Raydium CLMM operations
  *
@@ -48,6 +63,7 @@ export class RaydiumCLMMUtils {
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool address
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Pool state information
    * @throws Error if pool not found
    *
@@ -64,20 +80,18 @@ export class RaydiumCLMMUtils {
   static async getPool(
     connection: Connection,
     poolAddress: string | PublicKey,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumCLMMPoolState> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
 
-    const data = await raydium.clmm.getPoolInfoFromRpc(address.toBase58());
+    const data = await raydiumCache.getPoolInfo('clmm', address.toBase58(), () =>
+      raydium.clmm.getPoolInfoFromRpc(address.toBase58())
+    );
 
     if (!data) {
       throw new Error(`CLMM pool not found: ${address.toBase58()}`);
@@ -98,6 +112,12 @@ export class RaydiumCLMMUtils {
       tickSpacing: poolInfo.config.tickSpacing,
       decimalsA: poolInfo.mintA.decimals,
       decimalsB: poolInfo.mintB.decimals,
+      programId: new PublicKey(poolInfo.programId),
+      feeGrowthGlobalX64A: computePoolInfo.feeGrowthGlobalX64A,
+      feeGrowthGlobalX64B: computePoolInfo.feeGrowthGlobalX64B,
+      rewardGrowthGlobalX64: computePoolInfo.rewardInfos.map(
+        (reward) => reward.rewardGrowthGlobalX64
+      ),
       raw: data,
     };
   }
@@ -113,6 +133,7 @@ export class RaydiumCLMMUtils {
    * @param amountIn - Input amount
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -135,15 +156,13 @@ export class RaydiumCLMMUtils {
     inputMint: string | PublicKey,
     amountIn: number | BN,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumCLMMSwapQuote> {
-    const { Raydium, PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
+    const { PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
@@ -152,7 +171,9 @@ export class RaydiumCLMMUtils {
     const amount = BN.isBN(amountIn) ? amountIn : new BN(amountIn);
 
     const poolId = address.toBase58();
-    const data = await raydium.clmm.getPoolInfoFromRpc(poolId);
+    const data = await raydiumCache.getPoolInfo('clmm', poolId, () =>
+      raydium.clmm.getPoolInfoFromRpc(poolId)
+    );
     if (!data) {
       throw new Error(`CLMM pool not found: ${poolId}`);
     }
@@ -205,6 +226,7 @@ export class RaydiumCLMMUtils {
    * @param amountOut - Desired output amount
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -227,15 +249,13 @@ export class RaydiumCLMMUtils {
     outputMint: string | PublicKey,
     amountOut: number | BN,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumCLMMSwapQuoteExactOut> {
-    const { Raydium, PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
+    const { PoolUtils } = await import('@raydium-io/raydium-sdk-v2');
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
@@ -244,7 +264,9 @@ export class RaydiumCLMMUtils {
     const amount = BN.isBN(amountOut) ? amountOut : new BN(amountOut);
 
     const poolId = address.toBase58();
-    const data = await raydium.clmm.getPoolInfoFromRpc(poolId);
+    const data = await raydiumCache.getPoolInfo('clmm', poolId, () =>
+      raydium.clmm.getPoolInfoFromRpc(poolId)
+    );
     if (!data) {
       throw new Error(`CLMM pool not found: ${poolId}`);
     }
@@ -292,4 +314,222 @@ export class RaydiumCLMMUtils {
       priceImpact: quoteResult.priceImpact ? parseFloat(quoteResult.priceImpact.toFixed()) : 0,
     };
   }
+
+  /**
+   * Get all CLMM positions owned by a wallet
+   *
+   * Returns tick bounds, liquidity, token amounts at the current price, and
+   * pending fees and rewards computed from each pool's `RaydiumCLMMPoolState`.
+   *
+   * @param connection - Solana RPC connection
+   * @param owner - Position owner address
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
+   * @returns Positions across all CLMM pools
+   *
+   * @example
+   * ```typescript
+   * const positions = await RaydiumCLMMUtils.getPositions(connection, wallet);
+   *
+   * for (const position of positions) {
+   *   console.log('Position NFT:', position.nftMint.toBase58());
+   *   console.log('Range:', position.priceLower, '-', position.priceUpper);
+   *   console.log('Pending fees:', position.pendingFeeA.toString(), position.pendingFeeB.toString());
+   * }
+   * ```
+   */
+  static async getPositions(
+    connection: Connection,
+    owner: string | PublicKey,
+    commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
+  ): Promise<RaydiumCLMMPositionInfo[]> {
+    const {
+      PositionUtils,
+      LiquidityMath,
+      SqrtPriceMath,
+      TickUtils,
+      TickArrayLayout,
+      getPdaTickArrayAddress,
+      getPdaPersonalPositionAddress,
+    } = await import('@raydium-io/raydium-sdk-v2');
+
+    const ownerAddress = typeof owner === 'string' ? new PublicKey(owner) : owner;
+
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium(ownerAddress);
+    const { CLMM_PROGRAM_ID } = await getRaydiumProgramIds(raydiumCache.getCluster());
+
+    const positions = await raydium.clmm.getOwnerPositionInfo({
+      programId: CLMM_PROGRAM_ID,
+    });
+
+    if (positions.length === 0) {
+      return [];
+    }
+
+    // Fetch each pool once
+    const poolIds = [...new Set(positions.map((position) => position.poolId.toBase58()))];
+    const pools = await Promise.all(
+      poolIds.map((poolId) =>
+        RaydiumCLMMUtils.getPool(connection, poolId, commitment, raydiumCache)
+      )
+    );
+    const entries = positions.map((position) => ({
+      position,
+      pool: pools[poolIds.indexOf(position.poolId.toBase58())] as RaydiumCLMMPoolState,
+    }));
+
+    // Fetch the tick arrays holding each position's lower and upper ticks
+    const tickArrayAddresses = entries.flatMap(({ position, pool }) =>
+      [position.tickLower, position.tickUpper].map(
+        (tick) =>
+          getPdaTickArrayAddress(
+            pool.programId,
+            pool.address,
+            TickUtils.getTickArrayStartIndexByTick(tick, pool.tickSpacing)
+          ).publicKey
+      )
+    );
+    const tickArrayAccounts = await connection.getMultipleAccountsInfo(
+      tickArrayAddresses,
+      commitment
+    );
+
+    return entries.map(({ position, pool }, i) => {
+      const [tickLowerState, tickUpperState] = [position.tickLower, position.tickUpper].map(
+        (tick, j) => {
+          const account = tickArrayAccounts[i * 2 + j];
+          const tickState =
+            account &&
+            TickArrayLayout.decode(account.data).ticks[
+              TickUtils.getTickOffsetInArray(tick, pool.tickSpacing)
+            ];
+          if (!tickState) {
+            throw new Error(`CLMM tick array not found for tick ${tick}`);
+          }
+          return tickState;
+        }
+      ) as [TickState, TickState];
+
+      const poolGrowth = {
+        tickCurrent: pool.currentTickIndex,
+        feeGrowthGlobalX64A: pool.feeGrowthGlobalX64A,
+        feeGrowthGlobalX64B: pool.feeGrowthGlobalX64B,
+        rewardInfos: pool.rewardGrowthGlobalX64.map((rewardGrowthGlobalX64) => ({
+          rewardGrowthGlobalX64,
+        })),
+      };
+
+      const fees = PositionUtils.GetPositionFeesV2(
+        poolGrowth,
+        position,
+        tickLowerState,
+        tickUpperState
+      );
+      const rewards = PositionUtils.GetPositionRewardsV2(
+        poolGrowth,
+        position,
+        tickLowerState,
+        tickUpperState
+      );
+
+      const amounts = LiquidityMath.getAmountsFromLiquidity(
+        pool.sqrtPriceX64,
+        SqrtPriceMath.getSqrtPriceX64FromTick(position.tickLower),
+        SqrtPriceMath.getSqrtPriceX64FromTick(position.tickUpper),
+        position.liquidity,
+        false
+      );
+
+      return {
+        nftMint: position.nftMint,
+        address: getPdaPersonalPositionAddress(pool.programId, position.nftMint).publicKey,
+        pool: pool.address,
+        tickLower: position.tickLower,
+        tickUpper: position.tickUpper,
+        priceLower: RaydiumCLMMUtils.tickToPrice(
+          position.tickLower,
+          pool.decimalsA,
+          pool.decimalsB
+        ),
+        priceUpper: RaydiumCLMMUtils.tickToPrice(
+          position.tickUpper,
+          pool.decimalsA,
+          pool.decimalsB
+        ),
+        inRange:
+          pool.currentTickIndex >= position.tickLower && pool.currentTickIndex < position.tickUpper,
+        liquidity: position.liquidity,
+        amountA: amounts.amountA,
+        amountB: amounts.amountB,
+        pendingFeeA: fees.tokenFeeAmountA,
+        pendingFeeB: fees.tokenFeeAmountB,
+        pendingRewards: rewards,
+        raw: position,
+      };
+    });
+  }
+
+  /**
+   * Convert a price to a tick aligned to the pool tick spacing
+   *
+   * @param price - Price of token A in token B (UI units)
+   * @param decimalsA - Token A decimals
+   * @param decimalsB - Token B decimals
+   * @param tickSpacing - Pool tick spacing
+   * @param rounding - Round the tick down (default) or up to the tick spacing
+   * @returns Initializable tick index
+   *
+   * @example
+   * ```typescript
+   * const pool = await RaydiumCLMMUtils.getPool(connection, poolAddress);
+   * const tickLower = RaydiumCLMMUtils.priceToTick(
+   *   120,
+   *   pool.decimalsA,
+   *   pool.decimalsB,
+   *   pool.tickSpacing
+   * );
+   * ```
+   */
+  static priceToTick(
+    price: number,
+    decimalsA: number,
+    decimalsB: number,
+    tickSpacing: number,
+    rounding: 'down' | 'up' = 'down'
+  ): number {
+    if (!(price > 0)) {
+      throw new Error(`Invalid CLMM price: ${price}`);
+    }
+
+    // Raw price is expressed in smallest units
+    const rawPrice = price * 10 ** (decimalsB - decimalsA);
+    const exactTick = Math.log(rawPrice) / Math.log(TICK_BASE);
+
+    // Snap to the nearest tick when within floating point error, so prices from
+    // tickToPrice() map back to the same tick
+    const nearestTick = Math.round(exactTick);
+    const tick = Math.abs(exactTick - nearestTick) < TICK_EPSILON ? nearestTick : exactTick;
+
+    const aligned =
+      rounding === 'down'
+        ? Math.floor(tick / tickSpacing) * tickSpacing
+        : Math.ceil(tick / tickSpacing) * tickSpacing;
+
+    // Avoid returning -0
+    return aligned === 0 ? 0 : aligned;
+  }
+
+  /**
+   * Convert a tick to a price
+   *
+   * @param tick - Tick index
+   * @param decimalsA - Token A decimals
+   * @param decimalsB - Token B decimals
+   * @returns Price of token A in token B (UI units)
+   */
+  static tickToPrice(tick: number, decimalsA: number, decimalsB: number): number {
+    return TICK_BASE ** tick * 10 ** (decimalsA - decimalsB);
+  }
 }
@@ -6,9 +6,10 @@
  * @module raydium/cpmm/namespace
  */
 
-import type { Connection } from '@solana/web3.js';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
 import type {
@@ -55,8 +56,11 @@ export class RaydiumCPMMNamespace {
     return this.builder.getClient();
   }
 
-  private getConnection(): Connection {
-    return this.getClient().requireConnection();
+  /**
+   * Run a step of a method inside a `lys_flash.raydium.cpmm.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'raydium.cpmm', step, fn);
   }
 
   /**
@@ -79,19 +83,13 @@ export class RaydiumCPMMNamespace {
    * ```
    */
   async swap(params: RaydiumCPMMSwapParams): Promise<TransactionBuilder> {
-    const connection = this.getConnection();
-
-    const { Raydium, TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
 
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -105,7 +103,11 @@ export class RaydiumCPMMNamespace {
       : new BN(params.minimumAmountOut);
 
     // Get pool info
-    const data = await raydium.cpmm.getPoolInfoFromRpc(poolAddress.toBase58());
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('cpmm', poolAddress.toBase58(), () =>
+        raydium.cpmm.getPoolInfoFromRpc(poolAddress.toBase58())
+      )
+    );
     if (!data) {
       throw new Error(`CPMM pool not found: ${poolAddress.toBase58()}`);
     }
@@ -116,18 +118,20 @@ export class RaydiumCPMMNamespace {
     const baseIn = inputMint.toBase58() === poolInfo.mintA.address;
 
     // Build swap transaction
-    const result = await raydium.cpmm.swap({
-      poolInfo,
-      poolKeys,
-      inputAmount: amountIn,
-      swapResult: {
+    const result = await this.trace('build', () =>
+      raydium.cpmm.swap({
+        poolInfo,
+        poolKeys,
         inputAmount: amountIn,
-        outputAmount: minimumAmountOut,
-      },
-      slippage: 0, // We already applied slippage in minimumAmountOut
-      baseIn,
-      txVersion: TxVersion.LEGACY,
-    });
+        swapResult: {
+          inputAmount: amountIn,
+          outputAmount: minimumAmountOut,
+        },
+        slippage: 0, // We already applied slippage in minimumAmountOut
+        baseIn,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
 
     return this.builder.rawTransaction({
       transaction: result.transaction as Transaction,
@@ -155,19 +159,13 @@ export class RaydiumCPMMNamespace {
    * ```
    */
   async swapExactOut(params: RaydiumCPMMSwapExactOutParams): Promise<TransactionBuilder> {
-    const connection = this.getConnection();
-
-    const { Raydium, TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
 
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -181,7 +179,11 @@ export class RaydiumCPMMNamespace {
       : new BN(params.maximumAmountIn);
 
     // Get pool info
-    const data = await raydium.cpmm.getPoolInfoFromRpc(poolAddress.toBase58());
+    const data = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('cpmm', poolAddress.toBase58(), () =>
+        raydium.cpmm.getPoolInfoFromRpc(poolAddress.toBase58())
+      )
+    );
     if (!data) {
       throw new Error(`CPMM pool not found: ${poolAddress.toBase58()}`);
     }
@@ -192,19 +194,21 @@ export class RaydiumCPMMNamespace {
     const baseIn = outputMint.toBase58() !== poolInfo.mintA.address;
 
     // Build swap transaction with baseOut mode
-    const result = await raydium.cpmm.swap({
-      poolInfo,
-      poolKeys,
-      inputAmount: maximumAmountIn,
-      swapResult: {
+    const result = await this.trace('build', () =>
+      raydium.cpmm.swap({
+        poolInfo,
+        poolKeys,
         inputAmount: maximumAmountIn,
-        outputAmount: amountOut,
-      },
-      slippage: 0,
-      baseIn,
-      fixedOut: true,
-      txVersion: TxVersion.LEGACY,
-    });
+        swapResult: {
+          inputAmount: maximumAmountIn,
+          outputAmount: amountOut,
+        },
+        slippage: 0,
+        baseIn,
+        fixedOut: true,
+        txVersion: TxVersion.LEGACY,
+      })
+    );
 
     return this.builder.rawTransaction({
       transaction: result.transaction as Transaction,
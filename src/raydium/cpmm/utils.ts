@@ -10,6 +10,8 @@
 import type { Connection, Commitment } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { resolveRaydiumCache } from '../cache';
+import type { RaydiumCache } from '../cache';
 import type {
   RaydiumCPMMPoolState,
   RaydiumCPMMSwapQuote,
@@ -48,6 +50,7 @@ export class RaydiumCPMMUtils {
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool address
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Pool state information
    * @throws Error if pool not found
    *
@@ -64,20 +67,18 @@ export class RaydiumCPMMUtils {
   static async getPool(
     connection: Connection,
     poolAddress: string | PublicKey,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumCPMMPoolState> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
 
-    const data = await raydium.cpmm.getPoolInfoFromRpc(address.toBase58());
+    const data = await raydiumCache.getPoolInfo('cpmm', address.toBase58(), () =>
+      raydium.cpmm.getPoolInfoFromRpc(address.toBase58())
+    );
 
     if (!data) {
       throw new Error(`CPMM pool not found: ${address.toBase58()}`);
@@ -114,6 +115,7 @@ export class RaydiumCPMMUtils {
    * @param amountIn - Input amount
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -136,15 +138,13 @@ export class RaydiumCPMMUtils {
     inputMint: string | PublicKey,
     amountIn: number | BN,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumCPMMSwapQuote> {
-    const { Raydium, CurveCalculator } = await import('@raydium-io/raydium-sdk-v2');
+    const { CurveCalculator } = await import('@raydium-io/raydium-sdk-v2');
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
@@ -152,7 +152,9 @@ export class RaydiumCPMMUtils {
       typeof inputMint === 'string' ? new PublicKey(inputMint) : inputMint;
     const amount = BN.isBN(amountIn) ? amountIn : new BN(amountIn);
 
-    const data = await raydium.cpmm.getPoolInfoFromRpc(address.toBase58());
+    const data = await raydiumCache.getPoolInfo('cpmm', address.toBase58(), () =>
+      raydium.cpmm.getPoolInfoFromRpc(address.toBase58())
+    );
     if (!data) {
       throw new Error(`CPMM pool not found: ${address.toBase58()}`);
     }
@@ -216,6 +218,7 @@ export class RaydiumCPMMUtils {
    * @param amountOut - Desired output amount
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -238,15 +241,13 @@ export class RaydiumCPMMUtils {
     outputMint: string | PublicKey,
     amountOut: number | BN,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumCPMMSwapQuoteExactOut> {
-    const { Raydium, CurveCalculator } = await import('@raydium-io/raydium-sdk-v2');
+    const { CurveCalculator } = await import('@raydium-io/raydium-sdk-v2');
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
@@ -254,7 +255,9 @@ export class RaydiumCPMMUtils {
       typeof outputMint === 'string' ? new PublicKey(outputMint) : outputMint;
     const amount = BN.isBN(amountOut) ? amountOut : new BN(amountOut);
 
-    const data = await raydium.cpmm.getPoolInfoFromRpc(address.toBase58());
+    const data = await raydiumCache.getPoolInfo('cpmm', address.toBase58(), () =>
+      raydium.cpmm.getPoolInfoFromRpc(address.toBase58())
+    );
     if (!data) {
       throw new Error(`CPMM pool not found: ${address.toBase58()}`);
     }
@@ -13,6 +13,14 @@
 // Parent namespace
 export { RaydiumNamespace } from './namespace';
 
+// Shared SDK instance and pool-info cache
+export { RaydiumCache, DEFAULT_RAYDIUM_POOL_TTL, DEFAULT_RAYDIUM_MAX_OWNERS } from './cache';
+export type { RaydiumPoolKind, RaydiumCacheOptions } from './cache';
+
+// Cluster-specific program IDs
+export { getRaydiumProgramIds } from './programs';
+export type { RaydiumProgramIds } from './programs';
+
 // LaunchPad sub-module (re-export everything)
 export {
   // Namespace class
@@ -21,6 +29,7 @@ export {
   RaydiumLaunchPadUtils,
   // Constants
   RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  RAYDIUM_LAUNCHPAD_DEVNET_PROGRAM_ID,
 } from './launchpad';
 
 // LaunchPad types (re-export)
@@ -31,9 +40,13 @@ export type {
   RaydiumLaunchPadSwapParams,
   RaydiumLaunchPadBuyParams,
   RaydiumLaunchPadSellParams,
+  RaydiumLaunchPadSwapExactOutParams,
+  RaydiumLaunchPadBuyExactOutParams,
+  RaydiumLaunchPadSellExactOutParams,
   // State/query types
   RaydiumLaunchPadPoolState,
   RaydiumLaunchPadSwapQuote,
+  RaydiumLaunchPadSwapQuoteExactOut,
 } from './launchpad';
 
 // CLMM sub-module (re-export everything)
@@ -44,6 +57,7 @@ export {
   RaydiumCLMMUtils,
   // Constants
   RAYDIUM_CLMM_PROGRAM_ID,
+  RAYDIUM_CLMM_DEVNET_PROGRAM_ID,
 } from './clmm';
 
 // CLMM types (re-export)
@@ -58,10 +72,17 @@ export type {
   RaydiumCLMMSellParams,
   RaydiumCLMMBuyExactOutParams,
   RaydiumCLMMSellExactOutParams,
+  // Liquidity params
+  RaydiumCLMMOpenPositionParams,
+  RaydiumCLMMIncreaseLiquidityParams,
+  RaydiumCLMMDecreaseLiquidityParams,
+  RaydiumCLMMHarvestRewardsParams,
+  RaydiumCLMMClosePositionParams,
   // State/query types
   RaydiumCLMMPoolState,
   RaydiumCLMMSwapQuote,
   RaydiumCLMMSwapQuoteExactOut,
+  RaydiumCLMMPositionInfo,
 } from './clmm';
 
 // CPMM sub-module (re-export everything)
@@ -18,10 +18,18 @@ export type {
   RaydiumLaunchPadSwapParams,
   RaydiumLaunchPadBuyParams,
   RaydiumLaunchPadSellParams,
+  RaydiumLaunchPadSwapExactOutParams,
+  RaydiumLaunchPadBuyExactOutParams,
+  RaydiumLaunchPadSellExactOutParams,
   // State/query types
   RaydiumLaunchPadPoolState,
   RaydiumLaunchPadSwapQuote,
+  RaydiumLaunchPadSwapQuoteExactOut,
 } from './types';
 
 // Constants
-export { RAYDIUM_LAUNCHPAD_PROGRAM_ID, SOL_MINT } from './types';
+export {
+  RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  RAYDIUM_LAUNCHPAD_DEVNET_PROGRAM_ID,
+  SOL_MINT,
+} from './types';
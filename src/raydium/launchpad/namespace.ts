@@ -9,14 +9,26 @@
 import type { Connection } from '@solana/web3.js';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import { traceStep } from '../../utils/tracing';
+import type { NamespaceStep } from '../../utils/tracing';
 import type { TransactionBuilder } from '../../builder';
 import type { LysFlash } from '../../client';
+import { getRaydiumProgramIds } from '../programs';
+import { RaydiumLaunchPadUtils } from './utils';
 import type {
   RaydiumLaunchPadSwapParams,
+  RaydiumLaunchPadSwapExactOutParams,
   RaydiumLaunchPadBuyParams,
+  RaydiumLaunchPadBuyExactOutParams,
   RaydiumLaunchPadSellParams,
+  RaydiumLaunchPadSellExactOutParams,
 } from './types';
 
+/**
+ * Default slippage tolerance in basis points (1%)
+ */
+const DEFAULT_SLIPPAGE_BPS = 100;
+
 /**
  * Raydium LaunchPad Namespace
  *
@@ -55,7 +67,25 @@ export class RaydiumLaunchPadNamespace {
   }
 
   /**
-   * Execute a LaunchPad swap operation
+   * Run a step of a method inside a `lys_flash.raydium.launchpad.<step>` span
+   */
+  private trace<T>(step: NamespaceStep, fn: () => Promise<T>): Promise<T> {
+    return traceStep(this.getClient().getTracer(), 'raydium.launchpad', step, fn);
+  }
+
+  private getSlippageBps(slippageBps?: number): number {
+    const bps = slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    if (!Number.isInteger(bps) || bps < 0 || bps > 10000) {
+      throw new Error(`Invalid slippageBps: ${bps} (expected an integer between 0 and 10000)`);
+    }
+    return bps;
+  }
+
+  /**
+   * Execute a LaunchPad swap operation (ExactIn)
+   *
+   * The output is protected by `minimumAmountOut` when set, otherwise by
+   * `slippageBps` (default 1%) applied to the SDK's quote.
    *
    * @param params - Swap parameters
    * @returns TransactionBuilder for method chaining
@@ -75,8 +105,8 @@ export class RaydiumLaunchPadNamespace {
   async swap(params: RaydiumLaunchPadSwapParams): Promise<TransactionBuilder> {
     const connection = this.getConnection();
 
-    const { Raydium, TxVersion, LAUNCHPAD_PROGRAM } =
-      await import('@raydium-io/raydium-sdk-v2');
+    const { TxVersion } = await import('@raydium-io/raydium-sdk-v2');
+    const { LAUNCHPAD_PROGRAM } = await getRaydiumProgramIds(this.getClient().getCluster());
 
     // Token program IDs
     const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
@@ -85,12 +115,8 @@ export class RaydiumLaunchPadNamespace {
     const user =
       typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
 
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-      owner: user,
-    });
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
 
     const poolAddress =
       typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
@@ -102,46 +128,67 @@ export class RaydiumLaunchPadNamespace {
         : params.shareFeeReceiver
       : undefined;
 
+    const minimumAmountOut =
+      params.minimumAmountOut === undefined
+        ? undefined
+        : BN.isBN(params.minimumAmountOut)
+          ? params.minimumAmountOut
+          : new BN(params.minimumAmountOut);
+    // The SDK only applies slippage when no explicit minimum is given
+    const slippage = new BN(this.getSlippageBps(params.slippageBps));
+
     const isBuy = params.direction === 'buy';
 
     // Get pool info
-    const poolInfo = await raydium.launchpad.getRpcPoolInfo({ poolId: poolAddress });
+    const poolInfo = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('launchpad', poolAddress, () =>
+        raydium.launchpad.getRpcPoolInfo({ poolId: poolAddress })
+      )
+    );
 
     if (!poolInfo) {
       throw new Error(`LaunchPad pool not found: ${poolAddress.toBase58()}`);
     }
 
     // Get mint info for token program
-    const mintInfo = await connection.getAccountInfo(poolInfo.mintA);
+    const mintInfo = await this.trace('fetch_pool', () =>
+      connection.getAccountInfo(poolInfo.mintA)
+    );
     const mintAProgram =
       mintInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
 
     // Build swap transaction
     let result;
     if (isBuy) {
-      result = await raydium.launchpad.buyToken({
-        programId: LAUNCHPAD_PROGRAM,
-        mintA: poolInfo.mintA,
-        mintAProgram,
-        poolInfo,
-        configInfo: poolInfo.configInfo,
-        buyAmount: amountIn,
-        slippage: new BN(100), // 1% slippage in basis points
-        shareFeeReceiver,
-        txVersion: TxVersion.LEGACY,
-      });
+      result = await this.trace('build', () =>
+        raydium.launchpad.buyToken({
+          programId: LAUNCHPAD_PROGRAM,
+          mintA: poolInfo.mintA,
+          mintAProgram,
+          poolInfo,
+          configInfo: poolInfo.configInfo,
+          buyAmount: amountIn,
+          minMintAAmount: minimumAmountOut,
+          slippage,
+          shareFeeReceiver,
+          txVersion: TxVersion.LEGACY,
+        })
+      );
     } else {
-      result = await raydium.launchpad.sellToken({
-        programId: LAUNCHPAD_PROGRAM,
-        mintA: poolInfo.mintA,
-        mintAProgram,
-        poolInfo,
-        configInfo: poolInfo.configInfo,
-        sellAmount: amountIn,
-        slippage: new BN(100), // 1% slippage in basis points
-        shareFeeReceiver,
-        txVersion: TxVersion.LEGACY,
-      });
+      result = await this.trace('build', () =>
+        raydium.launchpad.sellToken({
+          programId: LAUNCHPAD_PROGRAM,
+          mintA: poolInfo.mintA,
+          mintAProgram,
+          poolInfo,
+          configInfo: poolInfo.configInfo,
+          sellAmount: amountIn,
+          minAmountB: minimumAmountOut,
+          slippage,
+          shareFeeReceiver,
+          txVersion: TxVersion.LEGACY,
+        })
+      );
     }
 
     return this.builder.rawTransaction({
@@ -150,6 +197,196 @@ export class RaydiumLaunchPadNamespace {
     });
   }
 
+  /**
+   * Execute a LaunchPad swap operation (ExactOut)
+   *
+   * The input is capped by `maximumAmountIn` when set, otherwise by the
+   * {@link RaydiumLaunchPadUtils.getQuoteExactOut} quote plus `slippageBps`
+   * (default 1%). Quotes exclude platform fees, so pools with a platform fee
+   * need a matching slippage or an explicit `maximumAmountIn`.
+   *
+   * @param params - Swap parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.launchpad.swapExactOut({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     amountOut: 1_000_000, // Exact tokens to receive
+   *     maximumAmountIn: 1_100_000_000, // Max 1.1 SOL
+   *     direction: 'buy',
+   *   });
+   * ```
+   */
+  async swapExactOut(params: RaydiumLaunchPadSwapExactOutParams): Promise<TransactionBuilder> {
+    const connection = this.getConnection();
+
+    const {
+      buyExactOutInstruction,
+      sellExactOut,
+      getPdaLaunchpadAuth,
+      getPdaPlatformVault,
+      getPdaCreatorVault,
+      getATAAddress,
+    } = await import('@raydium-io/raydium-sdk-v2');
+    const { createAssociatedTokenAccountIdempotentInstruction } = await import('@solana/spl-token');
+    const { LAUNCHPAD_PROGRAM } = await getRaydiumProgramIds(this.getClient().getCluster());
+
+    // Token program IDs
+    const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+    const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+    const NATIVE_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+
+    const user = typeof params.user === 'string' ? new PublicKey(params.user) : params.user;
+
+    const cache = this.getClient().getRaydiumCache();
+    const raydium = await cache.getRaydium(user);
+
+    const poolAddress = typeof params.pool === 'string' ? new PublicKey(params.pool) : params.pool;
+    const amountOut = BN.isBN(params.amountOut) ? params.amountOut : new BN(params.amountOut);
+    const slippageBps = this.getSlippageBps(params.slippageBps);
+
+    const shareFeeReceiver = params.shareFeeReceiver
+      ? typeof params.shareFeeReceiver === 'string'
+        ? new PublicKey(params.shareFeeReceiver)
+        : params.shareFeeReceiver
+      : undefined;
+
+    const isBuy = params.direction === 'buy';
+
+    // Get pool info
+    const poolInfo = await this.trace('fetch_pool', () =>
+      cache.getPoolInfo('launchpad', poolAddress, () =>
+        raydium.launchpad.getRpcPoolInfo({ poolId: poolAddress })
+      )
+    );
+
+    if (!poolInfo) {
+      throw new Error(`LaunchPad pool not found: ${poolAddress.toBase58()}`);
+    }
+
+    const maximumAmountIn =
+      params.maximumAmountIn === undefined
+        ? (
+            await this.trace('fetch_pool', () =>
+              RaydiumLaunchPadUtils.getQuoteExactOut(
+                connection,
+                poolAddress,
+                amountOut,
+                params.direction,
+                slippageBps,
+                this.getClient().getCommitment(),
+                cache
+              )
+            )
+          ).maximumAmountIn
+        : BN.isBN(params.maximumAmountIn)
+          ? params.maximumAmountIn
+          : new BN(params.maximumAmountIn);
+
+    // Get mint info for token program
+    const mintInfo = await this.trace('fetch_pool', () =>
+      connection.getAccountInfo(poolInfo.mintA)
+    );
+    const mintAProgram = mintInfo?.owner.equals(TOKEN_2022_PROGRAM_ID)
+      ? TOKEN_2022_PROGRAM_ID
+      : TOKEN_PROGRAM_ID;
+
+    // The SDK's buyTokenExactOut/sellTokenExactOut ignore the maximum input, so the
+    // transaction is assembled from the program instructions directly
+    const transaction = await this.trace('build', async () => {
+      const transaction = new Transaction();
+
+      const userTokenAccountA = raydium.account.getAssociatedTokenAccount(
+        poolInfo.mintA,
+        mintAProgram
+      );
+      if (isBuy) {
+        transaction.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            user,
+            userTokenAccountA,
+            user,
+            poolInfo.mintA,
+            mintAProgram
+          )
+        );
+      }
+
+      // Quote token account (temporary WSOL account when the quote mint is SOL)
+      const isSol = poolInfo.mintB.equals(NATIVE_MINT);
+      const { account: userTokenAccountB, instructionParams } =
+        await raydium.account.getOrCreateTokenAccount({
+          mint: poolInfo.mintB,
+          owner: user,
+          createInfo: isSol
+            ? { payer: user, amount: isBuy ? maximumAmountIn : new BN(0) }
+            : undefined,
+          skipCloseAccount: !isSol,
+          notUseTokenAccount: isSol,
+          associatedOnly: !isSol,
+          checkCreateATAOwner: false,
+        });
+
+      if (!userTokenAccountB) {
+        throw new Error(`Token account not found for mint: ${poolInfo.mintB.toBase58()}`);
+      }
+      transaction.add(...(instructionParams?.instructions ?? []));
+
+      const shareFeeAccount = shareFeeReceiver
+        ? getATAAddress(shareFeeReceiver, poolInfo.mintB, TOKEN_PROGRAM_ID).publicKey
+        : undefined;
+      if (shareFeeReceiver && shareFeeAccount) {
+        transaction.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            user,
+            shareFeeAccount,
+            shareFeeReceiver,
+            poolInfo.mintB
+          )
+        );
+      }
+
+      const createSwapInstruction = isBuy ? buyExactOutInstruction : sellExactOut;
+      transaction.add(
+        createSwapInstruction(
+          LAUNCHPAD_PROGRAM,
+          user,
+          getPdaLaunchpadAuth(LAUNCHPAD_PROGRAM).publicKey,
+          poolInfo.configId,
+          poolInfo.platformId,
+          poolAddress,
+          userTokenAccountA,
+          userTokenAccountB,
+          poolInfo.vaultA,
+          poolInfo.vaultB,
+          poolInfo.mintA,
+          poolInfo.mintB,
+          mintAProgram,
+          TOKEN_PROGRAM_ID,
+          getPdaPlatformVault(LAUNCHPAD_PROGRAM, poolInfo.platformId, poolInfo.mintB).publicKey,
+          getPdaCreatorVault(LAUNCHPAD_PROGRAM, poolInfo.creator, poolInfo.mintB).publicKey,
+          amountOut,
+          maximumAmountIn,
+          new BN(0),
+          shareFeeAccount
+        )
+      );
+
+      // Close the temporary WSOL account
+      transaction.add(...(instructionParams?.endInstructions ?? []));
+
+      return transaction;
+    });
+
+    return this.builder.rawTransaction({
+      transaction,
+      additionalSigners: [],
+    });
+  }
+
   /**
    * Buy tokens with SOL on LaunchPad
    *
@@ -181,6 +418,7 @@ export class RaydiumLaunchPadNamespace {
       user: params.user,
       amountIn: params.solAmountIn,
       minimumAmountOut: params.minTokensOut,
+      slippageBps: params.slippageBps,
       direction: 'buy',
       shareFeeReceiver: params.shareFeeReceiver,
     });
@@ -217,6 +455,69 @@ export class RaydiumLaunchPadNamespace {
       user: params.user,
       amountIn: params.tokenAmountIn,
       minimumAmountOut: params.minSolOut,
+      slippageBps: params.slippageBps,
+      direction: 'sell',
+      shareFeeReceiver: params.shareFeeReceiver,
+    });
+  }
+
+  /**
+   * Buy an exact amount of tokens with SOL on LaunchPad
+   *
+   * Convenience method for ExactOut buys.
+   *
+   * @param params - Buy parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.launchpad.buyExactOut({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     amountOut: 1_000_000, // Exact tokens to receive
+   *     maximumAmountIn: 1_100_000_000, // Max 1.1 SOL
+   *   });
+   * ```
+   */
+  async buyExactOut(params: RaydiumLaunchPadBuyExactOutParams): Promise<TransactionBuilder> {
+    return this.swapExactOut({
+      pool: params.pool,
+      user: params.user,
+      amountOut: params.amountOut,
+      maximumAmountIn: params.maximumAmountIn,
+      slippageBps: params.slippageBps,
+      direction: 'buy',
+      shareFeeReceiver: params.shareFeeReceiver,
+    });
+  }
+
+  /**
+   * Sell tokens for an exact amount of SOL on LaunchPad
+   *
+   * Convenience method for ExactOut sells.
+   *
+   * @param params - Sell parameters
+   * @returns TransactionBuilder for method chaining
+   *
+   * @example
+   * ```typescript
+   * const builder = await new TransactionBuilder(client)
+   *   .raydium.launchpad.sellExactOut({
+   *     pool: poolAddress,
+   *     user: userWallet,
+   *     amountOut: 1_000_000_000, // Exact SOL to receive
+   *     slippageBps: 200, // Max 2% above the quoted token amount
+   *   });
+   * ```
+   */
+  async sellExactOut(params: RaydiumLaunchPadSellExactOutParams): Promise<TransactionBuilder> {
+    return this.swapExactOut({
+      pool: params.pool,
+      user: params.user,
+      amountOut: params.amountOut,
+      maximumAmountIn: params.maximumAmountIn,
+      slippageBps: params.slippageBps,
       direction: 'sell',
       shareFeeReceiver: params.shareFeeReceiver,
     });
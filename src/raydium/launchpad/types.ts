@@ -18,6 +18,11 @@ import type BN from 'bn.js';
  */
 export const RAYDIUM_LAUNCHPAD_PROGRAM_ID = 'LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj';
 
+/**
+ * Raydium LaunchPad Program ID (Devnet)
+ */
+export const RAYDIUM_LAUNCHPAD_DEVNET_PROGRAM_ID = 'DRay6fNdQ5J82H7xV6uq2aV3mNrUZ1J4PgSKsWgptcm6';
+
 /**
  * Wrapped SOL Mint Address
  */
@@ -59,8 +64,16 @@ export interface RaydiumLaunchPadSwapParams {
 
   /**
    * Minimum output amount with slippage protection
+   * Takes precedence over `slippageBps` when set.
+   */
+  minimumAmountOut?: number | BN;
+
+  /**
+   * Slippage tolerance in basis points, applied to the SDK's quoted output
+   * when `minimumAmountOut` is not set
+   * @default 100 (1%)
    */
-  minimumAmountOut: number | BN;
+  slippageBps?: number;
 
   /**
    * Swap direction
@@ -94,8 +107,15 @@ export interface RaydiumLaunchPadBuyParams {
 
   /**
    * Minimum tokens to receive (with slippage protection)
+   * Takes precedence over `slippageBps` when set.
+   */
+  minTokensOut?: number | BN;
+
+  /**
+   * Slippage tolerance in basis points (used when `minTokensOut` is not set)
+   * @default 100 (1%)
    */
-  minTokensOut: number | BN;
+  slippageBps?: number;
 
   /**
    * Optional share fee receiver address
@@ -124,8 +144,132 @@ export interface RaydiumLaunchPadSellParams {
 
   /**
    * Minimum SOL to receive (in lamports, with slippage protection)
+   * Takes precedence over `slippageBps` when set.
+   */
+  minSolOut?: number | BN;
+
+  /**
+   * Slippage tolerance in basis points (used when `minSolOut` is not set)
+   * @default 100 (1%)
+   */
+  slippageBps?: number;
+
+  /**
+   * Optional share fee receiver address
+   */
+  shareFeeReceiver?: string | PublicKey | null;
+}
+
+/**
+ * Parameters for generic LaunchPad swap operation (ExactOut)
+ */
+export interface RaydiumLaunchPadSwapExactOutParams {
+  /**
+   * LaunchPad pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Desired output amount (token amount for buy, lamports for sell)
+   */
+  amountOut: number | BN;
+
+  /**
+   * Maximum input amount with slippage protection
+   * Takes precedence over `slippageBps` when set.
+   */
+  maximumAmountIn?: number | BN;
+
+  /**
+   * Slippage tolerance in basis points, applied to the quoted input
+   * when `maximumAmountIn` is not set
+   * @default 100 (1%)
+   */
+  slippageBps?: number;
+
+  /**
+   * Swap direction
+   */
+  direction: RaydiumLaunchPadSwapDirection;
+
+  /**
+   * Optional share fee receiver address
+   */
+  shareFeeReceiver?: string | PublicKey | null;
+}
+
+/**
+ * Parameters for LaunchPad buy exact out operation
+ */
+export interface RaydiumLaunchPadBuyExactOutParams {
+  /**
+   * LaunchPad pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (will sign the transaction)
    */
-  minSolOut: number | BN;
+  user: string | PublicKey;
+
+  /**
+   * Exact token amount to receive
+   */
+  amountOut: number | BN;
+
+  /**
+   * Maximum SOL to spend (in lamports, with slippage protection)
+   * Takes precedence over `slippageBps` when set.
+   */
+  maximumAmountIn?: number | BN;
+
+  /**
+   * Slippage tolerance in basis points (used when `maximumAmountIn` is not set)
+   * @default 100 (1%)
+   */
+  slippageBps?: number;
+
+  /**
+   * Optional share fee receiver address
+   */
+  shareFeeReceiver?: string | PublicKey | null;
+}
+
+/**
+ * Parameters for LaunchPad sell exact out operation
+ */
+export interface RaydiumLaunchPadSellExactOutParams {
+  /**
+   * LaunchPad pool address
+   */
+  pool: string | PublicKey;
+
+  /**
+   * User wallet address (will sign the transaction)
+   */
+  user: string | PublicKey;
+
+  /**
+   * Exact SOL amount to receive (in lamports)
+   */
+  amountOut: number | BN;
+
+  /**
+   * Maximum tokens to spend (with slippage protection)
+   * Takes precedence over `slippageBps` when set.
+   */
+  maximumAmountIn?: number | BN;
+
+  /**
+   * Slippage tolerance in basis points (used when `maximumAmountIn` is not set)
+   * @default 100 (1%)
+   */
+  slippageBps?: number;
 
   /**
    * Optional share fee receiver address
@@ -241,3 +385,33 @@ export interface RaydiumLaunchPadSwapQuote {
    */
   priceImpact: number;
 }
+
+/**
+ * LaunchPad swap quote result (ExactOut)
+ */
+export interface RaydiumLaunchPadSwapQuoteExactOut {
+  /**
+   * Required input amount (before slippage)
+   */
+  amountIn: BN;
+
+  /**
+   * Output amount
+   */
+  amountOut: BN;
+
+  /**
+   * Maximum input amount (after slippage)
+   */
+  maximumAmountIn: BN;
+
+  /**
+   * Trading fee amount
+   */
+  fee: BN;
+
+  /**
+   * Price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+}
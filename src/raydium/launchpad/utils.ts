@@ -10,9 +10,12 @@
 import type { Connection, Commitment } from '@solana/web3.js';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
+import { resolveRaydiumCache } from '../cache';
+import type { RaydiumCache } from '../cache';
 import type {
   RaydiumLaunchPadPoolState,
   RaydiumLaunchPadSwapQuote,
+  RaydiumLaunchPadSwapQuoteExactOut,
   RaydiumLaunchPadSwapDirection,
 } from './types';
 
@@ -48,6 +51,7 @@ export class RaydiumLaunchPadUtils {
    * @param connection - Solana RPC connection
    * @param poolAddress - Pool address
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Pool state information
    * @throws Error if pool not found
    *
@@ -64,20 +68,18 @@ export class RaydiumLaunchPadUtils {
   static async getPool(
     connection: Connection,
     poolAddress: string | PublicKey,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumLaunchPadPoolState> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
 
-    const poolInfo = await raydium.launchpad.getRpcPoolInfo({ poolId: address });
+    const poolInfo = await raydiumCache.getPoolInfo('launchpad', address, () =>
+      raydium.launchpad.getRpcPoolInfo({ poolId: address })
+    );
 
     if (!poolInfo) {
       throw new Error(`LaunchPad pool not found: ${address.toBase58()}`);
@@ -112,6 +114,7 @@ export class RaydiumLaunchPadUtils {
    * @param direction - Swap direction ('buy' or 'sell')
    * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
    * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
    * @returns Swap quote with amounts and fees
    * @throws Error if pool not found
    *
@@ -142,21 +145,19 @@ export class RaydiumLaunchPadUtils {
     amountIn: number | BN,
     direction: RaydiumLaunchPadSwapDirection,
     slippageBps: number = 100,
-    _commitment: Commitment = 'confirmed'
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
   ): Promise<RaydiumLaunchPadSwapQuote> {
-    const { Raydium } = await import('@raydium-io/raydium-sdk-v2');
-
-    const raydium = await Raydium.load({
-      connection,
-      cluster: 'mainnet',
-      disableFeatureCheck: true,
-    });
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
 
     const address =
       typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
     const amount = BN.isBN(amountIn) ? amountIn : new BN(amountIn);
 
-    const poolInfo = await raydium.launchpad.getRpcPoolInfo({ poolId: address });
+    const poolInfo = await raydiumCache.getPoolInfo('launchpad', address, () =>
+      raydium.launchpad.getRpcPoolInfo({ poolId: address })
+    );
 
     if (!poolInfo) {
       throw new Error(`LaunchPad pool not found: ${address.toBase58()}`);
@@ -174,9 +175,9 @@ export class RaydiumLaunchPadUtils {
     const totalA = virtualA.add(realA);
     const totalB = virtualB.add(realB);
 
-    // Get trade fee rate from config (typically 1% = 10000 in basis points * 100)
-    const tradeFeeRate = poolInfo.configInfo?.tradeFeeRate || new BN(100); // 1% default
-    const feeMultiplier = new BN(1000000).sub(tradeFeeRate);
+    // Trade fee from config plus platform and creator fees (1_000_000 = 100%)
+    const feeRate = await getTotalFeeRate(connection, poolInfo);
+    const feeMultiplier = new BN(1000000).sub(feeRate);
 
     let amountOut: BN;
     let fee: BN;
@@ -195,7 +196,7 @@ export class RaydiumLaunchPadUtils {
       const newTotalA = totalA.add(amount);
       const newTotalB = totalA.mul(totalB).div(newTotalA);
       const amountOutBeforeFee = totalB.sub(newTotalB);
-      fee = amountOutBeforeFee.mul(tradeFeeRate).div(new BN(1000000));
+      fee = amountOutBeforeFee.mul(feeRate).div(new BN(1000000));
       amountOut = amountOutBeforeFee.sub(fee);
     }
 
@@ -214,4 +215,130 @@ export class RaydiumLaunchPadUtils {
       priceImpact,
     };
   }
+
+  /**
+   * Get LaunchPad swap quote (ExactOut)
+   *
+   * Calculate required input amount for a desired output.
+   *
+   * @param connection - Solana RPC connection
+   * @param poolAddress - Pool address
+   * @param amountOut - Desired output amount (token amount for buy, lamports for sell)
+   * @param direction - Swap direction ('buy' or 'sell')
+   * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+   * @param commitment - Commitment level (default: 'confirmed')
+   * @param cache - Raydium cache to use, e.g. `client.getRaydiumCache()` (default: no caching)
+   * @returns Swap quote with amounts and fees
+   * @throws Error if pool not found or the pool cannot provide amountOut
+   *
+   * @example
+   * ```typescript
+   * // SOL needed to buy exactly 1M tokens
+   * const quote = await RaydiumLaunchPadUtils.getQuoteExactOut(
+   *   connection,
+   *   poolAddress,
+   *   1_000_000, // 1M tokens
+   *   'buy',
+   *   100 // 1% slippage
+   * );
+   * console.log('Required SOL:', quote.amountIn.toString());
+   * console.log('Max SOL:', quote.maximumAmountIn.toString());
+   * ```
+   */
+  static async getQuoteExactOut(
+    connection: Connection,
+    poolAddress: string | PublicKey,
+    amountOut: number | BN,
+    direction: RaydiumLaunchPadSwapDirection,
+    slippageBps: number = 100,
+    _commitment: Commitment = 'confirmed',
+    cache?: RaydiumCache
+  ): Promise<RaydiumLaunchPadSwapQuoteExactOut> {
+    const raydiumCache = resolveRaydiumCache(connection, cache);
+    const raydium = await raydiumCache.getRaydium();
+
+    const address = typeof poolAddress === 'string' ? new PublicKey(poolAddress) : poolAddress;
+    const amount = BN.isBN(amountOut) ? amountOut : new BN(amountOut);
+
+    const poolInfo = await raydiumCache.getPoolInfo('launchpad', address, () =>
+      raydium.launchpad.getRpcPoolInfo({ poolId: address })
+    );
+
+    if (!poolInfo) {
+      throw new Error(`LaunchPad pool not found: ${address.toBase58()}`);
+    }
+
+    const isBuy = direction === 'buy';
+
+    // Same constant product curve as getQuote(), solved for the input amount
+    const totalA = poolInfo.virtualA.add(poolInfo.realA);
+    const totalB = poolInfo.virtualB.add(poolInfo.realB);
+
+    const feeMultiplier = new BN(1000000).sub(await getTotalFeeRate(connection, poolInfo));
+
+    let amountIn: BN;
+    let fee: BN;
+
+    if (isBuy) {
+      // Buy: SOL -> Token
+      // amountInAfterFee = (totalA * totalB) / (totalA - amountOut) - totalB
+      if (amount.gte(totalA)) {
+        throw new Error(`Insufficient LaunchPad liquidity for ${amount.toString()} tokens`);
+      }
+      const amountInAfterFee = ceilDiv(totalA.mul(totalB), totalA.sub(amount)).sub(totalB);
+      amountIn = ceilDiv(amountInAfterFee.mul(new BN(1000000)), feeMultiplier);
+      fee = amountIn.sub(amountInAfterFee);
+    } else {
+      // Sell: Token -> SOL
+      // amountIn = (totalA * totalB) / (totalB - amountOutBeforeFee) - totalA
+      const amountOutBeforeFee = ceilDiv(amount.mul(new BN(1000000)), feeMultiplier);
+      if (amountOutBeforeFee.gte(totalB)) {
+        throw new Error(`Insufficient LaunchPad liquidity for ${amount.toString()} lamports`);
+      }
+      fee = amountOutBeforeFee.sub(amount);
+      amountIn = ceilDiv(totalA.mul(totalB), totalB.sub(amountOutBeforeFee)).sub(totalA);
+    }
+
+    // Apply slippage
+    const slippageMultiplier = new BN(10000 + slippageBps);
+    const maximumAmountIn = amountIn.mul(slippageMultiplier).div(new BN(10000));
+
+    return {
+      amountIn,
+      amountOut: amount,
+      maximumAmountIn,
+      fee,
+      priceImpact: 0, // LaunchPad has different price impact calculation
+    };
+  }
+}
+
+/**
+ * Total fee rate of a LaunchPad swap (1_000_000 = 100%)
+ *
+ * Sums the config's trade fee and the platform config's platform and creator fees,
+ * as the LaunchPad program charges all three on the quote side of each swap.
+ */
+async function getTotalFeeRate(
+  connection: Connection,
+  poolInfo: { platformId: PublicKey; configInfo?: { tradeFeeRate: BN } }
+): Promise<BN> {
+  const { PlatformConfig } = await import('@raydium-io/raydium-sdk-v2');
+
+  const tradeFeeRate = poolInfo.configInfo?.tradeFeeRate || new BN(100); // 1% default
+
+  const account = await connection.getAccountInfo(poolInfo.platformId);
+  if (!account) {
+    throw new Error(`LaunchPad platform config not found: ${poolInfo.platformId.toBase58()}`);
+  }
+  const platform = PlatformConfig.decode(account.data);
+
+  return tradeFeeRate.add(platform.feeRate).add(platform.creatorFeeRate);
+}
+
+/**
+ * Integer division rounded up
+ */
+function ceilDiv(numerator: BN, denominator: BN): BN {
+  return numerator.add(denominator).subn(1).div(denominator);
 }
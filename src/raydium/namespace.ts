@@ -15,6 +15,7 @@ import { RaydiumLaunchPadNamespace } from './launchpad';
 import { RaydiumCLMMNamespace } from './clmm';
 import { RaydiumCPMMNamespace } from './cpmm';
 import { RaydiumAMMv4Namespace } from './ammv4';
+import { traceNamespace } from '../utils/tracing';
 
 /**
  * Raydium Namespace for TransactionBuilder
@@ -87,7 +88,11 @@ export class RaydiumNamespace {
    */
   get launchpad(): RaydiumLaunchPadNamespace {
     if (!this._launchpad) {
-      this._launchpad = new RaydiumLaunchPadNamespace(this.builder);
+      this._launchpad = traceNamespace(
+        new RaydiumLaunchPadNamespace(this.builder),
+        'raydium.launchpad',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._launchpad;
   }
@@ -112,7 +117,11 @@ export class RaydiumNamespace {
    */
   get clmm(): RaydiumCLMMNamespace {
     if (!this._clmm) {
-      this._clmm = new RaydiumCLMMNamespace(this.builder);
+      this._clmm = traceNamespace(
+        new RaydiumCLMMNamespace(this.builder),
+        'raydium.clmm',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._clmm;
   }
@@ -137,7 +146,11 @@ export class RaydiumNamespace {
    */
   get cpmm(): RaydiumCPMMNamespace {
     if (!this._cpmm) {
-      this._cpmm = new RaydiumCPMMNamespace(this.builder);
+      this._cpmm = traceNamespace(
+        new RaydiumCPMMNamespace(this.builder),
+        'raydium.cpmm',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._cpmm;
   }
@@ -162,7 +175,11 @@ export class RaydiumNamespace {
    */
   get ammv4(): RaydiumAMMv4Namespace {
     if (!this._ammv4) {
-      this._ammv4 = new RaydiumAMMv4Namespace(this.builder);
+      this._ammv4 = traceNamespace(
+        new RaydiumAMMv4Namespace(this.builder),
+        'raydium.ammv4',
+        this.builder.getClient().getTracer()
+      );
     }
     return this._ammv4;
   }
@@ -0,0 +1,32 @@
+/**
+ * Raydium Program IDs
+ *
+ * Resolves Raydium program IDs for the cluster a connection points at.
+ *
+ * @module raydium/programs
+ */
+
+import type { SolanaCluster } from '../types/config';
+
+/**
+ * Raydium program IDs of a cluster (`ALL_PROGRAM_ID` or `DEVNET_PROGRAM_ID` from the SDK)
+ */
+export type RaydiumProgramIds = (typeof import('@raydium-io/raydium-sdk-v2'))['ALL_PROGRAM_ID'];
+
+/**
+ * Get the Raydium program IDs of a cluster
+ *
+ * @param cluster - Solana cluster
+ * @returns LaunchPad, CLMM, CPMM and AMMv4 program IDs (among others)
+ *
+ * @example
+ * ```typescript
+ * const programs = await getRaydiumProgramIds(client.getCluster());
+ * console.log('CLMM program:', programs.CLMM_PROGRAM_ID.toBase58());
+ * ```
+ */
+export async function getRaydiumProgramIds(cluster: SolanaCluster): Promise<RaydiumProgramIds> {
+  const { ALL_PROGRAM_ID, DEVNET_PROGRAM_ID } = await import('@raydium-io/raydium-sdk-v2');
+
+  return cluster === 'devnet' ? DEVNET_PROGRAM_ID : ALL_PROGRAM_ID;
+}
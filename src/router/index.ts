@@ -0,0 +1,28 @@
+/**
+ * Router Module
+ *
+ * Cross-DEX route discovery, quoting and execution across the
+ * Meteora and Raydium integrations.
+ *
+ * @module router
+ */
+
+// Router class
+export { Router } from './router';
+
+// Selection helpers
+export { allocateSplits } from './selection';
+
+// Constants
+export { DEFAULT_ROUTE_SLIPPAGE_BPS, DEFAULT_ROUTE_SPLIT_PARTS } from './types';
+
+// Types
+export type {
+  RouteDex,
+  RoutePool,
+  RoutePoolInput,
+  RouterQuoteParams,
+  RouterSwapParams,
+  RouteLeg,
+  RouteQuote,
+} from './types';
@@ -0,0 +1,782 @@
+/**
+ * Cross-DEX Router
+ *
+ * Discovers candidate pools across the Meteora and Raydium integrations,
+ * quotes them in parallel and enqueues the best (or split) route on a
+ * TransactionBuilder.
+ *
+ * @module router/router
+ */
+
+import type { Connection } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import type { TransactionBuilder } from '../builder';
+import type { LysFlash } from '../client';
+import { DBCUtils } from '../meteora/dbc/utils';
+import { DAMMv1Utils } from '../meteora/damm-v1/utils';
+import { DAMMv2Utils } from '../meteora/damm-v2/utils';
+import { DLMMUtils } from '../meteora/dlmm/utils';
+import { RaydiumLaunchPadUtils } from '../raydium/launchpad/utils';
+import { RaydiumCLMMUtils } from '../raydium/clmm/utils';
+import { RaydiumCPMMUtils } from '../raydium/cpmm/utils';
+import { RaydiumAMMv4Utils } from '../raydium/ammv4/utils';
+import { getRaydiumProgramIds } from '../raydium/programs';
+import { toMeteoraCluster } from '../utils/cluster';
+import type {
+  RouteDex,
+  RouteLeg,
+  RoutePool,
+  RouteQuote,
+  RouterQuoteParams,
+  RouterSwapParams,
+} from './types';
+import { DEFAULT_ROUTE_SLIPPAGE_BPS, DEFAULT_ROUTE_SPLIT_PARTS } from './types';
+import { allocateSplits, chunkAmount } from './selection';
+
+const BPS_DENOMINATOR = 10_000;
+
+/**
+ * DAMM v2 pool account offsets of tokenAMint / tokenBMint
+ */
+const DAMM_V2_TOKEN_A_MINT_OFFSET = 168;
+const DAMM_V2_TOKEN_B_MINT_OFFSET = 200;
+
+/**
+ * DLMM LbPair account offsets of tokenXMint / tokenYMint
+ */
+const DLMM_TOKEN_X_MINT_OFFSET = 88;
+const DLMM_TOKEN_Y_MINT_OFFSET = 120;
+
+const ALL_DEXES: RouteDex[] = [
+  'meteora-dbc',
+  'meteora-damm-v1',
+  'meteora-damm-v2',
+  'meteora-dlmm',
+  'raydium-launchpad',
+  'raydium-clmm',
+  'raydium-cpmm',
+  'raydium-ammv4',
+];
+
+/**
+ * Cross-DEX swap router
+ *
+ * Finds candidate pools for a mint pair, quotes every candidate in parallel
+ * through the existing DEX Utils classes and picks the route with the highest
+ * output. With `maxSplits > 1`, the input is divided into equal chunks and
+ * distributed across up to `maxSplits` pools.
+ *
+ * Pool discovery covers Meteora DBC, DAMM v2 and DLMM, and Raydium LaunchPad,
+ * CLMM, CPMM and AMMv4. DAMM v1 pools are only considered when passed
+ * explicitly through `pools`.
+ *
+ * @example
+ * ```typescript
+ * import { Connection } from '@solana/web3.js';
+ * import { LysFlash, Router, TransactionBuilder, SOL_MINT } from '@lyslabs.ai/lys-flash';
+ *
+ * const connection = new Connection('https://api.mainnet-beta.solana.com');
+ * const client = new LysFlash({
+ *   address: 'ipc:///tmp/tx-executor.ipc',
+ *   connection,
+ * });
+ *
+ * const router = new Router(client);
+ * const builder = new TransactionBuilder(client);
+ *
+ * // Route 1 SOL into the best pool and enqueue the swap
+ * const quote = await router.swap(builder, {
+ *   inputMint: SOL_MINT,
+ *   outputMint: tokenMint,
+ *   amountIn: 1_000_000_000,
+ *   slippageBps: 100,
+ *   user: userWallet,
+ * });
+ *
+ * console.log('Route:', quote.legs.map((leg) => leg.dex));
+ * console.log('Expected output:', quote.amountOut.toString());
+ *
+ * const result = await builder
+ *   .setFeePayer(userWallet)
+ *   .setTransport('FLASH')
+ *   .setBribe(1_000_000)
+ *   .send();
+ * ```
+ */
+export class Router {
+  private client: LysFlash;
+
+  /**
+   * Create Router instance
+   * @param client - LysFlash client instance (must have a connection configured)
+   */
+  constructor(client: LysFlash) {
+    this.client = client;
+  }
+
+  /**
+   * Get connection from client (pre-configured)
+   * @private
+   */
+  private getConnection(): Connection {
+    return this.client.requireConnection();
+  }
+
+  // ============================================================================
+  // Public API
+  // ============================================================================
+
+  /**
+   * Find the best route without enqueueing anything
+   *
+   * @param params - Quote parameters
+   * @returns Normalized route quote
+   * @throws Error if no candidate pool can be quoted
+   *
+   * @example
+   * ```typescript
+   * const quote = await router.quote({
+   *   inputMint: SOL_MINT,
+   *   outputMint: tokenMint,
+   *   amountIn: 1_000_000_000,
+   *   maxSplits: 2,
+   * });
+   *
+   * for (const leg of quote.legs) {
+   *   console.log(leg.dex, leg.pool.toBase58(), leg.amountIn.toString());
+   * }
+   * console.log('Price impact:', quote.priceImpact, '%');
+   * ```
+   */
+  async quote(params: RouterQuoteParams): Promise<RouteQuote> {
+    const inputMint = toPublicKey(params.inputMint);
+    const outputMint = toPublicKey(params.outputMint);
+    const amountIn = toBN(params.amountIn);
+    const slippageBps = params.slippageBps ?? DEFAULT_ROUTE_SLIPPAGE_BPS;
+    const maxSplits = Math.max(1, Math.floor(params.maxSplits ?? 1));
+    const parts =
+      maxSplits > 1 ? Math.max(2, Math.floor(params.splitParts ?? DEFAULT_ROUTE_SPLIT_PARTS)) : 1;
+
+    if (amountIn.lten(0)) {
+      throw new Error('Route amountIn must be greater than zero');
+    }
+    if (slippageBps < 0 || slippageBps > BPS_DENOMINATOR) {
+      throw new Error(`Invalid slippageBps: ${slippageBps}`);
+    }
+
+    const dexes = params.dexes ?? ALL_DEXES;
+    const pools = params.pools
+      ? params.pools
+          .filter((pool) => dexes.includes(pool.dex))
+          .map((pool) => ({ ...pool, address: toPublicKey(pool.address) }))
+      : await this.findPools(inputMint, outputMint, dexes);
+
+    // Bonding-curve pools need a direction; drop those that don't trade the pair
+    const resolved = await Promise.allSettled(
+      pools.map((pool) => this.resolvePool(pool, inputMint, outputMint))
+    );
+    const candidatePools = resolved
+      .filter(
+        (result): result is PromiseFulfilledResult<RoutePool> => result.status === 'fulfilled'
+      )
+      .map((result) => result.value);
+
+    if (candidatePools.length === 0) {
+      throw new Error(`No pools found for ${inputMint.toBase58()} -> ${outputMint.toBase58()}`);
+    }
+
+    // Quote every pool at every chunk count (k / parts of the input) in parallel
+    const settled = await Promise.all(
+      candidatePools.map((pool) =>
+        Promise.allSettled(
+          Array.from({ length: parts }, (_, index) =>
+            this.quotePool(pool, inputMint, chunkAmount(amountIn, index + 1, parts), slippageBps)
+          )
+        )
+      )
+    );
+    const quotes = settled.map((results) =>
+      results.map((result) => (result.status === 'fulfilled' ? result.value : null))
+    );
+
+    const allocation = allocateSplits(
+      quotes.map((poolQuotes) => poolQuotes.map((leg) => (leg ? leg.amountOut : null))),
+      parts,
+      maxSplits
+    );
+
+    if (!allocation) {
+      throw new Error(`No route found for ${inputMint.toBase58()} -> ${outputMint.toBase58()}`);
+    }
+
+    const legs: RouteLeg[] = [];
+    allocation.forEach((chunks, index) => {
+      const leg = chunks > 0 ? quotes[index]?.[chunks - 1] : null;
+      if (leg) {
+        legs.push(leg);
+      }
+    });
+
+    // Chunk amounts are rounded down; the last leg takes the remainder so the
+    // legs add up to the full input (its output can only improve)
+    const routed = sumBN(legs.map((leg) => leg.amountIn));
+    const lastLeg = legs.pop();
+    if (lastLeg) {
+      legs.push({ ...lastLeg, amountIn: lastLeg.amountIn.add(amountIn.sub(routed)) });
+    }
+
+    const candidates = quotes
+      .map((poolQuotes) => poolQuotes[parts - 1] ?? null)
+      .filter((leg): leg is RouteLeg => leg !== null)
+      .sort((a, b) => b.amountOut.cmp(a.amountOut));
+
+    return {
+      inputMint,
+      outputMint,
+      amountIn,
+      amountOut: sumBN(legs.map((leg) => leg.amountOut)),
+      minimumAmountOut: sumBN(legs.map((leg) => leg.minimumAmountOut)),
+      fee: sumBN(legs.map((leg) => leg.fee)),
+      priceImpact: weightedPriceImpact(legs, amountIn),
+      legs,
+      candidates,
+    };
+  }
+
+  /**
+   * Find the best route and enqueue its swaps on a TransactionBuilder
+   *
+   * One swap operation is added per route leg, each with its own
+   * `minimumAmountOut` derived from the leg quote and `slippageBps`.
+   *
+   * @param builder - TransactionBuilder to enqueue the swaps on
+   * @param params - Swap parameters
+   * @returns Normalized route quote for the enqueued route
+   * @throws Error if no candidate pool can be quoted
+   *
+   * @example
+   * ```typescript
+   * const builder = new TransactionBuilder(client);
+   *
+   * const quote = await router.swap(builder, {
+   *   inputMint: SOL_MINT,
+   *   outputMint: tokenMint,
+   *   amountIn: 5_000_000_000,
+   *   user: userWallet,
+   *   maxSplits: 3,
+   * });
+   *
+   * const result = await builder.setFeePayer(userWallet).setTransport('FLASH').setBribe(1_000_000).send();
+   * ```
+   */
+  async swap(builder: TransactionBuilder, params: RouterSwapParams): Promise<RouteQuote> {
+    const route = await this.quote(params);
+
+    for (const leg of route.legs) {
+      await this.enqueueLeg(builder, leg, route.inputMint, route.outputMint, params.user);
+    }
+
+    return route;
+  }
+
+  /**
+   * Discover candidate pools for a mint pair
+   *
+   * Each DEX is searched independently; a DEX whose SDK is not installed or
+   * whose lookup fails is skipped.
+   *
+   * @param inputMint - Input token mint
+   * @param outputMint - Output token mint
+   * @param dexes - DEXes to search (default: all)
+   * @returns Candidate pools
+   *
+   * @example
+   * ```typescript
+   * const pools = await router.findPools(SOL_MINT, tokenMint);
+   * pools.forEach((pool) => console.log(pool.dex, pool.address.toBase58()));
+   * ```
+   */
+  async findPools(
+    inputMint: string | PublicKey,
+    outputMint: string | PublicKey,
+    dexes: RouteDex[] = ALL_DEXES
+  ): Promise<RoutePool[]> {
+    const connection = this.getConnection();
+    const mintIn = toPublicKey(inputMint);
+    const mintOut = toPublicKey(outputMint);
+
+    const lookups: Promise<RoutePool[]>[] = [];
+    if (dexes.includes('meteora-dbc')) {
+      lookups.push(this.findDBCPools(connection, mintIn, mintOut));
+    }
+    if (dexes.includes('meteora-damm-v2')) {
+      lookups.push(this.findDAMMv2Pools(connection, mintIn, mintOut));
+    }
+    if (dexes.includes('meteora-dlmm')) {
+      lookups.push(this.findDLMMPools(connection, mintIn, mintOut));
+    }
+    if (dexes.includes('raydium-launchpad')) {
+      lookups.push(this.findLaunchPadPools(connection, mintIn, mintOut));
+    }
+    if (
+      dexes.includes('raydium-clmm') ||
+      dexes.includes('raydium-cpmm') ||
+      dexes.includes('raydium-ammv4')
+    ) {
+      lookups.push(this.findRaydiumPools(mintIn, mintOut, dexes));
+    }
+
+    const results = await Promise.allSettled(lookups);
+    const pools: RoutePool[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+      if (result.status !== 'fulfilled') {
+        continue;
+      }
+      for (const pool of result.value) {
+        const key = `${pool.dex}:${pool.address.toBase58()}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          pools.push(pool);
+        }
+      }
+    }
+
+    return pools;
+  }
+
+  // ============================================================================
+  // Quoting
+  // ============================================================================
+
+  /**
+   * Quote a single pool and normalize the result
+   * @private
+   */
+  private async quotePool(
+    pool: RoutePool,
+    inputMint: PublicKey,
+    amountIn: BN,
+    slippageBps: number
+  ): Promise<RouteLeg> {
+    const connection = this.getConnection();
+    let amountOut: BN;
+    let fee: BN;
+    let priceImpact: number;
+    const direction = pool.direction;
+
+    switch (pool.dex) {
+      case 'meteora-dbc': {
+        const quote = await DBCUtils.swapQuote(
+          connection,
+          pool.address,
+          amountIn,
+          direction ?? 'buy',
+          slippageBps
+        );
+        ({ amountOut, fee, priceImpact } = quote);
+        break;
+      }
+      case 'meteora-damm-v1': {
+        // DAMM v1 takes slippage in percent and reports price impact as a fraction
+        const quote = await DAMMv1Utils.getSwapQuote(
+          connection,
+          pool.address,
+          inputMint,
+          amountIn,
+          slippageBps / 100,
+          this.client.getCluster()
+        );
+        amountOut = quote.swapOutAmount;
+        fee = quote.fee;
+        priceImpact = quote.priceImpact * 100;
+        break;
+      }
+      case 'meteora-damm-v2': {
+        const quote = await DAMMv2Utils.getQuote(
+          connection,
+          pool.address,
+          inputMint,
+          amountIn,
+          slippageBps
+        );
+        amountOut = quote.amountOut;
+        fee = quote.tradingFee;
+        priceImpact = quote.priceImpact;
+        break;
+      }
+      case 'meteora-dlmm': {
+        const quote = await DLMMUtils.getSwapQuote(
+          connection,
+          pool.address,
+          inputMint,
+          amountIn,
+          slippageBps,
+          this.client.getCluster()
+        );
+        if (quote.consumedInAmount.lt(amountIn)) {
+          throw new Error(`Insufficient DLMM liquidity: ${pool.address.toBase58()}`);
+        }
+        amountOut = quote.outAmount;
+        fee = quote.fee;
+        priceImpact = quote.priceImpact;
+        break;
+      }
+      case 'raydium-launchpad': {
+        const quote = await RaydiumLaunchPadUtils.getQuote(
+          connection,
+          pool.address,
+          amountIn,
+          direction ?? 'buy',
+          slippageBps,
+          this.client.getCommitment(),
+          this.client.getRaydiumCache()
+        );
+        ({ amountOut, fee, priceImpact } = quote);
+        break;
+      }
+      case 'raydium-clmm': {
+        const quote = await RaydiumCLMMUtils.getQuote(
+          connection,
+          pool.address,
+          inputMint,
+          amountIn,
+          slippageBps,
+          this.client.getCommitment(),
+          this.client.getRaydiumCache()
+        );
+        ({ amountOut, fee, priceImpact } = quote);
+        break;
+      }
+      case 'raydium-cpmm': {
+        const quote = await RaydiumCPMMUtils.getQuote(
+          connection,
+          pool.address,
+          inputMint,
+          amountIn,
+          slippageBps,
+          this.client.getCommitment(),
+          this.client.getRaydiumCache()
+        );
+        ({ amountOut, fee, priceImpact } = quote);
+        break;
+      }
+      case 'raydium-ammv4': {
+        const quote = await RaydiumAMMv4Utils.getQuote(
+          connection,
+          pool.address,
+          inputMint,
+          amountIn,
+          slippageBps,
+          this.client.getCommitment(),
+          this.client.getRaydiumCache()
+        );
+        ({ amountOut, fee, priceImpact } = quote);
+        break;
+      }
+    }
+
+    if (amountOut.lten(0)) {
+      throw new Error(`Pool returned no output: ${pool.address.toBase58()}`);
+    }
+
+    return {
+      dex: pool.dex,
+      pool: pool.address,
+      direction,
+      amountIn,
+      amountOut,
+      minimumAmountOut: amountOut.muln(BPS_DENOMINATOR - slippageBps).divn(BPS_DENOMINATOR),
+      fee,
+      priceImpact,
+    };
+  }
+
+  /**
+   * Fill in the swap direction of bonding-curve pools (buy = quote -> base)
+   * @private
+   */
+  private async resolvePool(
+    pool: RoutePool,
+    inputMint: PublicKey,
+    outputMint: PublicKey
+  ): Promise<RoutePool> {
+    if (pool.direction) {
+      return pool;
+    }
+
+    const connection = this.getConnection();
+    let state: { baseMint: PublicKey; quoteMint: PublicKey };
+
+    switch (pool.dex) {
+      case 'meteora-dbc':
+        state = await DBCUtils.getPool(connection, pool.address);
+        break;
+      case 'raydium-launchpad':
+        state = await RaydiumLaunchPadUtils.getPool(connection, pool.address);
+        break;
+      default:
+        return pool;
+    }
+
+    if (state.quoteMint.equals(inputMint) && state.baseMint.equals(outputMint)) {
+      return { ...pool, direction: 'buy' };
+    }
+    if (state.baseMint.equals(inputMint) && state.quoteMint.equals(outputMint)) {
+      return { ...pool, direction: 'sell' };
+    }
+    throw new Error(`Pool ${pool.address.toBase58()} does not trade the requested mint pair`);
+  }
+
+  // ============================================================================
+  // Execution
+  // ============================================================================
+
+  /**
+   * Enqueue a route leg through the matching DEX namespace
+   * @private
+   */
+  private async enqueueLeg(
+    builder: TransactionBuilder,
+    leg: RouteLeg,
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    user: string | PublicKey
+  ): Promise<void> {
+    const swap = {
+      pool: leg.pool,
+      user,
+      inputMint,
+      outputMint,
+      amountIn: leg.amountIn,
+      minimumAmountOut: leg.minimumAmountOut,
+    };
+
+    switch (leg.dex) {
+      case 'meteora-dbc':
+        await builder.meteora.dbc.swap({ ...swap, direction: leg.direction ?? 'buy' });
+        break;
+      case 'meteora-damm-v1':
+        await builder.meteora.dammV1.swap(swap);
+        break;
+      case 'meteora-damm-v2':
+        await builder.meteora.dammV2.swap(swap);
+        break;
+      case 'meteora-dlmm':
+        await builder.meteora.dlmm.swap(swap);
+        break;
+      case 'raydium-launchpad':
+        await builder.raydium.launchpad.swap({ ...swap, direction: leg.direction ?? 'buy' });
+        break;
+      case 'raydium-clmm':
+        await builder.raydium.clmm.swap(swap);
+        break;
+      case 'raydium-cpmm':
+        await builder.raydium.cpmm.swap(swap);
+        break;
+      case 'raydium-ammv4':
+        await builder.raydium.ammv4.swap(swap);
+        break;
+    }
+  }
+
+  // ============================================================================
+  // Pool Discovery
+  // ============================================================================
+
+  /**
+   * Find DBC pools whose base mint is one side of the pair and whose
+   * config quote mint is the other (migrated pools are skipped)
+   * @private
+   */
+  private async findDBCPools(
+    connection: Connection,
+    inputMint: PublicKey,
+    outputMint: PublicKey
+  ): Promise<RoutePool[]> {
+    const { DynamicBondingCurveClient } = await import('@meteora-ag/dynamic-bonding-curve-sdk');
+    const client = new DynamicBondingCurveClient(connection, 'confirmed');
+
+    const lookups: { baseMint: PublicKey; quoteMint: PublicKey; direction: 'buy' | 'sell' }[] = [
+      { baseMint: outputMint, quoteMint: inputMint, direction: 'buy' },
+      { baseMint: inputMint, quoteMint: outputMint, direction: 'sell' },
+    ];
+
+    const pools: RoutePool[] = [];
+    for (const lookup of lookups) {
+      const pool = await client.state.getPoolByBaseMint(lookup.baseMint);
+      if (!pool || pool.account.isMigrated) {
+        continue;
+      }
+      const config = await client.state.getPoolConfig(pool.account.config);
+      if (config?.quoteMint.equals(lookup.quoteMint)) {
+        pools.push({ dex: 'meteora-dbc', address: pool.publicKey, direction: lookup.direction });
+      }
+    }
+
+    return pools;
+  }
+
+  /**
+   * Find DAMM v2 pools for the pair (either token order)
+   * @private
+   */
+  private async findDAMMv2Pools(
+    connection: Connection,
+    inputMint: PublicKey,
+    outputMint: PublicKey
+  ): Promise<RoutePool[]> {
+    const { CP_AMM_PROGRAM_ID } = await import('@meteora-ag/cp-amm-sdk');
+
+    const addresses = await findPairAccounts(
+      connection,
+      CP_AMM_PROGRAM_ID,
+      inputMint,
+      outputMint,
+      DAMM_V2_TOKEN_A_MINT_OFFSET,
+      DAMM_V2_TOKEN_B_MINT_OFFSET
+    );
+
+    return addresses.map((address) => ({ dex: 'meteora-damm-v2', address }));
+  }
+
+  /**
+   * Find DLMM pairs for the pair (either token order)
+   * @private
+   */
+  private async findDLMMPools(
+    connection: Connection,
+    inputMint: PublicKey,
+    outputMint: PublicKey
+  ): Promise<RoutePool[]> {
+    const { LBCLMM_PROGRAM_IDS } = await import('@meteora-ag/dlmm');
+
+    const addresses = await findPairAccounts(
+      connection,
+      new PublicKey(LBCLMM_PROGRAM_IDS[toMeteoraCluster(this.client.getCluster())]),
+      inputMint,
+      outputMint,
+      DLMM_TOKEN_X_MINT_OFFSET,
+      DLMM_TOKEN_Y_MINT_OFFSET
+    );
+
+    return addresses.map((address) => ({ dex: 'meteora-dlmm', address }));
+  }
+
+  /**
+   * Find LaunchPad pools by deriving the pool PDA for both directions
+   * @private
+   */
+  private async findLaunchPadPools(
+    connection: Connection,
+    inputMint: PublicKey,
+    outputMint: PublicKey
+  ): Promise<RoutePool[]> {
+    const { getPdaLaunchpadPoolId } = await import('@raydium-io/raydium-sdk-v2');
+    const { LAUNCHPAD_PROGRAM } = await getRaydiumProgramIds(this.client.getCluster());
+
+    // Pool PDA is derived from (base mint, quote mint)
+    const buyPool = getPdaLaunchpadPoolId(LAUNCHPAD_PROGRAM, outputMint, inputMint).publicKey;
+    const sellPool = getPdaLaunchpadPoolId(LAUNCHPAD_PROGRAM, inputMint, outputMint).publicKey;
+
+    const [buyAccount, sellAccount] = await connection.getMultipleAccountsInfo([buyPool, sellPool]);
+
+    const pools: RoutePool[] = [];
+    if (buyAccount) {
+      pools.push({ dex: 'raydium-launchpad', address: buyPool, direction: 'buy' });
+    }
+    if (sellAccount) {
+      pools.push({ dex: 'raydium-launchpad', address: sellPool, direction: 'sell' });
+    }
+    return pools;
+  }
+
+  /**
+   * Find Raydium CLMM, CPMM and AMMv4 pools via the Raydium API
+   * @private
+   */
+  private async findRaydiumPools(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    dexes: RouteDex[]
+  ): Promise<RoutePool[]> {
+    const { CLMM_PROGRAM_ID, CREATE_CPMM_POOL_PROGRAM, AMM_V4 } = await getRaydiumProgramIds(
+      this.client.getCluster()
+    );
+
+    const raydium = await this.client.getRaydiumCache().getRaydium();
+
+    const programs: Record<string, RouteDex> = {
+      [CLMM_PROGRAM_ID.toBase58()]: 'raydium-clmm',
+      [CREATE_CPMM_POOL_PROGRAM.toBase58()]: 'raydium-cpmm',
+      [AMM_V4.toBase58()]: 'raydium-ammv4',
+    };
+
+    const response = await raydium.api.fetchPoolByMints({
+      mint1: inputMint.toBase58(),
+      mint2: outputMint.toBase58(),
+    });
+
+    const pools: RoutePool[] = [];
+    for (const item of response.data) {
+      const dex = programs[item.programId];
+      if (dex && dexes.includes(dex)) {
+        pools.push({ dex, address: new PublicKey(item.id) });
+      }
+    }
+    return pools;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Find program accounts holding the mint pair at the given offsets (either order)
+ */
+async function findPairAccounts(
+  connection: Connection,
+  programId: PublicKey,
+  mintA: PublicKey,
+  mintB: PublicKey,
+  offsetA: number,
+  offsetB: number
+): Promise<PublicKey[]> {
+  const search = (first: PublicKey, second: PublicKey) =>
+    connection.getProgramAccounts(programId, {
+      dataSlice: { offset: 0, length: 0 },
+      filters: [
+        { memcmp: { offset: offsetA, bytes: first.toBase58() } },
+        { memcmp: { offset: offsetB, bytes: second.toBase58() } },
+      ],
+    });
+
+  const [forward, reverse] = await Promise.all([search(mintA, mintB), search(mintB, mintA)]);
+  return [...forward, ...reverse].map((account) => account.pubkey);
+}
+
+function sumBN(values: BN[]): BN {
+  return values.reduce((sum, value) => sum.add(value), new BN(0));
+}
+
+function weightedPriceImpact(legs: RouteLeg[], amountIn: BN): number {
+  if (amountIn.isZero()) {
+    return 0;
+  }
+  const total = Number(amountIn.toString());
+  return legs.reduce(
+    (impact, leg) => impact + (leg.priceImpact * Number(leg.amountIn.toString())) / total,
+    0
+  );
+}
+
+function toPublicKey(value: string | PublicKey): PublicKey {
+  return typeof value === 'string' ? new PublicKey(value) : value;
+}
+
+function toBN(value: number | BN): BN {
+  return BN.isBN(value) ? value : new BN(value);
+}
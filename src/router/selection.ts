@@ -0,0 +1,127 @@
+/**
+ * Route Selection
+ *
+ * Pure helpers for choosing how an input amount is distributed across pools.
+ *
+ * @module router/selection
+ */
+
+import BN from 'bn.js';
+
+/**
+ * Best allocation found for a given (chunks, legs) state
+ */
+interface AllocationState {
+  total: BN;
+  allocation: number[];
+}
+
+/**
+ * Input amount routed through a pool that receives `chunks` of `parts` chunks
+ *
+ * @param amountIn - Total input amount
+ * @param chunks - Number of chunks routed through the pool
+ * @param parts - Total number of chunks
+ * @returns Chunk amount (rounded down)
+ */
+export function chunkAmount(amountIn: BN, chunks: number, parts: number): BN {
+  return amountIn.muln(chunks).divn(parts);
+}
+
+/**
+ * Distribute `parts` equal input chunks across pools to maximize total output
+ *
+ * `outputs[i][k - 1]` is the quoted output of pool `i` when `k` chunks are routed
+ * through it, or `null` when the pool cannot take that amount. Among allocations
+ * with the same total output, the one using fewer (and earlier) pools wins.
+ *
+ * @param outputs - Quoted outputs per pool and chunk count
+ * @param parts - Total number of chunks to allocate
+ * @param maxLegs - Maximum number of pools used
+ * @returns Chunk count per pool (same order as outputs), or null if no allocation exists
+ *
+ * @example
+ * ```typescript
+ * // Pool 0 prices small amounts best, pool 1 has the deeper liquidity
+ * allocateSplits(
+ *   [
+ *     [new BN(100), new BN(180), new BN(240), new BN(280)],
+ *     [new BN(95), new BN(185), new BN(270), new BN(350)],
+ *   ],
+ *   4,
+ *   2
+ * ); // [1, 3]
+ * ```
+ */
+export function allocateSplits(
+  outputs: (BN | null)[][],
+  parts: number,
+  maxLegs: number
+): number[] | null {
+  // states[chunks][legs] = best allocation using the pools processed so far
+  let states: (AllocationState | null)[][] = createStates(parts, maxLegs);
+  (states[0] as (AllocationState | null)[])[0] = { total: new BN(0), allocation: [] };
+
+  for (const poolOutputs of outputs) {
+    // Skipping this pool keeps every allocation found so far; on equal output
+    // these win over allocations that route through this pool
+    const next = states.map((row) =>
+      row.map((state) => (state ? { ...state, allocation: [...state.allocation, 0] } : null))
+    );
+
+    for (let chunks = 0; chunks < parts; chunks++) {
+      for (let legs = 0; legs < maxLegs; legs++) {
+        const state = states[chunks]?.[legs];
+        if (!state) {
+          continue;
+        }
+
+        // Route k more chunks through this pool
+        for (let k = 1; chunks + k <= parts; k++) {
+          const output = poolOutputs[k - 1];
+          if (!output) {
+            continue;
+          }
+          updateState(next, chunks + k, legs + 1, state.total.add(output), [
+            ...state.allocation,
+            k,
+          ]);
+        }
+      }
+    }
+
+    states = next;
+  }
+
+  let best: AllocationState | null = null;
+  for (const state of states[parts] ?? []) {
+    if (state && (!best || state.total.gt(best.total))) {
+      best = state;
+    }
+  }
+
+  return best ? best.allocation : null;
+}
+
+function createStates(parts: number, maxLegs: number): (AllocationState | null)[][] {
+  return Array.from({ length: parts + 1 }, () =>
+    Array.from({ length: maxLegs + 1 }, (): AllocationState | null => null)
+  );
+}
+
+function updateState(
+  states: (AllocationState | null)[][],
+  chunks: number,
+  legs: number,
+  total: BN,
+  allocation: number[]
+): void {
+  const row = states[chunks];
+  if (!row) {
+    return;
+  }
+  const current = row[legs];
+  if (!current || total.gt(current.total)) {
+    row[legs] = { total, allocation };
+  }
+}
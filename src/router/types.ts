@@ -0,0 +1,243 @@
+/**
+ * Router Types
+ *
+ * Type definitions for cross-DEX route discovery, quoting and execution.
+ *
+ * @module router/types
+ */
+
+import type { PublicKey } from '@solana/web3.js';
+import type BN from 'bn.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default slippage tolerance applied by the router (basis points)
+ */
+export const DEFAULT_ROUTE_SLIPPAGE_BPS = 100;
+
+/**
+ * Default number of chunks the input amount is divided into when splitting
+ */
+export const DEFAULT_ROUTE_SPLIT_PARTS = 4;
+
+// ============================================================================
+// Pool Types
+// ============================================================================
+
+/**
+ * DEX identifiers supported by the router
+ */
+export type RouteDex =
+  | 'meteora-dbc'
+  | 'meteora-damm-v1'
+  | 'meteora-damm-v2'
+  | 'meteora-dlmm'
+  | 'raydium-launchpad'
+  | 'raydium-clmm'
+  | 'raydium-cpmm'
+  | 'raydium-ammv4';
+
+/**
+ * Candidate pool considered by the router
+ */
+export interface RoutePool {
+  /**
+   * DEX the pool belongs to
+   */
+  dex: RouteDex;
+
+  /**
+   * Pool address
+   */
+  address: PublicKey;
+
+  /**
+   * Swap direction for bonding-curve pools (DBC, LaunchPad).
+   * Resolved from pool state when omitted.
+   */
+  direction?: 'buy' | 'sell';
+}
+
+/**
+ * Explicit candidate pool supplied by the caller
+ */
+export interface RoutePoolInput {
+  /**
+   * DEX the pool belongs to
+   */
+  dex: RouteDex;
+
+  /**
+   * Pool address
+   */
+  address: string | PublicKey;
+
+  /**
+   * Swap direction for bonding-curve pools (DBC, LaunchPad).
+   * Resolved from pool state when omitted.
+   */
+  direction?: 'buy' | 'sell';
+}
+
+// ============================================================================
+// Request Parameters
+// ============================================================================
+
+/**
+ * Parameters for Router.quote()
+ */
+export interface RouterQuoteParams {
+  /**
+   * Input token mint address
+   */
+  inputMint: string | PublicKey;
+
+  /**
+   * Output token mint address
+   */
+  outputMint: string | PublicKey;
+
+  /**
+   * Input amount (in smallest units)
+   */
+  amountIn: number | BN;
+
+  /**
+   * Slippage tolerance in basis points (default: 100 = 1%)
+   */
+  slippageBps?: number;
+
+  /**
+   * Explicit candidate pools. When provided, pool discovery is skipped.
+   */
+  pools?: RoutePoolInput[];
+
+  /**
+   * Restrict discovery and quoting to these DEXes (default: all)
+   */
+  dexes?: RouteDex[];
+
+  /**
+   * Maximum number of pools the input may be split across (default: 1 = best single pool)
+   */
+  maxSplits?: number;
+
+  /**
+   * Number of equal chunks the input is divided into when splitting (default: 4 = 25% steps).
+   * Only used when maxSplits > 1.
+   */
+  splitParts?: number;
+}
+
+/**
+ * Parameters for Router.swap()
+ */
+export interface RouterSwapParams extends RouterQuoteParams {
+  /**
+   * User wallet address (will sign the transactions)
+   */
+  user: string | PublicKey;
+}
+
+// ============================================================================
+// Quote Types
+// ============================================================================
+
+/**
+ * Normalized quote for a single pool (one leg of a route)
+ */
+export interface RouteLeg {
+  /**
+   * DEX the pool belongs to
+   */
+  dex: RouteDex;
+
+  /**
+   * Pool address
+   */
+  pool: PublicKey;
+
+  /**
+   * Swap direction for bonding-curve pools (DBC, LaunchPad)
+   */
+  direction?: 'buy' | 'sell';
+
+  /**
+   * Input amount routed through this pool
+   */
+  amountIn: BN;
+
+  /**
+   * Expected output amount (before slippage)
+   */
+  amountOut: BN;
+
+  /**
+   * Minimum output amount (after slippage)
+   */
+  minimumAmountOut: BN;
+
+  /**
+   * Trading fee reported by the DEX
+   */
+  fee: BN;
+
+  /**
+   * Price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+}
+
+/**
+ * Normalized route quote returned by the router
+ */
+export interface RouteQuote {
+  /**
+   * Input token mint
+   */
+  inputMint: PublicKey;
+
+  /**
+   * Output token mint
+   */
+  outputMint: PublicKey;
+
+  /**
+   * Total input amount
+   */
+  amountIn: BN;
+
+  /**
+   * Total expected output amount (before slippage)
+   */
+  amountOut: BN;
+
+  /**
+   * Total minimum output amount (after slippage)
+   */
+  minimumAmountOut: BN;
+
+  /**
+   * Total trading fee reported by the DEXes
+   */
+  fee: BN;
+
+  /**
+   * Input-weighted price impact as a percentage (0-100)
+   */
+  priceImpact: number;
+
+  /**
+   * Pools the input is routed through (one leg per pool)
+   */
+  legs: RouteLeg[];
+
+  /**
+   * Full-amount quotes for every candidate pool that could be quoted,
+   * sorted by output (best first)
+   */
+  candidates: RouteLeg[];
+}
@@ -0,0 +1,38 @@
+/**
+ * Testing Module
+ *
+ * Mock execution engine for running the client against scripted responses
+ * without a real engine, and record/replay transports for fixture-based tests.
+ *
+ * @module testing
+ */
+
+// Mock engine
+export { MockExecutionEngine } from './mock-engine';
+
+// Record and replay
+export { RecordingTransport, ReplayTransport, normalizeTransactionBytes } from './recording';
+
+// Constants
+export {
+  DEFAULT_MOCK_ZMQ_ADDRESS,
+  DEFAULT_MAX_TIMESTAMP_SKEW,
+  DEFAULT_MOCK_NONCE_POOL_SIZE,
+  FIXTURE_VERSION,
+} from './types';
+
+// Types
+export type {
+  MockEngineOptions,
+  MockEngineAddresses,
+  MockEngineTransport,
+  MockRequest,
+  MockRequestKind,
+  MockRequestHandler,
+  InjectErrorOptions,
+  FixtureEntry,
+  TransportFixture,
+  RecordingTransportOptions,
+  ReplayTransportOptions,
+  RequestNormalizer,
+} from './types';
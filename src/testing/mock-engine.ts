@@ -0,0 +1,786 @@
+/**
+ * Mock Execution Engine
+ *
+ * In-process stand-in for the Solana Execution Engine, speaking the same ZMQ and
+ * HTTP protocol as `ZMQTransport` and `HTTPTransport`.
+ *
+ * @module testing/mock-engine
+ */
+
+import * as http from 'http';
+import type { AddressInfo, Socket } from 'net';
+import * as zmq from 'zeromq';
+import { pack, unpack } from 'msgpackr';
+import nacl from 'tweetnacl';
+import ed2curve from 'ed2curve';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { ErrorCode } from '../errors';
+import type {
+  NonceCreateRequest,
+  NonceStatusRequest,
+  WalletBalanceRequest,
+  WalletCreationRequest,
+  WalletDeleteRequest,
+  WalletExportRequest,
+  WalletListRequest,
+  WalletRotateRequest,
+} from '../types';
+import { base58Decode, base58Encode } from '../utils/base58';
+import { stringifyJson } from '../utils/amount';
+import type {
+  InjectErrorOptions,
+  MockEngineAddresses,
+  MockEngineOptions,
+  MockEngineTransport,
+  MockRequest,
+  MockRequestHandler,
+  MockRequestKind,
+} from './types';
+import {
+  DEFAULT_MAX_TIMESTAMP_SKEW,
+  DEFAULT_MOCK_NONCE_POOL_SIZE,
+  DEFAULT_MOCK_ZMQ_ADDRESS,
+} from './types';
+
+/**
+ * Error queued by `injectError()`
+ */
+interface InjectedError {
+  code: ErrorCode;
+  message: string;
+  remaining: number;
+  transport?: MockEngineTransport;
+}
+
+/**
+ * Wallet kept by the mock engine
+ */
+interface ManagedWallet {
+  keypair: Keypair;
+  createdAt: number;
+}
+
+/**
+ * Wallet management message
+ */
+type WalletMessage =
+  | WalletCreationRequest
+  | WalletListRequest
+  | WalletBalanceRequest
+  | WalletExportRequest
+  | WalletRotateRequest
+  | WalletDeleteRequest;
+
+/**
+ * Result of handling a request: a response body or an injected error
+ */
+type Outcome = { body: unknown } | { error: ErrorCode; message: string };
+
+/**
+ * HTTP status codes the client maps back to an `ErrorCode`
+ */
+const HTTP_STATUS: Partial<Record<ErrorCode, number>> = {
+  [ErrorCode.UNAUTHORIZED]: 401,
+  [ErrorCode.NOT_FOUND]: 404,
+  [ErrorCode.SERVER_ERROR]: 500,
+};
+
+/**
+ * Truncated MessagePack payload (array header without its elements)
+ */
+const MALFORMED_MSGPACK = Buffer.from([0x92, 0x01]);
+
+/**
+ * Request paths served over HTTP
+ */
+const HTTP_PATHS: ReadonlySet<string> = new Set([
+  '/api/execute',
+  '/api/wallet',
+  '/api/wallet/list',
+  '/api/wallet/balance',
+  '/api/wallet/export',
+  '/api/wallet/rotate',
+  '/api/wallet/delete',
+  '/api/nonce/status',
+  '/api/nonce/create',
+]);
+
+/**
+ * Request kind of typed messages; untyped messages are transactions
+ */
+const MESSAGE_KINDS: Readonly<Record<string, MockRequestKind>> = {
+  PING: 'ping',
+  WALLET_CREATE: 'wallet',
+  WALLET_LIST: 'wallet',
+  WALLET_BALANCE: 'wallet',
+  WALLET_EXPORT: 'wallet',
+  WALLET_ROTATE: 'wallet',
+  WALLET_DELETE: 'wallet',
+  NONCE_STATUS: 'nonce',
+  NONCE_CREATE: 'nonce',
+};
+
+/**
+ * Mock execution engine for offline tests
+ *
+ * Binds a ZMQ ROUTER and an HTTP server that accept the client's MessagePack/JSON
+ * requests and answer with successful responses by default: a random signature for
+ * transactions and a real encrypted wallet for `createWallet()` (so `decryptWallet()`
+ * works). Responses can be scripted per request, delayed, or replaced by injected
+ * errors, and every request is recorded for assertions.
+ *
+ * Injected errors reach the client as follows:
+ * - `TIMEOUT` — no response is sent
+ * - `CONNECTION_ERROR` / `NETWORK_ERROR` — HTTP: the connection is dropped; ZMQ: no response is sent
+ * - `UNAUTHORIZED` / `NOT_FOUND` / `SERVER_ERROR` — HTTP: status 401 / 404 / 500; ZMQ: error response
+ * - `SERIALIZATION_ERROR` — a malformed JSON or MessagePack body
+ * - any other code — an error response (`success: false`) carrying the message
+ *
+ * @example
+ * ```typescript
+ * import { LysFlash, MockExecutionEngine, ErrorCode } from '@lyslabs.ai/lys-flash';
+ *
+ * const engine = new MockExecutionEngine();
+ * const { zmqAddress } = await engine.start();
+ * const client = new LysFlash({ address: zmqAddress });
+ *
+ * engine.injectError(ErrorCode.NONCE_POOL_EXHAUSTED);
+ * const result = await client.execute(request); // success: false
+ *
+ * expect(engine.requests[0]?.body).toMatchObject({ transport: 'FLASH' });
+ *
+ * client.close();
+ * await engine.stop();
+ * ```
+ */
+export class MockExecutionEngine {
+  private readonly options: MockEngineOptions;
+  private router: zmq.Router | null = null;
+  private server: http.Server | null = null;
+  private readonly sockets: Set<Socket> = new Set();
+  private sendQueue: Promise<void> = Promise.resolve();
+  private addresses: MockEngineAddresses = {};
+  private handler?: MockRequestHandler;
+  private latency: number;
+  private queuedResponses: unknown[] = [];
+  private injectedErrors: InjectedError[] = [];
+  private log: MockRequest[] = [];
+  private nextRequestId = 0;
+  private noncePools: Map<string, number> = new Map();
+  private wallets: Map<string, ManagedWallet> = new Map();
+
+  constructor(options: MockEngineOptions = {}) {
+    this.options = options;
+    this.handler = options.handler;
+    this.latency = options.latency ?? 0;
+  }
+
+  /**
+   * ZMQ address of the running engine
+   */
+  get zmqAddress(): string | undefined {
+    return this.addresses.zmqAddress;
+  }
+
+  /**
+   * HTTP base URL of the running engine
+   */
+  get httpAddress(): string | undefined {
+    return this.addresses.httpAddress;
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  get requests(): MockRequest[] {
+    return [...this.log];
+  }
+
+  /**
+   * Bind the ZMQ ROUTER and start the HTTP server
+   *
+   * @returns Addresses to pass as the client `address`
+   * @throws Error if the engine is already running or an address cannot be bound
+   */
+  async start(): Promise<MockEngineAddresses> {
+    if (this.router || this.server) {
+      throw new Error('Mock execution engine is already running');
+    }
+
+    try {
+      if (this.options.zmqAddress !== false) {
+        const router = new zmq.Router({ linger: 0 });
+        this.router = router;
+        await router.bind(this.options.zmqAddress ?? DEFAULT_MOCK_ZMQ_ADDRESS);
+        this.addresses.zmqAddress = router.lastEndpoint ?? undefined;
+        void this.receiveLoop(router);
+      }
+
+      const httpPort = this.options.httpPort ?? 0;
+      if (httpPort !== false) {
+        const host = this.options.httpHost ?? '127.0.0.1';
+        const server = http.createServer((req, res) => void this.handleHTTP(req, res));
+        this.server = server;
+        server.on('connection', (socket: Socket) => {
+          this.sockets.add(socket);
+          socket.once('close', () => this.sockets.delete(socket));
+        });
+
+        await new Promise<void>((resolve, reject) => {
+          server.once('error', reject);
+          server.listen(httpPort, host, () => {
+            server.off('error', reject);
+            resolve();
+          });
+        });
+
+        const { port } = server.address() as AddressInfo;
+        this.addresses.httpAddress = `http://${host}:${port}`;
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    return { ...this.addresses };
+  }
+
+  /**
+   * Close the ZMQ socket and HTTP server
+   *
+   * Requests still waiting for a response are dropped.
+   */
+  async stop(): Promise<void> {
+    const router = this.router;
+    this.router = null;
+    router?.close();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      for (const socket of this.sockets) {
+        socket.destroy();
+      }
+      this.sockets.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    this.addresses = {};
+  }
+
+  /**
+   * Set the handler for requests without a queued response
+   *
+   * @param handler - Returns the response body, or `undefined` for the default response;
+   *   omit to restore the default responses
+   * @returns this (for chaining)
+   */
+  respondWith(handler?: MockRequestHandler): this {
+    this.handler = handler;
+    return this;
+  }
+
+  /**
+   * Queue a response for the next transaction or wallet request
+   *
+   * Queued responses are used in order, before the handler.
+   *
+   * @param response - Response body, or a handler producing it
+   * @returns this (for chaining)
+   */
+  respondOnce(response: unknown): this {
+    this.queuedResponses.push(response);
+    return this;
+  }
+
+  /**
+   * Fail the next transaction or wallet requests with an error
+   *
+   * @param code - Error to inject (see the class description for how each code is sent)
+   * @param options - Number of requests, message and transport
+   * @returns this (for chaining)
+   */
+  injectError(code: ErrorCode, options: InjectErrorOptions = {}): this {
+    this.injectedErrors.push({
+      code,
+      message: options.message ?? `Injected ${code}`,
+      remaining: options.times ?? 1,
+      transport: options.transport,
+    });
+    return this;
+  }
+
+  /**
+   * Delay every response
+   *
+   * @param latency - Delay in milliseconds
+   * @returns this (for chaining)
+   */
+  setLatency(latency: number): this {
+    this.latency = latency;
+    return this;
+  }
+
+  /**
+   * Forget the recorded requests
+   */
+  clearRequests(): void {
+    this.log = [];
+  }
+
+  /**
+   * Drop queued responses and injected errors, restore the configured handler and
+   * latency, and forget the recorded requests
+   */
+  reset(): void {
+    this.handler = this.options.handler;
+    this.latency = this.options.latency ?? 0;
+    this.queuedResponses = [];
+    this.injectedErrors = [];
+    this.noncePools.clear();
+    this.wallets.clear();
+    this.clearRequests();
+  }
+
+  // ============================================================================
+  // ZMQ
+  // ============================================================================
+
+  /**
+   * Receive requests until the socket closes
+   */
+  private async receiveLoop(router: zmq.Router): Promise<void> {
+    try {
+      for await (const frames of router) {
+        void this.handleZMQ(router, frames);
+      }
+    } catch {
+      // Socket closed by stop()
+    }
+  }
+
+  /**
+   * Answer one ZMQ request
+   *
+   * Frames: `[identity, empty, requestId, payload]`, or `[identity, empty, payload]` from
+   * legacy clients. The reply echoes every frame but the payload.
+   */
+  private async handleZMQ(router: zmq.Router, frames: Buffer[]): Promise<void> {
+    const envelope = frames.slice(0, -1);
+    const payload = frames[frames.length - 1];
+    if (envelope.length === 0 || !payload) {
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = unpack(payload);
+    } catch {
+      await this.sendZMQ(router, [
+        ...envelope,
+        pack(errorResponse(undefined, 'Invalid MessagePack payload')),
+      ]);
+      return;
+    }
+
+    const request = this.record('ZMQ', body, {});
+    const outcome = await this.respond(request);
+
+    let reply: Buffer;
+    if ('body' in outcome) {
+      reply = pack(outcome.body);
+    } else if (
+      outcome.error === ErrorCode.TIMEOUT ||
+      outcome.error === ErrorCode.CONNECTION_ERROR ||
+      outcome.error === ErrorCode.NETWORK_ERROR
+    ) {
+      return;
+    } else if (outcome.error === ErrorCode.SERIALIZATION_ERROR) {
+      reply = MALFORMED_MSGPACK;
+    } else {
+      reply = pack(errorResponse(body, outcome.message));
+    }
+
+    await this.sendZMQ(router, [...envelope, reply]);
+  }
+
+  /**
+   * Serialize sends - a ZMQ socket allows only one send operation in progress at a time
+   */
+  private sendZMQ(router: zmq.Router, frames: Buffer[]): Promise<void> {
+    const sent = this.sendQueue.then(() =>
+      this.router === router ? router.send(frames) : undefined
+    );
+    this.sendQueue = sent.catch(() => undefined);
+    return this.sendQueue;
+  }
+
+  // ============================================================================
+  // HTTP
+  // ============================================================================
+
+  /**
+   * Answer one HTTP request
+   */
+  private async handleHTTP(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks);
+    const msgpack = (req.headers['content-type'] ?? '').includes('application/msgpack');
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method !== 'POST' || !HTTP_PATHS.has(path)) {
+      writeHTTP(res, 404, { error: `Not found: ${req.method} ${path}` }, msgpack);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = msgpack ? unpack(raw) : JSON.parse(raw.toString());
+    } catch {
+      writeHTTP(res, 400, { error: 'Invalid request body' }, msgpack);
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    const request = this.record('HTTP', body, headers);
+    const verification = this.verifySignature(raw, headers);
+    if (verification) {
+      request.signatureValid = verification.valid;
+      request.signer = verification.signer;
+    }
+
+    if (this.options.apiKey !== undefined && headers['x-api-key'] !== this.options.apiKey) {
+      writeHTTP(res, 401, { error: 'Invalid API key' }, msgpack);
+      return;
+    }
+    if (verification && !verification.valid) {
+      writeHTTP(res, 401, { error: 'Invalid request signature' }, msgpack);
+      return;
+    }
+
+    const outcome = await this.respond(request);
+    if (res.destroyed) {
+      return;
+    }
+
+    if ('body' in outcome) {
+      writeHTTP(res, 200, outcome.body, msgpack);
+    } else if (outcome.error === ErrorCode.TIMEOUT) {
+      // Leave the request open until the client gives up
+    } else if (
+      outcome.error === ErrorCode.CONNECTION_ERROR ||
+      outcome.error === ErrorCode.NETWORK_ERROR
+    ) {
+      req.socket.destroy();
+    } else if (outcome.error === ErrorCode.SERIALIZATION_ERROR) {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"success":');
+    } else {
+      const status = HTTP_STATUS[outcome.error];
+      writeHTTP(
+        res,
+        status ?? 200,
+        status ? { error: outcome.message } : errorResponse(body, outcome.message),
+        msgpack
+      );
+    }
+  }
+
+  /**
+   * Verify `X-Signature` / `X-Timestamp` against the configured signers
+   *
+   * The signed message is the timestamp as a big-endian u64 followed by the raw body.
+   *
+   * @returns Verification result, or undefined when no signers are configured
+   */
+  private verifySignature(
+    raw: Buffer,
+    headers: Record<string, string>
+  ): { valid: boolean; signer?: string } | undefined {
+    const signers = this.options.signers;
+    if (!signers || signers.length === 0) {
+      return undefined;
+    }
+
+    const signature = headers['x-signature'];
+    const timestamp = headers['x-timestamp'];
+    if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+      return { valid: false };
+    }
+
+    const maxSkew = this.options.maxTimestampSkew ?? DEFAULT_MAX_TIMESTAMP_SKEW;
+    if (Math.abs(Date.now() - Number(timestamp)) > maxSkew) {
+      return { valid: false };
+    }
+
+    let signatureBytes: Uint8Array;
+    try {
+      signatureBytes = base58Decode(signature);
+    } catch {
+      return { valid: false };
+    }
+    if (signatureBytes.length !== nacl.sign.signatureLength) {
+      return { valid: false };
+    }
+
+    const timestampBytes = Buffer.alloc(8);
+    timestampBytes.writeBigUInt64BE(BigInt(timestamp));
+    const message = Buffer.concat([timestampBytes, raw]);
+
+    const signer = signers.find((key) =>
+      nacl.sign.detached.verify(message, signatureBytes, new PublicKey(key).toBytes())
+    );
+    return { valid: signer !== undefined, signer };
+  }
+
+  // ============================================================================
+  // Responses
+  // ============================================================================
+
+  /**
+   * Add a request to the log
+   */
+  private record(
+    transport: MockEngineTransport,
+    body: unknown,
+    headers: Record<string, string>
+  ): MockRequest {
+    const type = (body as { type?: unknown } | null)?.type;
+    const request: MockRequest = {
+      id: ++this.nextRequestId,
+      transport,
+      kind: (typeof type === 'string' && MESSAGE_KINDS[type]) || 'execute',
+      body,
+      headers,
+      receivedAt: Date.now(),
+    };
+    this.log.push(request);
+    return request;
+  }
+
+  /**
+   * Produce the outcome of a request after the configured latency
+   *
+   * Health-check pings are always answered and never consume queued responses or errors.
+   */
+  private async respond(request: MockRequest): Promise<Outcome> {
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+
+    if (request.kind === 'ping') {
+      return { body: { success: true } };
+    }
+
+    const injected = this.takeInjectedError(request.transport);
+    if (injected) {
+      return { error: injected.code, message: injected.message };
+    }
+
+    try {
+      const queued = this.queuedResponses.shift();
+      let body: unknown =
+        typeof queued === 'function' ? await (queued as MockRequestHandler)(request) : queued;
+      if (body === undefined && this.handler) {
+        body = await this.handler(request);
+      }
+      return { body: body === undefined ? this.defaultResponse(request) : body };
+    } catch (error) {
+      return {
+        error: ErrorCode.SERVER_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Take the first injected error that applies to a transport
+   */
+  private takeInjectedError(transport: MockEngineTransport): InjectedError | undefined {
+    const index = this.injectedErrors.findIndex(
+      (injected) => !injected.transport || injected.transport === transport
+    );
+    const injected = this.injectedErrors[index];
+    if (!injected) {
+      return undefined;
+    }
+
+    injected.remaining--;
+    if (injected.remaining <= 0) {
+      this.injectedErrors.splice(index, 1);
+    }
+    return injected;
+  }
+
+  /**
+   * Successful response for a request
+   */
+  private defaultResponse(request: MockRequest): unknown {
+    const body = request.body as { transport?: string };
+
+    if (request.kind === 'wallet') {
+      return this.walletResponse(request.body as WalletMessage);
+    }
+    if (request.kind === 'nonce') {
+      return this.nonceResponse(request.body as NonceStatusRequest | NonceCreateRequest);
+    }
+
+    const transport = body.transport ?? 'VANILLA';
+    return {
+      success: true,
+      signature: base58Encode(nacl.randomBytes(64)),
+      transport,
+      error: null,
+      latency: this.latency,
+      ...(transport.startsWith('SIMULATE') ? { logs: [] } : {}),
+    };
+  }
+
+  /**
+   * Wallet management response
+   *
+   * Created wallets are kept in memory so they can be listed, exported, rotated and deleted.
+   */
+  private walletResponse(body: WalletMessage): unknown {
+    if (body.type === 'WALLET_CREATE') {
+      const keypair = Keypair.generate();
+      this.wallets.set(keypair.publicKey.toBase58(), { keypair, createdAt: Date.now() });
+      return encryptWallet(keypair, body.userPublicKey);
+    }
+
+    if (body.type === 'WALLET_LIST') {
+      return {
+        success: true,
+        wallets: [...this.wallets].map(([publicKey, wallet]) => ({
+          publicKey,
+          createdAt: wallet.createdAt,
+        })),
+      };
+    }
+
+    const wallet = this.wallets.get(body.wallet);
+    if (!wallet) {
+      return {
+        success: false,
+        code: ErrorCode.WALLET_NOT_FOUND,
+        error: `Wallet not found: ${body.wallet}`,
+      };
+    }
+
+    switch (body.type) {
+      case 'WALLET_BALANCE':
+        return { success: true, publicKey: body.wallet, lamports: 0 };
+      case 'WALLET_EXPORT':
+        return encryptWallet(wallet.keypair, body.userPublicKey);
+      case 'WALLET_ROTATE': {
+        const keypair = Keypair.generate();
+        this.wallets.delete(body.wallet);
+        this.wallets.set(keypair.publicKey.toBase58(), { keypair, createdAt: Date.now() });
+        return {
+          ...encryptWallet(keypair, body.userPublicKey),
+          previousPublicKey: body.wallet,
+        };
+      }
+      case 'WALLET_DELETE':
+        this.wallets.delete(body.wallet);
+        return { success: true, publicKey: body.wallet };
+    }
+  }
+
+  /**
+   * Nonce pool status or creation response
+   *
+   * Every wallet starts with `noncePoolSize` free nonce accounts; created accounts are added.
+   */
+  private nonceResponse(body: NonceStatusRequest | NonceCreateRequest): unknown {
+    const initialSize = this.options.noncePoolSize ?? DEFAULT_MOCK_NONCE_POOL_SIZE;
+    const poolSize = (wallet: string): number => this.noncePools.get(wallet) ?? initialSize;
+
+    if (body.type === 'NONCE_CREATE') {
+      const size = poolSize(body.feePayer) + body.count;
+      this.noncePools.set(body.feePayer, size);
+      return {
+        success: true,
+        feePayer: body.feePayer,
+        nonceAccounts: Array.from({ length: body.count }, () =>
+          Keypair.generate().publicKey.toBase58()
+        ),
+        size,
+      };
+    }
+
+    if (body.wallet !== undefined && !this.noncePools.has(body.wallet)) {
+      this.noncePools.set(body.wallet, initialSize);
+    }
+    const wallets = [...this.noncePools]
+      .filter(([wallet]) => body.wallet === undefined || wallet === body.wallet)
+      .map(([wallet]) => ({
+        wallet,
+        size: poolSize(wallet),
+        inUse: 0,
+        available: poolSize(wallet),
+      }));
+    const size = wallets.reduce((total, wallet) => total + wallet.size, 0);
+
+    return { success: true, size, inUse: 0, available: size, wallets };
+  }
+}
+
+/**
+ * Error response in the engine's format
+ */
+function errorResponse(body: unknown, message: string): Record<string, unknown> {
+  return {
+    success: false,
+    signature: null,
+    transport: (body as { transport?: unknown } | undefined)?.transport ?? 'VANILLA',
+    error: message,
+  };
+}
+
+/**
+ * Encrypt a wallet's secret key to the user's public key, as the engine does
+ */
+function encryptWallet(wallet: Keypair, userPublicKey: string): Record<string, unknown> {
+  const recipient = ed2curve.convertPublicKey(new PublicKey(userPublicKey).toBytes());
+  if (!recipient) {
+    throw new Error(`Invalid userPublicKey: ${userPublicKey}`);
+  }
+
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const encrypted = nacl.box(wallet.secretKey, nonce, recipient, ephemeral.secretKey);
+
+  return {
+    success: true,
+    publicKey: wallet.publicKey.toBase58(),
+    encryptedSecretKey: Buffer.from(encrypted).toString('base64'),
+    nonce: Buffer.from(nonce).toString('base64'),
+    ephemeralPublicKey: Buffer.from(ephemeral.publicKey).toString('base64'),
+  };
+}
+
+/**
+ * Write an HTTP response in the request's content type
+ */
+function writeHTTP(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  msgpack: boolean
+): void {
+  const data = msgpack ? pack(body) : Buffer.from(stringifyJson(body));
+  res.writeHead(status, {
+    'Content-Type': msgpack ? 'application/msgpack' : 'application/json',
+    'Content-Length': data.length,
+  });
+  res.end(data);
+}
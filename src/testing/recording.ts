@@ -0,0 +1,412 @@
+/**
+ * Record and Replay Transports
+ *
+ * `RecordingTransport` captures every request and response of a real transport to a
+ * fixture file; `ReplayTransport` serves them back, so code built on the client can be
+ * regression-tested without an execution engine.
+ *
+ * @module testing/recording
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { VersionedTransaction } from '@solana/web3.js';
+import type { Transport, SigningKeypair } from '../transport/transport.interface';
+import { ExecutionError, ErrorCode } from '../errors';
+import { isBN } from '../utils/amount';
+import type {
+  FixtureEntry,
+  RecordingTransportOptions,
+  ReplayTransportOptions,
+  RequestNormalizer,
+  TransportFixture,
+} from './types';
+import { FIXTURE_VERSION } from './types';
+
+/**
+ * Transport wrapper that records requests and responses to a fixture file
+ *
+ * Every `request()` is passed to the wrapped transport and stored with its response
+ * (or error), including the serialized `RAW_TRANSACTION` bytes built by DEX
+ * namespaces. The fixture is written when the client is closed, or by `save()`.
+ * Signing keypairs and Solana RPC calls are not recorded.
+ *
+ * @example
+ * ```typescript
+ * import { LysFlash, RecordingTransport } from '@lyslabs.ai/lys-flash';
+ *
+ * const client = new LysFlash({
+ *   address: 'ipc:///tmp/tx-executor.ipc',
+ *   wrapTransport: (transport) =>
+ *     new RecordingTransport(transport, { path: 'tests/fixtures/strategy.json' }),
+ * });
+ *
+ * await runStrategy(client);
+ * client.close(); // writes tests/fixtures/strategy.json
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  private readonly inner: Transport;
+  private readonly options: RecordingTransportOptions;
+  private readonly normalize: RequestNormalizer;
+  private readonly recorded: FixtureEntry[] = [];
+
+  /**
+   * @param inner - Transport to record
+   * @param options - Fixture path and request normalizer
+   */
+  constructor(inner: Transport, options: RecordingTransportOptions) {
+    this.inner = inner;
+    this.options = options;
+    this.normalize = options.normalize ?? normalizeTransactionBytes;
+  }
+
+  /**
+   * Recorded entries so far, in completion order
+   */
+  get entries(): FixtureEntry[] {
+    return [...this.recorded];
+  }
+
+  connect(): void {
+    this.inner.connect();
+  }
+
+  /**
+   * Disconnect the wrapped transport and write the fixture
+   */
+  disconnect(): void {
+    this.inner.disconnect();
+    this.save();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  async request<T>(message: unknown, signingKeypair?: SigningKeypair): Promise<T> {
+    const request = encodeFixtureValue(message);
+    const hash = hashRequest(request, this.normalize);
+
+    try {
+      const response = await this.inner.request<T>(message, signingKeypair);
+      this.recorded.push({ hash, request, response: encodeFixtureValue(response) });
+      return response;
+    } catch (error) {
+      this.recorded.push({
+        hash,
+        request,
+        error:
+          error instanceof ExecutionError
+            ? { message: error.message, code: error.code, transport: error.transport }
+            : {
+                message: error instanceof Error ? error.message : String(error),
+                code: ErrorCode.UNKNOWN_ERROR,
+                transport: 'UNKNOWN',
+              },
+      });
+      throw error;
+    }
+  }
+
+  getReconnectAttempts(): number {
+    return this.inner.getReconnectAttempts();
+  }
+
+  resetReconnectAttempts(): void {
+    this.inner.resetReconnectAttempts();
+  }
+
+  /**
+   * Write the recorded entries to the fixture file
+   */
+  save(): void {
+    const fixture: TransportFixture = { version: FIXTURE_VERSION, entries: this.recorded };
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+    fs.writeFileSync(this.options.path, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
+
+/**
+ * Transport that answers requests from a recorded fixture
+ *
+ * Requests are matched by the SHA-256 of their normalized contents (by default
+ * `normalizeTransactionBytes`). Identical requests are answered in recorded order, and
+ * the last answer repeats once they run out. Recorded errors are thrown again as
+ * `ExecutionError`s with the same code. Unmatched requests throw `ExecutionError`
+ * (`NOT_FOUND`).
+ *
+ * @example
+ * ```typescript
+ * import { LysFlash, ReplayTransport } from '@lyslabs.ai/lys-flash';
+ *
+ * const replay = new ReplayTransport({ path: 'tests/fixtures/strategy.json' });
+ * const client = new LysFlash({ wrapTransport: () => replay });
+ *
+ * await runStrategy(client);
+ * expect(replay.getUnusedEntries()).toEqual([]);
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  private readonly normalize: RequestNormalizer;
+  private readonly recorded: Map<string, FixtureEntry[]> = new Map();
+  private readonly served: Map<string, number> = new Map();
+  private connected: boolean = false;
+
+  /**
+   * @param options - Fixture (file or contents) and request normalizer
+   * @throws Error if neither `path` nor `fixture` is given or the fixture is invalid
+   */
+  constructor(options: ReplayTransportOptions) {
+    this.normalize = options.normalize ?? normalizeTransactionBytes;
+
+    const fixture = options.fixture ?? (options.path ? loadFixture(options.path) : undefined);
+    if (!fixture) {
+      throw new Error('ReplayTransport requires a fixture path or fixture contents');
+    }
+
+    for (const entry of fixture.entries) {
+      const hash = hashRequest(entry.request, this.normalize);
+      const entries = this.recorded.get(hash) ?? [];
+      entries.push(entry);
+      this.recorded.set(hash, entries);
+    }
+  }
+
+  connect(): void {
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  request<T>(message: unknown, _signingKeypair?: SigningKeypair): Promise<T> {
+    const hash = hashRequest(encodeFixtureValue(message), this.normalize);
+    const entries = this.recorded.get(hash) ?? [];
+    const served = this.served.get(hash) ?? 0;
+    const entry = entries[Math.min(served, entries.length - 1)];
+
+    if (!entry) {
+      const type = (message as { type?: unknown } | null)?.type;
+      return Promise.reject(
+        new ExecutionError(
+          `No recorded response for request ${hash}${typeof type === 'string' ? ` (${type})` : ''}`,
+          ErrorCode.NOT_FOUND,
+          'REPLAY'
+        )
+      );
+    }
+
+    this.served.set(hash, served + 1);
+
+    if (entry.error) {
+      return Promise.reject(
+        new ExecutionError(entry.error.message, entry.error.code, entry.error.transport)
+      );
+    }
+    return Promise.resolve(decodeFixtureValue(entry.response) as T);
+  }
+
+  getReconnectAttempts(): number {
+    return 0;
+  }
+
+  resetReconnectAttempts(): void {
+    // Nothing to reset
+  }
+
+  /**
+   * Recorded entries that have not been served
+   *
+   * Useful to assert that code under test still makes every recorded request.
+   */
+  getUnusedEntries(): FixtureEntry[] {
+    const unused: FixtureEntry[] = [];
+    for (const [hash, entries] of this.recorded) {
+      unused.push(...entries.slice(this.served.get(hash) ?? 0));
+    }
+    return unused;
+  }
+}
+
+/**
+ * Default request normalizer: ignores the parts of `RAW_TRANSACTION` operations that
+ * change between runs
+ *
+ * Each `transactionBytes` is compared by its fee payer and its instructions (program,
+ * accounts and data), without the recent blockhash and signatures. Keys listed in
+ * `additionalSigners`, such as fresh position or mint keypairs generated by DEX
+ * namespaces, are replaced by their position in that list wherever they appear. Accounts
+ * derived from fresh keys (e.g. PDAs) and all other request fields are matched exactly.
+ *
+ * @example Match transaction bytes exactly
+ * ```typescript
+ * new ReplayTransport({ path, normalize: (request) => request });
+ * ```
+ */
+export function normalizeTransactionBytes(request: unknown): unknown {
+  if (typeof request !== 'object' || request === null || !('data' in request)) {
+    return request;
+  }
+
+  const { data } = request as { data: unknown };
+  return {
+    ...request,
+    data: Array.isArray(data) ? data.map(normalizeRawTransaction) : normalizeRawTransaction(data),
+  };
+}
+
+/**
+ * Normalize the transaction and signers of a recorded `RAW_TRANSACTION` operation (see
+ * `normalizeTransactionBytes`)
+ */
+function normalizeRawTransaction(operation: unknown): unknown {
+  const raw = operation as {
+    executionType?: unknown;
+    transactionBytes?: { $bytes?: unknown };
+    additionalSigners?: unknown;
+  } | null;
+  const bytes = raw?.transactionBytes?.$bytes;
+  if (raw?.executionType !== 'RAW_TRANSACTION' || typeof bytes !== 'string') {
+    return operation;
+  }
+
+  const signers = Array.isArray(raw.additionalSigners) ? raw.additionalSigners : [];
+  const normalizeKey = (key: string): string => {
+    const index = signers.indexOf(key);
+    return index === -1 ? key : `$signer${index}`;
+  };
+
+  let message: VersionedTransaction['message'];
+  try {
+    message = VersionedTransaction.deserialize(Buffer.from(bytes, 'base64')).message;
+  } catch {
+    // Not a transaction; match the bytes exactly
+    return operation;
+  }
+
+  // Account indexes past the static keys point into the address lookup tables, writable
+  // entries of every table first
+  const lookups = message.addressTableLookups;
+  const loadedKeys = [
+    ...lookups.flatMap((lookup) =>
+      lookup.writableIndexes.map((index) => `${lookup.accountKey.toBase58()}[${index}]`)
+    ),
+    ...lookups.flatMap((lookup) =>
+      lookup.readonlyIndexes.map((index) => `${lookup.accountKey.toBase58()}[${index}]`)
+    ),
+  ];
+  const keys = [
+    ...message.staticAccountKeys.map((key) => normalizeKey(key.toBase58())),
+    ...loadedKeys,
+  ];
+
+  return {
+    ...raw,
+    transactionBytes: {
+      feePayer: keys[0],
+      instructions: message.compiledInstructions.map((instruction) => ({
+        programId: keys[instruction.programIdIndex],
+        accounts: instruction.accountKeyIndexes.map((index) => keys[index]),
+        data: Buffer.from(instruction.data).toString('base64'),
+      })),
+    },
+    additionalSigners: signers.map((key) => normalizeKey(String(key))),
+  };
+}
+
+/**
+ * Read and check a fixture file
+ */
+function loadFixture(file: string): TransportFixture {
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<TransportFixture>;
+  if (fixture.version !== FIXTURE_VERSION || !Array.isArray(fixture.entries)) {
+    throw new Error(`Invalid transport fixture (expected version ${FIXTURE_VERSION}): ${file}`);
+  }
+  return fixture as TransportFixture;
+}
+
+/**
+ * SHA-256 of the canonical JSON of a (normalized) request
+ */
+function hashRequest(request: unknown, normalize: RequestNormalizer): string {
+  return createHash('sha256')
+    .update(canonicalJson(normalize(request)))
+    .digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so equal requests hash equally
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Convert a message to JSON-safe form (bigints and BNs to `{ $bigint }`, bytes to `{ $bytes }`)
+ */
+function encodeFixtureValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (isBN(value)) {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Uint8Array) {
+    return { $bytes: Buffer.from(value).toString('base64') };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeFixtureValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        encoded[key] = encodeFixtureValue(item);
+      }
+    }
+    return encoded;
+  }
+  return value;
+}
+
+/**
+ * Inverse of `encodeFixtureValue` (bytes are decoded to `Buffer`s, as by MessagePack)
+ */
+function decodeFixtureValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeFixtureValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const object = value as Record<string, unknown>;
+    const keys = Object.keys(object);
+    if (keys.length === 1 && typeof object.$bigint === 'string') {
+      return BigInt(object.$bigint);
+    }
+    if (keys.length === 1 && typeof object.$bytes === 'string') {
+      return Buffer.from(object.$bytes, 'base64');
+    }
+
+    const decoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(object)) {
+      decoded[key] = decodeFixtureValue(item);
+    }
+    return decoded;
+  }
+  return value;
+}
@@ -0,0 +1,299 @@
+/**
+ * Testing Types
+ *
+ * Type definitions and defaults for the mock execution engine and the
+ * record/replay transports.
+ *
+ * @module testing/types
+ */
+
+import type { ErrorCode } from '../errors';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default ZMQ ROUTER bind address (a free TCP port on loopback)
+ */
+export const DEFAULT_MOCK_ZMQ_ADDRESS = 'tcp://127.0.0.1:*';
+
+/**
+ * Default maximum age of a signed request's `X-Timestamp` (30 seconds)
+ */
+export const DEFAULT_MAX_TIMESTAMP_SKEW = 30000;
+
+/**
+ * Default number of nonce accounts the mock engine reports per wallet
+ */
+export const DEFAULT_MOCK_NONCE_POOL_SIZE = 4;
+
+/**
+ * Current transport fixture format version
+ */
+export const FIXTURE_VERSION = 1;
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Transport a request arrived on
+ */
+export type MockEngineTransport = 'ZMQ' | 'HTTP';
+
+/**
+ * Kind of request
+ * - `'execute'` — transaction request (`/api/execute`)
+ * - `'wallet'` — `WALLET_*` request (`/api/wallet`, `/api/wallet/*`)
+ * - `'nonce'` — `NONCE_STATUS` or `NONCE_CREATE` request (`/api/nonce/status`, `/api/nonce/create`)
+ * - `'ping'` — failover health check
+ */
+export type MockRequestKind = 'execute' | 'wallet' | 'nonce' | 'ping';
+
+/**
+ * Request received by the mock engine
+ */
+export interface MockRequest {
+  /**
+   * Sequence number, starting at 1
+   */
+  id: number;
+
+  /**
+   * Transport the request arrived on
+   */
+  transport: MockEngineTransport;
+
+  /**
+   * Kind of request
+   */
+  kind: MockRequestKind;
+
+  /**
+   * Decoded request body (MessagePack or JSON)
+   */
+  body: unknown;
+
+  /**
+   * Lower-cased HTTP request headers (empty for ZMQ)
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Whether `X-Signature` / `X-Timestamp` verified against one of the configured `signers`
+   *
+   * Undefined when no signers are configured.
+   */
+  signatureValid?: boolean;
+
+  /**
+   * Signer public key the request was verified against
+   */
+  signer?: string;
+
+  /**
+   * Time the request was received, in milliseconds since the Unix epoch
+   */
+  receivedAt: number;
+}
+
+/**
+ * Produces the response body for a request
+ *
+ * Return `undefined` to fall back to the engine's default response.
+ */
+export type MockRequestHandler = (request: MockRequest) => unknown;
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/**
+ * Options for `MockExecutionEngine`
+ */
+export interface MockEngineOptions {
+  /**
+   * ZMQ ROUTER bind address, or `false` to disable ZMQ
+   * @default 'tcp://127.0.0.1:*'
+   */
+  zmqAddress?: string | false;
+
+  /**
+   * HTTP port (0 picks a free port), or `false` to disable HTTP
+   * @default 0
+   */
+  httpPort?: number | false;
+
+  /**
+   * HTTP interface to bind
+   * @default '127.0.0.1'
+   */
+  httpHost?: string;
+
+  /**
+   * API key HTTP requests must send in `X-API-Key` (any key is accepted when unset)
+   */
+  apiKey?: string;
+
+  /**
+   * Public keys (base58) allowed to sign HTTP requests
+   *
+   * When set, HTTP requests must carry a valid `X-Signature` / `X-Timestamp` pair from
+   * one of these keys and are rejected with 401 otherwise.
+   */
+  signers?: string[];
+
+  /**
+   * Maximum age of a signed request's `X-Timestamp` in milliseconds
+   * @default 30000
+   */
+  maxTimestampSkew?: number;
+
+  /**
+   * Delay before every response in milliseconds
+   * @default 0
+   */
+  latency?: number;
+
+  /**
+   * Nonce accounts reported for a wallet before any are created (all available)
+   * @default 4
+   */
+  noncePoolSize?: number;
+
+  /**
+   * Handler for requests without a queued response
+   */
+  handler?: MockRequestHandler;
+}
+
+/**
+ * Options for `MockExecutionEngine.injectError()`
+ */
+export interface InjectErrorOptions {
+  /**
+   * Number of requests to fail
+   * @default 1
+   */
+  times?: number;
+
+  /**
+   * Error message
+   * @default 'Injected <code>'
+   */
+  message?: string;
+
+  /**
+   * Only fail requests on this transport
+   */
+  transport?: MockEngineTransport;
+}
+
+/**
+ * Addresses the mock engine is reachable on
+ */
+export interface MockEngineAddresses {
+  /**
+   * ZMQ address to pass as the client `address` (e.g. `'tcp://127.0.0.1:49152'`)
+   */
+  zmqAddress?: string;
+
+  /**
+   * HTTP base URL to pass as the client `address` (e.g. `'http://127.0.0.1:49153'`)
+   */
+  httpAddress?: string;
+}
+
+// ============================================================================
+// Record and Replay
+// ============================================================================
+
+/**
+ * Maps a request to the value used to match it during replay
+ *
+ * Receives the request as stored in the fixture (bigints as `{ $bigint }`, bytes as
+ * `{ $bytes }`). Use it to drop fields that change between runs.
+ */
+export type RequestNormalizer = (request: unknown) => unknown;
+
+/**
+ * One recorded `Transport.request()` call
+ */
+export interface FixtureEntry {
+  /**
+   * SHA-256 of the normalized request (informational; replay recomputes it)
+   */
+  hash: string;
+
+  /**
+   * Request message; bigints are stored as `{ $bigint: string }` and bytes
+   * (e.g. `RAW_TRANSACTION` `transactionBytes`) as `{ $bytes: base64 }`
+   */
+  request: unknown;
+
+  /**
+   * Response, encoded like the request
+   */
+  response?: unknown;
+
+  /**
+   * Error the request failed with, instead of a response
+   */
+  error?: {
+    message: string;
+    code: ErrorCode;
+    transport: string;
+  };
+}
+
+/**
+ * Contents of a transport fixture file
+ */
+export interface TransportFixture {
+  /**
+   * Fixture format version
+   */
+  version: number;
+
+  /**
+   * Recorded requests in completion order
+   */
+  entries: FixtureEntry[];
+}
+
+/**
+ * Options for `RecordingTransport`
+ */
+export interface RecordingTransportOptions {
+  /**
+   * Fixture file to write (parent directories are created)
+   */
+  path: string;
+
+  /**
+   * Request normalizer for the stored hashes (default: `normalizeTransactionBytes`)
+   */
+  normalize?: RequestNormalizer;
+}
+
+/**
+ * Options for `ReplayTransport` (`path` or `fixture` is required)
+ */
+export interface ReplayTransportOptions {
+  /**
+   * Fixture file written by `RecordingTransport`
+   */
+  path?: string;
+
+  /**
+   * Fixture contents, instead of a file
+   */
+  fixture?: TransportFixture;
+
+  /**
+   * Request normalizer used to match requests to recorded ones (default:
+   * `normalizeTransactionBytes`)
+   */
+  normalize?: RequestNormalizer;
+}
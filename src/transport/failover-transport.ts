@@ -0,0 +1,336 @@
+import { Transport, FailoverTransportConfig, SigningKeypair } from './transport.interface';
+import { HTTPTransport, isHTTPAddress } from './http-transport';
+import { ZMQTransport } from './zmq-transport';
+import { ExecutionError, ErrorCode, fromUnknownError } from '../errors';
+import type { EndpointHealth } from '../types';
+
+/**
+ * Error codes that indicate an endpoint is unreachable
+ */
+const UNREACHABLE_ERRORS: ReadonlySet<ErrorCode> = new Set([
+  ErrorCode.CONNECTION_ERROR,
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.TIMEOUT,
+]);
+
+/**
+ * Endpoint state tracked by the failover transport
+ */
+interface Endpoint {
+  address: string;
+  transport: Transport;
+  healthy: boolean;
+  latency?: number;
+  consecutiveFailures: number;
+  lastError?: ErrorCode;
+  lastCheckedAt?: Date;
+}
+
+/**
+ * Failover transport across multiple execution engines
+ *
+ * Wraps one ZMQ or HTTP transport per address and routes each request to the
+ * healthiest endpoint. Endpoints are health-checked with `PING` requests in the
+ * background and marked unhealthy when a request fails with CONNECTION_ERROR or TIMEOUT.
+ *
+ * A CONNECTION_ERROR means the request never left the client, so it is resent to the
+ * next endpoint immediately. A TIMEOUT fails the endpoint over for subsequent requests
+ * but is rethrown, since the timed-out request may already have been executed.
+ *
+ * @internal
+ */
+export class FailoverTransport implements Transport {
+  private config: FailoverTransportConfig;
+  private endpoints: Endpoint[];
+  private healthTimer: NodeJS.Timeout | null = null;
+  private healthCheck: Promise<void> | null = null;
+
+  constructor(config: FailoverTransportConfig) {
+    if (config.addresses.length === 0) {
+      throw new ExecutionError(
+        'Failover requires at least one address',
+        ErrorCode.INVALID_REQUEST,
+        'FAILOVER'
+      );
+    }
+
+    this.config = config;
+    this.endpoints = config.addresses.map((address) => ({
+      address,
+      transport: this.createTransport(address),
+      healthy: true,
+      consecutiveFailures: 0,
+    }));
+  }
+
+  /**
+   * Connect every endpoint and start background health checks
+   */
+  connect(): void {
+    for (const endpoint of this.endpoints) {
+      try {
+        endpoint.transport.connect();
+      } catch (error) {
+        this.markUnhealthy(endpoint, fromUnknownError(error, 'FAILOVER'));
+      }
+    }
+
+    if (!this.endpoints.some((endpoint) => endpoint.transport.isConnected())) {
+      throw new ExecutionError(
+        'Failed to connect to any failover endpoint',
+        ErrorCode.CONNECTION_ERROR,
+        'FAILOVER'
+      );
+    }
+
+    if (this.config.healthCheckInterval > 0 && !this.healthTimer) {
+      this.healthTimer = setInterval(() => {
+        void this.checkHealth();
+      }, this.config.healthCheckInterval);
+      this.healthTimer.unref();
+    }
+  }
+
+  /**
+   * Stop health checks and disconnect every endpoint
+   */
+  disconnect(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+
+    for (const endpoint of this.endpoints) {
+      endpoint.transport.disconnect();
+    }
+  }
+
+  /**
+   * Check if any endpoint is connected
+   */
+  isConnected(): boolean {
+    return this.endpoints.some((endpoint) => endpoint.transport.isConnected());
+  }
+
+  /**
+   * Send request to the healthiest endpoint, failing over on connection errors
+   *
+   * @param message - Message to send
+   * @param signingKeypair - Optional keypair for request signing (HTTP endpoints)
+   * @returns Response from server
+   * @throws ExecutionError if every endpoint fails
+   */
+  async request<T>(message: unknown, signingKeypair?: SigningKeypair): Promise<T> {
+    let lastError: ExecutionError | undefined;
+
+    for (const endpoint of this.rankEndpoints()) {
+      try {
+        const response = await endpoint.transport.request<T>(message, signingKeypair);
+        this.markHealthy(endpoint);
+        return response;
+      } catch (error) {
+        const execError =
+          error instanceof ExecutionError ? error : fromUnknownError(error, 'FAILOVER');
+
+        if (!UNREACHABLE_ERRORS.has(execError.code)) {
+          throw execError;
+        }
+
+        this.markUnhealthy(endpoint, execError);
+
+        if (execError.code !== ErrorCode.CONNECTION_ERROR) {
+          throw execError;
+        }
+
+        this.config.logger.warn(
+          `Endpoint ${endpoint.address} unreachable (${execError.code}), failing over`
+        );
+        lastError = execError;
+      }
+    }
+
+    throw (
+      lastError ??
+      new ExecutionError('No failover endpoints available', ErrorCode.CONNECTION_ERROR, 'FAILOVER')
+    );
+  }
+
+  /**
+   * Get total reconnection attempts across endpoints
+   */
+  getReconnectAttempts(): number {
+    return this.endpoints.reduce(
+      (total, endpoint) => total + endpoint.transport.getReconnectAttempts(),
+      0
+    );
+  }
+
+  /**
+   * Reset reconnection counters of every endpoint
+   */
+  resetReconnectAttempts(): void {
+    for (const endpoint of this.endpoints) {
+      endpoint.transport.resetReconnectAttempts();
+    }
+  }
+
+  /**
+   * Ping every endpoint and update its health
+   *
+   * Concurrent calls share the check already in progress.
+   */
+  checkHealth(): Promise<void> {
+    if (!this.healthCheck) {
+      this.healthCheck = Promise.all(this.endpoints.map((endpoint) => this.probe(endpoint)))
+        .then(() => undefined)
+        .finally(() => {
+          this.healthCheck = null;
+        });
+    }
+    return this.healthCheck;
+  }
+
+  /**
+   * Get a health snapshot of every endpoint, in configured order
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    const active = this.rankEndpoints()[0];
+
+    return this.endpoints.map((endpoint) => ({
+      address: endpoint.address,
+      healthy: endpoint.healthy,
+      latency: endpoint.latency,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt,
+      active: endpoint === active,
+    }));
+  }
+
+  /**
+   * Order endpoints for routing: healthy ones by strategy, then unhealthy ones
+   * in configured order as a last resort
+   * @private
+   */
+  private rankEndpoints(): Endpoint[] {
+    const healthy = this.endpoints.filter((endpoint) => endpoint.healthy);
+    const unhealthy = this.endpoints.filter((endpoint) => !endpoint.healthy);
+
+    if (this.config.strategy === 'latency') {
+      // Stable sort keeps configured order for endpoints without a measurement
+      healthy.sort(
+        (a, b) => (a.latency ?? Number.MAX_SAFE_INTEGER) - (b.latency ?? Number.MAX_SAFE_INTEGER)
+      );
+    }
+
+    return [...healthy, ...unhealthy];
+  }
+
+  /**
+   * Ping a single endpoint
+   *
+   * Any response, including an error reply such as UNAUTHORIZED, proves the endpoint is reachable.
+   * @private
+   */
+  private async probe(endpoint: Endpoint): Promise<void> {
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new ExecutionError(
+            `Health check timed out after ${this.config.healthCheckTimeout}ms`,
+            ErrorCode.TIMEOUT,
+            'FAILOVER'
+          )
+        );
+      }, this.config.healthCheckTimeout);
+    });
+
+    try {
+      await Promise.race([endpoint.transport.request({ type: 'PING' }), timeout]);
+      this.markHealthy(endpoint, Date.now() - startTime);
+    } catch (error) {
+      const execError =
+        error instanceof ExecutionError ? error : fromUnknownError(error, 'FAILOVER');
+
+      if (UNREACHABLE_ERRORS.has(execError.code)) {
+        this.markUnhealthy(endpoint, execError);
+      } else {
+        this.markHealthy(endpoint, Date.now() - startTime);
+      }
+    } finally {
+      clearTimeout(timer);
+      endpoint.lastCheckedAt = new Date();
+    }
+  }
+
+  /**
+   * Record a success on an endpoint
+   * @private
+   */
+  private markHealthy(endpoint: Endpoint, latency?: number): void {
+    if (!endpoint.healthy) {
+      this.config.logger.info(`Failover endpoint recovered: ${endpoint.address}`);
+    }
+
+    endpoint.healthy = true;
+    endpoint.consecutiveFailures = 0;
+    if (latency !== undefined) {
+      endpoint.latency = latency;
+    }
+  }
+
+  /**
+   * Record a failure on an endpoint
+   * @private
+   */
+  private markUnhealthy(endpoint: Endpoint, error: ExecutionError): void {
+    if (endpoint.healthy) {
+      this.config.logger.warn(
+        `Failover endpoint unhealthy: ${endpoint.address} (${error.code}: ${error.message})`
+      );
+    }
+
+    endpoint.healthy = false;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error.code;
+  }
+
+  /**
+   * Create the underlying transport for an address
+   * @private
+   */
+  private createTransport(address: string): Transport {
+    const baseConfig = {
+      address,
+      timeout: this.config.timeout,
+      autoReconnect: this.config.autoReconnect,
+      maxReconnectAttempts: this.config.maxReconnectAttempts,
+      reconnectDelay: this.config.reconnectDelay,
+      logger: this.config.logger,
+      verbose: this.config.verbose,
+      tracer: this.config.tracer,
+      onReconnectAttempt: this.config.onReconnectAttempt,
+    };
+
+    if (isHTTPAddress(address)) {
+      if (!this.config.apiKey) {
+        throw new ExecutionError(
+          `API key is required for HTTP failover endpoint: ${address}`,
+          ErrorCode.INVALID_REQUEST,
+          'FAILOVER'
+        );
+      }
+
+      return new HTTPTransport({
+        ...baseConfig,
+        apiKey: this.config.apiKey,
+        contentType: this.config.contentType || 'msgpack',
+      });
+    }
+
+    return new ZMQTransport(baseConfig);
+  }
+}
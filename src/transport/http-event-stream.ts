@@ -0,0 +1,234 @@
+import * as http from 'http';
+import * as https from 'https';
+import { EventStream, HTTPEventStreamConfig } from './transport.interface';
+import { ExecutionError, ErrorCode } from '../errors';
+
+/**
+ * Transaction event stream over HTTP Server-Sent Events
+ *
+ * Opens a long-lived `GET` to the events endpoint and decodes each `data:` field as
+ * a JSON event. When the stream drops it is reopened after `reconnectDelay`, sending
+ * `Last-Event-ID` so the server can replay events missed in between.
+ *
+ * @internal
+ */
+export class HTTPEventStream implements EventStream {
+  private config: HTTPEventStreamConfig;
+  private request: http.ClientRequest | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts: number = 0;
+  private lastEventId?: string;
+  private streaming: boolean = false;
+
+  constructor(config: HTTPEventStreamConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Open the stream and start delivering events
+   */
+  open(): void {
+    if (this.streaming) {
+      return;
+    }
+
+    this.streaming = true;
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  /**
+   * Close the stream and cancel any pending reconnect
+   */
+  close(): void {
+    this.streaming = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.request) {
+      const request = this.request;
+      this.request = null;
+      request.destroy();
+      this.config.logger.debug('Closed HTTP event stream');
+    }
+  }
+
+  /**
+   * Check if the stream is open
+   */
+  isOpen(): boolean {
+    return this.streaming;
+  }
+
+  /**
+   * Send the streaming request
+   */
+  private connect(): void {
+    const url = new URL(this.config.address);
+    if (this.config.signatures.length > 0) {
+      url.searchParams.set('signatures', this.config.signatures.join(','));
+    }
+
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'X-API-Key': this.config.apiKey,
+    };
+    if (this.lastEventId !== undefined) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    this.config.logger.debug(`Opening HTTP event stream: ${url.origin}${url.pathname}`);
+
+    const isHttps = url.protocol === 'https:';
+    const httpModule = isHttps ? https : http;
+    const request = httpModule.request(
+      {
+        hostname: url.hostname,
+        port: url.port || (isHttps ? 443 : 80),
+        path: `${url.pathname}${url.search}`,
+        method: 'GET',
+        headers,
+      },
+      (res) => {
+        if (res.statusCode && res.statusCode >= 400) {
+          res.resume();
+          this.fail(
+            new ExecutionError(
+              `Event stream rejected: HTTP ${res.statusCode}`,
+              res.statusCode === 401
+                ? ErrorCode.UNAUTHORIZED
+                : res.statusCode === 404
+                  ? ErrorCode.NOT_FOUND
+                  : ErrorCode.SERVER_ERROR,
+              'HTTP'
+            ),
+            res.statusCode >= 500
+          );
+          return;
+        }
+
+        this.reconnectAttempts = 0;
+        this.config.logger.info(`HTTP event stream open: ${url.origin}${url.pathname}`);
+
+        let buffer = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          const blocks = buffer.split(/\r?\n\r?\n/);
+          buffer = blocks.pop() ?? '';
+          for (const block of blocks) {
+            this.dispatch(block);
+          }
+        });
+        res.on('end', () => {
+          if (this.request === request) {
+            this.fail(
+              new ExecutionError('Event stream ended', ErrorCode.CONNECTION_ERROR, 'HTTP'),
+              true
+            );
+          }
+        });
+      }
+    );
+
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      if (this.request !== request) {
+        return;
+      }
+      this.fail(
+        new ExecutionError(
+          `Event stream error: ${error.message}`,
+          error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND'
+            ? ErrorCode.CONNECTION_ERROR
+            : ErrorCode.NETWORK_ERROR,
+          'HTTP',
+          error
+        ),
+        true
+      );
+    });
+
+    this.request = request;
+    request.end();
+  }
+
+  /**
+   * Decode one Server-Sent Events block
+   */
+  private dispatch(block: string): void {
+    const data: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line === '' || line.startsWith(':')) {
+        continue;
+      }
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'data') {
+        data.push(value);
+      } else if (field === 'id') {
+        this.lastEventId = value;
+      }
+    }
+
+    if (data.length === 0) {
+      return;
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(data.join('\n'));
+    } catch (error) {
+      this.config.logger.warn(
+        `Discarding undecodable event: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+
+    this.config.logger.debug('Received event', this.config.verbose ? event : undefined);
+    this.config.onEvent(event);
+  }
+
+  /**
+   * Reconnect after a dropped stream, or close and report the error
+   */
+  private fail(error: ExecutionError, retryable: boolean): void {
+    if (this.request) {
+      const request = this.request;
+      this.request = null;
+      request.destroy();
+    }
+
+    if (!this.streaming) {
+      return;
+    }
+
+    if (
+      retryable &&
+      this.config.autoReconnect &&
+      this.reconnectAttempts < this.config.maxReconnectAttempts
+    ) {
+      this.reconnectAttempts++;
+      this.config.logger.warn(
+        `${error.message}. Reconnecting in ${this.config.reconnectDelay}ms (attempt ${this.reconnectAttempts}/${this.config.maxReconnectAttempts})`
+      );
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.streaming) {
+          this.connect();
+        }
+      }, this.config.reconnectDelay);
+      return;
+    }
+
+    this.config.logger.error(error.message);
+    this.close();
+    this.config.onError(error);
+  }
+}
@@ -5,6 +5,37 @@ import nacl from 'tweetnacl';
 import { Transport, HTTPTransportConfig, SigningKeypair } from './transport.interface';
 import { ExecutionError, ErrorCode, fromUnknownError } from '../errors';
 import { base58Encode } from '../utils/base58';
+import { stringifyJson } from '../utils/amount';
+import type { TracingSpan } from '../types';
+import {
+  withSpan,
+  requestSpanAttributes,
+  recordResponse,
+  SPAN_ATTRIBUTES,
+  SPAN_KIND,
+} from '../utils/tracing';
+
+/**
+ * Detect HTTP transport from URL scheme
+ * @internal
+ */
+export function isHTTPAddress(address: string): boolean {
+  return address.startsWith('http://') || address.startsWith('https://');
+}
+
+/**
+ * Endpoints of typed messages; transaction requests go to `/api/execute`
+ */
+const MESSAGE_ENDPOINTS: Readonly<Record<string, string>> = {
+  WALLET_CREATE: '/api/wallet',
+  WALLET_LIST: '/api/wallet/list',
+  WALLET_BALANCE: '/api/wallet/balance',
+  WALLET_EXPORT: '/api/wallet/export',
+  WALLET_ROTATE: '/api/wallet/rotate',
+  WALLET_DELETE: '/api/wallet/delete',
+  NONCE_STATUS: '/api/nonce/status',
+  NONCE_CREATE: '/api/nonce/create',
+};
 
 /**
  * HTTP transport layer with keep-alive connections
@@ -76,6 +107,23 @@ export class HTTPTransport implements Transport {
    * Send request and wait for response
    */
   async request<T>(message: unknown, signingKeypair?: SigningKeypair): Promise<T> {
+    return withSpan(
+      this.config.tracer,
+      'transport.request',
+      requestSpanAttributes('HTTP', this.config.address, message),
+      (span) => this.sendRequest<T>(message, signingKeypair, span),
+      SPAN_KIND.CLIENT
+    );
+  }
+
+  /**
+   * Serialize and POST a request
+   */
+  private async sendRequest<T>(
+    message: unknown,
+    signingKeypair?: SigningKeypair,
+    span?: TracingSpan
+  ): Promise<T> {
     if (!this.connected) {
       if (this.config.autoReconnect) {
         this.connect();
@@ -89,8 +137,8 @@ export class HTTPTransport implements Transport {
     }
 
     // Determine endpoint based on message type
-    const isWalletCreate = (message as { type?: string }).type === 'WALLET_CREATE';
-    const endpoint = isWalletCreate ? '/api/wallet' : '/api/execute';
+    const type = (message as { type?: string }).type;
+    const endpoint = (type && MESSAGE_ENDPOINTS[type]) || '/api/execute';
 
     // Prepare request body based on content type
     const useMessagePack = this.config.contentType === 'msgpack';
@@ -100,8 +148,9 @@ export class HTTPTransport implements Transport {
     if (useMessagePack) {
       body = pack(message);
     } else {
-      body = Buffer.from(JSON.stringify(message));
+      body = Buffer.from(stringifyJson(message));
     }
+    span?.setAttribute(SPAN_ATTRIBUTES.PAYLOAD_SIZE, body.length);
 
     this.config.logger.debug(
       `Sending ${contentType} request (${body.length} bytes) to ${endpoint}`,
@@ -110,6 +159,7 @@ export class HTTPTransport implements Transport {
 
     try {
       const response = await this.makeRequest(endpoint, body, contentType, signingKeypair);
+      recordResponse(span, response);
       this.config.logger.debug('Received response', this.config.verbose ? response : undefined);
       return response as T;
     } catch (error) {
@@ -275,6 +325,7 @@ export class HTTPTransport implements Transport {
       setTimeout(() => {
         try {
           this.reconnectAttempts++;
+          this.config.onReconnectAttempt?.();
           this.connect();
         } catch (error) {
           this.config.logger.error(
@@ -1,3 +1,6 @@
+import type { FailoverConfig, Tracer } from '../types';
+import type { ExecutionError } from '../errors';
+
 /**
  * Transport interface for client-server communication
  * Both ZMQ and HTTP transports implement this interface
@@ -47,6 +50,11 @@ export interface BaseTransportConfig {
   reconnectDelay: number;
   logger: TransportLogger;
   verbose?: boolean;
+  tracer?: Tracer;
+  /**
+   * Called on every reconnection attempt
+   */
+  onReconnectAttempt?: () => void;
 }
 
 /**
@@ -66,6 +74,64 @@ export interface HTTPTransportConfig extends BaseTransportConfig {
   contentType?: 'json' | 'msgpack';
 }
 
+/**
+ * Failover transport configuration
+ */
+export interface FailoverTransportConfig
+  extends Omit<BaseTransportConfig, 'address'>, Required<Omit<FailoverConfig, 'addresses'>> {
+  addresses: string[];
+  apiKey?: string;
+  contentType?: 'json' | 'msgpack';
+}
+
+/**
+ * Subscription to the execution engine's transaction event stream
+ * @internal
+ */
+export interface EventStream {
+  /**
+   * Open the socket or stream and start delivering events
+   */
+  open(): void;
+
+  /**
+   * Close the socket or stream (no further events or errors are delivered)
+   */
+  close(): void;
+
+  /**
+   * Check if the stream is open
+   */
+  isOpen(): boolean;
+}
+
+/**
+ * Common event stream configuration
+ */
+export interface EventStreamConfig extends Omit<BaseTransportConfig, 'timeout'> {
+  /**
+   * Signatures to subscribe to (all signatures when empty)
+   */
+  signatures: string[];
+
+  /**
+   * Called with every decoded event payload
+   */
+  onEvent: (event: unknown) => void;
+
+  /**
+   * Called once when the stream fails and will not reconnect
+   */
+  onError: (error: ExecutionError) => void;
+}
+
+/**
+ * HTTP (Server-Sent Events) event stream configuration
+ */
+export interface HTTPEventStreamConfig extends EventStreamConfig {
+  apiKey: string;
+}
+
 /**
  * Logger interface for transports
  */
@@ -0,0 +1,133 @@
+import * as zmq from 'zeromq';
+import { unpack } from 'msgpackr';
+import { EventStream, EventStreamConfig } from './transport.interface';
+import { ExecutionError, ErrorCode } from '../errors';
+
+/**
+ * Transaction event stream over a ZeroMQ Subscriber socket
+ *
+ * The execution engine publishes multipart messages `[signature, payload]` where the
+ * payload is a MessagePack-encoded event. Subscribing to signature topics lets the
+ * engine's PUB socket drop events for other transactions before they are sent.
+ * ZeroMQ re-establishes dropped connections on its own, so the stream only fails
+ * when the socket itself errors.
+ *
+ * @internal
+ */
+export class ZMQEventStream implements EventStream {
+  private socket: zmq.Subscriber | null = null;
+  private config: EventStreamConfig;
+
+  constructor(config: EventStreamConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Connect the Subscriber socket and start receiving events
+   */
+  open(): void {
+    if (this.socket) {
+      return;
+    }
+
+    try {
+      this.config.logger.debug(`Subscribing to ZMQ event stream: ${this.config.address}`);
+
+      const socket = new zmq.Subscriber({
+        linger: 0,
+        reconnectInterval: this.config.reconnectDelay,
+      });
+      socket.connect(this.config.address);
+
+      if (this.config.signatures.length === 0) {
+        socket.subscribe();
+      } else {
+        socket.subscribe(...this.config.signatures);
+      }
+
+      this.socket = socket;
+      void this.receiveLoop(socket);
+    } catch (error) {
+      throw new ExecutionError(
+        `Failed to connect to ZMQ event stream: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCode.CONNECTION_ERROR,
+        'ZMQ',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Close the Subscriber socket
+   */
+  close(): void {
+    if (!this.socket) {
+      return;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+
+    try {
+      socket.close();
+      this.config.logger.debug('Closed ZMQ event stream');
+    } catch (error) {
+      this.config.logger.warn(
+        `Error closing ZMQ event stream: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Check if the stream is open
+   */
+  isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  /**
+   * Receive and decode events until the socket is closed
+   */
+  private async receiveLoop(socket: zmq.Subscriber): Promise<void> {
+    while (this.socket === socket) {
+      let frames: Buffer[];
+      try {
+        frames = await socket.receive();
+      } catch (error) {
+        // Closed by close()
+        if (this.socket !== socket) {
+          return;
+        }
+
+        this.close();
+        this.config.onError(
+          new ExecutionError(
+            `Event stream error: ${error instanceof Error ? error.message : String(error)}`,
+            ErrorCode.NETWORK_ERROR,
+            'ZMQ',
+            error instanceof Error ? error : undefined
+          )
+        );
+        return;
+      }
+
+      const payload = frames[frames.length - 1];
+      if (!payload) {
+        continue;
+      }
+
+      let event: unknown;
+      try {
+        event = unpack(payload);
+      } catch (error) {
+        this.config.logger.warn(
+          `Discarding undecodable event: ${error instanceof Error ? error.message : String(error)}`
+        );
+        continue;
+      }
+
+      this.config.logger.debug('Received event', this.config.verbose ? event : undefined);
+      this.config.onEvent(event);
+    }
+  }
+}
@@ -2,13 +2,37 @@ import * as zmq from 'zeromq';
 import { pack, unpack } from 'msgpackr';
 import { Transport, BaseTransportConfig, SigningKeypair } from './transport.interface';
 import { ExecutionError, ErrorCode, fromUnknownError } from '../errors';
+import type { TracingSpan } from '../types';
+import {
+  withSpan,
+  requestSpanAttributes,
+  recordResponse,
+  SPAN_ATTRIBUTES,
+  SPAN_KIND,
+} from '../utils/tracing';
+
+/**
+ * Pending request awaiting its correlated response
+ */
+interface PendingRequest {
+  resolve: (data: Buffer) => void;
+  reject: (error: ExecutionError) => void;
+  timer?: NodeJS.Timeout;
+  deadline?: number;
+}
 
 /**
  * ZeroMQ transport layer with MessagePack serialization
  *
- * Handles communication with the Solana Execution Engine via ZeroMQ Request-Reply pattern.
+ * Handles communication with the Solana Execution Engine via ZeroMQ Dealer socket.
  * Uses MessagePack for binary serialization (2-3x faster than JSON).
  *
+ * Every request carries a request-ID envelope frame (`[empty, requestId, payload]`) which
+ * the engine echoes back. A single background receive loop dispatches responses to the
+ * matching pending request, so concurrent `request()` calls never receive each other's
+ * responses. The loop only runs while requests are in flight, and timeouts are tracked
+ * per request without tearing down the socket.
+ *
  * @internal
  */
 export class ZMQTransport implements Transport {
@@ -18,6 +42,10 @@ export class ZMQTransport implements Transport {
   private connecting: boolean = false;
   private reconnectAttempts: number = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextRequestId: number = 0;
+  private sendQueue: Promise<void> = Promise.resolve();
+  private receiving: boolean = false;
 
   constructor(config: BaseTransportConfig) {
     this.config = config;
@@ -36,16 +64,23 @@ export class ZMQTransport implements Transport {
     try {
       this.config.logger.debug(`Connecting to ZMQ socket: ${this.config.address}`);
 
-      // Create new Request socket
-      this.socket = new zmq.Dealer({
+      // Create new Dealer socket (request timeouts are tracked per request; the
+      // receive timeout is adjusted by the receive loop before every wait)
+      const socket = new zmq.Dealer({
         sendTimeout: this.config.timeout,
         receiveTimeout: this.config.timeout,
         linger: 0, // Don't wait for pending messages on close
+        // Only queue messages on established connections, so a request that failed
+        // while the engine was unreachable is never delivered once it comes up
+        immediate: true,
       });
 
       // Connect to server
-      this.socket.connect(this.config.address);
+      socket.connect(this.config.address);
 
+      this.socket = socket;
+      this.sendQueue = Promise.resolve();
+      this.receiving = false;
       this.connected = true;
       this.connecting = false;
       this.reconnectAttempts = 0;
@@ -78,18 +113,23 @@ export class ZMQTransport implements Transport {
     }
 
     if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+
       try {
-        this.socket.close();
+        socket.close();
         this.config.logger.info('Disconnected from ZMQ socket');
       } catch (error) {
         this.config.logger.warn(
           `Error during disconnect: ${error instanceof Error ? error.message : String(error)}`
         );
       }
-
-      this.socket = null;
     }
 
+    this.rejectAllPending(
+      new ExecutionError('ZMQ socket closed before response', ErrorCode.CONNECTION_ERROR, 'ZMQ')
+    );
+
     this.connected = false;
     this.connecting = false;
   }
@@ -101,14 +141,37 @@ export class ZMQTransport implements Transport {
     return this.connected;
   }
 
+  /**
+   * Get number of requests currently awaiting a response
+   */
+  getInFlightCount(): number {
+    return this.pending.size;
+  }
+
   /**
    * Send request and wait for response
    *
+   * Safe to call concurrently: each request is tagged with a unique request ID and
+   * resolved only by the response carrying the same ID.
+   *
    * @param message - Message to send (will be MessagePack encoded)
    * @returns Response (MessagePack decoded)
    * @throws ExecutionError on timeout, network error, or serialization error
    */
   async request<T>(message: unknown, _signingKeypair?: SigningKeypair): Promise<T> {
+    return withSpan(
+      this.config.tracer,
+      'transport.request',
+      requestSpanAttributes('ZMQ', this.config.address, message),
+      (span) => this.sendRequest<T>(message, span),
+      SPAN_KIND.CLIENT
+    );
+  }
+
+  /**
+   * Send a request on the socket and await its correlated response
+   */
+  private async sendRequest<T>(message: unknown, span?: TracingSpan): Promise<T> {
     if (!this.connected || !this.socket) {
       if (this.config.autoReconnect) {
         this.reconnect();
@@ -117,49 +180,65 @@ export class ZMQTransport implements Transport {
       }
     }
 
+    const socket = this.socket;
+    if (!socket) {
+      throw new ExecutionError('Not connected to ZMQ socket', ErrorCode.CONNECTION_ERROR, 'ZMQ');
+    }
+
+    const requestId = String(++this.nextRequestId);
+
     try {
       // Serialize message with MessagePack
       const serialized = pack(message);
+      span?.setAttribute(SPAN_ATTRIBUTES.PAYLOAD_SIZE, serialized.length);
       this.config.logger.debug(
-        `Sending MessagePack request (${serialized.length} bytes)`,
+        `Sending MessagePack request ${requestId} (${serialized.length} bytes)`,
         this.config.verbose ? message : undefined
       );
 
-      // Send request
-      await this.socket!.send([Buffer.alloc(0), serialized]);
+      // Register before sending so a fast response cannot be missed
+      const responsePromise = this.registerPending(requestId);
+      // May be rejected by disconnect() while the send is still in progress
+      responsePromise.catch(() => undefined);
 
-      // Wait for response with timeout
-      const responseBuffer = await Promise.race([
-        this.socket!.receive().then(([, data]) => data),
-        this.createTimeoutPromise(),
-      ]);
+      try {
+        await this.enqueueSend(socket, [Buffer.alloc(0), Buffer.from(requestId), serialized]);
+      } catch (error) {
+        this.discardPending(requestId);
+        // Sends time out with EAGAIN while no connection to the engine is established
+        if ((error as { code?: string }).code === 'EAGAIN') {
+          throw new ExecutionError(
+            `Execution engine not reachable at ${this.config.address}`,
+            ErrorCode.CONNECTION_ERROR,
+            'ZMQ',
+            error instanceof Error ? error : undefined
+          );
+        }
+        throw error;
+      }
+
+      // Sends are bounded by the socket send timeout; the response by a per-request timer
+      this.armTimeout(requestId);
+      this.ensureReceiveLoop(socket);
+
+      const responseBuffer = await responsePromise;
 
       // Deserialize response
-      const response = unpack(responseBuffer!) as T;
+      const response = unpack(responseBuffer) as T;
+      recordResponse(span, response);
       this.config.logger.debug(
-        'Received MessagePack response',
+        `Received MessagePack response ${requestId}`,
         this.config.verbose ? response : undefined
       );
 
       return response;
     } catch (error) {
-      // Handle timeout
-      if (error instanceof Error && error.message.includes('timeout')) {
-        const timeoutError = new ExecutionError(
-          `Request timeout after ${this.config.timeout}ms`,
-          ErrorCode.TIMEOUT,
-          'ZMQ',
-          error
-        );
-
-        this.config.logger.error(timeoutError.message);
-
-        // Trigger reconnect if auto-reconnect is enabled
-        if (this.config.autoReconnect) {
-          this.handleConnectionLoss();
+      // Per-request timeouts and socket closure are already ExecutionErrors
+      if (error instanceof ExecutionError) {
+        if (error.code === ErrorCode.TIMEOUT) {
+          this.config.logger.error(error.message);
         }
-
-        throw timeoutError;
+        throw error;
       }
 
       // Handle serialization errors
@@ -205,16 +284,182 @@ export class ZMQTransport implements Transport {
   }
 
   /**
-   * Create a timeout promise that rejects after configured timeout
+   * Register a pending request awaiting its response
    */
-  private createTimeoutPromise(): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Request timeout after ${this.config.timeout}ms`));
-      }, this.config.timeout);
+  private registerPending(requestId: string): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
     });
   }
 
+  /**
+   * Start the response timeout for a pending request
+   */
+  private armTimeout(requestId: string): void {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return;
+    }
+
+    entry.deadline = Date.now() + this.config.timeout;
+    entry.timer = setTimeout(() => {
+      this.pending.delete(requestId);
+      entry.reject(
+        new ExecutionError(
+          `Request timeout after ${this.config.timeout}ms`,
+          ErrorCode.TIMEOUT,
+          'ZMQ'
+        )
+      );
+    }, this.config.timeout);
+  }
+
+  /**
+   * Drop a pending request without settling it (used when the send itself failed)
+   */
+  private discardPending(requestId: string): void {
+    const entry = this.pending.get(requestId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(requestId);
+    }
+  }
+
+  /**
+   * Reject every pending request (socket closed or receive loop failed)
+   */
+  private rejectAllPending(error: ExecutionError): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Serialize sends - a ZMQ socket allows only one send operation in progress at a time
+   */
+  private enqueueSend(socket: zmq.Dealer, frames: Buffer[]): Promise<void> {
+    const sent = this.sendQueue.then(() => socket.send(frames));
+    this.sendQueue = sent.catch(() => undefined);
+    return sent;
+  }
+
+  /**
+   * Start the receive loop unless it is already running
+   */
+  private ensureReceiveLoop(socket: zmq.Dealer): void {
+    if (this.receiving || this.socket !== socket) {
+      return;
+    }
+
+    this.receiving = true;
+    void this.receiveLoop(socket);
+  }
+
+  /**
+   * Time until the last in-flight request expires, or undefined if none is awaiting a response
+   */
+  private receiveWaitMs(): number | undefined {
+    let latest: number | undefined;
+    for (const entry of this.pending.values()) {
+      if (entry.deadline !== undefined && (latest === undefined || entry.deadline > latest)) {
+        latest = entry.deadline;
+      }
+    }
+    return latest === undefined ? undefined : Math.max(1, latest - Date.now());
+  }
+
+  /**
+   * Receive responses and dispatch them by request ID until no request is in flight
+   *
+   * Only one receive is ever outstanding per socket, and it never outlives the in-flight
+   * requests. Exits early once the socket is replaced or closed.
+   *
+   * The `receiving` flag is cleared synchronously on exit, so a request whose send
+   * completes right after the last wait check still starts a new loop.
+   */
+  private async receiveLoop(socket: zmq.Dealer): Promise<void> {
+    try {
+      while (this.socket === socket) {
+        const waitMs = this.receiveWaitMs();
+        if (waitMs === undefined) {
+          return;
+        }
+
+        let frames: Buffer[];
+        try {
+          socket.receiveTimeout = waitMs;
+          frames = await socket.receive();
+        } catch (error) {
+          // Socket was closed or replaced - pending requests are handled by disconnect()
+          if (this.socket !== socket) {
+            return;
+          }
+
+          // Nothing arrived in time - in-flight requests expire on their own timers
+          if ((error as { code?: string }).code === 'EAGAIN') {
+            continue;
+          }
+
+          const networkError = new ExecutionError(
+            `Network error: ${error instanceof Error ? error.message : String(error)}`,
+            ErrorCode.NETWORK_ERROR,
+            'ZMQ',
+            error instanceof Error ? error : undefined
+          );
+
+          this.config.logger.error(networkError.message);
+          this.rejectAllPending(networkError);
+
+          if (this.config.autoReconnect) {
+            this.handleConnectionLoss();
+          }
+          return;
+        }
+
+        this.dispatch(frames);
+      }
+    } finally {
+      if (this.socket === socket) {
+        this.receiving = false;
+      }
+    }
+  }
+
+  /**
+   * Route a received multipart message to its pending request
+   *
+   * Expected frames: `[empty, requestId, payload]`. Replies without a request-ID frame
+   * (`[empty, payload]`, legacy engines) are matched to the oldest pending request.
+   */
+  private dispatch(frames: Buffer[]): void {
+    const parts = frames.length > 0 && frames[0]?.length === 0 ? frames.slice(1) : frames;
+
+    let requestId: string | undefined;
+    let payload: Buffer | undefined;
+
+    if (parts.length >= 2) {
+      requestId = parts[0]?.toString();
+      payload = parts[parts.length - 1];
+    } else {
+      requestId = this.pending.keys().next().value as string | undefined;
+      payload = parts[0];
+    }
+
+    const entry = requestId !== undefined ? this.pending.get(requestId) : undefined;
+    if (!entry || !payload) {
+      this.config.logger.debug(
+        `Discarding response for unknown or expired request ${requestId ?? '(none)'}`
+      );
+      return;
+    }
+
+    clearTimeout(entry.timer);
+    this.pending.delete(requestId as string);
+    entry.resolve(payload);
+  }
+
   /**
    * Handle connection loss and trigger reconnect
    */
@@ -247,6 +492,7 @@ export class ZMQTransport implements Transport {
     }
 
     this.reconnectAttempts++;
+    this.config.onReconnectAttempt?.();
 
     // Disconnect existing socket
     this.disconnect();
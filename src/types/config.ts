@@ -1,4 +1,9 @@
 import type { Connection, Commitment } from '@solana/web3.js';
+import type { ErrorCode, ExecutionError } from '../errors';
+import type { TransportMode } from './transport';
+import type { BroadcastResult } from './responses';
+import type { Tracer } from './tracing';
+import type { Transport } from '../transport/transport.interface';
 
 /**
  * Configuration options for LYS Flash
@@ -16,6 +21,31 @@ export interface ClientConfig {
    */
   address?: string;
 
+  /**
+   * Failover across multiple execution engines
+   * When set, requests are routed to the healthiest of `failover.addresses` and `address` is ignored.
+   * @example
+   * ```typescript
+   * const client = new LysFlash({
+   *   apiKey: 'sk_live_abc123',
+   *   failover: {
+   *     addresses: ['https://eu.example.com', 'https://us.example.com', 'ipc:///tmp/tx-executor.ipc'],
+   *   },
+   * });
+   * ```
+   */
+  failover?: FailoverConfig;
+
+  /**
+   * Address of the execution engine's transaction event stream, used by `subscribe()`
+   * - tcp:// or ipc:// → ZMQ PUB socket
+   * - http:// or https:// → Server-Sent Events endpoint
+   * Required for ZMQ and failover clients. HTTP clients default to `/api/events` on `address`.
+   * @example "tcp://127.0.0.1:5556"
+   * @example "https://api.example.com/api/events"
+   */
+  eventsAddress?: string;
+
   /**
    * Solana RPC connection for DEX operations (Meteora, Raydium, etc.)
    * Required when using DEX namespace methods that build transactions client-side.
@@ -31,6 +61,21 @@ export interface ClientConfig {
    */
   connection?: Connection;
 
+  /**
+   * Solana cluster of `connection`
+   * Selects the program IDs and SDK cluster used by the Meteora and Raydium integrations.
+   * @default 'mainnet'
+   * @example
+   * ```typescript
+   * const client = new LysFlash({
+   *   address: 'ipc:///tmp/tx-executor.ipc',
+   *   connection: new Connection('https://api.devnet.solana.com'),
+   *   cluster: 'devnet',
+   * });
+   * ```
+   */
+  cluster?: SolanaCluster;
+
   /**
    * Commitment level for RPC requests (used with connection)
    * @default 'confirmed'
@@ -78,6 +123,77 @@ export interface ClientConfig {
    */
   reconnectDelay?: number;
 
+  /**
+   * Retry policy for `execute()` and `createWallet()`
+   * Applies to both HTTP and ZMQ transports. When omitted, each request is attempted once.
+   * @example
+   * ```typescript
+   * const client = new LysFlash({
+   *   address: 'tcp://127.0.0.1:5555',
+   *   retryPolicy: { maxAttempts: 3, initialDelay: 100, maxDelay: 1000 },
+   * });
+   * ```
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Wait for a free durable nonce in `execute()` instead of failing
+   *
+   * When the engine reports `NONCE_POOL_EXHAUSTED` for a FLASH request, the client polls
+   * the fee payer's nonce pool and resends the request once a nonce is available, for up
+   * to `maxWait` milliseconds. `true` uses the defaults.
+   * @default undefined (exhaustion is returned immediately)
+   * @example
+   * ```typescript
+   * const client = new LysFlash({ nonceBackpressure: { maxWait: 5000 } });
+   * ```
+   */
+  nonceBackpressure?: boolean | NonceBackpressureConfig;
+
+  /**
+   * Raydium SDK instance and pool-state caching (used when `connection` is set)
+   * The cache belongs to this client. Raydium instances are cached per owner; pool
+   * info is cached only when `poolTtl` is set.
+   * @example
+   * ```typescript
+   * const client = new LysFlash({
+   *   connection,
+   *   raydiumCache: { poolTtl: 500 },
+   * });
+   * ```
+   */
+  raydiumCache?: RaydiumCacheConfig;
+
+  /**
+   * Rolling window for latency percentiles in `getStats().latency`, in milliseconds
+   * @default 60000 (1 minute)
+   */
+  latencyWindow?: number;
+
+  /**
+   * OpenTelemetry-compatible tracer for request spans
+   *
+   * When set, `TransactionBuilder.send()`, DEX namespace methods and transport requests
+   * are wrapped in spans. `@opentelemetry/api` is not a dependency: pass
+   * `trace.getTracer('lys-flash')` from your own installation.
+   * @default undefined (tracing disabled)
+   */
+  tracer?: Tracer;
+
+  /**
+   * Wrap the transport created from `address` or `failover`
+   *
+   * The returned transport handles every request. Used by `RecordingTransport` and
+   * `ReplayTransport`.
+   * @example
+   * ```typescript
+   * const client = new LysFlash({
+   *   wrapTransport: (transport) => new RecordingTransport(transport, { path: 'fixture.json' }),
+   * });
+   * ```
+   */
+  wrapTransport?: (transport: Transport) => Transport;
+
   /**
    * Custom logger for debugging
    * @default console
@@ -91,6 +207,190 @@ export interface ClientConfig {
   verbose?: boolean;
 }
 
+/**
+ * Solana cluster targeted by DEX integrations
+ */
+export type SolanaCluster = 'mainnet' | 'devnet';
+
+/**
+ * Raydium cache configuration
+ */
+export interface RaydiumCacheConfig {
+  /**
+   * Enable caching. When disabled, every call loads a fresh Raydium instance and pool info.
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Time-to-live of cached pool info in milliseconds (0 disables pool caching)
+   * @default 0
+   */
+  poolTtl?: number;
+
+  /**
+   * Number of owners whose Raydium instances are kept (least recently used are evicted)
+   * @default 16
+   */
+  maxOwners?: number;
+}
+
+/**
+ * Endpoint selection strategy for failover
+ * - `'priority'` — first healthy address in list order
+ * - `'latency'` — healthy address with the lowest health-check round trip
+ */
+export type FailoverStrategy = 'priority' | 'latency';
+
+/**
+ * Failover configuration
+ */
+export interface FailoverConfig {
+  /**
+   * Ordered list of server addresses (ZMQ and HTTP may be mixed)
+   */
+  addresses: string[];
+
+  /**
+   * Endpoint selection strategy
+   * @default 'priority'
+   */
+  strategy?: FailoverStrategy;
+
+  /**
+   * Interval between background health checks in milliseconds (0 disables them)
+   * @default 10000
+   */
+  healthCheckInterval?: number;
+
+  /**
+   * Timeout for a single health-check ping in milliseconds
+   * @default 2000
+   */
+  healthCheckTimeout?: number;
+}
+
+/**
+ * Health snapshot of a failover endpoint
+ */
+export interface EndpointHealth {
+  /**
+   * Server address
+   */
+  address: string;
+
+  /**
+   * Whether the endpoint passed its last health check or request
+   */
+  healthy: boolean;
+
+  /**
+   * Round trip of the last successful health check in milliseconds
+   */
+  latency?: number;
+
+  /**
+   * Failures since the last success
+   */
+  consecutiveFailures: number;
+
+  /**
+   * Error code of the last failure
+   */
+  lastError?: string;
+
+  /**
+   * Timestamp of the last health check
+   */
+  lastCheckedAt?: Date;
+
+  /**
+   * Whether requests are currently routed to this endpoint
+   */
+  active: boolean;
+}
+
+/**
+ * Retry policy with exponential backoff
+ *
+ * The delay before retry `n` (1-based) is `initialDelay * backoffMultiplier^(n - 1)`,
+ * capped at `maxDelay` and randomized by `jitter`.
+ *
+ * Errors raised after the request may already have reached the execution engine
+ * (TIMEOUT, NETWORK_ERROR, SERVER_ERROR) are not retried unless `retryPossiblyDelivered`
+ * is set, so a transaction that may have landed is never sent twice.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds
+   * @default 100
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for the backoff delay in milliseconds
+   * @default 2000
+   */
+  maxDelay?: number;
+
+  /**
+   * Factor applied to the delay after each retry
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Random jitter as a fraction of the delay (0 = none, 0.2 = ±20%)
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Error codes eligible for retry
+   * @default [CONNECTION_ERROR, NETWORK_ERROR, TIMEOUT]
+   */
+  retryableErrors?: ErrorCode[];
+
+  /**
+   * Also retry errors where the request may already have been delivered.
+   * Only enable this when duplicate submissions are harmless (e.g. durable nonce transactions).
+   * @default false
+   */
+  retryPossiblyDelivered?: boolean;
+
+  /**
+   * Custom predicate that overrides the built-in retry decision
+   *
+   * @param error - Error raised by the failed attempt
+   * @param attempt - Number of the failed attempt (1-based)
+   * @returns true to retry
+   */
+  shouldRetry?: (error: ExecutionError, attempt: number) => boolean;
+}
+
+/**
+ * Nonce pool backpressure for `execute()`
+ */
+export interface NonceBackpressureConfig {
+  /**
+   * Longest time to wait for a free nonce in milliseconds
+   * @default 10000 (10 seconds)
+   */
+  maxWait?: number;
+
+  /**
+   * Delay between nonce pool status checks in milliseconds
+   * @default 100
+   */
+  pollInterval?: number;
+}
+
 /**
  * Logger interface for custom logging implementations
  */
@@ -126,6 +426,16 @@ export interface ClientStats {
    */
   averageLatency: number;
 
+  /**
+   * Latency percentiles over the rolling `latencyWindow`
+   * @example
+   * ```typescript
+   * const { latency } = client.getStats();
+   * console.log(`p99 ${latency.overall.p99}ms, FLASH p99 ${latency.byTransport.FLASH?.p99}ms`);
+   * ```
+   */
+  latency: LatencyStats;
+
   /**
    * Whether the client is currently connected
    */
@@ -140,6 +450,193 @@ export interface ClientStats {
    * Number of reconnection attempts made
    */
   reconnectAttempts: number;
+
+  /**
+   * Total number of transport attempts, including retries
+   */
+  totalAttempts: number;
+
+  /**
+   * Number of retry attempts made (attempts beyond the first)
+   */
+  retryAttempts: number;
+
+  /**
+   * Number of requests that needed at least one retry
+   */
+  requestsRetried: number;
+
+  /**
+   * Failed requests by `ErrorCode` (error responses count as `EXECUTION_FAILED`)
+   */
+  errors: Record<string, number>;
+
+  /**
+   * Broadcast statistics per endpoint, aggregated from FLASH responses
+   * @example
+   * ```typescript
+   * for (const [endpoint, stats] of Object.entries(client.getStats().broadcasts)) {
+   *   console.log(endpoint, `${(stats.winRate * 100).toFixed(1)}% landed`);
+   * }
+   * ```
+   */
+  broadcasts: Record<string, BroadcastEndpointStats>;
+}
+
+/**
+ * Completed request reported to `client.onRequestComplete()` listeners
+ */
+export interface RequestRecord {
+  /**
+   * Client method that sent the request
+   */
+  method: 'execute' | 'createWallet';
+
+  /**
+   * Round trip in milliseconds, including retries
+   */
+  latency: number;
+
+  /**
+   * Whether the request returned a successful response
+   */
+  success: boolean;
+
+  /**
+   * Transport mode of an `execute()` request (NONCE is reported as FLASH)
+   */
+  transport?: TransportMode;
+
+  /**
+   * Execution types in the request (`WALLET_CREATE` for `createWallet()`)
+   */
+  executionTypes: string[];
+
+  /**
+   * Error code of a failed request (`EXECUTION_FAILED` for error responses)
+   */
+  errorCode?: ErrorCode;
+
+  /**
+   * Retry attempts made for the request
+   */
+  retries: number;
+
+  /**
+   * Per-endpoint results of a FLASH response
+   */
+  broadcasts?: BroadcastResult[];
+
+  /**
+   * Whether client-side validation rejected the request before it was sent
+   *
+   * Rejected requests have a latency of 0 and are left out of latency statistics.
+   */
+  rejected?: boolean;
+}
+
+/**
+ * Latency distribution of a set of requests
+ */
+export interface LatencySummary {
+  /**
+   * Number of requests
+   */
+  count: number;
+
+  /**
+   * Mean latency in milliseconds
+   */
+  mean: number;
+
+  /**
+   * Median latency in milliseconds
+   */
+  p50: number;
+
+  /**
+   * 90th percentile latency in milliseconds
+   */
+  p90: number;
+
+  /**
+   * 99th percentile latency in milliseconds
+   */
+  p99: number;
+
+  /**
+   * Maximum latency in milliseconds
+   */
+  max: number;
+}
+
+/**
+ * Request latency percentiles over a rolling window
+ *
+ * Covers `execute()` (including thrown errors) and `createWallet()`. Empty groups
+ * report a `count` of 0 and zero latencies.
+ */
+export interface LatencyStats {
+  /**
+   * Rolling window in milliseconds
+   */
+  window: number;
+
+  /**
+   * All requests
+   */
+  overall: LatencySummary;
+
+  /**
+   * Requests that returned a successful response
+   */
+  success: LatencySummary;
+
+  /**
+   * Requests that returned an error response or threw
+   */
+  failure: LatencySummary;
+
+  /**
+   * `execute()` requests by transport mode (NONCE is reported as FLASH)
+   */
+  byTransport: Record<string, LatencySummary>;
+
+  /**
+   * `execute()` requests by execution type (a batch counts toward each of its types);
+   * `createWallet()` requests are reported as `WALLET_CREATE`
+   */
+  byExecutionType: Record<string, LatencySummary>;
+}
+
+/**
+ * Aggregated broadcast statistics for a single endpoint
+ */
+export interface BroadcastEndpointStats {
+  /**
+   * Number of transactions broadcast to this endpoint
+   */
+  sent: number;
+
+  /**
+   * Number of broadcasts the endpoint rejected or failed to deliver
+   */
+  failed: number;
+
+  /**
+   * Number of transactions that landed through this endpoint
+   */
+  landed: number;
+
+  /**
+   * Share of broadcasts that landed through this endpoint (`landed / sent`)
+   */
+  winRate: number;
+
+  /**
+   * Average send latency in milliseconds (over broadcasts that reported one)
+   */
+  averageLatency: number;
 }
 
 /**
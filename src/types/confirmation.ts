@@ -0,0 +1,103 @@
+import type { PublicKey } from '@solana/web3.js';
+
+/**
+ * Commitment levels a transaction can be confirmed at
+ */
+export type ConfirmationCommitment = 'processed' | 'confirmed' | 'finalized';
+
+/**
+ * Options for `client.confirm()`
+ */
+export interface ConfirmOptions {
+  /**
+   * Commitment level to wait for
+   * @default client commitment ('confirmed')
+   */
+  commitment?: ConfirmationCommitment;
+
+  /**
+   * Maximum time to wait in milliseconds
+   * @default 60000 (60 seconds)
+   */
+  timeout?: number;
+
+  /**
+   * Interval between signature status polls in milliseconds
+   * @default 400
+   */
+  pollInterval?: number;
+
+  /**
+   * Block height after which the transaction's blockhash has expired
+   */
+  lastValidBlockHeight?: number;
+
+  /**
+   * Recent blockhash the transaction was built with.
+   * Once the RPC node no longer reports it as valid without the signature landing,
+   * the transaction can no longer be executed.
+   */
+  blockhash?: string;
+
+  /**
+   * Durable nonce the transaction was built with.
+   * Once the nonce account advances past `value` without the signature landing,
+   * the transaction can no longer be executed.
+   */
+  nonce?: {
+    /**
+     * Nonce account address
+     */
+    account: string | PublicKey;
+
+    /**
+     * Nonce value used as the transaction's recent blockhash
+     */
+    value: string;
+  };
+}
+
+/**
+ * Options for `TransactionBuilder.send()`
+ */
+export interface SendOptions {
+  /**
+   * Wait until the transaction reaches this commitment level before resolving.
+   * Ignored for SIMULATE transports and failed responses.
+   */
+  awaitConfirmation?: ConfirmationCommitment;
+
+  /**
+   * Confirmation options used with `awaitConfirmation`.
+   * Without `lastValidBlockHeight`, `blockhash` or `nonce`, expiry is derived from the
+   * first raw transaction's blockhash or durable nonce, except for `FLASH`/`NONCE`
+   * sends, whose nonce is chosen by the engine: pass `nonce` to detect their expiry.
+   * Otherwise the wait is bounded by `timeout` alone.
+   */
+  confirmOptions?: Omit<ConfirmOptions, 'commitment'>;
+}
+
+/**
+ * Result of a successful confirmation
+ */
+export interface ConfirmationResult {
+  /**
+   * Transaction signature (base58 encoded)
+   */
+  signature: string;
+
+  /**
+   * Slot the transaction was processed in
+   */
+  slot: number;
+
+  /**
+   * Commitment level reached
+   */
+  commitment: ConfirmationCommitment;
+
+  /**
+   * Number of blocks since the transaction was processed (null once finalized)
+   */
+  confirmations: number | null;
+}
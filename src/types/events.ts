@@ -0,0 +1,142 @@
+/**
+ * Lifecycle stage of a transaction event
+ * - `'submitted'` — the transaction was sent to a broadcast endpoint (one event per endpoint)
+ * - `'landed'` — the transaction was first seen in a slot
+ * - `'confirmed'` — the transaction reached a commitment level
+ * - `'failed'` — a broadcast endpoint rejected the transaction, or it failed on-chain
+ */
+export type TransactionEventType = 'submitted' | 'landed' | 'confirmed' | 'failed';
+
+/**
+ * Fields shared by every transaction event
+ */
+interface BaseTransactionEvent {
+  /**
+   * Lifecycle stage
+   */
+  type: TransactionEventType;
+
+  /**
+   * Transaction signature (base58 encoded)
+   */
+  signature: string;
+
+  /**
+   * Server time of the event in milliseconds since the Unix epoch
+   */
+  timestamp: number;
+}
+
+/**
+ * Transaction sent to a broadcast endpoint
+ */
+export interface TransactionSubmittedEvent extends BaseTransactionEvent {
+  type: 'submitted';
+
+  /**
+   * Broadcast endpoint the transaction was sent to
+   * @example "NOZOMI", "JITO", "ZERO_SLOT"
+   */
+  endpoint: string;
+}
+
+/**
+ * Transaction first seen in a slot
+ */
+export interface TransactionLandedEvent extends BaseTransactionEvent {
+  type: 'landed';
+
+  /**
+   * Slot the transaction landed in
+   */
+  slot: number;
+
+  /**
+   * Broadcast endpoint whose submission landed, when known
+   */
+  endpoint?: string;
+}
+
+/**
+ * Transaction reached a commitment level
+ */
+export interface TransactionConfirmedEvent extends BaseTransactionEvent {
+  type: 'confirmed';
+
+  /**
+   * Slot the transaction was processed in
+   */
+  slot: number;
+
+  /**
+   * Commitment level reached
+   * @example "confirmed" | "finalized"
+   */
+  commitment: string;
+}
+
+/**
+ * Transaction rejected by a broadcast endpoint or failed on-chain
+ */
+export interface TransactionFailedEvent extends BaseTransactionEvent {
+  type: 'failed';
+
+  /**
+   * Error message
+   */
+  error: string;
+
+  /**
+   * Broadcast endpoint that rejected the transaction (absent for on-chain failures)
+   */
+  endpoint?: string;
+
+  /**
+   * Slot of the on-chain failure
+   */
+  slot?: number;
+}
+
+/**
+ * Transaction lifecycle event streamed by `client.subscribe()`
+ */
+export type TransactionEvent =
+  | TransactionSubmittedEvent
+  | TransactionLandedEvent
+  | TransactionConfirmedEvent
+  | TransactionFailedEvent;
+
+/**
+ * Options for `client.subscribe()`
+ */
+export interface SubscribeOptions {
+  /**
+   * Only deliver events for these signatures (all signatures when omitted)
+   */
+  signatures?: string[];
+
+  /**
+   * Only deliver these event types (all types when omitted)
+   */
+  types?: TransactionEventType[];
+
+  /**
+   * Called when the event stream fails. The subscription is closed unless it reconnects.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Handle returned by `client.subscribe()`
+ */
+export interface Subscription {
+  /**
+   * Whether events are still being delivered
+   */
+  readonly active: boolean;
+
+  /**
+   * Stop delivering events and close the underlying socket or stream
+   */
+  unsubscribe(): void;
+}
@@ -26,7 +26,24 @@ export {
 } from './transport';
 
 // Configuration types
-export type { ClientConfig, ClientMode, Logger, ClientStats, TransportConfig } from './config';
+export type {
+  ClientConfig,
+  ClientMode,
+  Logger,
+  ClientStats,
+  BroadcastEndpointStats,
+  LatencyStats,
+  LatencySummary,
+  RequestRecord,
+  RetryPolicy,
+  NonceBackpressureConfig,
+  FailoverConfig,
+  FailoverStrategy,
+  EndpointHealth,
+  RaydiumCacheConfig,
+  SolanaCluster,
+  TransportConfig,
+} from './config';
 
 // Response types
 export type {
@@ -34,14 +51,55 @@ export type {
   SuccessResponse,
   ErrorResponse,
   TransactionResponse,
+  BroadcastResult,
   SimulationResponse,
   WalletCreationResponse,
+  WalletInfo,
+  WalletListResponse,
+  WalletBalanceResponse,
+  WalletExportResponse,
+  WalletRotationResponse,
+  WalletDeletionResponse,
+  NoncePoolStatus,
+  NonceWalletStatus,
+  NonceCreationResponse,
+  ManagementErrorResponse,
 } from './responses';
 export { isSuccessResponse, isErrorResponse } from './responses';
 
+// Confirmation types
+export type {
+  ConfirmationCommitment,
+  ConfirmOptions,
+  SendOptions,
+  ConfirmationResult,
+} from './confirmation';
+
+// Transaction event types
+export type {
+  TransactionEventType,
+  TransactionEvent,
+  TransactionSubmittedEvent,
+  TransactionLandedEvent,
+  TransactionConfirmedEvent,
+  TransactionFailedEvent,
+  SubscribeOptions,
+  Subscription,
+} from './events';
+
+// Tracing types
+export type {
+  Tracer,
+  TracingSpan,
+  TracingSpanOptions,
+  SpanAttributes,
+  SpanAttributeValue,
+} from './tracing';
+
 // Operation types
 export type {
   // Base types
+  Amount,
   ExecutionType,
   EventType,
   OperationData,
@@ -81,4 +139,11 @@ export type {
   // Request types
   TransactionRequest,
   WalletCreationRequest,
+  WalletListRequest,
+  WalletBalanceRequest,
+  WalletExportRequest,
+  WalletRotateRequest,
+  WalletDeleteRequest,
+  NonceStatusRequest,
+  NonceCreateRequest,
 } from './operations';
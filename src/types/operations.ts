@@ -1,3 +1,4 @@
+import type BN from 'bn.js';
 import { TransportMode } from './transport';
 
 // ============================================================================
@@ -37,6 +38,18 @@ export type EventType =
   | 'SYNC_NATIVE'
   | 'EXECUTE';
 
+/**
+ * Token or lamport amount (u64)
+ *
+ * Numbers must be safe integers. Use a `bigint`, `BN` or decimal string for
+ * larger values; all forms are serialized without loss of precision.
+ *
+ * @example 1_000_000
+ * @example 18_000_000_000_000_000_000n
+ * @example "18000000000000000000"
+ */
+export type Amount = number | bigint | BN | string;
+
 // ============================================================================
 // Pump.fun Operations
 // ============================================================================
@@ -80,13 +93,13 @@ export interface PumpFunBuyParams {
    * Amount of SOL to spend (in lamports)
    * @example 1_000_000 // 0.001 SOL
    */
-  solAmountIn: number;
+  solAmountIn: Amount;
 
   /**
    * Minimum tokens expected (slippage protection)
    * @example 3_400_000_000 // 3.4B tokens minimum
    */
-  tokenAmountOut: number;
+  tokenAmountOut: Amount;
 
   /**
    * Whether to enable Mayhem mode
@@ -137,13 +150,13 @@ export interface PumpFunBuyExactSolInParams {
    * Exact amount of SOL to spend (in lamports)
    * @example 1_000_000_000 // Exactly 1 SOL
    */
-  solAmountIn: number;
+  solAmountIn: Amount;
 
   /**
    * Minimum tokens expected (slippage protection)
    * @example 3_400_000_000 // At least 3.4B tokens
    */
-  tokenAmountOut: number;
+  tokenAmountOut: Amount;
 
   /**
    * Whether to enable Mayhem mode
@@ -190,13 +203,13 @@ export interface PumpFunSellParams {
    * Amount of tokens to sell
    * @example 1_000_000_000 // 1B tokens
    */
-  tokenAmountIn: number;
+  tokenAmountIn: Amount;
 
   /**
    * Minimum SOL expected (slippage protection, in lamports)
    * @example 500_000 // 0.0005 SOL minimum
    */
-  minSolAmountOut: number;
+  minSolAmountOut: Amount;
 
   /**
    * Whether to enable Mayhem mode
@@ -420,12 +433,12 @@ export interface PumpFunAmmBuyParams {
   /**
    * Maximum amount of quote token to spend (in lamports)
    */
-  maxQuoteAmountIn: number;
+  maxQuoteAmountIn: Amount;
 
   /**
    * Expected base tokens to receive
    */
-  baseAmountOut: number;
+  baseAmountOut: Amount;
 
   /**
    * Whether to close base token account after transaction
@@ -498,12 +511,12 @@ export interface PumpFunAmmSellParams {
   /**
    * Amount of base tokens to sell
    */
-  baseAmountIn: number;
+  baseAmountIn: Amount;
 
   /**
    * Minimum quote token expected (slippage protection, in lamports)
    */
-  minQuoteAmountOut: number;
+  minQuoteAmountOut: Amount;
 
   /**
    * Whether to close base token account after transaction
@@ -576,12 +589,12 @@ export interface PumpFunAmmBuyExactQuoteInParams {
   /**
    * Exact amount of quote token to spend (in lamports)
    */
-  spendableQuoteIn: number;
+  spendableQuoteIn: Amount;
 
   /**
    * Minimum base tokens to receive (slippage protection)
    */
-  minBaseAmountOut: number;
+  minBaseAmountOut: Amount;
 
   /**
    * Whether to close base token account after transaction
@@ -636,7 +649,7 @@ export interface SystemTransferParams {
    * Amount to transfer (in lamports)
    * @example 1_000_000_000 // 1 SOL
    */
-  lamports: number;
+  lamports: Amount;
 }
 
 // ============================================================================
@@ -670,7 +683,7 @@ export interface SplTokenTransferParams {
    * Amount to transfer (in token's smallest unit)
    * @example 1_000_000 // 1 token with 6 decimals
    */
-  amount: number;
+  amount: Amount;
 }
 
 /**
@@ -699,7 +712,7 @@ export interface SplTokenTransferCheckedParams {
   /**
    * Amount to transfer
    */
-  amount: number;
+  amount: Amount;
 
   /**
    * Token decimals for validation
@@ -778,7 +791,7 @@ export interface SplTokenApproveParams {
   /**
    * Amount to approve
    */
-  amount: number;
+  amount: Amount;
 }
 
 /**
@@ -827,7 +840,7 @@ export interface SplTokenMintToParams {
   /**
    * Amount to mint
    */
-  amount: number;
+  amount: Amount;
 }
 
 /**
@@ -851,7 +864,7 @@ export interface SplTokenBurnParams {
   /**
    * Amount to burn
    */
-  amount: number;
+  amount: Amount;
 }
 
 /**
@@ -1044,3 +1057,128 @@ export interface WalletCreationRequest {
    */
   userPublicKey: string;
 }
+
+// ============================================================================
+// Wallet Management Requests
+// ============================================================================
+
+/**
+ * Wallet list request
+ */
+export interface WalletListRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'WALLET_LIST';
+}
+
+/**
+ * Wallet balance request
+ */
+export interface WalletBalanceRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'WALLET_BALANCE';
+
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  wallet: string;
+}
+
+/**
+ * Wallet export request
+ */
+export interface WalletExportRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'WALLET_EXPORT';
+
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  wallet: string;
+
+  /**
+   * Solana public key to encrypt the exported secret key to (base58 encoded)
+   */
+  userPublicKey: string;
+}
+
+/**
+ * Wallet rotation request
+ */
+export interface WalletRotateRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'WALLET_ROTATE';
+
+  /**
+   * Public key of the wallet to retire (base58 encoded)
+   */
+  wallet: string;
+
+  /**
+   * Solana public key to encrypt the new secret key to (base58 encoded)
+   */
+  userPublicKey: string;
+}
+
+/**
+ * Wallet deletion request
+ */
+export interface WalletDeleteRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'WALLET_DELETE';
+
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  wallet: string;
+}
+
+// ============================================================================
+// Nonce Pool Requests
+// ============================================================================
+
+/**
+ * Nonce pool status request
+ */
+export interface NonceStatusRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'NONCE_STATUS';
+
+  /**
+   * Only report this wallet's nonce accounts (base58 encoded)
+   * Omit to report every wallet of the API key
+   */
+  wallet?: string;
+}
+
+/**
+ * Nonce account creation request
+ */
+export interface NonceCreateRequest {
+  /**
+   * Message type identifier
+   */
+  type: 'NONCE_CREATE';
+
+  /**
+   * Wallet that pays for and owns the new nonce accounts (base58 encoded)
+   * Must be a wallet managed by the execution engine
+   */
+  feePayer: string;
+
+  /**
+   * Number of nonce accounts to create
+   */
+  count: number;
+}
@@ -12,6 +12,43 @@ export interface BaseResponse {
    * Whether the transaction was successful
    */
   success: boolean;
+
+  /**
+   * Per-endpoint broadcast results
+   * Only available for multi-broadcast transports (FLASH)
+   */
+  broadcasts?: BroadcastResult[];
+}
+
+/**
+ * Result of broadcasting a transaction to a single endpoint
+ */
+export interface BroadcastResult {
+  /**
+   * Broadcast endpoint
+   * @example "NOZOMI", "JITO", "ZERO_SLOT"
+   */
+  endpoint: string;
+
+  /**
+   * Whether the endpoint accepted the transaction
+   */
+  success: boolean;
+
+  /**
+   * Whether this endpoint's submission is the one that landed
+   */
+  landed: boolean;
+
+  /**
+   * Time to send the transaction to the endpoint in milliseconds
+   */
+  latency?: number;
+
+  /**
+   * Error returned by the endpoint
+   */
+  error?: string;
 }
 
 /**
@@ -132,6 +169,203 @@ export interface WalletCreationResponse {
   ephemeralPublicKey: string;
 }
 
+/**
+ * Wallet managed by the execution engine
+ */
+export interface WalletInfo {
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  publicKey: string;
+
+  /**
+   * Creation time (ms since epoch)
+   */
+  createdAt?: number;
+}
+
+/**
+ * Wallet list response
+ */
+export interface WalletListResponse {
+  /**
+   * Operation success status
+   */
+  success: true;
+
+  /**
+   * Wallets of the API key
+   */
+  wallets: WalletInfo[];
+}
+
+/**
+ * Wallet balance response
+ */
+export interface WalletBalanceResponse {
+  /**
+   * Operation success status
+   */
+  success: true;
+
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  publicKey: string;
+
+  /**
+   * SOL balance in lamports
+   */
+  lamports: number;
+
+  /**
+   * Slot the balance was read at
+   */
+  slot?: number;
+}
+
+/**
+ * Wallet export response
+ *
+ * The wallet's secret key encrypted to the requested public key, in the same form as
+ * `createWallet()`, so `decryptWallet()` recovers it.
+ */
+export type WalletExportResponse = WalletCreationResponse;
+
+/**
+ * Wallet rotation response
+ *
+ * The new wallet, encrypted like `createWallet()`, and the wallet it replaced.
+ */
+export interface WalletRotationResponse extends WalletCreationResponse {
+  /**
+   * Retired wallet public key (base58 encoded)
+   */
+  previousPublicKey: string;
+
+  /**
+   * Signature of the transfer that moved the retired wallet's SOL
+   * Absent when there was nothing to move
+   */
+  signature?: string;
+}
+
+/**
+ * Wallet deletion response
+ */
+export interface WalletDeletionResponse {
+  /**
+   * Operation success status
+   */
+  success: true;
+
+  /**
+   * Deleted wallet public key (base58 encoded)
+   */
+  publicKey: string;
+}
+
+/**
+ * Nonce accounts of one wallet
+ */
+export interface NonceWalletStatus {
+  /**
+   * Wallet public key (base58 encoded)
+   */
+  wallet: string;
+
+  /**
+   * Nonce accounts owned by the wallet
+   */
+  size: number;
+
+  /**
+   * Nonce accounts held by in-flight FLASH transactions
+   */
+  inUse: number;
+
+  /**
+   * Nonce accounts free for the next FLASH transaction
+   */
+  available: number;
+}
+
+/**
+ * Nonce pool status response
+ */
+export interface NoncePoolStatus {
+  /**
+   * Operation success status
+   */
+  success: true;
+
+  /**
+   * Nonce accounts across all reported wallets
+   */
+  size: number;
+
+  /**
+   * Nonce accounts held by in-flight FLASH transactions
+   */
+  inUse: number;
+
+  /**
+   * Nonce accounts free for the next FLASH transaction
+   */
+  available: number;
+
+  /**
+   * Per-wallet breakdown
+   */
+  wallets: NonceWalletStatus[];
+}
+
+/**
+ * Nonce account creation response
+ */
+export interface NonceCreationResponse {
+  /**
+   * Operation success status
+   */
+  success: true;
+
+  /**
+   * Wallet that owns the new nonce accounts (base58 encoded)
+   */
+  feePayer: string;
+
+  /**
+   * New nonce account addresses (base58 encoded)
+   */
+  nonceAccounts: string[];
+
+  /**
+   * Nonce accounts owned by the wallet after creation
+   */
+  size: number;
+}
+
+/**
+ * Failed wallet or nonce management response
+ *
+ * Wallet and nonce management methods throw an `ExecutionError` for these instead of
+ * returning them.
+ */
+export interface ManagementErrorResponse {
+  success: false;
+
+  /**
+   * Error message
+   */
+  error: string;
+
+  /**
+   * Machine-readable reason, one of the `ErrorCode` values
+   * @example "WALLET_NOT_FOUND"
+   */
+  code?: string;
+}
+
 /**
  * Type guard to check if response is successful
  * @param response - Transaction response to check
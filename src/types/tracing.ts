@@ -0,0 +1,78 @@
+/**
+ * Span attribute value (OpenTelemetry `AttributeValue`)
+ */
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+/**
+ * Span attributes (OpenTelemetry `Attributes`)
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Options for starting a span (subset of OpenTelemetry `SpanOptions`)
+ */
+export interface TracingSpanOptions {
+  /**
+   * Attributes set when the span starts
+   */
+  attributes?: SpanAttributes;
+
+  /**
+   * OpenTelemetry `SpanKind` (0 = INTERNAL, 2 = CLIENT)
+   */
+  kind?: number;
+}
+
+/**
+ * Span created by a `Tracer`
+ *
+ * Structural subset of the OpenTelemetry `Span` interface, so spans from
+ * `@opentelemetry/api` can be used without the client depending on it.
+ */
+export interface TracingSpan {
+  /**
+   * Set a single attribute
+   */
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+
+  /**
+   * Set the span status (`code`: 0 = UNSET, 1 = OK, 2 = ERROR)
+   */
+  setStatus(status: { code: number; message?: string }): unknown;
+
+  /**
+   * Record an exception as a span event
+   */
+  recordException(exception: Error | string): void;
+
+  /**
+   * End the span
+   */
+  end(): void;
+}
+
+/**
+ * Tracer used to create spans
+ *
+ * Structural subset of the OpenTelemetry `Tracer` interface. Pass the result of
+ * `trace.getTracer('lys-flash')` from `@opentelemetry/api`.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const client = new LysFlash({ tracer: trace.getTracer('lys-flash') });
+ * ```
+ */
+export interface Tracer {
+  /**
+   * Start a span, make it the active span while `fn` runs and return `fn`'s result
+   *
+   * The caller ends the span.
+   */
+  startActiveSpan<F extends (span: TracingSpan) => unknown>(
+    name: string,
+    options: TracingSpanOptions,
+    fn: F
+  ): ReturnType<F>;
+}
@@ -0,0 +1,97 @@
+import type BN from 'bn.js';
+import type { Amount } from '../types';
+
+/**
+ * Largest u64 value
+ */
+export const U64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * Marks bigints in JSON output so they can be written as bare numbers
+ */
+const BIGINT_MARKER = '__lys_flash_u64__';
+const BIGINT_MARKER_PATTERN = new RegExp(`"${BIGINT_MARKER}(-?\\d+)"`, 'g');
+
+/**
+ * Check for a `bn.js` instance structurally, so BNs from any copy of bn.js (such as one
+ * bundled by a DEX SDK) are recognized, not only instances of this package's bn.js
+ * @internal
+ */
+export function isBN(value: unknown): value is BN {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { words?: unknown }).words) &&
+    typeof (value as { negative?: unknown }).negative === 'number'
+  );
+}
+
+/**
+ * Convert an amount to a bigint
+ *
+ * @param amount - Number, bigint, BN or decimal string
+ * @returns Amount as a bigint
+ * @throws Error if the amount is not an integer
+ *
+ * @example
+ * ```typescript
+ * toBigInt(new BN('18000000000000000000')); // 18000000000000000000n
+ * toBigInt('1000');                          // 1000n
+ * ```
+ */
+export function toBigInt(amount: Amount): bigint {
+  if (typeof amount === 'bigint') {
+    return amount;
+  }
+  if (typeof amount === 'number') {
+    if (!Number.isInteger(amount)) {
+      throw new Error(`Amount must be an integer: ${amount}`);
+    }
+    return BigInt(amount);
+  }
+  if (typeof amount === 'string') {
+    if (!/^-?\d+$/.test(amount)) {
+      throw new Error(`Amount must be a decimal integer string: "${amount}"`);
+    }
+    return BigInt(amount);
+  }
+  if (isBN(amount)) {
+    return BigInt(amount.toString(10));
+  }
+  throw new Error(`Unsupported amount type: ${typeof amount}`);
+}
+
+/**
+ * Convert an amount to its wire form
+ *
+ * Safe integers stay numbers so the encoding of existing requests is unchanged;
+ * larger values become bigints, which MessagePack encodes as 64-bit integers and
+ * {@link stringifyJson} writes as bare JSON numbers.
+ *
+ * @param amount - Number, bigint, BN or decimal string
+ * @returns Number when it fits in a safe integer, bigint otherwise
+ * @internal
+ */
+export function normalizeAmount(amount: Amount): number | bigint {
+  if (typeof amount === 'number') {
+    return amount;
+  }
+  const value = toBigInt(amount);
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * `JSON.stringify` that writes bigints as bare numbers instead of throwing
+ *
+ * @param value - Value to serialize
+ * @returns JSON text
+ * @internal
+ */
+export function stringifyJson(value: unknown): string {
+  const json = JSON.stringify(value, (_key, item: unknown) =>
+    typeof item === 'bigint' ? `${BIGINT_MARKER}${item.toString()}` : item
+  );
+  return json.replace(BIGINT_MARKER_PATTERN, '$1');
+}
@@ -29,3 +29,32 @@ export function base58Encode(bytes: Uint8Array): string {
   }
   return str;
 }
+
+/**
+ * Decode a base58 string to bytes.
+ * @throws Error if the string contains a non-base58 character
+ * @internal
+ */
+export function base58Decode(str: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of str) {
+    let carry = ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += (bytes[j] as number) * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const char of str) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
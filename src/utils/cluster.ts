@@ -0,0 +1,14 @@
+import type { SolanaCluster } from '../types';
+
+/**
+ * Cluster assumed when none is configured
+ */
+export const DEFAULT_CLUSTER: SolanaCluster = 'mainnet';
+
+/**
+ * Cluster name used by the Meteora SDKs
+ * @internal
+ */
+export function toMeteoraCluster(cluster: SolanaCluster): 'mainnet-beta' | 'devnet' {
+  return cluster === 'devnet' ? 'devnet' : 'mainnet-beta';
+}
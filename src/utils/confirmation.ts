@@ -0,0 +1,231 @@
+import type {
+  Commitment,
+  Connection,
+  SignatureStatus,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { ExecutionError, ErrorCode, fromUnknownError } from '../errors';
+import type { ConfirmationCommitment, ConfirmationResult, ConfirmOptions } from '../types';
+
+/**
+ * Ordering of confirmation levels
+ */
+const COMMITMENT_RANK: Record<ConfirmationCommitment, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+/**
+ * Map a web3.js commitment (including deprecated aliases) to a confirmation level
+ * @internal
+ */
+export function toConfirmationCommitment(commitment: Commitment): ConfirmationCommitment {
+  switch (commitment) {
+    case 'processed':
+    case 'recent':
+      return 'processed';
+    case 'finalized':
+    case 'root':
+    case 'max':
+      return 'finalized';
+    default:
+      return 'confirmed';
+  }
+}
+
+/**
+ * Expiry options of a signed transaction, derived from its recent blockhash
+ *
+ * Transactions whose first instruction advances a durable nonce expire with the nonce
+ * (the recent blockhash is the nonce value), all others with their blockhash.
+ *
+ * @param transaction - Transaction as it will be submitted
+ * @returns `nonce` or `blockhash` confirmation options, or nothing without a blockhash
+ * @internal
+ */
+export function transactionExpiry(
+  transaction: Transaction | VersionedTransaction
+): Pick<ConfirmOptions, 'blockhash' | 'nonce'> {
+  const blockhash =
+    transaction instanceof Transaction
+      ? transaction.recentBlockhash
+      : transaction.message.recentBlockhash;
+  if (!blockhash) {
+    return {};
+  }
+
+  const nonceAccount = nonceAdvanceAccount(transaction);
+  return nonceAccount ? { nonce: { account: nonceAccount, value: blockhash } } : { blockhash };
+}
+
+/**
+ * Wait for a transaction signature to reach a commitment level
+ *
+ * Polls `getSignatureStatuses` until the commitment is reached, the transaction
+ * fails on-chain, its blockhash or durable nonce expires, or the timeout elapses.
+ * Expiry is only detected from the `lastValidBlockHeight`, `blockhash` or `nonce`
+ * options; without them the wait is bounded by the timeout alone.
+ *
+ * @param connection - Solana RPC connection
+ * @param signature - Transaction signature (base58 encoded)
+ * @param commitment - Commitment level to wait for
+ * @param options - Timeout, poll interval and expiry options
+ * @returns Confirmation result
+ * @throws ExecutionError (ON_CHAIN_ERROR) if the transaction failed on-chain
+ * @throws ExecutionError (TIMEOUT) on expiry or timeout
+ * @internal
+ */
+export async function confirmTransaction(
+  connection: Connection,
+  signature: string,
+  commitment: ConfirmationCommitment,
+  options: Omit<ConfirmOptions, 'commitment'> = {}
+): Promise<ConfirmationResult> {
+  const timeout = options.timeout ?? 60000;
+  const pollInterval = options.pollInterval ?? 400;
+  const deadline = Date.now() + timeout;
+
+  try {
+    const nonceAccount = options.nonce
+      ? typeof options.nonce.account === 'string'
+        ? new PublicKey(options.nonce.account)
+        : options.nonce.account
+      : undefined;
+
+    const isExpired = async (): Promise<boolean> => {
+      if (options.lastValidBlockHeight !== undefined) {
+        const blockHeight = await connection.getBlockHeight('confirmed');
+        if (blockHeight > options.lastValidBlockHeight) {
+          return true;
+        }
+      }
+
+      if (options.blockhash) {
+        const { value } = await connection.isBlockhashValid(options.blockhash, {
+          commitment: 'confirmed',
+        });
+        if (!value) {
+          return true;
+        }
+      }
+
+      if (nonceAccount && options.nonce) {
+        const nonce = await connection.getNonce(nonceAccount, 'confirmed');
+        if (nonce && nonce.nonce !== options.nonce.value) {
+          return true;
+        }
+      }
+
+      return false;
+    };
+
+    for (;;) {
+      let status = await getSignatureStatus(connection, signature);
+
+      // Re-check the status after an expiry so a transaction that landed meanwhile isn't lost
+      if (!status && (await isExpired())) {
+        status = await getSignatureStatus(connection, signature);
+        if (!status) {
+          throw new ExecutionError(
+            `Transaction ${signature} expired before confirmation (blockhash or nonce no longer valid)`,
+            ErrorCode.TIMEOUT,
+            'CLIENT'
+          );
+        }
+      }
+
+      if (status?.err) {
+        throw new ExecutionError(
+          `Transaction ${signature} failed: ${JSON.stringify(status.err)}`,
+          ErrorCode.ON_CHAIN_ERROR,
+          'CLIENT'
+        );
+      }
+
+      if (
+        status?.confirmationStatus &&
+        COMMITMENT_RANK[status.confirmationStatus] >= COMMITMENT_RANK[commitment]
+      ) {
+        return {
+          signature,
+          slot: status.slot,
+          commitment: status.confirmationStatus,
+          confirmations: status.confirmations,
+        };
+      }
+
+      if (Date.now() >= deadline) {
+        throw new ExecutionError(
+          `Transaction ${signature} not ${commitment} after ${timeout}ms`,
+          ErrorCode.TIMEOUT,
+          'CLIENT'
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  } catch (error) {
+    throw fromUnknownError(error, 'CLIENT');
+  }
+}
+
+/**
+ * Nonce account advanced by the first instruction of a transaction, if any
+ * @private
+ */
+function nonceAdvanceAccount(
+  transaction: Transaction | VersionedTransaction
+): PublicKey | undefined {
+  let instruction: TransactionInstruction | undefined;
+  if (transaction instanceof Transaction) {
+    instruction = transaction.instructions[0];
+  } else {
+    // Nonce accounts are never loaded from address lookup tables
+    const { message } = transaction;
+    const compiled = message.compiledInstructions[0];
+    const programId = compiled && message.staticAccountKeys[compiled.programIdIndex];
+    if (compiled && programId) {
+      instruction = new TransactionInstruction({
+        programId,
+        keys: compiled.accountKeyIndexes.map((index) => ({
+          pubkey: message.staticAccountKeys[index] ?? PublicKey.default,
+          isSigner: message.isAccountSigner(index),
+          isWritable: message.isAccountWritable(index),
+        })),
+        data: Buffer.from(compiled.data),
+      });
+    }
+  }
+
+  if (!instruction?.programId.equals(SystemProgram.programId)) {
+    return undefined;
+  }
+
+  try {
+    return SystemInstruction.decodeInstructionType(instruction) === 'AdvanceNonceAccount'
+      ? SystemInstruction.decodeNonceAdvance(instruction).noncePubkey
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetch the status of a single signature
+ * @private
+ */
+async function getSignatureStatus(
+  connection: Connection,
+  signature: string
+): Promise<SignatureStatus | null> {
+  const { value } = await connection.getSignatureStatuses([signature]);
+  return value[0] ?? null;
+}
@@ -0,0 +1,41 @@
+import type { TransactionEvent, TransactionEventType } from '../types';
+
+/**
+ * Event types the client understands
+ */
+const EVENT_TYPES: ReadonlySet<string> = new Set<TransactionEventType>([
+  'submitted',
+  'landed',
+  'confirmed',
+  'failed',
+]);
+
+/**
+ * Decode a raw event payload from the execution engine
+ *
+ * Payloads with an unknown `type` or without a signature are ignored so that engines
+ * can add new event types without breaking older clients.
+ *
+ * @param raw - Decoded MessagePack or JSON payload
+ * @returns Transaction event, or undefined if the payload is not one
+ * @internal
+ */
+export function parseTransactionEvent(raw: unknown): TransactionEvent | undefined {
+  if (typeof raw !== 'object' || raw === null) {
+    return undefined;
+  }
+
+  const event = raw as Record<string, unknown>;
+  if (
+    typeof event.type !== 'string' ||
+    !EVENT_TYPES.has(event.type) ||
+    typeof event.signature !== 'string'
+  ) {
+    return undefined;
+  }
+
+  return {
+    ...event,
+    timestamp: typeof event.timestamp === 'number' ? event.timestamp : Date.now(),
+  } as TransactionEvent;
+}
@@ -0,0 +1,145 @@
+import type { LatencyStats, LatencySummary } from '../types';
+
+/**
+ * Default rolling window for latency statistics (1 minute)
+ */
+export const DEFAULT_LATENCY_WINDOW = 60000;
+
+/**
+ * Maximum samples kept in the window, so a busy client's memory stays bounded
+ */
+const MAX_SAMPLES = 10000;
+
+/**
+ * A single request latency measurement
+ */
+interface LatencySample {
+  timestamp: number;
+  latency: number;
+  success: boolean;
+  transport?: string;
+  executionTypes: string[];
+}
+
+/**
+ * Rolling-window latency recorder with percentile summaries
+ *
+ * Samples older than the window (or beyond the most recent 10,000) are discarded,
+ * so percentiles describe recent behaviour rather than the client's whole lifetime.
+ *
+ * @internal
+ */
+export class LatencyTracker {
+  private samples: LatencySample[] = [];
+  private readonly window: number;
+
+  /**
+   * @param window - Rolling window in milliseconds
+   */
+  constructor(window: number = DEFAULT_LATENCY_WINDOW) {
+    this.window = window;
+  }
+
+  /**
+   * Record a request latency
+   *
+   * @param latency - Round trip in milliseconds
+   * @param success - Whether the request succeeded
+   * @param transport - Transport mode of the request (omitted for non-transaction requests)
+   * @param executionTypes - Execution types in the request (a batch counts toward each)
+   */
+  record(
+    latency: number,
+    success: boolean,
+    transport?: string,
+    executionTypes: string[] = []
+  ): void {
+    const now = Date.now();
+    this.samples.push({ timestamp: now, latency, success, transport, executionTypes });
+    this.prune(now);
+  }
+
+  /**
+   * Summarize the samples in the current window
+   */
+  getStats(): LatencyStats {
+    this.prune(Date.now());
+
+    const overall: number[] = [];
+    const success: number[] = [];
+    const failure: number[] = [];
+    const byTransport: Record<string, number[]> = {};
+    const byExecutionType: Record<string, number[]> = {};
+
+    for (const sample of this.samples) {
+      overall.push(sample.latency);
+      (sample.success ? success : failure).push(sample.latency);
+      if (sample.transport) {
+        (byTransport[sample.transport] ??= []).push(sample.latency);
+      }
+      for (const executionType of sample.executionTypes) {
+        (byExecutionType[executionType] ??= []).push(sample.latency);
+      }
+    }
+
+    return {
+      window: this.window,
+      overall: summarize(overall),
+      success: summarize(success),
+      failure: summarize(failure),
+      byTransport: mapValues(byTransport, summarize),
+      byExecutionType: mapValues(byExecutionType, summarize),
+    };
+  }
+
+  /**
+   * Discard all samples
+   */
+  reset(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Drop samples that left the window or exceed the sample cap
+   */
+  private prune(now: number): void {
+    const cutoff = now - this.window;
+    let expired = 0;
+    while ((this.samples[expired]?.timestamp ?? now) < cutoff) {
+      expired++;
+    }
+    expired = Math.max(expired, this.samples.length - MAX_SAMPLES);
+    if (expired > 0) {
+      this.samples.splice(0, expired);
+    }
+  }
+}
+
+/**
+ * Percentile summary of a set of latencies (nearest-rank)
+ */
+function summarize(latencies: number[]): LatencySummary {
+  if (latencies.length === 0) {
+    return { count: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+  }
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const percentile = (p: number): number =>
+    sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)] ?? 0;
+
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, latency) => sum + latency, 0) / sorted.length,
+    p50: percentile(50),
+    p90: percentile(90),
+    p99: percentile(99),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+/**
+ * Apply a function to every value of a record
+ */
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
@@ -0,0 +1,85 @@
+import { ExecutionError, ErrorCode } from '../errors';
+import type { NonceBackpressureConfig, TransactionResponse } from '../types';
+
+/**
+ * Nonce backpressure settings with all defaults applied
+ * @internal
+ */
+export type ResolvedNonceBackpressure = Required<NonceBackpressureConfig>;
+
+/**
+ * Defaults used for fields omitted from a configured nonce backpressure
+ */
+export const DEFAULT_NONCE_BACKPRESSURE: Readonly<ResolvedNonceBackpressure> = {
+  maxWait: 10000,
+  pollInterval: 100,
+};
+
+/**
+ * Error messages the engine uses when no nonce is free
+ */
+const NONCE_POOL_EXHAUSTED_PATTERN =
+  /NONCE_POOL_EXHAUSTED|nonce pool exhausted|no nonces? available/i;
+
+/**
+ * Merge a nonce backpressure setting with defaults and validate it
+ *
+ * @param config - `nonceBackpressure` client option
+ * @returns Resolved settings, or undefined when backpressure is disabled
+ * @throws ExecutionError (INVALID_REQUEST) if a field is out of range
+ * @internal
+ */
+export function resolveNonceBackpressure(
+  config?: boolean | NonceBackpressureConfig
+): ResolvedNonceBackpressure | undefined {
+  if (!config) {
+    return undefined;
+  }
+
+  const resolved: ResolvedNonceBackpressure = {
+    ...DEFAULT_NONCE_BACKPRESSURE,
+    ...(config === true ? {} : config),
+  };
+
+  if (!(resolved.maxWait >= 0)) {
+    throw new ExecutionError(
+      'Invalid nonceBackpressure.maxWait: must be a non-negative number',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  if (!(resolved.pollInterval > 0)) {
+    throw new ExecutionError(
+      'Invalid nonceBackpressure.pollInterval: must be a positive number',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Check whether a request failed because the nonce pool had no free nonce
+ *
+ * The engine reports exhaustion either as an error response or as a thrown
+ * `ExecutionError` with code `NONCE_POOL_EXHAUSTED`.
+ *
+ * @param outcome - Response returned or error thrown by the request
+ * @returns true if the request can be resent once a nonce is free
+ * @internal
+ */
+export function isNoncePoolExhausted(outcome: unknown): boolean {
+  if (outcome instanceof ExecutionError) {
+    return outcome.code === ErrorCode.NONCE_POOL_EXHAUSTED;
+  }
+
+  const response = outcome as Partial<TransactionResponse> | null;
+  if (!response || response.success !== false) {
+    return false;
+  }
+
+  const error = response.error instanceof Error ? response.error.message : response.error;
+  return typeof error === 'string' && NONCE_POOL_EXHAUSTED_PATTERN.test(error);
+}
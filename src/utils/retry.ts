@@ -0,0 +1,163 @@
+import { ExecutionError, ErrorCode } from '../errors';
+import type { RetryPolicy } from '../types';
+
+/**
+ * Retry policy with all defaults applied
+ * @internal
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'shouldRetry'>> &
+  Pick<RetryPolicy, 'shouldRetry'>;
+
+/**
+ * Defaults used for fields omitted from a configured retry policy
+ */
+export const DEFAULT_RETRY_POLICY: Readonly<ResolvedRetryPolicy> = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 2000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  retryableErrors: [ErrorCode.CONNECTION_ERROR, ErrorCode.NETWORK_ERROR, ErrorCode.TIMEOUT],
+  retryPossiblyDelivered: false,
+};
+
+/**
+ * Error codes that can be raised after the request reached the execution engine.
+ * Retrying them may submit the same transaction twice.
+ */
+const POSSIBLY_DELIVERED_ERRORS: ReadonlySet<ErrorCode> = new Set([
+  ErrorCode.TIMEOUT,
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.SERVER_ERROR,
+]);
+
+/**
+ * Merge a retry policy with defaults and validate it.
+ * An omitted policy resolves to a single attempt.
+ *
+ * @param policy - User-supplied retry policy
+ * @returns Resolved retry policy
+ * @throws ExecutionError (INVALID_REQUEST) if a field is out of range
+ * @internal
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy): ResolvedRetryPolicy {
+  if (!policy) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+
+  const resolved: ResolvedRetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+    retryableErrors: policy.retryableErrors ?? [...DEFAULT_RETRY_POLICY.retryableErrors],
+  };
+
+  if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts < 1) {
+    throw new ExecutionError(
+      'Invalid retryPolicy.maxAttempts: must be a positive integer',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  if (resolved.initialDelay < 0 || resolved.maxDelay < 0) {
+    throw new ExecutionError(
+      'Invalid retryPolicy delay: must be a non-negative number',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  if (resolved.backoffMultiplier < 1) {
+    throw new ExecutionError(
+      'Invalid retryPolicy.backoffMultiplier: must be at least 1',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  if (resolved.jitter < 0 || resolved.jitter > 1) {
+    throw new ExecutionError(
+      'Invalid retryPolicy.jitter: must be between 0 and 1',
+      ErrorCode.INVALID_REQUEST,
+      'CLIENT'
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Compute the backoff delay before a retry
+ *
+ * @param policy - Resolved retry policy
+ * @param retry - Retry number (1 = first retry)
+ * @returns Delay in milliseconds
+ * @internal
+ */
+export function getRetryDelay(policy: ResolvedRetryPolicy, retry: number): number {
+  const base = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.backoffMultiplier, retry - 1)
+  );
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ *
+ * @param policy - Resolved retry policy
+ * @param error - Error raised by the attempt
+ * @param attempt - Number of the failed attempt (1-based)
+ * @returns true if another attempt should be made
+ * @internal
+ */
+export function shouldRetry(
+  policy: ResolvedRetryPolicy,
+  error: ExecutionError,
+  attempt: number
+): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+
+  if (policy.shouldRetry) {
+    return policy.shouldRetry(error, attempt);
+  }
+
+  if (!policy.retryableErrors.includes(error.code)) {
+    return false;
+  }
+
+  return policy.retryPossiblyDelivered || !POSSIBLY_DELIVERED_ERRORS.has(error.code);
+}
+
+/**
+ * Run an operation under a retry policy
+ *
+ * @param operation - Operation to run; receives the attempt number (1-based)
+ * @param policy - Resolved retry policy
+ * @param onRetry - Called before each retry with the error, failed attempt and delay
+ * @returns Result of the first successful attempt
+ * @throws The error of the last attempt
+ * @internal
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: ResolvedRetryPolicy,
+  onRetry?: (error: ExecutionError, attempt: number, delay: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!(error instanceof ExecutionError) || !shouldRetry(policy, error, attempt)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      onRetry?.(error, attempt, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import type { SpanAttributes, Tracer, TracingSpan } from '../types';
+
+/**
+ * Prefix of every span name
+ */
+const SPAN_PREFIX = 'lys_flash';
+
+/**
+ * OpenTelemetry `SpanKind` values
+ * @internal
+ */
+export const SPAN_KIND = {
+  INTERNAL: 0,
+  CLIENT: 2,
+} as const;
+
+/**
+ * OpenTelemetry `SpanStatusCode.ERROR`
+ */
+const STATUS_ERROR = 2;
+
+/**
+ * Span attribute names
+ * @internal
+ */
+export const SPAN_ATTRIBUTES = {
+  EXECUTION_TYPES: 'lys_flash.execution_types',
+  TRANSPORT_MODE: 'lys_flash.transport_mode',
+  TRANSPORT: 'lys_flash.transport',
+  OPERATION_COUNT: 'lys_flash.operation_count',
+  PAYLOAD_SIZE: 'lys_flash.payload_size',
+  SIGNATURE: 'lys_flash.signature',
+  SUCCESS: 'lys_flash.success',
+  NAMESPACE: 'lys_flash.namespace',
+  METHOD: 'lys_flash.method',
+  SERVER_ADDRESS: 'server.address',
+} as const;
+
+/**
+ * Run `fn` inside a span named `lys_flash.<name>`
+ *
+ * The span ends when `fn` returns or its promise settles. Errors are recorded on the
+ * span and rethrown unchanged. Without a tracer, `fn` is called with no span.
+ *
+ * @param tracer - Configured tracer, if any
+ * @param name - Span name without the `lys_flash.` prefix
+ * @param attributes - Attributes set when the span starts
+ * @param fn - Work to trace; may add attributes to the span
+ * @param kind - OpenTelemetry `SpanKind`
+ * @internal
+ */
+export function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span?: TracingSpan) => T,
+  kind: number = SPAN_KIND.INTERNAL
+): T {
+  if (!tracer) {
+    return fn();
+  }
+
+  return tracer.startActiveSpan(
+    `${SPAN_PREFIX}.${name}`,
+    { attributes, kind },
+    (span: TracingSpan): T => {
+      let result: T;
+      try {
+        result = fn(span);
+      } catch (error) {
+        failSpan(span, error);
+        span.end();
+        throw error;
+      }
+
+      if (!isPromiseLike(result)) {
+        span.end();
+        return result;
+      }
+
+      return Promise.resolve(result).then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (error: unknown) => {
+          failSpan(span, error);
+          span.end();
+          throw error;
+        }
+      ) as T;
+    }
+  );
+}
+
+/**
+ * Attributes describing a request message: transport mode and execution types
+ *
+ * @param transport - Transport carrying the request (`'ZMQ'` or `'HTTP'`)
+ * @param address - Server address
+ * @param message - Transaction or wallet request
+ * @internal
+ */
+export function requestSpanAttributes(
+  transport: string,
+  address: string,
+  message: unknown
+): SpanAttributes {
+  const request = (message ?? {}) as { data?: unknown; transport?: unknown; type?: unknown };
+  const operations = Array.isArray(request.data) ? request.data : [request.data];
+  const executionTypes = operations
+    .map((operation) => (operation as { executionType?: unknown } | undefined)?.executionType)
+    .filter((executionType): executionType is string => typeof executionType === 'string');
+
+  return {
+    [SPAN_ATTRIBUTES.TRANSPORT]: transport,
+    [SPAN_ATTRIBUTES.SERVER_ADDRESS]: address,
+    [SPAN_ATTRIBUTES.TRANSPORT_MODE]:
+      typeof request.transport === 'string' ? request.transport : undefined,
+    [SPAN_ATTRIBUTES.EXECUTION_TYPES]:
+      executionTypes.length > 0
+        ? executionTypes
+        : typeof request.type === 'string'
+          ? [request.type]
+          : undefined,
+  };
+}
+
+/**
+ * Record the outcome and signature of a response on a span
+ *
+ * @param span - Active span, if tracing is enabled
+ * @param response - Decoded response
+ * @internal
+ */
+export function recordResponse(span: TracingSpan | undefined, response: unknown): void {
+  if (!span || typeof response !== 'object' || response === null) {
+    return;
+  }
+
+  const { success, signature } = response as { success?: unknown; signature?: unknown };
+  if (typeof success === 'boolean') {
+    span.setAttribute(SPAN_ATTRIBUTES.SUCCESS, success);
+  }
+  if (typeof signature === 'string' && signature) {
+    span.setAttribute(SPAN_ATTRIBUTES.SIGNATURE, signature);
+  }
+}
+
+/**
+ * Steps of a DEX namespace method traced as child spans of the method span
+ * @internal
+ */
+export type NamespaceStep = 'fetch_pool' | 'fetch_position' | 'build';
+
+/**
+ * Run one step of a DEX namespace method inside a `lys_flash.<namespace>.<step>` span
+ *
+ * Separates the RPC fetches of pool and position state from the SDK transaction
+ * build under the method span opened by {@link traceNamespace}.
+ *
+ * @param tracer - Configured tracer, if any
+ * @param namespace - Namespace path, e.g. `'meteora.dlmm'`
+ * @param step - Step of the method
+ * @param fn - Work to trace
+ * @internal
+ */
+export function traceStep<T>(
+  tracer: Tracer | undefined,
+  namespace: string,
+  step: NamespaceStep,
+  fn: () => Promise<T>
+): Promise<T> {
+  return withSpan(tracer, `${namespace}.${step}`, { [SPAN_ATTRIBUTES.NAMESPACE]: namespace }, () =>
+    fn()
+  );
+}
+
+/**
+ * Wrap the public methods of a DEX namespace in spans
+ *
+ * `dlmm.buy()` on a namespace traced as `'meteora.dlmm'` runs inside a
+ * `lys_flash.meteora.dlmm.buy` span, with `lys_flash.meteora.dlmm.fetch_pool` and
+ * `lys_flash.meteora.dlmm.build` child spans (see {@link traceStep}) around its RPC
+ * fetches and SDK build. Calls the namespace makes to its own methods are not traced
+ * separately.
+ *
+ * @param namespace - Namespace instance
+ * @param name - Namespace path, e.g. `'meteora.dlmm'`
+ * @param tracer - Configured tracer; the namespace is returned unchanged without one
+ * @internal
+ */
+export function traceNamespace<T extends object>(
+  namespace: T,
+  name: string,
+  tracer: Tracer | undefined
+): T {
+  if (!tracer) {
+    return namespace;
+  }
+
+  return new Proxy(namespace, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (
+        typeof value !== 'function' ||
+        typeof property !== 'string' ||
+        property === 'constructor' ||
+        property.startsWith('_')
+      ) {
+        return value;
+      }
+
+      return (...args: unknown[]) =>
+        withSpan(
+          tracer,
+          `${name}.${property}`,
+          {
+            [SPAN_ATTRIBUTES.NAMESPACE]: name,
+            [SPAN_ATTRIBUTES.METHOD]: property,
+          },
+          () => (value as (...params: unknown[]) => unknown).apply(target, args)
+        );
+    },
+  });
+}
+
+/**
+ * Mark a span as failed
+ */
+function failSpan(span: TracingSpan, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: STATUS_ERROR, message });
+}
+
+/**
+ * Check for a promise without assuming a specific implementation
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === 'function'
+  );
+}
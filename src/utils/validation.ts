@@ -0,0 +1,413 @@
+import { PublicKey } from '@solana/web3.js';
+import { ValidationError } from '../errors';
+import type { Amount, OperationData } from '../types';
+import { U64_MAX, isBN, normalizeAmount } from './amount';
+
+/**
+ * Maximum token name length in bytes (Metaplex token metadata)
+ */
+export const MAX_TOKEN_NAME_LENGTH = 32;
+
+/**
+ * Maximum token symbol length in bytes (Metaplex token metadata)
+ */
+export const MAX_TOKEN_SYMBOL_LENGTH = 10;
+
+/**
+ * Maximum metadata URI length in bytes (Metaplex token metadata)
+ */
+export const MAX_TOKEN_URI_LENGTH = 200;
+
+/**
+ * RAW_TRANSACTION size bounds in bytes (Solana packet limit is 1232 bytes)
+ */
+const MIN_RAW_TRANSACTION_SIZE = 100;
+const MAX_RAW_TRANSACTION_SIZE = 1500;
+
+/**
+ * Validates one field; throws ValidationError with the field path on failure
+ */
+type FieldRule = (value: unknown, path: string) => void;
+
+/**
+ * Field rules of an operation (or nested object)
+ */
+type Schema = Record<string, FieldRule>;
+
+const publicKey: FieldRule = (value, path) => {
+  if (typeof value !== 'string' || !isPublicKey(value)) {
+    throw new ValidationError(path, 'must be a base58 public key');
+  }
+};
+
+const amount: FieldRule = (value, path) => {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new ValidationError(path, 'must be a non-negative integer');
+    }
+    // Larger numbers have already lost precision
+    if (!Number.isSafeInteger(value)) {
+      throw new ValidationError(
+        path,
+        'exceeds Number.MAX_SAFE_INTEGER; pass a bigint, BN or decimal string'
+      );
+    }
+    return;
+  }
+
+  let parsed: bigint;
+  if (typeof value === 'bigint') {
+    parsed = value;
+  } else if (typeof value === 'string' && /^\d+$/.test(value)) {
+    parsed = BigInt(value);
+  } else if (isBN(value)) {
+    parsed = BigInt(value.toString(10));
+  } else {
+    throw new ValidationError(
+      path,
+      'must be a non-negative integer (number, bigint, BN or decimal string)'
+    );
+  }
+
+  if (parsed < BigInt(0)) {
+    throw new ValidationError(path, 'must be a non-negative integer');
+  }
+  if (parsed > U64_MAX) {
+    throw new ValidationError(path, 'exceeds the u64 range');
+  }
+};
+
+const decimals: FieldRule = (value, path) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 255) {
+    throw new ValidationError(path, 'must be an integer between 0 and 255');
+  }
+};
+
+const boolean: FieldRule = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(path, 'must be a boolean');
+  }
+};
+
+const nonEmptyString: FieldRule = (value, path) => {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new ValidationError(path, 'must be a non-empty string');
+  }
+};
+
+function maxBytes(limit: number, allowEmpty = false): FieldRule {
+  return (value, path) => {
+    if (typeof value !== 'string' || (!allowEmpty && value.length === 0)) {
+      throw new ValidationError(
+        path,
+        allowEmpty ? 'must be a string' : 'must be a non-empty string'
+      );
+    }
+    const length = Buffer.byteLength(value, 'utf8');
+    if (length > limit) {
+      throw new ValidationError(path, `must be at most ${limit} bytes (got ${length})`);
+    }
+  };
+}
+
+/**
+ * Allow the field to be omitted (undefined)
+ */
+function optional(rule: FieldRule): FieldRule {
+  return (value, path) => {
+    if (value !== undefined) {
+      rule(value, path);
+    }
+  };
+}
+
+/**
+ * Allow the field to be null
+ */
+function nullable(rule: FieldRule): FieldRule {
+  return (value, path) => {
+    if (value !== null) {
+      rule(value, path);
+    }
+  };
+}
+
+function object(schema: Schema): FieldRule {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, 'must be an object');
+    }
+    validateFields(value as Record<string, unknown>, schema, path);
+  };
+}
+
+function publicKeyList(value: unknown, path: string): void {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(path, 'must be an array');
+  }
+  value.forEach((item, index) => publicKey(item, `${path}[${index}]`));
+}
+
+function transactionBytes(value: unknown, path: string): void {
+  if (!(value instanceof Uint8Array)) {
+    throw new ValidationError(path, 'must be a Uint8Array');
+  }
+  if (value.length < MIN_RAW_TRANSACTION_SIZE) {
+    throw new ValidationError(path, `transaction too small (${value.length} bytes)`);
+  }
+  if (value.length > MAX_RAW_TRANSACTION_SIZE) {
+    throw new ValidationError(path, `transaction too large (${value.length} bytes)`);
+  }
+}
+
+const tokenMetadata = object({
+  name: maxBytes(MAX_TOKEN_NAME_LENGTH),
+  symbol: maxBytes(MAX_TOKEN_SYMBOL_LENGTH),
+  uri: maxBytes(MAX_TOKEN_URI_LENGTH, true),
+});
+
+const pumpFunPoolAccounts = object({
+  coinCreator: nullable(publicKey),
+});
+
+const pumpFunAmmPoolAccounts = object({
+  baseMint: publicKey,
+  quoteMint: publicKey,
+  coinCreator: nullable(publicKey),
+  poolCreator: publicKey,
+});
+
+const pumpFunAmmTokenPrograms: Schema = {
+  pool: publicKey,
+  baseTokenProgram: publicKey,
+  quoteTokenProgram: publicKey,
+  poolAccounts: pumpFunAmmPoolAccounts,
+  user: publicKey,
+  closeBaseAssociatedTokenAccount: optional(boolean),
+  closeQuoteAssociatedTokenAccount: optional(boolean),
+};
+
+const pumpFunCreate: Schema = {
+  user: publicKey,
+  pool: publicKey,
+  mintSecretKey: nonEmptyString,
+  meta: tokenMetadata,
+};
+
+/**
+ * Field rules per `executionType:eventType`
+ *
+ * Fields documented with a default (Mayhem mode, ATA closing, token program)
+ * are only checked when present.
+ */
+const OPERATION_SCHEMAS: Record<string, Schema> = {
+  'PUMP_FUN:BUY': {
+    pool: publicKey,
+    tokenProgram: optional(publicKey),
+    poolAccounts: pumpFunPoolAccounts,
+    user: publicKey,
+    solAmountIn: amount,
+    tokenAmountOut: amount,
+    mayhemModeEnabled: optional(boolean),
+  },
+  'PUMP_FUN:BUY_EXACT_SOL_IN': {
+    pool: publicKey,
+    tokenProgram: optional(publicKey),
+    poolAccounts: pumpFunPoolAccounts,
+    user: publicKey,
+    solAmountIn: amount,
+    tokenAmountOut: amount,
+    mayhemModeEnabled: optional(boolean),
+  },
+  'PUMP_FUN:SELL': {
+    pool: publicKey,
+    tokenProgram: optional(publicKey),
+    poolAccounts: pumpFunPoolAccounts,
+    user: publicKey,
+    tokenAmountIn: amount,
+    minSolAmountOut: amount,
+    mayhemModeEnabled: optional(boolean),
+    closeAssociatedTokenAccount: optional(boolean),
+  },
+  'PUMP_FUN:CREATE': pumpFunCreate,
+  'PUMP_FUN:CREATE_V2': {
+    ...pumpFunCreate,
+    isMayhemMode: optional(boolean),
+    isCashbackEnabled: optional(boolean),
+  },
+  'PUMP_FUN:CLAIM_CASHBACK': {
+    user: publicKey,
+  },
+  'PUMP_FUN:MIGRATE': {
+    pool: publicKey,
+    user: publicKey,
+  },
+  'PUMP_FUN_AMM:BUY': {
+    ...pumpFunAmmTokenPrograms,
+    maxQuoteAmountIn: amount,
+    baseAmountOut: amount,
+  },
+  'PUMP_FUN_AMM:SELL': {
+    ...pumpFunAmmTokenPrograms,
+    baseAmountIn: amount,
+    minQuoteAmountOut: amount,
+  },
+  'PUMP_FUN_AMM:BUY_EXACT_QUOTE_IN': {
+    ...pumpFunAmmTokenPrograms,
+    spendableQuoteIn: amount,
+    minBaseAmountOut: amount,
+  },
+  'PUMP_FUN_AMM:CLAIM_CASHBACK': {
+    user: publicKey,
+  },
+  'SYSTEM_TRANSFER:TRANSFER': {
+    sender: publicKey,
+    recipient: publicKey,
+    lamports: amount,
+  },
+  'SPL_TOKEN:TRANSFER': {
+    mint: publicKey,
+    sourceOwner: publicKey,
+    destinationOwner: publicKey,
+    amount,
+  },
+  'SPL_TOKEN:TRANSFER_CHECKED': {
+    mint: publicKey,
+    sourceOwner: publicKey,
+    destinationOwner: publicKey,
+    amount,
+    decimals,
+  },
+  'SPL_TOKEN:CREATE_ATA': {
+    payer: publicKey,
+    owner: publicKey,
+    mint: publicKey,
+  },
+  'SPL_TOKEN:CLOSE_ACCOUNT': {
+    mint: publicKey,
+    owner: publicKey,
+  },
+  'SPL_TOKEN:APPROVE': {
+    mint: publicKey,
+    delegate: publicKey,
+    owner: publicKey,
+    amount,
+  },
+  'SPL_TOKEN:REVOKE': {
+    mint: publicKey,
+    owner: publicKey,
+  },
+  'SPL_TOKEN:MINT_TO': {
+    mint: publicKey,
+    destinationOwner: publicKey,
+    authority: publicKey,
+    amount,
+  },
+  'SPL_TOKEN:BURN': {
+    mint: publicKey,
+    owner: publicKey,
+    amount,
+  },
+  'SPL_TOKEN:SYNC_NATIVE': {
+    owner: publicKey,
+  },
+  'RAW_TRANSACTION:EXECUTE': {
+    transactionBytes,
+    additionalSigners: optional(publicKeyList),
+  },
+};
+
+/**
+ * Validate an operation against the schema of its `executionType`/`eventType`
+ *
+ * Checks base58 public keys, u64 amounts (numbers must also be safe integers),
+ * SPL decimals, token metadata length limits and RAW_TRANSACTION size. `LysFlash.execute()` runs this for every
+ * operation before sending a request.
+ *
+ * @param operation - Operation to validate
+ * @param path - Field path of the operation, used in error messages
+ * @throws ValidationError (`INVALID_REQUEST`) naming the offending field
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   validateOperation(operation);
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     console.error(error.field, error.message); // "data.solAmountIn", ...
+ *   }
+ * }
+ * ```
+ */
+export function validateOperation(operation: OperationData, path = 'data'): void {
+  if (typeof operation !== 'object' || operation === null) {
+    throw new ValidationError(path, 'must be an object');
+  }
+
+  const { executionType, eventType } = operation as Partial<OperationData>;
+  if (!executionType) {
+    throw new ValidationError(`${path}.executionType`, 'is required');
+  }
+  if (!eventType && executionType !== 'RAW_TRANSACTION') {
+    throw new ValidationError(`${path}.eventType`, 'is required');
+  }
+
+  const schema = getSchema(executionType, eventType);
+  if (!schema) {
+    throw new ValidationError(
+      `${path}.eventType`,
+      `${eventType} is not supported for executionType ${executionType}`
+    );
+  }
+
+  validateFields(operation as unknown as Record<string, unknown>, schema, path);
+}
+
+/**
+ * Convert the amount fields of a validated operation to their wire form
+ *
+ * Amounts given as bigint, BN or string become numbers when they fit in a safe
+ * integer and bigints otherwise, so both MessagePack and JSON serialize them
+ * without loss of precision.
+ *
+ * @param operation - Operation that passed {@link validateOperation}
+ * @returns Copy of the operation with normalized amounts
+ * @internal
+ */
+export function normalizeOperation(operation: OperationData): OperationData {
+  const schema = getSchema(operation.executionType, operation.eventType);
+  if (!schema) {
+    return operation;
+  }
+
+  const normalized: Record<string, unknown> = { ...operation };
+  for (const [field, rule] of Object.entries(schema)) {
+    if (rule === amount && normalized[field] !== undefined) {
+      normalized[field] = normalizeAmount(normalized[field] as Amount);
+    }
+  }
+  return normalized as unknown as OperationData;
+}
+
+function getSchema(executionType: string, eventType: string | undefined): Schema | undefined {
+  // RAW_TRANSACTION has a single event type
+  const key =
+    executionType === 'RAW_TRANSACTION'
+      ? 'RAW_TRANSACTION:EXECUTE'
+      : `${executionType}:${eventType}`;
+  return OPERATION_SCHEMAS[key];
+}
+
+function validateFields(value: Record<string, unknown>, schema: Schema, path: string): void {
+  for (const [field, rule] of Object.entries(schema)) {
+    rule(value[field], `${path}.${field}`);
+  }
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    return new PublicKey(value).toBytes().length === 32;
+  } catch {
+    return false;
+  }
+}
@@ -9,6 +9,7 @@
  * - Wait helpers
  */
 
+import { Keypair } from '@solana/web3.js';
 import { SolanaExecutionClient } from '../src/client';
 import type { ClientConfig } from '../src/types/config';
 import type {
@@ -215,6 +216,30 @@ export function generatePublicKey(): string {
   return key;
 }
 
+/**
+ * Create a valid SYSTEM_TRANSFER request between two random wallets
+ *
+ * @param overrides - Request fields to replace (e.g. `transport`, `feePayer`)
+ */
+export function createTransferRequest(
+  overrides: Partial<TransactionRequest> = {}
+): TransactionRequest {
+  return {
+    data: {
+      executionType: 'SYSTEM_TRANSFER',
+      eventType: 'TRANSFER',
+      sender: Keypair.generate().publicKey.toBase58(),
+      recipient: Keypair.generate().publicKey.toBase58(),
+      lamports: 1_000_000,
+    },
+    feePayer: 'wallet',
+    priorityFeeLamports: 1_000_000,
+    bribeLamports: 1_000_000,
+    transport: 'VANILLA',
+    ...overrides,
+  };
+}
+
 /**
  * Generate a random Base58 signature (for testing)
  */
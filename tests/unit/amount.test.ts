@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for amount conversion and lossless serialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pack, unpack, Unpackr } from 'msgpackr';
+import BN from 'bn.js';
+import { toBigInt, normalizeAmount, stringifyJson, isBN } from '../../src/utils/amount';
+
+const LARGE = '18446744073709551615'; // u64 max
+
+describe('amount utilities', () => {
+  describe('toBigInt()', () => {
+    it('should convert every amount form', () => {
+      expect(toBigInt(1_000)).toBe(BigInt(1_000));
+      expect(toBigInt(BigInt(LARGE))).toBe(BigInt(LARGE));
+      expect(toBigInt(new BN(LARGE))).toBe(BigInt(LARGE));
+      expect(toBigInt(LARGE)).toBe(BigInt(LARGE));
+    });
+
+    it('should reject non-integers', () => {
+      expect(() => toBigInt(1.5)).toThrow('integer');
+      expect(() => toBigInt('1e9')).toThrow('decimal integer string');
+    });
+  });
+
+  describe('isBN()', () => {
+    it('should detect BN instances', () => {
+      expect(isBN(new BN(1))).toBe(true);
+      expect(isBN(1)).toBe(false);
+      expect(isBN({ words: 1, negative: 0 })).toBe(false);
+    });
+  });
+
+  describe('normalizeAmount()', () => {
+    it('should keep safe integers as numbers', () => {
+      expect(normalizeAmount(new BN(42))).toBe(42);
+      expect(normalizeAmount('9007199254740991')).toBe(Number.MAX_SAFE_INTEGER);
+    });
+
+    it('should return bigints above Number.MAX_SAFE_INTEGER', () => {
+      expect(normalizeAmount('9007199254740993')).toBe(BigInt('9007199254740993'));
+    });
+  });
+
+  describe('stringifyJson()', () => {
+    it('should write bigints as bare JSON numbers', () => {
+      const json = stringifyJson({ amount: BigInt(LARGE), lamports: 5, note: 'x' });
+
+      expect(json).toBe(`{"amount":${LARGE},"lamports":5,"note":"x"}`);
+    });
+
+    it('should match JSON.stringify without bigints', () => {
+      const value = { data: [{ a: 1, b: 'two', c: null }], d: true };
+
+      expect(stringifyJson(value)).toBe(JSON.stringify(value));
+    });
+  });
+
+  describe('MessagePack', () => {
+    it('should round-trip u64 amounts without loss', () => {
+      const packed = pack({ amount: normalizeAmount(LARGE) });
+      const unpacked = new Unpackr({ int64AsType: 'bigint', mapsAsObjects: true }).unpack(packed);
+
+      expect(unpacked.amount).toBe(BigInt(LARGE));
+      expect(unpack(pack({ amount: normalizeAmount(new BN(1_000)) }))).toEqual({ amount: 1_000 });
+    });
+  });
+});
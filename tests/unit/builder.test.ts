@@ -10,6 +10,10 @@ import { TransactionBuilder } from '../../src/builder';
 import { SolanaExecutionClient } from '../../src/client';
 import { Signer } from '../../src/signer';
 import { ExecutionError, ErrorCode } from '../../src/errors';
+import { PumpFunUtils } from '../../src/pumpfun/utils';
+import { PumpFunAmmUtils } from '../../src/pumpfun/amm-utils';
+import { PUMP_FUN_AMM_PROGRAM_ID } from '../../src/pumpfun/types';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
 
 // Create mock client for testing
 function createMockClient(mode: 'internal' | 'external' = 'internal'): SolanaExecutionClient {
@@ -21,6 +25,13 @@ function createMockClient(mode: 'internal' | 'external' = 'internal'): SolanaExe
       error: null,
     }),
     getClientMode: vi.fn().mockReturnValue(mode),
+    getTracer: vi.fn().mockReturnValue(undefined),
+    confirm: vi.fn().mockResolvedValue({
+      signature: '5VBxKxAh...',
+      slot: 42,
+      commitment: 'confirmed',
+      confirmations: 1,
+    }),
   } as any;
 }
 
@@ -791,6 +802,92 @@ describe('TransactionBuilder', () => {
           error: null,
         });
       });
+
+      it('should not wait for confirmation by default', async () => {
+        await builder
+          .systemTransfer({ sender: 'a', recipient: 'b', lamports: 1000 })
+          .setFeePayer('wallet')
+          .send();
+
+        expect(mockClient.confirm).not.toHaveBeenCalled();
+      });
+
+      it('should wait for confirmation when awaitConfirmation is set', async () => {
+        const response = await builder
+          .systemTransfer({ sender: 'a', recipient: 'b', lamports: 1000 })
+          .setFeePayer('wallet')
+          .send({ awaitConfirmation: 'confirmed', confirmOptions: { timeout: 5000 } });
+
+        expect(mockClient.confirm).toHaveBeenCalledWith('5VBxKxAh...', {
+          timeout: 5000,
+          commitment: 'confirmed',
+        });
+        expect(response).toMatchObject({ success: true, slot: 42, commitment: 'confirmed' });
+      });
+
+      it('should derive confirmation expiry from the raw transaction blockhash', async () => {
+        const payer = Keypair.generate().publicKey;
+        const blockhash = Keypair.generate().publicKey.toBase58();
+        const transaction = new Transaction({ feePayer: payer, recentBlockhash: blockhash }).add(
+          SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1000 })
+        );
+
+        await builder
+          .rawTransaction({ transaction })
+          .setFeePayer(payer.toBase58())
+          .setTransport('VANILLA')
+          .send({ awaitConfirmation: 'confirmed' });
+
+        expect(mockClient.confirm).toHaveBeenCalledWith('5VBxKxAh...', {
+          blockhash,
+          commitment: 'confirmed',
+        });
+      });
+
+      it('should not derive blockhash expiry for durable nonce transports', async () => {
+        const payer = Keypair.generate().publicKey;
+        const transaction = new Transaction({
+          feePayer: payer,
+          recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        }).add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1000 }));
+
+        await builder
+          .rawTransaction({ transaction })
+          .setFeePayer(payer.toBase58())
+          .setTransport('FLASH')
+          .send({ awaitConfirmation: 'confirmed' });
+
+        expect(mockClient.confirm).toHaveBeenCalledWith('5VBxKxAh...', {
+          commitment: 'confirmed',
+        });
+      });
+
+      it('should skip confirmation for failed responses', async () => {
+        (mockClient.execute as any).mockResolvedValueOnce({
+          success: false,
+          signature: null,
+          transport: 'NONCE',
+          error: 'failed',
+        });
+
+        const response = await builder
+          .systemTransfer({ sender: 'a', recipient: 'b', lamports: 1000 })
+          .setFeePayer('wallet')
+          .send({ awaitConfirmation: 'confirmed' });
+
+        expect(response.success).toBe(false);
+        expect(mockClient.confirm).not.toHaveBeenCalled();
+      });
+
+      it('should skip confirmation for simulations', async () => {
+        await builder
+          .systemTransfer({ sender: 'a', recipient: 'b', lamports: 1000 })
+          .setFeePayer('wallet')
+          .setTransport('SIMULATE')
+          .send({ awaitConfirmation: 'confirmed' });
+
+        expect(mockClient.confirm).not.toHaveBeenCalled();
+      });
     });
 
     describe('simulate()', () => {
@@ -1175,4 +1272,328 @@ describe('TransactionBuilder', () => {
       );
     });
   });
+
+  // ============================================================================
+  // Pump.fun Quotes
+  // ============================================================================
+
+  describe('Pump.fun Slippage Helpers', () => {
+    const MINT = Keypair.generate().publicKey;
+    const CREATOR = Keypair.generate().publicKey;
+    const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+    // Initial Pump.fun curve: 1.073B virtual tokens (6 decimals), 30 virtual SOL
+    function encodeBondingCurve(isMayhemMode = false): Buffer {
+      const data = Buffer.alloc(82);
+      data.writeBigUInt64LE(1_073_000_000_000_000n, 8);
+      data.writeBigUInt64LE(30_000_000_000n, 16);
+      data.writeBigUInt64LE(793_100_000_000_000n, 24);
+      data.writeBigUInt64LE(0n, 32);
+      data.writeBigUInt64LE(1_000_000_000_000_000n, 40);
+      data[48] = 0;
+      CREATOR.toBuffer().copy(data, 49);
+      data[81] = isMayhemMode ? 1 : 0;
+      return data;
+    }
+
+    function encodeGlobal(): Buffer {
+      const data = Buffer.alloc(162);
+      data.writeBigUInt64LE(95n, 105);
+      data.writeBigUInt64LE(5n, 154);
+      return data;
+    }
+
+    function createConnection(isMayhemMode = false) {
+      const curveAddress = PumpFunUtils.getBondingCurveAddress(MINT);
+      return {
+        getAccountInfo: vi.fn().mockImplementation(async (address: PublicKey) => {
+          if (address.equals(curveAddress)) {
+            return { data: encodeBondingCurve(isMayhemMode), owner: PublicKey.default };
+          }
+          if (address.equals(MINT)) {
+            return { data: Buffer.alloc(82), owner: new PublicKey(TOKEN_PROGRAM) };
+          }
+          return { data: encodeGlobal(), owner: PublicKey.default };
+        }),
+      };
+    }
+
+    function useConnection(connection: unknown): void {
+      (mockClient as any).requireConnection = vi.fn().mockReturnValue(connection);
+      (mockClient as any).getCommitment = vi.fn().mockReturnValue('confirmed');
+    }
+
+    it('should fill tokenAmountOut and on-chain accounts for buys', async () => {
+      useConnection(createConnection(true));
+
+      await builder.pumpFunBuyWithSlippage({
+        pool: MINT.toBase58(),
+        user: 'buyer_wallet',
+        solAmountIn: 1_000_000_000,
+        slippageBps: 100,
+      });
+      await builder.setFeePayer('buyer_wallet').send();
+
+      const callArgs = (mockClient.execute as any).mock.calls[0][0];
+      const quote = PumpFunUtils.calculateBuyQuote(
+        PumpFunUtils.decodeBondingCurve(
+          PumpFunUtils.getBondingCurveAddress(MINT),
+          MINT,
+          encodeBondingCurve()
+        ),
+        { protocolFeeBps: 95, creatorFeeBps: 5 },
+        1_000_000_000,
+        100
+      );
+
+      expect(callArgs.data).toMatchObject({
+        executionType: 'PUMP_FUN',
+        eventType: 'BUY',
+        tokenProgram: TOKEN_PROGRAM,
+        poolAccounts: { coinCreator: CREATOR.toBase58() },
+        solAmountIn: 1_000_000_000,
+        tokenAmountOut: quote.minTokenAmountOut.toNumber(),
+        mayhemModeEnabled: true,
+      });
+      expect(callArgs.data).not.toHaveProperty('slippageBps');
+    });
+
+    it('should fill minSolAmountOut for sells', async () => {
+      useConnection(createConnection());
+
+      await builder.pumpFunSellWithSlippage({
+        pool: MINT.toBase58(),
+        tokenProgram: TOKEN_PROGRAM,
+        user: 'seller_wallet',
+        tokenAmountIn: 1_000_000_000_000,
+        slippageBps: 50,
+      });
+      await builder.setFeePayer('seller_wallet').send();
+
+      const callArgs = (mockClient.execute as any).mock.calls[0][0];
+      expect(callArgs.data.eventType).toBe('SELL');
+      expect(callArgs.data.minSolAmountOut).toBeGreaterThan(0);
+      expect(callArgs.data.mayhemModeEnabled).toBe(false);
+    });
+
+    it('should quote buys with protocol and creator fees', () => {
+      const curve = PumpFunUtils.decodeBondingCurve(
+        PumpFunUtils.getBondingCurveAddress(MINT),
+        MINT,
+        encodeBondingCurve()
+      );
+
+      const quote = PumpFunUtils.calculateBuyQuote(
+        curve,
+        { protocolFeeBps: 95, creatorFeeBps: 5 },
+        1_000_000_000,
+        0
+      );
+
+      // 1 SOL minus 1% fees into a 30 SOL / 1.073B token curve
+      expect(quote.tokenAmountOut.toString()).toBe('34281150096027');
+      expect(quote.protocolFee.toNumber()).toBe(9_405_941);
+      expect(quote.creatorFee.toNumber()).toBe(495_050);
+      expect(quote.minTokenAmountOut.eq(quote.tokenAmountOut)).toBe(true);
+    });
+
+    it('should skip the creator fee for curves without a creator', () => {
+      const data = encodeBondingCurve();
+      PublicKey.default.toBuffer().copy(data, 49);
+      const curve = PumpFunUtils.decodeBondingCurve(
+        PumpFunUtils.getBondingCurveAddress(MINT),
+        MINT,
+        data
+      );
+
+      const quote = PumpFunUtils.calculateSellQuote(
+        curve,
+        { protocolFeeBps: 95, creatorFeeBps: 5 },
+        1_000_000_000_000
+      );
+
+      expect(curve.creator).toBeNull();
+      expect(quote.creatorFee.isZero()).toBe(true);
+    });
+
+    it('should reject quotes on a completed curve', () => {
+      const data = encodeBondingCurve();
+      data[48] = 1;
+      const curve = PumpFunUtils.decodeBondingCurve(
+        PumpFunUtils.getBondingCurveAddress(MINT),
+        MINT,
+        data
+      );
+
+      expect(() =>
+        PumpFunUtils.calculateBuyQuote(curve, { protocolFeeBps: 95, creatorFeeBps: 5 }, 1000)
+      ).toThrow('Bonding curve complete');
+    });
+  });
+
+  describe('Pump.fun AMM Slippage Helpers', () => {
+    const POOL = Keypair.generate().publicKey;
+    const BASE_MINT = Keypair.generate().publicKey;
+    const QUOTE_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+    const POOL_CREATOR = Keypair.generate().publicKey;
+    const COIN_CREATOR = Keypair.generate().publicKey;
+    const BASE_VAULT = Keypair.generate().publicKey;
+    const QUOTE_VAULT = Keypair.generate().publicKey;
+    const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+    const TOKEN_2022_PROGRAM = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+    const FEES = { lpFeeBps: 20, protocolFeeBps: 5, coinCreatorFeeBps: 5 };
+
+    // 200M token / 85 SOL pool
+    function encodePool(coinCreator: PublicKey = COIN_CREATOR): Buffer {
+      const data = Buffer.alloc(244);
+      POOL_CREATOR.toBuffer().copy(data, 11);
+      BASE_MINT.toBuffer().copy(data, 43);
+      QUOTE_MINT.toBuffer().copy(data, 75);
+      BASE_VAULT.toBuffer().copy(data, 139);
+      QUOTE_VAULT.toBuffer().copy(data, 171);
+      coinCreator.toBuffer().copy(data, 211);
+      return data;
+    }
+
+    function encodeTokenAccount(amount: bigint): Buffer {
+      const data = Buffer.alloc(165);
+      data.writeBigUInt64LE(amount, 64);
+      return data;
+    }
+
+    function encodeGlobalConfig(): Buffer {
+      const data = Buffer.alloc(321);
+      data.writeBigUInt64LE(20n, 40);
+      data.writeBigUInt64LE(5n, 48);
+      data.writeBigUInt64LE(5n, 313);
+      return data;
+    }
+
+    function createConnection(poolData: Buffer = encodePool()) {
+      const ammProgram = new PublicKey(PUMP_FUN_AMM_PROGRAM_ID);
+      return {
+        getAccountInfo: vi.fn().mockImplementation(async (address: PublicKey) => {
+          if (address.equals(POOL)) {
+            return { data: poolData, owner: ammProgram };
+          }
+          return { data: encodeGlobalConfig(), owner: ammProgram };
+        }),
+        getMultipleAccountsInfo: vi.fn().mockResolvedValue([
+          { data: Buffer.alloc(82), owner: new PublicKey(TOKEN_2022_PROGRAM) },
+          { data: Buffer.alloc(82), owner: new PublicKey(TOKEN_PROGRAM) },
+          { data: encodeTokenAccount(200_000_000_000_000n), owner: new PublicKey(TOKEN_PROGRAM) },
+          { data: encodeTokenAccount(85_000_000_000n), owner: new PublicKey(TOKEN_PROGRAM) },
+        ]),
+      };
+    }
+
+    function useConnection(connection: unknown): void {
+      (mockClient as any).requireConnection = vi.fn().mockReturnValue(connection);
+      (mockClient as any).getCommitment = vi.fn().mockReturnValue('confirmed');
+    }
+
+    it('should resolve token programs, pool accounts and reserves', async () => {
+      const pool = await PumpFunAmmUtils.getPool(createConnection() as any, POOL);
+
+      expect(pool.baseMint.equals(BASE_MINT)).toBe(true);
+      expect(pool.quoteMint.equals(QUOTE_MINT)).toBe(true);
+      expect(pool.creator.equals(POOL_CREATOR)).toBe(true);
+      expect(pool.coinCreator?.equals(COIN_CREATOR)).toBe(true);
+      expect(pool.baseTokenProgram.toBase58()).toBe(TOKEN_2022_PROGRAM);
+      expect(pool.quoteTokenProgram.toBase58()).toBe(TOKEN_PROGRAM);
+      expect(pool.baseReserve.toString()).toBe('200000000000000');
+      expect(pool.quoteReserve.toString()).toBe('85000000000');
+    });
+
+    it('should reject accounts not owned by the AMM program', async () => {
+      const connection = createConnection();
+      connection.getAccountInfo.mockResolvedValue({
+        data: encodePool(),
+        owner: PublicKey.default,
+      });
+
+      await expect(PumpFunAmmUtils.getPool(connection as any, POOL)).rejects.toThrow(
+        'Pump.fun AMM pool not found'
+      );
+    });
+
+    it('should fill maxQuoteAmountIn and pool accounts for buys', async () => {
+      useConnection(createConnection());
+
+      await builder.pumpFunAmmBuyWithSlippage({
+        pool: POOL.toBase58(),
+        user: 'buyer_wallet',
+        baseAmountOut: 1_000_000_000_000,
+        slippageBps: 100,
+      });
+      await builder.setFeePayer('buyer_wallet').send();
+
+      const callArgs = (mockClient.execute as any).mock.calls[0][0];
+      expect(callArgs.data).toMatchObject({
+        executionType: 'PUMP_FUN_AMM',
+        eventType: 'BUY',
+        pool: POOL.toBase58(),
+        baseTokenProgram: TOKEN_2022_PROGRAM,
+        quoteTokenProgram: TOKEN_PROGRAM,
+        poolAccounts: {
+          baseMint: BASE_MINT.toBase58(),
+          quoteMint: QUOTE_MINT.toBase58(),
+          coinCreator: COIN_CREATOR.toBase58(),
+          poolCreator: POOL_CREATOR.toBase58(),
+        },
+        baseAmountOut: 1_000_000_000_000,
+        // 428_417_087 lamports including fees, plus 1% slippage
+        maxQuoteAmountIn: 432_701_257,
+      });
+      expect(callArgs.data).not.toHaveProperty('slippageBps');
+    });
+
+    it('should fill minBaseAmountOut for exact quote in buys', async () => {
+      useConnection(createConnection());
+
+      await builder.pumpFunAmmBuyExactQuoteInWithSlippage({
+        pool: POOL.toBase58(),
+        user: 'buyer_wallet',
+        spendableQuoteIn: 428_417_087,
+        slippageBps: 0,
+      });
+      await builder.setFeePayer('buyer_wallet').send();
+
+      const callArgs = (mockClient.execute as any).mock.calls[0][0];
+      expect(callArgs.data.eventType).toBe('BUY_EXACT_QUOTE_IN');
+      // Round trip of the exact-out quote, within rounding
+      expect(callArgs.data.minBaseAmountOut).toBeGreaterThan(999_990_000_000);
+      expect(callArgs.data.minBaseAmountOut).toBeLessThan(1_000_000_010_000);
+    });
+
+    it('should fill minQuoteAmountOut for sells', async () => {
+      useConnection(createConnection(encodePool(PublicKey.default)));
+
+      await builder.pumpFunAmmSellWithSlippage({
+        pool: POOL.toBase58(),
+        user: 'seller_wallet',
+        baseAmountIn: 1_000_000_000_000,
+        slippageBps: 0,
+      });
+      await builder.setFeePayer('seller_wallet').send();
+
+      const callArgs = (mockClient.execute as any).mock.calls[0][0];
+      expect(callArgs.data.eventType).toBe('SELL');
+      expect(callArgs.data.poolAccounts.coinCreator).toBeNull();
+      // 422_885_572 lamports minus LP and protocol fees, no creator fee
+      expect(callArgs.data.minQuoteAmountOut).toBe(421_828_357);
+    });
+
+    it('should quote exact-out sells and reject mints outside the pool', async () => {
+      const pool = await PumpFunAmmUtils.getPool(createConnection() as any, POOL);
+
+      const quote = PumpFunAmmUtils.calculateQuoteExactOut(pool, FEES, QUOTE_MINT, 100_000_000);
+      const check = PumpFunAmmUtils.calculateQuote(pool, FEES, BASE_MINT, quote.amountIn, 0);
+
+      expect(check.amountOut.gte(quote.amountOut)).toBe(true);
+      expect(() =>
+        PumpFunAmmUtils.calculateQuote(pool, FEES, Keypair.generate().publicKey, 1000)
+      ).toThrow('is not in Pump.fun AMM pool');
+    });
+  });
 });
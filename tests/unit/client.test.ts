@@ -7,6 +7,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { SolanaExecutionClient, LysFlash } from '../../src/client';
 import { ExecutionError, ErrorCode } from '../../src/errors';
+import { RaydiumCache } from '../../src/raydium/cache';
+import { Connection, Keypair } from '@solana/web3.js';
+import { createTransferRequest } from '../test-utils';
 
 describe('SolanaExecutionClient', () => {
   let client: SolanaExecutionClient;
@@ -232,6 +235,36 @@ describe('SolanaExecutionClient', () => {
 
       await expect(client.execute(request)).rejects.toThrow(ExecutionError);
     });
+
+    it('should reject malformed operation fields with the field path', async () => {
+      const sender = Keypair.generate().publicKey.toBase58();
+      const request: any = {
+        data: [
+          {
+            executionType: 'SYSTEM_TRANSFER',
+            eventType: 'TRANSFER',
+            sender,
+            recipient: sender,
+            lamports: 1000,
+          },
+          {
+            executionType: 'SYSTEM_TRANSFER',
+            eventType: 'TRANSFER',
+            sender,
+            recipient: sender,
+            lamports: -1,
+          },
+        ],
+        feePayer: sender,
+        priorityFeeLamports: 1_000_000,
+        transport: 'SIMULATE',
+      };
+
+      await expect(client.execute(request)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+        field: 'data[1].lamports',
+      });
+    });
   });
 
   describe('getStats()', () => {
@@ -335,10 +368,291 @@ describe('SolanaExecutionClient', () => {
     });
   });
 
+  describe('Failover', () => {
+    it('should use the failover transport when failover is configured', () => {
+      client = new SolanaExecutionClient({
+        failover: {
+          addresses: ['ipc:///tmp/tx-executor-a.ipc', 'ipc:///tmp/tx-executor-b.ipc'],
+          healthCheckInterval: 0,
+        },
+      });
+
+      expect(client.getTransportType()).toBe('FAILOVER');
+      expect(client.getEndpointHealth().map((endpoint) => endpoint.address)).toEqual([
+        'ipc:///tmp/tx-executor-a.ipc',
+        'ipc:///tmp/tx-executor-b.ipc',
+      ]);
+      expect(client.getEndpointHealth()[0]!.active).toBe(true);
+    });
+
+    it('should report no endpoints without failover', () => {
+      client = new SolanaExecutionClient();
+
+      expect(client.getEndpointHealth()).toEqual([]);
+    });
+  });
+
   describe('getClientMode()', () => {
     it('should default to internal for constructor', () => {
       client = new SolanaExecutionClient();
       expect(client.getClientMode()).toBe('internal');
     });
   });
+
+  describe('Raydium Cache', () => {
+    it('should keep one cache per client, even on a shared connection', () => {
+      const connection = new Connection('http://localhost:8899');
+      client = new SolanaExecutionClient({ connection });
+      const other = new SolanaExecutionClient({ connection });
+
+      expect(client.getRaydiumCache()).toBeInstanceOf(RaydiumCache);
+      expect(client.getRaydiumCache()).toBe(client.getRaydiumCache());
+      expect(other.getRaydiumCache()).not.toBe(client.getRaydiumCache());
+      other.close();
+    });
+
+    it('should apply raydiumCache config to the client cache only', async () => {
+      const connection = new Connection('http://localhost:8899');
+      client = new SolanaExecutionClient({ connection, raydiumCache: { poolTtl: 60_000 } });
+      const other = new SolanaExecutionClient({ connection });
+      const fetch = vi.fn().mockResolvedValue({});
+
+      const pool = Keypair.generate().publicKey;
+      await client.getRaydiumCache().getPoolInfo('cpmm', pool, fetch);
+      await client.getRaydiumCache().getPoolInfo('cpmm', pool, fetch);
+      await other.getRaydiumCache().getPoolInfo('cpmm', pool, fetch);
+      await other.getRaydiumCache().getPoolInfo('cpmm', pool, fetch);
+
+      // One fetch for the configured client, one per call for the other
+      expect(fetch).toHaveBeenCalledTimes(3);
+      other.close();
+    });
+
+    it('should throw from getRaydiumCache() without a connection', () => {
+      client = new SolanaExecutionClient();
+
+      expect(() => client.getRaydiumCache()).toThrow(ExecutionError);
+      expect(() => client.invalidateRaydiumCache()).not.toThrow();
+    });
+  });
+
+  describe('Retry Policy', () => {
+    const request = createTransferRequest({ transport: 'SIMULATE' });
+
+    const success = { success: true, signature: 'sig', transport: 'SIMULATE', error: null };
+
+    function mockTransportRequest(target: LysFlash) {
+      const requestFn = vi.fn();
+      (target as any).transport.request = requestFn;
+      return requestFn;
+    }
+
+    it('should attempt once when no retry policy is configured', async () => {
+      client = new SolanaExecutionClient();
+      const requestFn = mockTransportRequest(client);
+      requestFn.mockRejectedValue(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ'));
+
+      await expect(client.execute(request)).rejects.toThrow('refused');
+      expect(requestFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry connection errors and record attempts', async () => {
+      client = new SolanaExecutionClient({
+        retryPolicy: { maxAttempts: 3, initialDelay: 1, jitter: 0 },
+        logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      });
+      const requestFn = mockTransportRequest(client);
+      requestFn
+        .mockRejectedValueOnce(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'HTTP'))
+        .mockRejectedValueOnce(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'HTTP'))
+        .mockResolvedValueOnce(success);
+
+      const result = await client.execute(request);
+
+      expect(result.signature).toBe('sig');
+      expect(requestFn).toHaveBeenCalledTimes(3);
+
+      const stats = client.getStats();
+      expect(stats.requestsSent).toBe(1);
+      expect(stats.requestsSuccessful).toBe(1);
+      expect(stats.totalAttempts).toBe(3);
+      expect(stats.retryAttempts).toBe(2);
+      expect(stats.requestsRetried).toBe(1);
+    });
+
+    it('should not retry a timeout unless retryPossiblyDelivered is set', async () => {
+      client = new SolanaExecutionClient({
+        retryPolicy: { maxAttempts: 3, initialDelay: 1 },
+      });
+      const requestFn = mockTransportRequest(client);
+      requestFn.mockRejectedValue(new ExecutionError('timeout', ErrorCode.TIMEOUT, 'ZMQ'));
+
+      await expect(client.execute(request)).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+      expect(requestFn).toHaveBeenCalledTimes(1);
+      expect(client.getStats().retryAttempts).toBe(0);
+    });
+
+    it('should not retry validation errors', async () => {
+      client = new SolanaExecutionClient({ retryPolicy: { maxAttempts: 3, initialDelay: 1 } });
+      const requestFn = mockTransportRequest(client);
+
+      await expect(
+        client.execute(createTransferRequest({ feePayer: undefined }))
+      ).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+      });
+      expect(requestFn).not.toHaveBeenCalled();
+    });
+
+    it('should reset attempt counters in resetStats()', async () => {
+      client = new SolanaExecutionClient({
+        retryPolicy: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+        logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      });
+      const requestFn = mockTransportRequest(client);
+      requestFn
+        .mockRejectedValueOnce(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ'))
+        .mockResolvedValueOnce(success);
+
+      await client.execute(request);
+      client.resetStats();
+
+      const stats = client.getStats();
+      expect(stats.totalAttempts).toBe(0);
+      expect(stats.retryAttempts).toBe(0);
+      expect(stats.requestsRetried).toBe(0);
+    });
+
+    it('should reject an invalid retry policy', () => {
+      expect(() => new SolanaExecutionClient({ retryPolicy: { maxAttempts: 0 } })).toThrow(
+        ExecutionError
+      );
+    });
+  });
+
+  describe('Broadcast Stats', () => {
+    const request = createTransferRequest({ transport: 'FLASH' });
+
+    function flashResponse(winner: string) {
+      return {
+        success: true,
+        signature: 'sig',
+        transport: 'NONCE',
+        error: null,
+        broadcasts: [
+          { endpoint: 'NOZOMI', success: true, landed: winner === 'NOZOMI', latency: 10 },
+          { endpoint: 'JITO', success: true, landed: winner === 'JITO', latency: 30 },
+          { endpoint: 'ZERO_SLOT', success: false, landed: false, error: 'rate limited' },
+        ],
+      };
+    }
+
+    it('should aggregate per-endpoint win rates and latency', async () => {
+      client = new SolanaExecutionClient();
+      const requestFn = vi.fn();
+      (client as any).transport.request = requestFn;
+      requestFn
+        .mockResolvedValueOnce(flashResponse('NOZOMI'))
+        .mockResolvedValueOnce(flashResponse('NOZOMI'))
+        .mockResolvedValueOnce({
+          ...flashResponse('JITO'),
+          broadcasts: [
+            { endpoint: 'NOZOMI', success: true, landed: false, latency: 40 },
+            { endpoint: 'JITO', success: true, landed: true, latency: 30 },
+          ],
+        });
+
+      const result = await client.execute(request);
+      await client.execute(request);
+      await client.execute(request);
+
+      expect(result.broadcasts?.[2]?.error).toBe('rate limited');
+
+      const { broadcasts } = client.getStats();
+      expect(broadcasts.NOZOMI).toEqual({
+        sent: 3,
+        failed: 0,
+        landed: 2,
+        winRate: 2 / 3,
+        averageLatency: 20,
+      });
+      expect(broadcasts.JITO?.winRate).toBeCloseTo(1 / 3);
+      expect(broadcasts.ZERO_SLOT).toMatchObject({
+        sent: 2,
+        failed: 2,
+        landed: 0,
+        averageLatency: 0,
+      });
+    });
+
+    it('should ignore responses without broadcasts and reset with resetStats()', async () => {
+      client = new SolanaExecutionClient();
+      const requestFn = vi.fn();
+      (client as any).transport.request = requestFn;
+      requestFn
+        .mockResolvedValueOnce({
+          success: true,
+          signature: 'sig',
+          transport: 'VANILLA',
+          error: null,
+        })
+        .mockResolvedValueOnce(flashResponse('JITO'));
+
+      await client.execute(request);
+      expect(client.getStats().broadcasts).toEqual({});
+
+      await client.execute(request);
+      client.getStats().broadcasts.JITO!.sent = 100;
+      expect(client.getStats().broadcasts.JITO?.sent).toBe(1);
+
+      client.resetStats();
+      expect(client.getStats().broadcasts).toEqual({});
+    });
+  });
+
+  describe('Latency Stats', () => {
+    const request = createTransferRequest();
+
+    it('should record execute() and createWallet() latencies', async () => {
+      client = new SolanaExecutionClient();
+      const requestFn = vi.fn();
+      (client as any).transport.request = requestFn;
+      requestFn
+        .mockResolvedValueOnce({
+          success: true,
+          signature: 'sig',
+          transport: 'VANILLA',
+          error: null,
+        })
+        .mockRejectedValueOnce(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ'))
+        .mockResolvedValueOnce({ success: true, publicKey: 'wallet' });
+
+      await client.execute(request);
+      await expect(client.execute(request)).rejects.toThrow('refused');
+      await client.createWallet(Keypair.generate().publicKey.toBase58());
+      // Validation failures never reach the transport
+      await expect(
+        client.execute(createTransferRequest({ feePayer: undefined }))
+      ).rejects.toThrow();
+
+      const stats = client.getStats();
+      expect(Number.isFinite(stats.averageLatency)).toBe(true);
+      expect(stats.latency.overall.count).toBe(3);
+      expect(stats.latency.failure.count).toBe(1);
+      expect(stats.latency.byTransport.VANILLA?.count).toBe(2);
+      expect(stats.latency.byExecutionType.SYSTEM_TRANSFER?.count).toBe(2);
+      expect(stats.latency.byExecutionType.WALLET_CREATE?.count).toBe(1);
+      expect(stats.errors).toEqual({ CONNECTION_ERROR: 1, INVALID_REQUEST: 1 });
+
+      client.resetStats();
+      expect(client.getStats().latency.overall.count).toBe(0);
+    });
+
+    it('should use the configured latencyWindow', () => {
+      client = new SolanaExecutionClient({ latencyWindow: 5_000 });
+
+      expect(client.getStats().latency.window).toBe(5_000);
+      expect(() => new SolanaExecutionClient({ latencyWindow: 0 })).toThrow(ExecutionError);
+    });
+  });
 });
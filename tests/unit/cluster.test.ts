@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for cluster selection
+ *
+ * Tests per-client cluster selection and cluster-specific program IDs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Connection } from '@solana/web3.js';
+import { LysFlash } from '../../src/client';
+import { toMeteoraCluster } from '../../src/utils/cluster';
+import { getRaydiumProgramIds } from '../../src/raydium/programs';
+import { RAYDIUM_CLMM_PROGRAM_ID, RAYDIUM_CLMM_DEVNET_PROGRAM_ID } from '../../src/raydium/clmm';
+import {
+  RAYDIUM_LAUNCHPAD_PROGRAM_ID,
+  RAYDIUM_LAUNCHPAD_DEVNET_PROGRAM_ID,
+} from '../../src/raydium/launchpad';
+
+describe('Cluster', () => {
+  describe('LysFlash', () => {
+    it('should keep the cluster of each client sharing a connection', () => {
+      const connection = new Connection('https://rpc.example.com');
+      const devnet = new LysFlash({ connection, cluster: 'devnet' });
+      const mainnet = new LysFlash({ connection });
+
+      expect(devnet.getCluster()).toBe('devnet');
+      expect(devnet.getRaydiumCache().getCluster()).toBe('devnet');
+      expect(mainnet.getCluster()).toBe('mainnet');
+      expect(mainnet.getRaydiumCache().getCluster()).toBe('mainnet');
+      devnet.close();
+      mainnet.close();
+    });
+
+    it('should not infer the cluster from the RPC URL', () => {
+      const connection = new Connection('https://devnet-archive.mainnet.example.com');
+      const client = new LysFlash({ connection });
+
+      expect(client.getCluster()).toBe('mainnet');
+      expect(client.getRaydiumCache().getCluster()).toBe('mainnet');
+      client.close();
+    });
+
+    it('should default to mainnet', () => {
+      const client = new LysFlash();
+
+      expect(client.getCluster()).toBe('mainnet');
+      client.close();
+    });
+  });
+
+  describe('toMeteoraCluster()', () => {
+    it('should map to Meteora SDK cluster names', () => {
+      expect(toMeteoraCluster('mainnet')).toBe('mainnet-beta');
+      expect(toMeteoraCluster('devnet')).toBe('devnet');
+    });
+  });
+
+  describe('getRaydiumProgramIds()', () => {
+    it('should return mainnet program IDs', async () => {
+      const programs = await getRaydiumProgramIds('mainnet');
+
+      expect(programs.CLMM_PROGRAM_ID.toBase58()).toBe(RAYDIUM_CLMM_PROGRAM_ID);
+      expect(programs.LAUNCHPAD_PROGRAM.toBase58()).toBe(RAYDIUM_LAUNCHPAD_PROGRAM_ID);
+    });
+
+    it('should return devnet program IDs', async () => {
+      const programs = await getRaydiumProgramIds('devnet');
+
+      expect(programs.CLMM_PROGRAM_ID.toBase58()).toBe(RAYDIUM_CLMM_DEVNET_PROGRAM_ID);
+      expect(programs.LAUNCHPAD_PROGRAM.toBase58()).toBe(RAYDIUM_LAUNCHPAD_DEVNET_PROGRAM_ID);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit Tests for transaction confirmation
+ *
+ * Tests signature status polling with a mocked Solana connection
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  confirmTransaction,
+  toConfirmationCommitment,
+  transactionExpiry,
+} from '../../src/utils/confirmation';
+import { LysFlash } from '../../src/client';
+import { ErrorCode } from '../../src/errors';
+
+const SIGNATURE =
+  '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+// Mock connection returning the given statuses in order (last one repeats)
+function createMockConnection(statuses: unknown[], blockHeights: number[] = [100]) {
+  let statusIndex = 0;
+  let heightIndex = 0;
+
+  return {
+    getSignatureStatuses: vi.fn().mockImplementation(async () => {
+      const status = statuses[Math.min(statusIndex++, statuses.length - 1)];
+      return { context: { slot: 1 }, value: [status] };
+    }),
+    getBlockHeight: vi.fn().mockImplementation(async () => {
+      return blockHeights[Math.min(heightIndex++, blockHeights.length - 1)];
+    }),
+    getNonce: vi.fn(),
+    isBlockhashValid: vi.fn().mockResolvedValue({ context: { slot: 1 }, value: true }),
+  } as any;
+}
+
+describe('confirmTransaction()', () => {
+  it('should resolve once the commitment level is reached', async () => {
+    const connection = createMockConnection([
+      null,
+      { slot: 42, confirmations: 0, err: null, confirmationStatus: 'processed' },
+      { slot: 42, confirmations: 1, err: null, confirmationStatus: 'confirmed' },
+    ]);
+
+    const result = await confirmTransaction(connection, SIGNATURE, 'confirmed', {
+      pollInterval: 1,
+    });
+
+    expect(result).toEqual({
+      signature: SIGNATURE,
+      slot: 42,
+      commitment: 'confirmed',
+      confirmations: 1,
+    });
+    expect(connection.getSignatureStatuses).toHaveBeenCalledTimes(3);
+  });
+
+  it('should accept a higher commitment than requested', async () => {
+    const connection = createMockConnection([
+      { slot: 42, confirmations: null, err: null, confirmationStatus: 'finalized' },
+    ]);
+
+    const result = await confirmTransaction(connection, SIGNATURE, 'processed');
+
+    expect(result.commitment).toBe('finalized');
+  });
+
+  it('should surface on-chain failures as ON_CHAIN_ERROR', async () => {
+    const connection = createMockConnection([
+      {
+        slot: 42,
+        confirmations: 0,
+        err: { InstructionError: [0, { Custom: 6001 }] },
+        confirmationStatus: 'processed',
+      },
+    ]);
+
+    await expect(confirmTransaction(connection, SIGNATURE, 'confirmed')).rejects.toMatchObject({
+      code: ErrorCode.ON_CHAIN_ERROR,
+      message: expect.stringContaining('6001'),
+    });
+  });
+
+  it('should time out once the last valid block height has passed', async () => {
+    const connection = createMockConnection([null], [100, 251]);
+
+    await expect(
+      confirmTransaction(connection, SIGNATURE, 'confirmed', {
+        pollInterval: 1,
+        lastValidBlockHeight: 250,
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+      message: expect.stringContaining('expired'),
+    });
+  });
+
+  it('should time out once the blockhash is no longer valid', async () => {
+    const connection = createMockConnection([null]);
+    connection.isBlockhashValid
+      .mockResolvedValueOnce({ context: { slot: 1 }, value: true })
+      .mockResolvedValue({ context: { slot: 2 }, value: false });
+    const blockhash = Keypair.generate().publicKey.toBase58();
+
+    await expect(
+      confirmTransaction(connection, SIGNATURE, 'confirmed', { pollInterval: 1, blockhash })
+    ).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+      message: expect.stringContaining('expired'),
+    });
+    expect(connection.isBlockhashValid).toHaveBeenCalledWith(blockhash, {
+      commitment: 'confirmed',
+    });
+  });
+
+  it('should only time out after the timeout without expiry options', async () => {
+    const connection = createMockConnection([null]);
+
+    await expect(
+      confirmTransaction(connection, SIGNATURE, 'confirmed', { timeout: 20, pollInterval: 5 })
+    ).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+      message: expect.stringContaining('not confirmed after 20ms'),
+    });
+    expect(connection.getBlockHeight).not.toHaveBeenCalled();
+    expect(connection.isBlockhashValid).not.toHaveBeenCalled();
+  });
+
+  it('should time out once the durable nonce has advanced', async () => {
+    const connection = createMockConnection([null]);
+    connection.getNonce
+      .mockResolvedValueOnce({ nonce: 'nonce_value' })
+      .mockResolvedValue({ nonce: 'advanced_value' });
+
+    await expect(
+      confirmTransaction(connection, SIGNATURE, 'confirmed', {
+        pollInterval: 1,
+        nonce: { account: Keypair.generate().publicKey, value: 'nonce_value' },
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+      message: expect.stringContaining('expired'),
+    });
+    // Nonce transactions don't expire by blockhash
+    expect(connection.getBlockHeight).not.toHaveBeenCalled();
+  });
+
+  it('should not treat a transaction that landed during expiry as expired', async () => {
+    const connection = createMockConnection(
+      [null, { slot: 42, confirmations: 1, err: null, confirmationStatus: 'confirmed' }],
+      [251]
+    );
+
+    const result = await confirmTransaction(connection, SIGNATURE, 'confirmed', {
+      lastValidBlockHeight: 250,
+    });
+
+    expect(result.slot).toBe(42);
+  });
+
+  it('should time out after the configured timeout', async () => {
+    const connection = createMockConnection([
+      { slot: 42, confirmations: 0, err: null, confirmationStatus: 'processed' },
+    ]);
+
+    await expect(
+      confirmTransaction(connection, SIGNATURE, 'finalized', { timeout: 20, pollInterval: 5 })
+    ).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+  });
+});
+
+describe('transactionExpiry()', () => {
+  const payer = Keypair.generate().publicKey;
+  const blockhash = Keypair.generate().publicKey.toBase58();
+  const transfer = SystemProgram.transfer({
+    fromPubkey: payer,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1_000,
+  });
+
+  it('should expire regular transactions with their blockhash', () => {
+    const transaction = new Transaction({ feePayer: payer, recentBlockhash: blockhash }).add(
+      transfer
+    );
+
+    expect(transactionExpiry(transaction)).toEqual({ blockhash });
+  });
+
+  it('should expire durable nonce transactions with their nonce', () => {
+    const nonceAccount = Keypair.generate().publicKey;
+    const advance = SystemProgram.nonceAdvance({
+      noncePubkey: nonceAccount,
+      authorizedPubkey: payer,
+    });
+    const legacy = new Transaction({ feePayer: payer, recentBlockhash: blockhash }).add(
+      advance,
+      transfer
+    );
+    const versioned = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: blockhash,
+        instructions: [advance, transfer],
+      }).compileToV0Message()
+    );
+
+    for (const transaction of [legacy, versioned]) {
+      expect(transactionExpiry(transaction)).toEqual({
+        nonce: { account: nonceAccount, value: blockhash },
+      });
+    }
+  });
+
+  it('should return nothing without a blockhash', () => {
+    expect(transactionExpiry(new Transaction().add(transfer))).toEqual({});
+  });
+});
+
+describe('toConfirmationCommitment()', () => {
+  it('should map deprecated commitment aliases', () => {
+    expect(toConfirmationCommitment('recent')).toBe('processed');
+    expect(toConfirmationCommitment('single')).toBe('confirmed');
+    expect(toConfirmationCommitment('max')).toBe('finalized');
+  });
+});
+
+describe('LysFlash.confirm()', () => {
+  it('should require a connection', async () => {
+    const client = new LysFlash();
+
+    try {
+      await expect(client.confirm(SIGNATURE)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+      });
+    } finally {
+      client.close();
+    }
+  });
+
+  it('should default to the client commitment', async () => {
+    const connection = createMockConnection([
+      { slot: 42, confirmations: 1, err: null, confirmationStatus: 'confirmed' },
+    ]);
+    const client = new LysFlash({ connection, commitment: 'finalized' });
+
+    try {
+      await expect(
+        client.confirm(SIGNATURE, { timeout: 20, pollInterval: 5 })
+      ).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+      await expect(client.confirm(SIGNATURE, { commitment: 'confirmed' })).resolves.toMatchObject({
+        slot: 42,
+      });
+    } finally {
+      client.close();
+    }
+  });
+});
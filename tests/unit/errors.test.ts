@@ -17,12 +17,13 @@ describe('ErrorCode Enum', () => {
     expect(ErrorCode.WALLET_NOT_FOUND).toBe('WALLET_NOT_FOUND');
     expect(ErrorCode.SERIALIZATION_ERROR).toBe('SERIALIZATION_ERROR');
     expect(ErrorCode.CONNECTION_ERROR).toBe('CONNECTION_ERROR');
+    expect(ErrorCode.ON_CHAIN_ERROR).toBe('ON_CHAIN_ERROR');
     expect(ErrorCode.UNKNOWN_ERROR).toBe('UNKNOWN_ERROR');
   });
 
-  it('should have exactly 9 error codes', () => {
+  it('should have exactly 13 error codes', () => {
     const codes = Object.keys(ErrorCode);
-    expect(codes).toHaveLength(9);
+    expect(codes).toHaveLength(13);
   });
 });
 
@@ -158,6 +159,11 @@ describe('ExecutionError Class', () => {
       expect(error.isRetryable()).toBe(false);
     });
 
+    it('should mark ON_CHAIN_ERROR as not retryable', () => {
+      const error = new ExecutionError('Test', ErrorCode.ON_CHAIN_ERROR, 'NONCE');
+      expect(error.isRetryable()).toBe(false);
+    });
+
     it('should mark UNKNOWN_ERROR as not retryable', () => {
       const error = new ExecutionError('Test', ErrorCode.UNKNOWN_ERROR, 'NONCE');
       expect(error.isRetryable()).toBe(false);
@@ -229,6 +235,18 @@ describe('ExecutionError Class', () => {
       expect(message).toContain('execution engine');
     });
 
+    it('should return friendly message for ON_CHAIN_ERROR', () => {
+      const error = new ExecutionError(
+        'custom program error: 0x1',
+        ErrorCode.ON_CHAIN_ERROR,
+        'NONCE'
+      );
+      const message = error.getUserMessage();
+
+      expect(message).toContain('on-chain');
+      expect(message).toContain('custom program error: 0x1');
+    });
+
     it('should return friendly message for UNKNOWN_ERROR', () => {
       const error = new ExecutionError('Something went wrong', ErrorCode.UNKNOWN_ERROR, 'NONCE');
       const message = error.getUserMessage();
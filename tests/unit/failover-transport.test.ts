@@ -0,0 +1,256 @@
+/**
+ * Unit Tests for FailoverTransport
+ *
+ * Tests endpoint selection, failover and health checks with mocked child transports
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import type { FailoverTransport as FailoverTransportClass } from '../../src/transport/failover-transport';
+import type { FailoverTransportConfig } from '../../src/transport/transport.interface';
+
+// Mock child transport: one instance per address, tracked by address
+interface MockTransport {
+  address: string;
+  connect: ReturnType<typeof vi.fn>;
+  disconnect: ReturnType<typeof vi.fn>;
+  isConnected: ReturnType<typeof vi.fn>;
+  request: ReturnType<typeof vi.fn>;
+  getReconnectAttempts: ReturnType<typeof vi.fn>;
+  resetReconnectAttempts: ReturnType<typeof vi.fn>;
+}
+
+const transports = new Map<string, MockTransport>();
+
+function createMockTransport(config: { address: string }): MockTransport {
+  const transport: MockTransport = {
+    address: config.address,
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    isConnected: vi.fn().mockReturnValue(true),
+    request: vi.fn().mockResolvedValue({ success: true, endpoint: config.address }),
+    getReconnectAttempts: vi.fn().mockReturnValue(1),
+    resetReconnectAttempts: vi.fn(),
+  };
+  transports.set(config.address, transport);
+  return transport;
+}
+
+vi.mock('../../src/transport/zmq-transport', () => ({
+  ZMQTransport: vi.fn().mockImplementation(createMockTransport),
+}));
+
+vi.mock('../../src/transport/http-transport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/transport/http-transport')>()),
+  HTTPTransport: vi.fn().mockImplementation(createMockTransport),
+}));
+
+let FailoverTransport: typeof FailoverTransportClass;
+let ExecutionError: typeof import('../../src/errors').ExecutionError;
+let ErrorCode: typeof import('../../src/errors').ErrorCode;
+
+const PRIMARY = 'tcp://10.0.0.1:5555';
+const SECONDARY = 'https://us.example.com';
+const FALLBACK = 'ipc:///tmp/tx-executor.ipc';
+
+function createConfig(overrides: Partial<FailoverTransportConfig> = {}): FailoverTransportConfig {
+  return {
+    addresses: [PRIMARY, SECONDARY, FALLBACK],
+    strategy: 'priority',
+    healthCheckInterval: 0,
+    healthCheckTimeout: 50,
+    apiKey: 'test_key',
+    timeout: 1000,
+    autoReconnect: false,
+    maxReconnectAttempts: 0,
+    reconnectDelay: 0,
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    ...overrides,
+  };
+}
+
+function mockOf(address: string): MockTransport {
+  return transports.get(address)!;
+}
+
+describe('FailoverTransport', () => {
+  let transport: FailoverTransportClass;
+
+  beforeAll(async () => {
+    // tests/setup.ts loads the real transports first; re-import so the mocks apply
+    vi.resetModules();
+    ({ FailoverTransport } = await import('../../src/transport/failover-transport'));
+    ({ ExecutionError, ErrorCode } = await import('../../src/errors'));
+  });
+
+  beforeEach(() => {
+    transports.clear();
+    transport = new FailoverTransport(createConfig());
+    transport.connect();
+  });
+
+  describe('Constructor', () => {
+    it('should create one transport per address', () => {
+      expect([...transports.keys()]).toEqual([PRIMARY, SECONDARY, FALLBACK]);
+    });
+
+    it('should reject an empty address list', () => {
+      expect(() => new FailoverTransport(createConfig({ addresses: [] }))).toThrow(ExecutionError);
+    });
+
+    it('should require an API key for HTTP addresses', () => {
+      expect(() => new FailoverTransport(createConfig({ apiKey: undefined }))).toThrow(
+        'API key is required'
+      );
+    });
+  });
+
+  describe('request()', () => {
+    it('should route to the first healthy endpoint by default', async () => {
+      const response = await transport.request<{ endpoint: string }>({ type: 'PING' });
+
+      expect(response.endpoint).toBe(PRIMARY);
+      expect(mockOf(SECONDARY).request).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next endpoint on CONNECTION_ERROR', async () => {
+      mockOf(PRIMARY).request.mockRejectedValue(
+        new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ')
+      );
+
+      const response = await transport.request<{ endpoint: string }>({ type: 'PING' });
+
+      expect(response.endpoint).toBe(SECONDARY);
+      const health = transport.getEndpointHealth();
+      expect(health[0]).toMatchObject({ healthy: false, lastError: 'CONNECTION_ERROR' });
+      expect(health[1]).toMatchObject({ healthy: true, active: true });
+    });
+
+    it('should rethrow TIMEOUT but route later requests elsewhere', async () => {
+      mockOf(PRIMARY).request.mockRejectedValue(
+        new ExecutionError('timeout', ErrorCode.TIMEOUT, 'ZMQ')
+      );
+
+      await expect(transport.request({ type: 'PING' })).rejects.toMatchObject({
+        code: ErrorCode.TIMEOUT,
+      });
+      expect(mockOf(SECONDARY).request).not.toHaveBeenCalled();
+
+      const response = await transport.request<{ endpoint: string }>({ type: 'PING' });
+      expect(response.endpoint).toBe(SECONDARY);
+    });
+
+    it('should not fail over on execution errors', async () => {
+      mockOf(PRIMARY).request.mockRejectedValue(
+        new ExecutionError('failed', ErrorCode.EXECUTION_FAILED, 'ZMQ')
+      );
+
+      await expect(transport.request({ type: 'PING' })).rejects.toMatchObject({
+        code: ErrorCode.EXECUTION_FAILED,
+      });
+      expect(transport.getEndpointHealth()[0]!.healthy).toBe(true);
+    });
+
+    it('should try unhealthy endpoints as a last resort', async () => {
+      for (const address of [PRIMARY, SECONDARY, FALLBACK]) {
+        mockOf(address).request.mockRejectedValueOnce(
+          new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ')
+        );
+      }
+      await expect(transport.request({ type: 'PING' })).rejects.toMatchObject({
+        code: ErrorCode.CONNECTION_ERROR,
+      });
+
+      const response = await transport.request<{ endpoint: string }>({ type: 'PING' });
+      expect(response.endpoint).toBe(PRIMARY);
+      expect(transport.getEndpointHealth()[0]!.healthy).toBe(true);
+    });
+
+    it('should pass the signing keypair to the endpoint', async () => {
+      const keypair = { publicKey: new Uint8Array(32), secretKey: new Uint8Array(64) };
+
+      await transport.request({ type: 'PING' }, keypair);
+
+      expect(mockOf(PRIMARY).request).toHaveBeenCalledWith({ type: 'PING' }, keypair);
+    });
+  });
+
+  describe('checkHealth()', () => {
+    it('should mark unreachable endpoints unhealthy and recover them', async () => {
+      mockOf(PRIMARY).request.mockRejectedValueOnce(
+        new ExecutionError('timeout', ErrorCode.TIMEOUT, 'ZMQ')
+      );
+
+      await transport.checkHealth();
+      expect(transport.getEndpointHealth()[0]).toMatchObject({ healthy: false, active: false });
+
+      await transport.checkHealth();
+      expect(transport.getEndpointHealth()[0]).toMatchObject({ healthy: true, active: true });
+    });
+
+    it('should time out pings that never answer', async () => {
+      mockOf(SECONDARY).request.mockReturnValue(new Promise(() => undefined));
+
+      await transport.checkHealth();
+
+      expect(transport.getEndpointHealth()[1]).toMatchObject({
+        healthy: false,
+        lastError: 'TIMEOUT',
+      });
+    });
+
+    it('should treat error replies as reachable', async () => {
+      mockOf(SECONDARY).request.mockRejectedValue(
+        new ExecutionError('unauthorized', ErrorCode.UNAUTHORIZED, 'HTTP')
+      );
+
+      await transport.checkHealth();
+
+      expect(transport.getEndpointHealth()[1]!.healthy).toBe(true);
+    });
+
+    it('should route by measured latency with the latency strategy', async () => {
+      transport = new FailoverTransport(createConfig({ strategy: 'latency' }));
+      transport.connect();
+      mockOf(PRIMARY).request.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve({ endpoint: PRIMARY }), 20))
+      );
+
+      await transport.checkHealth();
+
+      const response = await transport.request<{ endpoint: string }>({ type: 'PING' });
+      expect(response.endpoint).not.toBe(PRIMARY);
+    });
+  });
+
+  describe('Connection lifecycle', () => {
+    it('should fail to connect when no endpoint connects', () => {
+      transports.clear();
+      transport = new FailoverTransport(createConfig());
+      for (const mock of transports.values()) {
+        mock.connect.mockImplementation(() => {
+          throw new Error('connect failed');
+        });
+        mock.isConnected.mockReturnValue(false);
+      }
+
+      expect(() => transport.connect()).toThrow('Failed to connect to any failover endpoint');
+    });
+
+    it('should disconnect every endpoint', () => {
+      transport.disconnect();
+
+      for (const mock of transports.values()) {
+        expect(mock.disconnect).toHaveBeenCalled();
+      }
+    });
+
+    it('should aggregate reconnect attempts', () => {
+      expect(transport.getReconnectAttempts()).toBe(3);
+
+      transport.resetReconnectAttempts();
+      for (const mock of transports.values()) {
+        expect(mock.resetReconnectAttempts).toHaveBeenCalled();
+      }
+    });
+  });
+});
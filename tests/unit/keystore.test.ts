@@ -0,0 +1,186 @@
+/**
+ * Unit Tests for Keystore
+ *
+ * Encrypted wallet storage, password handling and Signer creation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import nacl from 'tweetnacl';
+import ed2curve from 'ed2curve';
+import { Keypair } from '@solana/web3.js';
+import { Keystore } from '../../src/keystore';
+import type { KeystoreFile, KeystoreOptions } from '../../src/keystore';
+import { Signer } from '../../src/signer';
+import type { WalletCreationResponse } from '../../src/types';
+
+// Fast key derivation for tests
+const options: KeystoreOptions = { scrypt: { N: 1024 } };
+
+/**
+ * Encrypt a new wallet to a user key, as `createWallet()` returns it
+ */
+function createWallet(user: Keypair): { response: WalletCreationResponse; keypair: Keypair } {
+  const keypair = Keypair.generate();
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const recipient = ed2curve.convertPublicKey(user.publicKey.toBytes());
+  const encrypted = nacl.box(keypair.secretKey, nonce, recipient!, ephemeral.secretKey);
+
+  return {
+    keypair,
+    response: {
+      success: true,
+      publicKey: keypair.publicKey.toBase58(),
+      encryptedSecretKey: Buffer.from(encrypted).toString('base64'),
+      nonce: Buffer.from(nonce).toString('base64'),
+      ephemeralPublicKey: Buffer.from(ephemeral.publicKey).toString('base64'),
+    },
+  };
+}
+
+describe('Keystore', () => {
+  let dir: string;
+  let file: string;
+  const user = Keypair.generate();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lys-flash-keystore-'));
+    file = path.join(dir, 'nested', 'wallets.keystore');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist named wallets in an encrypted file', async () => {
+    const trading = createWallet(user);
+    const keystore = await Keystore.create(file, 'correct horse', options);
+    await keystore.addWallet('trading', trading.response, trading.keypair);
+
+    const raw = fs.readFileSync(file, 'utf8');
+    const contents = JSON.parse(raw) as KeystoreFile;
+    expect(contents).toMatchObject({ version: 1, kdf: { name: 'scrypt', N: 1024, r: 8, p: 1 } });
+    expect(raw).not.toContain(trading.response.publicKey);
+    expect(raw).not.toContain(trading.response.encryptedSecretKey);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+
+    const reopened = await Keystore.open(file, 'correct horse');
+    expect(reopened.names()).toEqual(['trading']);
+    expect(reopened.getWallet('trading')).toEqual(trading.response);
+    expect(reopened.getKeypair('trading').secretKey).toEqual(trading.keypair.secretKey);
+  });
+
+  it('should produce Signers from stored keys or by decrypting wallets', async () => {
+    const stored = createWallet(user);
+    const encryptedOnly = createWallet(user);
+    const apiSigner = Keypair.generate();
+    const keystore = await Keystore.create(file, 'password', options);
+    await keystore.addWallet('stored', stored.response, stored.keypair);
+    await keystore.addWallet('encrypted', encryptedOnly.response);
+    await keystore.addKeypair('api', apiSigner);
+
+    const signer = keystore.getSigner('stored');
+    expect(signer).toBeInstanceOf(Signer);
+    expect(signer.publicKey).toEqual(stored.keypair.publicKey.toBytes());
+    expect(keystore.getSigner('api').secretKey).toEqual(apiSigner.secretKey);
+    expect(keystore.getSigner('encrypted', user).publicKey).toEqual(
+      encryptedOnly.keypair.publicKey.toBytes()
+    );
+    expect(() => keystore.getSigner('encrypted')).toThrow('pass the user keypair');
+    expect(keystore.list()).toEqual([
+      expect.objectContaining({ name: 'stored', hasWallet: true, hasSecretKey: true }),
+      expect.objectContaining({ name: 'encrypted', hasWallet: true, hasSecretKey: false }),
+      expect.objectContaining({ name: 'api', hasWallet: false, hasSecretKey: true }),
+    ]);
+  });
+
+  it('should reject wrong passwords and existing files', async () => {
+    await Keystore.create(file, 'password', options);
+
+    await expect(Keystore.open(file, 'wrong')).rejects.toThrow('wrong password');
+    await expect(Keystore.create(file, 'password', options)).rejects.toThrow();
+    await expect(Keystore.open(path.join(dir, 'missing'), 'password')).rejects.toThrow();
+  });
+
+  it('should change the password', async () => {
+    const keystore = await Keystore.create(file, 'old', options);
+    await keystore.addKeypair('api', Keypair.generate());
+
+    await keystore.changePassword('new');
+
+    await expect(Keystore.open(file, 'old')).rejects.toThrow('wrong password');
+    await expect(Keystore.open(file, 'new')).resolves.toBeInstanceOf(Keystore);
+  });
+
+  it('should write concurrent changes one after another', async () => {
+    const keystore = await Keystore.create(file, 'password', options);
+    await keystore.addKeypair('old', Keypair.generate());
+
+    await Promise.all([
+      keystore.addWallet('trading', createWallet(user).response),
+      keystore.addKeypair('api', Keypair.generate()),
+      keystore.remove('old'),
+      keystore.addKeypair('backup', Keypair.generate()),
+    ]);
+
+    expect(keystore.names()).toEqual(['trading', 'api', 'backup']);
+    expect((await Keystore.open(file, 'password')).names()).toEqual(['trading', 'api', 'backup']);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['wallets.keystore']);
+  });
+
+  it('should keep the keystore in sync with the file when a write fails', async () => {
+    const keystore = await Keystore.create(file, 'old', options);
+    await keystore.addKeypair('api', Keypair.generate());
+    const rename = vi.spyOn(fs.promises, 'rename');
+
+    rename.mockRejectedValueOnce(new Error('disk full'));
+    await expect(keystore.changePassword('new')).rejects.toThrow('disk full');
+    rename.mockRejectedValueOnce(new Error('disk full'));
+    await expect(keystore.remove('api')).rejects.toThrow('disk full');
+    rename.mockRestore();
+
+    expect(keystore.names()).toEqual(['api']);
+    await keystore.addKeypair('backup', Keypair.generate());
+    expect((await Keystore.open(file, 'old')).names()).toEqual(['api', 'backup']);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['wallets.keystore']);
+  });
+
+  it('should reject excessive or invalid scrypt parameters', async () => {
+    await expect(Keystore.create(file, 'password', { scrypt: { N: 2 ** 21 } })).rejects.toThrow(
+      'scrypt parameters'
+    );
+    await expect(Keystore.create(file, 'password', { scrypt: { N: 1000 } })).rejects.toThrow(
+      'scrypt parameters'
+    );
+    await expect(Keystore.create(file, 'password', { scrypt: { N: 1024, p: 64 } })).rejects.toThrow(
+      'scrypt parameters'
+    );
+
+    await Keystore.create(file, 'password', options);
+    const contents = JSON.parse(fs.readFileSync(file, 'utf8')) as KeystoreFile;
+    fs.writeFileSync(file, JSON.stringify({ ...contents, kdf: { ...contents.kdf, N: 2 ** 30 } }));
+
+    await expect(Keystore.open(file, 'password')).rejects.toThrow('scrypt parameters');
+  });
+
+  it('should reject duplicate names, mismatched keypairs and unknown names', async () => {
+    const wallet = createWallet(user);
+    const keystore = await Keystore.create(file, 'password', options);
+    await keystore.addWallet('trading', wallet.response);
+
+    await expect(keystore.addKeypair('trading', Keypair.generate())).rejects.toThrow(
+      'already exists'
+    );
+    await expect(keystore.addWallet('other', wallet.response, Keypair.generate())).rejects.toThrow(
+      'does not match'
+    );
+    expect(() => keystore.getKeypair('missing')).toThrow('No wallet named "missing"');
+
+    await expect(keystore.remove('trading')).resolves.toBe(true);
+    await expect(keystore.remove('trading')).resolves.toBe(false);
+    expect((await Keystore.open(file, 'password')).names()).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for LatencyTracker
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { LatencyTracker } from '../../src/utils/latency';
+
+describe('LatencyTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report nearest-rank percentiles', () => {
+    const tracker = new LatencyTracker();
+    for (let latency = 1; latency <= 100; latency++) {
+      tracker.record(latency, true, 'FLASH', ['PUMP_FUN']);
+    }
+
+    const { overall } = tracker.getStats();
+
+    expect(overall).toEqual({ count: 100, mean: 50.5, p50: 50, p90: 90, p99: 99, max: 100 });
+  });
+
+  it('should break latencies down by transport, execution type and outcome', () => {
+    const tracker = new LatencyTracker();
+    tracker.record(10, true, 'FLASH', ['PUMP_FUN']);
+    tracker.record(20, false, 'VANILLA', ['PUMP_FUN', 'SPL_TOKEN']);
+    tracker.record(500, false, undefined, ['WALLET_CREATE']);
+
+    const stats = tracker.getStats();
+
+    expect(stats.success.count).toBe(1);
+    expect(stats.failure).toMatchObject({ count: 2, max: 500 });
+    expect(Object.keys(stats.byTransport)).toEqual(['FLASH', 'VANILLA']);
+    expect(stats.byExecutionType.PUMP_FUN?.count).toBe(2);
+    expect(stats.byExecutionType.SPL_TOKEN?.p50).toBe(20);
+    expect(stats.byExecutionType.WALLET_CREATE?.max).toBe(500);
+  });
+
+  it('should drop samples older than the window', () => {
+    vi.useFakeTimers();
+    const tracker = new LatencyTracker(1000);
+    tracker.record(900, true, 'FLASH');
+
+    vi.advanceTimersByTime(600);
+    tracker.record(10, true, 'FLASH');
+    expect(tracker.getStats().overall.max).toBe(900);
+
+    vi.advanceTimersByTime(600);
+    expect(tracker.getStats().overall).toMatchObject({ count: 1, max: 10 });
+  });
+
+  it('should report empty groups as zero', () => {
+    const stats = new LatencyTracker().getStats();
+
+    expect(stats.window).toBe(60000);
+    expect(stats.overall).toEqual({ count: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+    expect(stats.byTransport).toEqual({});
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Unit Tests for Meteora DAMM v2 positions
+ *
+ * Tests position enumeration and the position lifecycle builder methods with a mocked
+ * CP-AMM SDK
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import BN from 'bn.js';
+import { TransactionBuilder } from '../../src/builder';
+import type { LysFlash } from '../../src/client';
+import { DAMMv2Utils } from '../../src/meteora/damm-v2/utils';
+
+const cpAmm = vi.hoisted(() => ({
+  createPosition: vi.fn(),
+  addLiquidity: vi.fn(),
+  removeLiquidity: vi.fn(),
+  removeAllLiquidity: vi.fn(),
+  claimPositionFee: vi.fn(),
+  closePosition: vi.fn(),
+  getLiquidityDelta: vi.fn(),
+  fetchPoolState: vi.fn(),
+  fetchPositionState: vi.fn(),
+  getAllVestingsByPosition: vi.fn(),
+  getPositionsByUser: vi.fn(),
+}));
+const getUnClaimLpFee = vi.hoisted(() => vi.fn());
+const getCurrentPoint = vi.hoisted(() => vi.fn());
+
+vi.mock('@meteora-ag/cp-amm-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@meteora-ag/cp-amm-sdk')>()),
+  CpAmm: function CpAmm() {
+    return cpAmm;
+  },
+  getUnClaimLpFee,
+  getCurrentPoint,
+}));
+
+const POOL = Keypair.generate().publicKey;
+const OTHER_POOL = Keypair.generate().publicKey;
+const USER = Keypair.generate().publicKey;
+const POSITION = Keypair.generate().publicKey;
+const NFT_MINT = Keypair.generate().publicKey;
+
+function createPoolState() {
+  return {
+    tokenAMint: Keypair.generate().publicKey,
+    tokenBMint: Keypair.generate().publicKey,
+    tokenAVault: Keypair.generate().publicKey,
+    tokenBVault: Keypair.generate().publicKey,
+    tokenAFlag: 0,
+    tokenBFlag: 1,
+    sqrtPrice: new BN(1_000),
+    sqrtMinPrice: new BN(10),
+    sqrtMaxPrice: new BN(100_000),
+    activationType: 1,
+  };
+}
+
+function createPositionState(pool: PublicKey, liquidity: number) {
+  return {
+    pool,
+    nftMint: Keypair.generate().publicKey,
+    unlockedLiquidity: new BN(liquidity),
+    vestedLiquidity: new BN(0),
+    permanentLockedLiquidity: new BN(0),
+  };
+}
+
+describe('Meteora DAMM v2 positions', () => {
+  let connection: Connection;
+
+  beforeEach(() => {
+    connection = new Connection('http://localhost:8899');
+    for (const method of Object.values(cpAmm)) {
+      method.mockReset().mockResolvedValue(new Transaction());
+    }
+    getUnClaimLpFee.mockReset();
+    getCurrentPoint.mockReset().mockResolvedValue(new BN(1_700_000_000));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('DAMMv2Utils.getPositions()', () => {
+    it('should return positions with unclaimed fees, fetching each pool once', async () => {
+      const poolState = createPoolState();
+      const otherPoolState = createPoolState();
+      const positions = [
+        { position: Keypair.generate().publicKey, positionState: createPositionState(POOL, 300) },
+        {
+          position: Keypair.generate().publicKey,
+          positionState: createPositionState(OTHER_POOL, 200),
+        },
+        { position: Keypair.generate().publicKey, positionState: createPositionState(POOL, 100) },
+      ].map((entry) => ({ ...entry, positionNftAccount: Keypair.generate().publicKey }));
+
+      cpAmm.getPositionsByUser.mockResolvedValue(positions);
+      cpAmm.fetchPoolState.mockImplementation((address: PublicKey) =>
+        Promise.resolve(address.equals(POOL) ? poolState : otherPoolState)
+      );
+      getUnClaimLpFee.mockImplementation((_pool, position) => ({
+        feeTokenA: position.unlockedLiquidity.divn(10),
+        feeTokenB: position.unlockedLiquidity.divn(20),
+        rewards: [],
+      }));
+
+      const result = await DAMMv2Utils.getPositions(connection, USER.toBase58());
+
+      expect(cpAmm.getPositionsByUser).toHaveBeenCalledWith(USER);
+      expect(cpAmm.fetchPoolState).toHaveBeenCalledTimes(2);
+      expect(result.map((position) => position.address)).toEqual(
+        positions.map((position) => position.position)
+      );
+      expect(result[0]).toMatchObject({
+        pool: POOL,
+        nftMint: positions[0]!.positionState.nftMint,
+        nftAccount: positions[0]!.positionNftAccount,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        unclaimedRewards: [],
+      });
+      expect(result[1]?.tokenAMint).toEqual(otherPoolState.tokenAMint);
+      expect(result.map((position) => position.unclaimedFeeA.toNumber())).toEqual([30, 20, 10]);
+      expect(result.map((position) => position.unclaimedFeeB.toNumber())).toEqual([15, 10, 5]);
+    });
+
+    it('should return an empty list for users without positions', async () => {
+      cpAmm.getPositionsByUser.mockResolvedValue([]);
+
+      await expect(DAMMv2Utils.getPositions(connection, USER)).resolves.toEqual([]);
+      expect(cpAmm.fetchPoolState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TransactionBuilder.meteora.dammV2', () => {
+    let builder: TransactionBuilder;
+    let rawTransaction: ReturnType<typeof vi.spyOn>;
+    let poolState: ReturnType<typeof createPoolState>;
+
+    beforeEach(() => {
+      const client = {
+        requireConnection: () => connection,
+        getTracer: () => undefined,
+      } as unknown as LysFlash;
+      builder = new TransactionBuilder(client);
+      rawTransaction = vi.spyOn(builder, 'rawTransaction').mockReturnValue(builder);
+
+      poolState = createPoolState();
+      cpAmm.fetchPoolState.mockResolvedValue(poolState);
+      cpAmm.fetchPositionState.mockResolvedValue({
+        ...createPositionState(POOL, 1_000),
+        nftMint: NFT_MINT,
+      });
+    });
+
+    it('should create a position signed by the position NFT mint', async () => {
+      const transaction = new Transaction();
+      cpAmm.createPosition.mockResolvedValue(transaction);
+
+      await builder.meteora.dammV2.createPosition({
+        pool: POOL,
+        user: USER.toBase58(),
+        positionNft: NFT_MINT,
+      });
+
+      expect(cpAmm.createPosition).toHaveBeenCalledWith({
+        owner: USER,
+        payer: USER,
+        pool: POOL,
+        positionNft: NFT_MINT,
+      });
+      expect(rawTransaction).toHaveBeenCalledWith({
+        transaction,
+        additionalSigners: [NFT_MINT],
+      });
+    });
+
+    it('should compute the liquidity delta when adding liquidity', async () => {
+      const transaction = new Transaction();
+      cpAmm.addLiquidity.mockResolvedValue(transaction);
+      cpAmm.getLiquidityDelta.mockReturnValue(new BN(4_242));
+
+      await builder.meteora.dammV2.addLiquidity({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        maxAmountTokenA: 1_000_000,
+        maxAmountTokenB: new BN(2_000_000),
+      });
+
+      expect(cpAmm.getLiquidityDelta).toHaveBeenCalledWith({
+        maxAmountTokenA: new BN(1_000_000),
+        maxAmountTokenB: new BN(2_000_000),
+        sqrtPrice: poolState.sqrtPrice,
+        sqrtMinPrice: poolState.sqrtMinPrice,
+        sqrtMaxPrice: poolState.sqrtMaxPrice,
+      });
+      const args = cpAmm.addLiquidity.mock.calls[0]?.[0];
+      expect(args).toMatchObject({
+        owner: USER,
+        pool: POOL,
+        position: POSITION,
+        tokenAMint: poolState.tokenAMint,
+        tokenBVault: poolState.tokenBVault,
+      });
+      expect(args.liquidityDelta.toString()).toBe('4242');
+      expect(args.tokenAAmountThreshold.toString()).toBe('1000000');
+      expect(args.tokenAProgram).not.toEqual(args.tokenBProgram);
+      expect(rawTransaction).toHaveBeenCalledWith({ transaction, additionalSigners: [] });
+    });
+
+    it('should use an explicit liquidity delta', async () => {
+      await builder.meteora.dammV2.addLiquidity({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        maxAmountTokenA: 1,
+        maxAmountTokenB: 1,
+        liquidityDelta: 77,
+      });
+
+      expect(cpAmm.getLiquidityDelta).not.toHaveBeenCalled();
+      expect(cpAmm.addLiquidity.mock.calls[0]?.[0].liquidityDelta.toString()).toBe('77');
+    });
+
+    it('should remove all liquidity with vestings and the current point', async () => {
+      const vesting = { publicKey: Keypair.generate().publicKey, account: { vested: true } };
+      cpAmm.getAllVestingsByPosition.mockResolvedValue([vesting]);
+
+      await builder.meteora.dammV2.removeLiquidity({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        minAmountTokenA: 10,
+        minAmountTokenB: 20,
+      });
+
+      expect(cpAmm.removeLiquidity).not.toHaveBeenCalled();
+      const args = cpAmm.removeAllLiquidity.mock.calls[0]?.[0];
+      expect(args.vestings).toEqual([
+        { account: vesting.publicKey, vestingState: vesting.account },
+      ]);
+      expect(args.currentPoint.toString()).toBe('1700000000');
+      expect(args.tokenAAmountThreshold.toString()).toBe('10');
+      expect(args.tokenBAmountThreshold.toString()).toBe('20');
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should remove a partial liquidity delta', async () => {
+      cpAmm.getAllVestingsByPosition.mockResolvedValue([]);
+
+      await builder.meteora.dammV2.removeLiquidity({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        liquidityDelta: 500,
+        minAmountTokenA: 0,
+        minAmountTokenB: 0,
+      });
+
+      expect(cpAmm.removeAllLiquidity).not.toHaveBeenCalled();
+      expect(cpAmm.removeLiquidity.mock.calls[0]?.[0].liquidityDelta.toString()).toBe('500');
+    });
+
+    it('should claim position fees to a receiver', async () => {
+      const receiver = Keypair.generate().publicKey;
+
+      await builder.meteora.dammV2.claimPositionFee({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        receiver: receiver.toBase58(),
+      });
+
+      expect(cpAmm.claimPositionFee.mock.calls[0]?.[0]).toMatchObject({
+        owner: USER,
+        pool: POOL,
+        position: POSITION,
+        receiver,
+      });
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should close a position with its NFT mint', async () => {
+      await builder.meteora.dammV2.closePosition({ pool: POOL, user: USER, position: POSITION });
+
+      expect(cpAmm.closePosition.mock.calls[0]?.[0]).toMatchObject({
+        owner: USER,
+        pool: POOL,
+        position: POSITION,
+        positionNftMint: NFT_MINT,
+      });
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should reject positions of another pool', async () => {
+      cpAmm.fetchPositionState.mockResolvedValue(createPositionState(OTHER_POOL, 1));
+
+      await expect(
+        builder.meteora.dammV2.closePosition({ pool: POOL, user: USER, position: POSITION })
+      ).rejects.toThrow('does not belong to pool');
+      expect(rawTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Unit Tests for Meteora DLMM positions
+ *
+ * Tests position enumeration and the liquidity builder methods with a mocked DLMM SDK
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import BN from 'bn.js';
+import { TransactionBuilder } from '../../src/builder';
+import type { LysFlash } from '../../src/client';
+import { DLMMUtils } from '../../src/meteora/dlmm/utils';
+
+const sdk = vi.hoisted(() => ({
+  create: vi.fn(),
+  getAllLbPairPositionsByUser: vi.fn(),
+}));
+
+vi.mock('@meteora-ag/dlmm', () => ({
+  default: sdk,
+  StrategyType: { Spot: 0, Curve: 1, BidAsk: 2 },
+}));
+
+const POOL = Keypair.generate().publicKey;
+const USER = Keypair.generate().publicKey;
+const POSITION = Keypair.generate().publicKey;
+
+/**
+ * Mocked `DLMM` pool instance
+ */
+function createPool() {
+  const position = { publicKey: POSITION, positionData: { lowerBinId: 80, upperBinId: 120 } };
+  return {
+    lbPair: { activeId: 100 },
+    position,
+    getPosition: vi.fn().mockResolvedValue(position),
+    getPositionsByUserAndLbPair: vi.fn().mockResolvedValue({ userPositions: [position] }),
+    addLiquidityByStrategy: vi.fn().mockResolvedValue(new Transaction()),
+    initializePositionAndAddLiquidityByStrategy: vi.fn().mockResolvedValue(new Transaction()),
+    removeLiquidity: vi.fn().mockResolvedValue([new Transaction(), new Transaction()]),
+    claimSwapFee: vi.fn().mockResolvedValue([new Transaction()]),
+    claimAllRewards: vi.fn().mockResolvedValue([new Transaction()]),
+    closePosition: vi.fn().mockResolvedValue(new Transaction()),
+  };
+}
+
+function createBin(binId: number, xAmount: string) {
+  return {
+    binId,
+    price: '1.5',
+    pricePerToken: '0.0015',
+    positionLiquidity: '1000',
+    positionXAmount: xAmount,
+    positionYAmount: '0',
+    positionFeeXAmount: '7',
+    positionFeeYAmount: '0',
+    positionRewardAmount: ['3', '0'],
+  };
+}
+
+describe('Meteora DLMM positions', () => {
+  let connection: Connection;
+  let pool: ReturnType<typeof createPool>;
+
+  beforeEach(() => {
+    connection = new Connection('http://localhost:8899');
+    pool = createPool();
+    sdk.create.mockReset().mockResolvedValue(pool);
+    sdk.getAllLbPairPositionsByUser.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('DLMMUtils.getPositionsByUser()', () => {
+    it('should flatten positions across pools', async () => {
+      const tokenX = Keypair.generate().publicKey;
+      const tokenY = Keypair.generate().publicKey;
+      const position = {
+        publicKey: POSITION,
+        positionData: {
+          lowerBinId: 99,
+          upperBinId: 101,
+          totalXAmount: '1250000',
+          totalYAmount: '0',
+          feeX: new BN(7),
+          feeY: new BN(0),
+          rewardOne: new BN(3),
+          rewardTwo: new BN(0),
+          positionBinData: [createBin(99, '1000000'), createBin(100, '250000')],
+        },
+      };
+      sdk.getAllLbPairPositionsByUser.mockResolvedValue(
+        new Map([
+          [
+            POOL.toBase58(),
+            {
+              publicKey: POOL,
+              tokenX: { publicKey: tokenX },
+              tokenY: { publicKey: tokenY },
+              lbPairPositionsData: [position],
+            },
+          ],
+        ])
+      );
+
+      const [result, ...rest] = await DLMMUtils.getPositionsByUser(connection, USER.toBase58());
+
+      expect(rest).toHaveLength(0);
+      expect(sdk.getAllLbPairPositionsByUser.mock.calls[0]?.[1]).toEqual(USER);
+      expect(sdk.getAllLbPairPositionsByUser.mock.calls[0]?.[2]).toEqual({
+        cluster: 'mainnet-beta',
+      });
+      expect(result).toMatchObject({
+        address: POSITION,
+        pool: POOL,
+        tokenXMint: tokenX,
+        tokenYMint: tokenY,
+        lowerBinId: 99,
+        upperBinId: 101,
+        raw: position,
+      });
+      expect(result?.totalXAmount.toString()).toBe('1250000');
+      expect(result?.bins.map((bin) => bin.xAmount.toString())).toEqual(['1000000', '250000']);
+      expect(result?.bins[0]?.feeX.toString()).toBe('7');
+      expect(result?.bins[0]?.rewards.map(String)).toEqual(['3', '0']);
+    });
+
+    it('should convert exponent and fractional amounts without losing precision', async () => {
+      sdk.getAllLbPairPositionsByUser.mockResolvedValue(
+        new Map([
+          [
+            POOL.toBase58(),
+            {
+              publicKey: POOL,
+              tokenX: { publicKey: Keypair.generate().publicKey },
+              tokenY: { publicKey: Keypair.generate().publicKey },
+              lbPairPositionsData: [
+                {
+                  publicKey: POSITION,
+                  positionData: {
+                    lowerBinId: 0,
+                    upperBinId: 0,
+                    totalXAmount: '1.2345e+24',
+                    totalYAmount: '987.65',
+                    positionBinData: [createBin(0, '3e-7')],
+                  },
+                },
+              ],
+            },
+          ],
+        ])
+      );
+
+      const [result] = await DLMMUtils.getPositionsByUser(connection, USER, 'devnet');
+
+      expect(sdk.getAllLbPairPositionsByUser.mock.calls[0]?.[2]).toEqual({ cluster: 'devnet' });
+
+      expect(result?.totalXAmount.toString()).toBe('1234500000000000000000000');
+      expect(result?.totalYAmount.toString()).toBe('987');
+      expect(result?.bins[0]?.xAmount.toString()).toBe('0');
+    });
+  });
+
+  describe('TransactionBuilder.meteora.dlmm', () => {
+    let builder: TransactionBuilder;
+    let rawTransaction: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      const client = {
+        getConnection: () => connection,
+        getCluster: () => 'devnet',
+        getTracer: () => undefined,
+      } as unknown as LysFlash;
+      builder = new TransactionBuilder(client);
+      rawTransaction = vi.spyOn(builder, 'rawTransaction').mockReturnValue(builder);
+    });
+
+    it('should initialize a position around the active bin', async () => {
+      await builder.meteora.dlmm.addLiquidityByStrategy({
+        pool: POOL,
+        user: USER,
+        position: POSITION.toBase58(),
+        totalXAmount: 1_000_000,
+        totalYAmount: new BN(2_000_000),
+        strategy: 'curve',
+        initializePosition: true,
+        slippageBps: 50,
+      });
+
+      expect(pool.addLiquidityByStrategy).not.toHaveBeenCalled();
+      const args = pool.initializePositionAndAddLiquidityByStrategy.mock.calls[0]?.[0];
+      expect(args).toMatchObject({
+        positionPubKey: POSITION,
+        user: USER,
+        strategy: { minBinId: 90, maxBinId: 110, strategyType: 1 },
+        slippage: 0.5,
+      });
+      expect(args.totalXAmount.toString()).toBe('1000000');
+      expect(rawTransaction.mock.calls[0]?.[0].additionalSigners).toEqual([POSITION]);
+    });
+
+    it('should load the pool for the client cluster', async () => {
+      await builder.meteora.dlmm.closePosition({ pool: POOL, user: USER, position: POSITION });
+
+      expect(sdk.create.mock.calls[0]?.[2]).toEqual({ cluster: 'devnet' });
+    });
+
+    it('should add liquidity over the existing position range', async () => {
+      await builder.meteora.dlmm.addLiquidityByStrategy({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        totalXAmount: 0,
+        totalYAmount: 5_000,
+        strategy: 'bidAsk',
+      });
+
+      expect(pool.getPosition).toHaveBeenCalledWith(POSITION);
+      expect(pool.addLiquidityByStrategy.mock.calls[0]?.[0].strategy).toMatchObject({
+        minBinId: 80,
+        maxBinId: 120,
+        strategyType: 2,
+      });
+      expect(rawTransaction.mock.calls[0]?.[0].additionalSigners).toEqual([]);
+    });
+
+    it('should remove liquidity and add every SDK transaction', async () => {
+      await builder.meteora.dlmm.removeLiquidity({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        bps: 5_000,
+      });
+
+      const args = pool.removeLiquidity.mock.calls[0]?.[0];
+      expect(args).toMatchObject({
+        user: USER,
+        position: POSITION,
+        fromBinId: 80,
+        toBinId: 120,
+        shouldClaimAndClose: false,
+      });
+      expect(args.bps.toString()).toBe('5000');
+      expect(rawTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove a bin range and close the position', async () => {
+      await builder.meteora.dlmm.removeLiquidity({
+        pool: POOL,
+        user: USER,
+        position: POSITION,
+        fromBinId: 95,
+        toBinId: 105,
+        claimAndClose: true,
+      });
+
+      expect(pool.getPosition).not.toHaveBeenCalled();
+      const args = pool.removeLiquidity.mock.calls[0]?.[0];
+      expect(args).toMatchObject({ fromBinId: 95, toBinId: 105, shouldClaimAndClose: true });
+      expect(args.bps.toString()).toBe('10000');
+    });
+
+    it('should claim swap fees of a position', async () => {
+      await builder.meteora.dlmm.claimSwapFee({ pool: POOL, user: USER, position: POSITION });
+
+      expect(pool.claimSwapFee).toHaveBeenCalledWith({ owner: USER, position: pool.position });
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should claim all rewards of the user positions in the pool', async () => {
+      await builder.meteora.dlmm.claimAllRewards({ pool: POOL, user: USER });
+
+      expect(pool.getPositionsByUserAndLbPair).toHaveBeenCalledWith(USER);
+      expect(pool.claimAllRewards).toHaveBeenCalledWith({
+        owner: USER,
+        positions: [pool.position],
+      });
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should reject claiming when the user has no positions', async () => {
+      pool.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [] });
+
+      await expect(
+        builder.meteora.dlmm.claimAllRewards({ pool: POOL, user: USER })
+      ).rejects.toThrow('No DLMM positions found');
+      expect(rawTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should close a position', async () => {
+      await builder.meteora.dlmm.closePosition({ pool: POOL, user: USER, position: POSITION });
+
+      expect(pool.closePosition).toHaveBeenCalledWith({ owner: USER, position: pool.position });
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+  });
+});
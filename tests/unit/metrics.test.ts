@@ -0,0 +1,191 @@
+/**
+ * Unit Tests for PrometheusExporter
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import { Keypair } from '@solana/web3.js';
+import { LysFlash } from '../../src/client';
+import { ExecutionError, ErrorCode } from '../../src/errors';
+import { PrometheusExporter, OPENMETRICS_CONTENT_TYPE } from '../../src/metrics';
+import { createTransferRequest } from '../test-utils';
+
+const request = createTransferRequest({ transport: 'FLASH' });
+
+function get(url: string): Promise<{ status?: number; type?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http
+      .get(url, (res) => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (body += chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode, type: res.headers['content-type'], body })
+        );
+      })
+      .on('error', reject);
+  });
+}
+
+describe('PrometheusExporter', () => {
+  let client: LysFlash;
+  let exporter: PrometheusExporter;
+
+  function setup(
+    options?: ConstructorParameters<typeof PrometheusExporter>[1],
+    config?: ConstructorParameters<typeof LysFlash>[0]
+  ) {
+    client = new LysFlash(config);
+    exporter = new PrometheusExporter(client, options);
+    const requestFn = vi.fn();
+    (client as any).transport.request = requestFn;
+    return requestFn;
+  }
+
+  afterEach(async () => {
+    await exporter.close();
+    client.close();
+  });
+
+  it('should export request counters, failures and latency histograms', async () => {
+    const requestFn = setup({ buckets: [0.1, 1] });
+    requestFn
+      .mockResolvedValueOnce({
+        success: true,
+        signature: 'sig',
+        transport: 'NONCE',
+        error: null,
+        broadcasts: [{ endpoint: 'NOZOMI', success: true, landed: true }],
+      })
+      .mockRejectedValueOnce(new ExecutionError('timeout', ErrorCode.TIMEOUT, 'ZMQ'));
+
+    await client.execute(request);
+    await expect(client.execute(request)).rejects.toThrow('timeout');
+
+    const text = exporter.metrics();
+
+    expect(text).toContain('# TYPE lys_flash_requests counter');
+    expect(text).toContain('lys_flash_requests_total{method="execute",transport="FLASH"} 2');
+    expect(text).toContain('lys_flash_request_failures_total{method="execute",code="TIMEOUT"} 1');
+    expect(text).toContain(
+      'lys_flash_request_duration_seconds_bucket{method="execute",transport="FLASH",le="+Inf"} 2'
+    );
+    expect(text).toContain(
+      'lys_flash_request_duration_seconds_count{method="execute",transport="FLASH"} 2'
+    );
+    expect(text).toContain('lys_flash_broadcast_wins_total{endpoint="NOZOMI"} 1');
+    expect(text).toMatch(/lys_flash_connected [01]\n/);
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('should keep counting retries and broadcasts across resetStats()', async () => {
+    const requestFn = setup(undefined, {
+      retryPolicy: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+    const response = {
+      success: true,
+      signature: 'sig',
+      transport: 'NONCE',
+      error: null,
+      broadcasts: [
+        { endpoint: 'NOZOMI', success: true, landed: true },
+        { endpoint: 'JITO', success: false, landed: false },
+      ],
+    };
+    requestFn
+      .mockRejectedValueOnce(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ'))
+      .mockResolvedValue(response);
+
+    await client.execute(request);
+    client.resetStats();
+    await client.execute(request);
+
+    const text = exporter.metrics();
+    expect(text).toContain('lys_flash_retries_total 1\n');
+    expect(text).toContain('lys_flash_broadcasts_total{endpoint="NOZOMI"} 2');
+    expect(text).toContain('lys_flash_broadcasts_total{endpoint="JITO"} 2');
+    expect(text).toContain('lys_flash_broadcast_wins_total{endpoint="NOZOMI"} 2');
+    expect(text).not.toContain('lys_flash_broadcast_wins_total{endpoint="JITO"}');
+  });
+
+  it('should count transport reconnects across resetStats()', () => {
+    setup();
+    const transport = (client as any).transport;
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      transport.disconnect();
+      transport.reconnect();
+    }
+    client.resetStats();
+
+    const text = exporter.metrics();
+    expect(text).toContain('# TYPE lys_flash_reconnects counter');
+    expect(text).toContain('lys_flash_reconnects_total 2\n');
+    expect(text).toContain('lys_flash_reconnect_attempts 0\n');
+  });
+
+  it('should count validation rejections as failures without a latency sample', async () => {
+    const requestFn = setup();
+    requestFn.mockResolvedValue({
+      success: true,
+      signature: 'sig',
+      transport: 'NONCE',
+      error: null,
+    });
+
+    await client.execute(request);
+    await expect(
+      client.execute(createTransferRequest({ transport: 'FLASH', feePayer: undefined }))
+    ).rejects.toThrow();
+
+    const text = exporter.metrics();
+    expect(client.getStats().errors).toEqual({ INVALID_REQUEST: 1 });
+    expect(text).toContain(
+      'lys_flash_request_failures_total{method="execute",code="INVALID_REQUEST"} 1'
+    );
+    expect(text).toContain('lys_flash_requests_total{method="execute",transport="FLASH"} 2');
+    expect(text).toContain(
+      'lys_flash_request_duration_seconds_count{method="execute",transport="FLASH"} 1'
+    );
+  });
+
+  it('should apply the prefix and constant labels', async () => {
+    const requestFn = setup({ prefix: 'bot', labels: { instance: 'a"1' } });
+    requestFn.mockResolvedValueOnce({ success: true, publicKey: 'wallet' });
+
+    await client.createWallet(Keypair.generate().publicKey.toBase58());
+
+    expect(exporter.metrics()).toContain(
+      'bot_requests_total{instance="a\\"1",method="createWallet"} 1'
+    );
+  });
+
+  it('should serve metrics from the built-in listener', async () => {
+    setup();
+
+    const address = await exporter.listen({ port: 0, host: '127.0.0.1' });
+    const metrics = await get(`http://127.0.0.1:${address.port}/metrics`);
+    const missing = await get(`http://127.0.0.1:${address.port}/other`);
+
+    expect(metrics.status).toBe(200);
+    expect(metrics.type).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(metrics.body).toContain('lys_flash_retries_total 0');
+    expect(missing.status).toBe(404);
+  });
+
+  it('should stop counting after close()', async () => {
+    const requestFn = setup();
+    requestFn.mockResolvedValue({
+      success: true,
+      signature: 'sig',
+      transport: 'NONCE',
+      error: null,
+    });
+
+    await exporter.close();
+    await client.execute(request);
+
+    expect(exporter.metrics()).not.toContain('lys_flash_requests_total');
+  });
+});
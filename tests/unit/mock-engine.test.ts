@@ -0,0 +1,211 @@
+/**
+ * Unit Tests for MockExecutionEngine
+ *
+ * Runs real clients against the mock engine over ZMQ and HTTP
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { LysFlash } from '../../src/client';
+import { ExecutionError, ErrorCode } from '../../src/errors';
+import { decryptWallet } from '../../src/utils/wallet';
+import { MockExecutionEngine } from '../../src/testing';
+import type { MockEngineOptions } from '../../src/testing';
+import type { ClientConfig } from '../../src/types';
+import { createTransferRequest } from '../test-utils';
+
+const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const request = createTransferRequest();
+
+async function expectError(promise: Promise<unknown>, code: ErrorCode): Promise<void> {
+  try {
+    await promise;
+    expect.fail('Should have thrown');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ExecutionError);
+    expect((error as ExecutionError).code).toBe(code);
+  }
+}
+
+describe('MockExecutionEngine', () => {
+  let engine: MockExecutionEngine;
+  let client: LysFlash | undefined;
+
+  afterEach(async () => {
+    client?.close();
+    client = undefined;
+    await engine.stop();
+  });
+
+  async function setup(
+    transport: 'ZMQ' | 'HTTP',
+    options: MockEngineOptions = {},
+    config: ClientConfig = {}
+  ): Promise<LysFlash> {
+    engine = new MockExecutionEngine(options);
+    const { zmqAddress, httpAddress } = await engine.start();
+    client = new LysFlash({
+      address: transport === 'ZMQ' ? zmqAddress : httpAddress,
+      apiKey: 'sk_test',
+      logger: silentLogger,
+      ...config,
+    });
+    return client;
+  }
+
+  describe('ZMQ', () => {
+    it('should answer concurrent requests and record them', async () => {
+      const client = await setup('ZMQ');
+
+      const responses = await Promise.all([
+        client.execute(request),
+        client.execute({ ...request, transport: 'FLASH' }),
+      ]);
+
+      expect(responses.map((response) => response.success)).toEqual([true, true]);
+      expect(responses[0]?.signature).toMatch(/^[1-9A-HJ-NP-Za-km-z]{80,90}$/);
+      expect(responses[1]?.transport).toBe('FLASH');
+      expect(engine.requests).toHaveLength(2);
+      expect(engine.requests[0]).toMatchObject({
+        id: 1,
+        transport: 'ZMQ',
+        kind: 'execute',
+        headers: {},
+        body: { feePayer: 'wallet', data: { executionType: 'SYSTEM_TRANSFER' } },
+      });
+    });
+
+    it('should drop timed-out requests and answer the next one', async () => {
+      const client = await setup('ZMQ', {}, { timeout: 200 });
+      engine.injectError(ErrorCode.TIMEOUT);
+
+      await expectError(client.execute(request), ErrorCode.TIMEOUT);
+      await expect(client.execute(request)).resolves.toMatchObject({ success: true });
+    });
+    it('should never deliver a request that failed before the engine was reachable', async () => {
+      engine = new MockExecutionEngine({ httpPort: false });
+      const { zmqAddress } = await engine.start();
+      await engine.stop();
+
+      client = new LysFlash({ address: zmqAddress, timeout: 200, logger: silentLogger });
+      await expectError(client.execute(request), ErrorCode.CONNECTION_ERROR);
+
+      engine = new MockExecutionEngine({ httpPort: false, zmqAddress });
+      await engine.start();
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(engine.requests).toHaveLength(0);
+
+      await expect(client.execute(request)).resolves.toMatchObject({ success: true });
+      expect(engine.requests).toHaveLength(1);
+    });
+  });
+
+  describe('HTTP', () => {
+    it('should create wallets the client can decrypt', async () => {
+      const client = await setup('HTTP');
+      const user = Keypair.generate();
+
+      const wallet = await client.createWallet(user.publicKey.toBase58());
+
+      expect(decryptWallet(wallet, user).publicKey.toBase58()).toBe(wallet.publicKey);
+      expect(engine.requests[0]).toMatchObject({ kind: 'wallet', transport: 'HTTP' });
+      expect(engine.requests[0]?.headers['x-api-key']).toBe('sk_test');
+    });
+
+    it('should serve scripted JSON responses in order', async () => {
+      const client = await setup('HTTP', {}, { contentType: 'json' });
+      engine
+        .respondWith((received) => ({
+          success: true,
+          signature: `handled-${received.id}`,
+          transport: 'VANILLA',
+          error: null,
+        }))
+        .respondOnce({ success: true, signature: 'queued', transport: 'VANILLA', error: null });
+
+      const first = await client.execute(request);
+      const second = await client.execute(request);
+
+      expect(first.signature).toBe('queued');
+      expect(second.signature).toBe('handled-2');
+      expect(engine.requests[0]?.headers['content-type']).toBe('application/json');
+    });
+
+    it('should delay responses by the configured latency', async () => {
+      const client = await setup('HTTP', { latency: 50 });
+
+      const start = Date.now();
+      await client.execute(request);
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should surface injected errors as client error codes', async () => {
+      const client = await setup('HTTP', {}, { timeout: 200 });
+      engine
+        .injectError(ErrorCode.UNAUTHORIZED)
+        .injectError(ErrorCode.SERVER_ERROR)
+        .injectError(ErrorCode.SERIALIZATION_ERROR)
+        .injectError(ErrorCode.TIMEOUT)
+        .injectError(ErrorCode.NONCE_POOL_EXHAUSTED, { message: 'No nonces available' });
+
+      await expectError(client.execute(request), ErrorCode.UNAUTHORIZED);
+      await expectError(client.execute(request), ErrorCode.SERVER_ERROR);
+      await expectError(client.execute(request), ErrorCode.SERIALIZATION_ERROR);
+      await expectError(client.execute(request), ErrorCode.TIMEOUT);
+      await expect(client.execute(request)).resolves.toMatchObject({
+        success: false,
+        error: 'No nonces available',
+      });
+      await expect(client.execute(request)).resolves.toMatchObject({ success: true });
+    });
+
+    it('should only inject errors on the selected transport', async () => {
+      const client = await setup('HTTP');
+      engine.injectError(ErrorCode.SERVER_ERROR, { transport: 'ZMQ' });
+
+      await expect(client.execute(request)).resolves.toMatchObject({ success: true });
+    });
+
+    it('should reject requests with the wrong API key', async () => {
+      const client = await setup('HTTP', { apiKey: 'sk_other' });
+
+      await expectError(client.execute(request), ErrorCode.UNAUTHORIZED);
+      expect(engine.requests).toHaveLength(1);
+    });
+
+    it('should verify request signatures against the configured signers', async () => {
+      const signer = Keypair.generate();
+      const other = Keypair.generate();
+      const client = await setup('HTTP', { signers: [signer.publicKey.toBase58()] });
+      const signingKeypair = (keypair: Keypair) => ({
+        publicKey: keypair.publicKey.toBytes(),
+        secretKey: keypair.secretKey,
+      });
+
+      await expect(client.execute(request, signingKeypair(signer))).resolves.toMatchObject({
+        success: true,
+      });
+      await expectError(client.execute(request, signingKeypair(other)), ErrorCode.UNAUTHORIZED);
+      await expectError(client.execute(request), ErrorCode.UNAUTHORIZED);
+
+      expect(engine.requests.map((received) => received.signatureValid)).toEqual([
+        true,
+        false,
+        false,
+      ]);
+      expect(engine.requests[0]?.signer).toBe(signer.publicKey.toBase58());
+      expect(engine.requests[0]?.headers['x-timestamp']).toMatch(/^\d+$/);
+    });
+  });
+
+  it('should refuse to start twice', async () => {
+    engine = new MockExecutionEngine({ httpPort: false });
+    await engine.start();
+
+    await expect(engine.start()).rejects.toThrow('already running');
+    expect(engine.httpAddress).toBeUndefined();
+    expect(engine.zmqAddress).toMatch(/^tcp:\/\/127\.0\.0\.1:\d+$/);
+  });
+});
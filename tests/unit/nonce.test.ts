@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for the durable nonce pool APIs
+ *
+ * Nonce pool status, nonce account creation and `execute()` backpressure against
+ * the mock engine
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { LysFlash } from '../../src/client';
+import { ExecutionError, ErrorCode } from '../../src/errors';
+import { MockExecutionEngine } from '../../src/testing';
+import type { MockEngineOptions } from '../../src/testing';
+import type { ClientConfig } from '../../src/types';
+import { createTransferRequest } from '../test-utils';
+
+const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const feePayer = Keypair.generate().publicKey.toBase58();
+
+const request = createTransferRequest({ feePayer, transport: 'NONCE' });
+
+const exhausted = {
+  success: false,
+  signature: null,
+  transport: 'NONCE',
+  error: 'Nonce pool exhausted',
+};
+
+describe('Nonce pool', () => {
+  let engine: MockExecutionEngine;
+  let client: LysFlash | undefined;
+
+  afterEach(async () => {
+    client?.close();
+    client = undefined;
+    await engine.stop();
+  });
+
+  async function setup(
+    transport: 'ZMQ' | 'HTTP',
+    options: MockEngineOptions = {},
+    config: ClientConfig = {}
+  ): Promise<LysFlash> {
+    engine = new MockExecutionEngine(options);
+    const { zmqAddress, httpAddress } = await engine.start();
+    client = new LysFlash({
+      address: transport === 'ZMQ' ? zmqAddress : httpAddress,
+      apiKey: 'sk_test',
+      logger: silentLogger,
+      ...config,
+    });
+    return client;
+  }
+
+  describe('getNoncePoolStatus()', () => {
+    it('should report per-wallet pool status', async () => {
+      const client = await setup('ZMQ', { noncePoolSize: 2 });
+
+      const status = await client.getNoncePoolStatus(feePayer);
+
+      expect(status).toEqual({
+        success: true,
+        size: 2,
+        inUse: 0,
+        available: 2,
+        wallets: [{ wallet: feePayer, size: 2, inUse: 0, available: 2 }],
+      });
+      expect(engine.requests[0]).toMatchObject({
+        kind: 'nonce',
+        body: { type: 'NONCE_STATUS', wallet: feePayer },
+      });
+    });
+  });
+
+  describe('createNonceAccounts()', () => {
+    it('should create nonce accounts over HTTP', async () => {
+      const client = await setup('HTTP', { noncePoolSize: 1 });
+
+      const created = await client.createNonceAccounts(feePayer, 3);
+      const status = await client.getNoncePoolStatus();
+
+      expect(created.feePayer).toBe(feePayer);
+      expect(created.nonceAccounts).toHaveLength(3);
+      expect(created.size).toBe(4);
+      expect(status.available).toBe(4);
+      expect(engine.requests[0]).toMatchObject({
+        transport: 'HTTP',
+        kind: 'nonce',
+        body: { type: 'NONCE_CREATE', feePayer, count: 3 },
+      });
+    });
+
+    it('should reject invalid counts without sending a request', async () => {
+      const client = await setup('ZMQ');
+
+      await expect(client.createNonceAccounts(feePayer, 0)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+      });
+      await expect(client.createNonceAccounts('', 1)).rejects.toBeInstanceOf(ExecutionError);
+      expect(engine.requests).toHaveLength(0);
+    });
+
+    it('should throw error responses', async () => {
+      const client = await setup('HTTP');
+      engine
+        .respondOnce({ success: false, code: ErrorCode.WALLET_NOT_FOUND, error: 'Unknown wallet' })
+        .respondOnce({ success: false, error: 'Pool status unavailable' });
+
+      await expect(client.createNonceAccounts(feePayer, 2)).rejects.toMatchObject({
+        code: ErrorCode.WALLET_NOT_FOUND,
+        message: 'Unknown wallet',
+      });
+      await expect(client.getNoncePoolStatus(feePayer)).rejects.toMatchObject({
+        code: ErrorCode.EXECUTION_FAILED,
+        message: 'Pool status unavailable',
+      });
+    });
+  });
+
+  describe('nonceBackpressure', () => {
+    it('should return exhaustion immediately when disabled', async () => {
+      const client = await setup('ZMQ');
+      engine.respondOnce(exhausted);
+
+      await expect(client.execute(request)).resolves.toMatchObject({ success: false });
+      expect(engine.requests).toHaveLength(1);
+    });
+
+    it('should wait for a free nonce and resend the request', async () => {
+      const client = await setup('ZMQ', {}, { nonceBackpressure: { pollInterval: 10 } });
+      engine.injectError(ErrorCode.NONCE_POOL_EXHAUSTED);
+
+      const response = await client.execute(request);
+
+      expect(response.success).toBe(true);
+      expect(engine.requests.map((received) => received.kind)).toEqual([
+        'execute',
+        'nonce',
+        'execute',
+      ]);
+      expect(client.getStats().requestsSuccessful).toBe(1);
+    });
+
+    it('should keep polling while no nonce is available', async () => {
+      const client = await setup('HTTP', {}, { nonceBackpressure: { pollInterval: 10 } });
+      let polls = 0;
+      engine.respondOnce(exhausted).respondWith((received) => {
+        if (received.kind !== 'nonce') {
+          return undefined;
+        }
+        polls++;
+        const available = polls < 3 ? 0 : 1;
+        return { success: true, size: 1, inUse: 1 - available, available, wallets: [] };
+      });
+
+      await expect(client.execute(request)).resolves.toMatchObject({ success: true });
+      expect(polls).toBe(3);
+    });
+
+    it('should give up after maxWait', async () => {
+      const client = await setup(
+        'ZMQ',
+        {},
+        { nonceBackpressure: { maxWait: 50, pollInterval: 10 } }
+      );
+      engine.respondWith((received) =>
+        received.kind === 'nonce'
+          ? { success: true, size: 1, inUse: 1, available: 0, wallets: [] }
+          : exhausted
+      );
+
+      const start = Date.now();
+      const response = await client.execute(request);
+
+      expect(response).toMatchObject({ success: false, error: 'Nonce pool exhausted' });
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+      expect(engine.requests.filter((received) => received.kind === 'execute')).toHaveLength(2);
+    });
+
+    it('should reject invalid settings', () => {
+      expect(
+        () => new LysFlash({ logger: silentLogger, nonceBackpressure: { pollInterval: 0 } })
+      ).toThrow('nonceBackpressure.pollInterval');
+    });
+  });
+});
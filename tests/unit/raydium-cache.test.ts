@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for RaydiumCache
+ *
+ * Tests Raydium instance and pool-info caching with a mocked Raydium SDK
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Connection, Keypair } from '@solana/web3.js';
+import { RaydiumCache } from '../../src/raydium/cache';
+
+const load = vi.fn();
+
+vi.mock('@raydium-io/raydium-sdk-v2', () => ({
+  Raydium: { load: (...args: unknown[]) => load(...args) },
+}));
+
+const POOL = Keypair.generate().publicKey;
+const OWNER = Keypair.generate().publicKey;
+
+function createRaydium() {
+  return { account: { resetTokenAccounts: vi.fn() } };
+}
+
+describe('RaydiumCache', () => {
+  let connection: Connection;
+  let cache: RaydiumCache;
+
+  beforeEach(() => {
+    load.mockReset();
+    load.mockImplementation(() => Promise.resolve(createRaydium()));
+    connection = new Connection('http://localhost:8899');
+    cache = new RaydiumCache(connection, { poolTtl: 1_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getRaydium()', () => {
+    it('should load one instance per owner', async () => {
+      const first = await cache.getRaydium(OWNER);
+      const second = await cache.getRaydium(OWNER.toBase58());
+      const readOnly = await cache.getRaydium();
+
+      expect(first).toBe(second);
+      expect(readOnly).not.toBe(first);
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(load.mock.calls[0]?.[0]).toMatchObject({ connection, owner: OWNER });
+    });
+
+    it('should load instances for the configured cluster', async () => {
+      await new RaydiumCache(connection, { cluster: 'devnet' }).getRaydium();
+      await cache.getRaydium();
+
+      expect(load.mock.calls[0]?.[0]).toMatchObject({ cluster: 'devnet' });
+      expect(load.mock.calls[1]?.[0]).toMatchObject({ cluster: 'mainnet' });
+    });
+
+    it('should reset token accounts when handing out an owner instance', async () => {
+      const raydium = await cache.getRaydium(OWNER);
+      await cache.getRaydium(OWNER);
+
+      expect(raydium.account.resetTokenAccounts).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed loads', async () => {
+      load.mockRejectedValueOnce(new Error('RPC unavailable'));
+
+      await expect(cache.getRaydium()).rejects.toThrow('RPC unavailable');
+      await expect(cache.getRaydium()).resolves.toBeDefined();
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the least recently used owner instances beyond maxOwners', async () => {
+      const [first, second, third] = [1, 2, 3].map(() => Keypair.generate().publicKey);
+      cache.configure({ maxOwners: 2 });
+
+      await cache.getRaydium();
+      await cache.getRaydium(first);
+      await cache.getRaydium(second);
+      await cache.getRaydium(first);
+      await cache.getRaydium(third);
+      expect(load).toHaveBeenCalledTimes(4);
+
+      // `second` was evicted; the read-only instance does not count towards the limit
+      await cache.getRaydium(first);
+      await cache.getRaydium(third);
+      await cache.getRaydium();
+      expect(load).toHaveBeenCalledTimes(4);
+      await cache.getRaydium(second);
+      expect(load).toHaveBeenCalledTimes(5);
+    });
+
+    it('should reload after invalidateInstances()', async () => {
+      const first = await cache.getRaydium(OWNER);
+      cache.invalidateInstances(OWNER);
+
+      expect(await cache.getRaydium(OWNER)).not.toBe(first);
+    });
+  });
+
+  describe('getPoolInfo()', () => {
+    it('should serve pool info from cache until the TTL expires', async () => {
+      vi.useFakeTimers();
+      cache.configure({ poolTtl: 1_000 });
+      const fetch = vi.fn().mockResolvedValue({ price: 1 });
+
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      vi.advanceTimersByTime(999);
+      await cache.getPoolInfo('cpmm', POOL.toBase58(), fetch);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key pool info by pool type', async () => {
+      const fetch = vi.fn().mockResolvedValue({});
+
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      await cache.getPoolInfo('clmm', POOL, fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed fetches', async () => {
+      const fetch = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Pool not found'))
+        .mockResolvedValue({ price: 1 });
+
+      await expect(cache.getPoolInfo('ammv4', POOL, fetch)).rejects.toThrow('Pool not found');
+      await expect(cache.getPoolInfo('ammv4', POOL, fetch)).resolves.toEqual({ price: 1 });
+    });
+
+    it('should not cache pool info by default', async () => {
+      const fetch = vi.fn().mockResolvedValue({});
+      const defaultCache = new RaydiumCache(connection);
+
+      await defaultCache.getPoolInfo('cpmm', POOL, fetch);
+      await defaultCache.getPoolInfo('cpmm', POOL, fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should always fetch when poolTtl is 0', async () => {
+      cache.configure({ poolTtl: 0 });
+      const fetch = vi.fn().mockResolvedValue({});
+
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('invalidatePool()', () => {
+    it('should drop a single pool, optionally by type', async () => {
+      const other = Keypair.generate().publicKey;
+      const fetch = vi.fn().mockResolvedValue({});
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      await cache.getPoolInfo('clmm', POOL, fetch);
+      await cache.getPoolInfo('cpmm', other, fetch);
+
+      cache.invalidatePool(POOL, 'clmm');
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      await cache.getPoolInfo('clmm', POOL, fetch);
+      expect(fetch).toHaveBeenCalledTimes(4);
+
+      cache.invalidatePool(POOL);
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+      await cache.getPoolInfo('cpmm', other, fetch);
+      expect(fetch).toHaveBeenCalledTimes(5);
+    });
+
+    it('should drop every pool when called without an address', async () => {
+      const fetch = vi.fn().mockResolvedValue({});
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+
+      cache.invalidatePool();
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('configure()', () => {
+    it('should bypass and clear the cache when disabled', async () => {
+      const fetch = vi.fn().mockResolvedValue({});
+      await cache.getRaydium();
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+
+      cache.configure({ enabled: false });
+      await cache.getRaydium();
+      await cache.getRaydium();
+      await cache.getPoolInfo('cpmm', POOL, fetch);
+
+      expect(load).toHaveBeenCalledTimes(3);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
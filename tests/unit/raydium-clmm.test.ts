@@ -0,0 +1,354 @@
+/**
+ * Unit Tests for Raydium CLMM positions
+ *
+ * Tests tick/price conversion, position enumeration and the position lifecycle builder
+ * methods with a mocked Raydium instance
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import type { AccountInfo, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import {
+  PositionInfoLayout,
+  SqrtPriceMath,
+  TickArrayLayout,
+  TickUtils,
+} from '@raydium-io/raydium-sdk-v2';
+import { TransactionBuilder } from '../../src/builder';
+import type { LysFlash } from '../../src/client';
+import { RaydiumCache } from '../../src/raydium/cache';
+import type { RaydiumInstance } from '../../src/raydium/cache';
+import { RaydiumCLMMUtils } from '../../src/raydium/clmm/utils';
+import type { RaydiumCLMMPoolState } from '../../src/raydium/clmm/types';
+
+const POOL = Keypair.generate().publicKey;
+const USER = Keypair.generate().publicKey;
+const PROGRAM_ID = Keypair.generate().publicKey;
+const Q64 = new BN(1).shln(64);
+
+function createPoolState(overrides: Partial<RaydiumCLMMPoolState> = {}): RaydiumCLMMPoolState {
+  return {
+    address: POOL,
+    mintA: Keypair.generate().publicKey,
+    mintB: Keypair.generate().publicKey,
+    vaultA: Keypair.generate().publicKey,
+    vaultB: Keypair.generate().publicKey,
+    sqrtPriceX64: SqrtPriceMath.getSqrtPriceX64FromTick(0),
+    currentTickIndex: 0,
+    liquidity: new BN(0),
+    feeRate: 2_500,
+    tickSpacing: 10,
+    decimalsA: 9,
+    decimalsB: 6,
+    programId: PROGRAM_ID,
+    feeGrowthGlobalX64A: Q64.muln(5),
+    feeGrowthGlobalX64B: Q64.muln(2),
+    rewardGrowthGlobalX64: [],
+    ...overrides,
+  };
+}
+
+function createPosition(tickLower: number, tickUpper: number, pool: PublicKey = POOL) {
+  return {
+    nftMint: Keypair.generate().publicKey,
+    poolId: pool,
+    tickLower,
+    tickUpper,
+    liquidity: new BN(1_000_000),
+    feeGrowthInsideLastX64A: Q64,
+    feeGrowthInsideLastX64B: new BN(0),
+    tokenFeesOwedA: new BN(7),
+    tokenFeesOwedB: new BN(0),
+    rewardInfos: [],
+  };
+}
+
+describe('Raydium CLMM', () => {
+  let connection: Connection;
+
+  beforeEach(() => {
+    connection = new Connection('http://localhost:8899');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('RaydiumCLMMUtils.priceToTick() / tickToPrice()', () => {
+    it.each([
+      [9, 6, 1],
+      [6, 9, 10],
+      [6, 6, 60],
+      [0, 9, 120],
+    ])(
+      'should round-trip aligned ticks (decimals %i/%i, spacing %i)',
+      (decimalsA, decimalsB, tickSpacing) => {
+        for (const tick of [-443_520, -120_000, -tickSpacing, 0, tickSpacing, 69_060, 443_520]) {
+          const aligned = Math.round(tick / tickSpacing) * tickSpacing;
+          const price = RaydiumCLMMUtils.tickToPrice(aligned, decimalsA, decimalsB);
+
+          expect(
+            RaydiumCLMMUtils.priceToTick(price, decimalsA, decimalsB, tickSpacing, 'down')
+          ).toBe(aligned);
+          expect(RaydiumCLMMUtils.priceToTick(price, decimalsA, decimalsB, tickSpacing, 'up')).toBe(
+            aligned
+          );
+        }
+      }
+    );
+
+    it('should apply token decimals to the price', () => {
+      // 1 SOL (9 decimals) = 150 USDC (6 decimals)
+      const tick = RaydiumCLMMUtils.priceToTick(150, 9, 6, 1);
+
+      expect(RaydiumCLMMUtils.tickToPrice(tick, 9, 6)).toBeCloseTo(150, 1);
+      expect(RaydiumCLMMUtils.tickToPrice(tick, 9, 6)).toBeLessThanOrEqual(150);
+      expect(RaydiumCLMMUtils.tickToPrice(tick + 1, 9, 6)).toBeGreaterThan(150);
+      expect(tick).toBe(Math.floor(Math.log(150 / 1_000) / Math.log(1.0001)));
+    });
+
+    it('should align unaligned prices down or up to the tick spacing', () => {
+      const price = RaydiumCLMMUtils.tickToPrice(-1_234, 6, 6);
+
+      expect(RaydiumCLMMUtils.priceToTick(price, 6, 6, 60, 'down')).toBe(-1_260);
+      expect(RaydiumCLMMUtils.priceToTick(price, 6, 6, 60, 'up')).toBe(-1_200);
+      expect(RaydiumCLMMUtils.priceToTick(1, 6, 6, 60, 'up')).toBe(0);
+      expect(Object.is(RaydiumCLMMUtils.priceToTick(1, 6, 6, 60, 'up'), -0)).toBe(false);
+    });
+
+    it('should reject non-positive prices', () => {
+      expect(() => RaydiumCLMMUtils.priceToTick(0, 9, 6, 1)).toThrow('Invalid CLMM price');
+      expect(() => RaydiumCLMMUtils.priceToTick(-1, 9, 6, 1)).toThrow('Invalid CLMM price');
+    });
+  });
+
+  describe('RaydiumCLMMUtils.getPositions()', () => {
+    let getOwnerPositionInfo: ReturnType<typeof vi.fn>;
+
+    /**
+     * Decode the tick arrays of each position bound, in lower/upper order, as ticks
+     * without fee or reward growth outside
+     */
+    function mockTickArrays(...ticks: number[]) {
+      const decode = vi.spyOn(TickArrayLayout, 'decode');
+      for (const tick of ticks) {
+        decode.mockReturnValueOnce({
+          ticks: Array.from({ length: TickUtils.getTickOffsetInArray(tick, 10) + 1 }, () => ({
+            tick,
+            feeGrowthOutsideX64A: new BN(0),
+            feeGrowthOutsideX64B: new BN(0),
+            rewardGrowthsOutsideX64: [],
+          })),
+        } as unknown as ReturnType<typeof TickArrayLayout.decode>);
+      }
+    }
+
+    beforeEach(() => {
+      getOwnerPositionInfo = vi.fn();
+      vi.spyOn(RaydiumCache.prototype, 'getRaydium').mockResolvedValue({
+        clmm: { getOwnerPositionInfo },
+      } as unknown as RaydiumInstance);
+
+      vi.spyOn(connection, 'getMultipleAccountsInfo').mockImplementation((addresses) =>
+        Promise.resolve(
+          addresses.map(() => ({ data: Buffer.alloc(0) }) as unknown as AccountInfo<Buffer>)
+        )
+      );
+    });
+
+    it('should compute amounts, pending fees and range for each position', async () => {
+      const pool = createPoolState();
+      const getPool = vi.spyOn(RaydiumCLMMUtils, 'getPool').mockResolvedValue(pool);
+      const inRange = createPosition(-600, 600);
+      const aboveRange = createPosition(1_000, 2_000);
+      getOwnerPositionInfo.mockResolvedValue([inRange, aboveRange]);
+      mockTickArrays(-600, 600, 1_000, 2_000);
+
+      const [first, second] = await RaydiumCLMMUtils.getPositions(connection, USER.toBase58());
+
+      expect(getPool).toHaveBeenCalledTimes(1);
+      expect(first).toMatchObject({
+        nftMint: inRange.nftMint,
+        pool: POOL,
+        tickLower: -600,
+        tickUpper: 600,
+        inRange: true,
+        raw: inRange,
+      });
+      expect(first?.priceLower).toBeCloseTo(RaydiumCLMMUtils.tickToPrice(-600, 9, 6));
+      expect(first?.priceUpper).toBeCloseTo(RaydiumCLMMUtils.tickToPrice(600, 9, 6));
+
+      // Fee growth inside the range is the global growth: (5 - 1) * liquidity + owed
+      expect(first?.pendingFeeA.toString()).toBe('4000007');
+      expect(first?.pendingFeeB.toString()).toBe('2000000');
+
+      // In range: both tokens; above the current price: token A only
+      expect(first?.amountA.gtn(0)).toBe(true);
+      expect(first?.amountB.gtn(0)).toBe(true);
+      expect(second?.inRange).toBe(false);
+      expect(second?.amountA.gtn(0)).toBe(true);
+      expect(second?.amountB.isZero()).toBe(true);
+    });
+
+    it('should return an empty list without fetching pools', async () => {
+      const getPool = vi.spyOn(RaydiumCLMMUtils, 'getPool');
+      getOwnerPositionInfo.mockResolvedValue([]);
+
+      await expect(RaydiumCLMMUtils.getPositions(connection, USER)).resolves.toEqual([]);
+      expect(getPool).not.toHaveBeenCalled();
+    });
+
+    it('should throw when a tick array is missing', async () => {
+      vi.spyOn(RaydiumCLMMUtils, 'getPool').mockResolvedValue(createPoolState());
+      vi.spyOn(connection, 'getMultipleAccountsInfo').mockResolvedValue([null, null]);
+      getOwnerPositionInfo.mockResolvedValue([createPosition(-600, 600)]);
+
+      await expect(RaydiumCLMMUtils.getPositions(connection, USER)).rejects.toThrow(
+        'CLMM tick array not found'
+      );
+    });
+  });
+
+  describe('TransactionBuilder.raydium.clmm', () => {
+    const poolInfo = {
+      id: POOL.toBase58(),
+      programId: PROGRAM_ID.toBase58(),
+      mintA: { decimals: 9 },
+      mintB: { decimals: 6 },
+      config: { tickSpacing: 10 },
+    };
+    const computePoolInfo = { sqrtPriceX64: SqrtPriceMath.getSqrtPriceX64FromTick(0) };
+
+    let builder: TransactionBuilder;
+    let rawTransaction: ReturnType<typeof vi.spyOn>;
+    let clmm: Record<string, ReturnType<typeof vi.fn>>;
+    let position: ReturnType<typeof createPosition>;
+
+    beforeEach(() => {
+      clmm = {
+        getPoolInfoFromRpc: vi.fn().mockResolvedValue({ poolInfo, poolKeys: {}, computePoolInfo }),
+        openPositionFromLiquidity: vi.fn(),
+        increasePositionFromLiquidity: vi.fn(),
+        decreaseLiquidity: vi.fn(),
+        closePosition: vi.fn(),
+      };
+      for (const method of Object.values(clmm).slice(1)) {
+        method.mockResolvedValue({ transaction: new Transaction() });
+      }
+      vi.spyOn(RaydiumCache.prototype, 'getRaydium').mockResolvedValue({
+        clmm,
+      } as unknown as RaydiumInstance);
+
+      position = createPosition(-600, 600);
+      vi.spyOn(connection, 'getAccountInfo').mockResolvedValue({
+        data: Buffer.alloc(0),
+      } as unknown as AccountInfo<Buffer>);
+      vi.spyOn(PositionInfoLayout, 'decode').mockReturnValue(
+        position as unknown as ReturnType<typeof PositionInfoLayout.decode>
+      );
+
+      const client = {
+        requireConnection: () => connection,
+        getRaydiumCache: () => new RaydiumCache(connection),
+        getCommitment: () => 'confirmed',
+        getTracer: () => undefined,
+      } as unknown as LysFlash;
+      builder = new TransactionBuilder(client);
+      rawTransaction = vi.spyOn(builder, 'rawTransaction').mockReturnValue(builder);
+    });
+
+    it('should open a position from a price range, signed by the NFT mint', async () => {
+      const positionNft = Keypair.generate().publicKey;
+
+      await builder.raydium.clmm.openPosition({
+        pool: POOL,
+        user: USER,
+        positionNft: positionNft.toBase58(),
+        priceLower: RaydiumCLMMUtils.tickToPrice(-605, 9, 6),
+        priceUpper: RaydiumCLMMUtils.tickToPrice(595, 9, 6),
+        amountMaxA: 1_000_000,
+        amountMaxB: new BN(1_000_000),
+      });
+
+      const args = clmm.openPositionFromLiquidity!.mock.calls[0]?.[0];
+      expect(args).toMatchObject({ poolInfo, tickLower: -610, tickUpper: 600 });
+      expect(args.liquidity.gtn(0)).toBe(true);
+      expect(args.getEphemeralSigners()).toEqual([positionNft]);
+      expect(rawTransaction.mock.calls[0]?.[0].additionalSigners).toEqual([positionNft]);
+    });
+
+    it('should reject ticks that are not aligned to the tick spacing', async () => {
+      await expect(
+        builder.raydium.clmm.openPosition({
+          pool: POOL,
+          user: USER,
+          positionNft: Keypair.generate().publicKey,
+          tickLower: -605,
+          tickUpper: 600,
+          amountMaxA: 1,
+          amountMaxB: 1,
+        })
+      ).rejects.toThrow('multiples of the pool tick spacing (10)');
+      expect(clmm.openPositionFromLiquidity).not.toHaveBeenCalled();
+    });
+
+    it('should increase liquidity over the position range', async () => {
+      await builder.raydium.clmm.increaseLiquidity({
+        pool: POOL,
+        user: USER,
+        position: position.nftMint,
+        amountMaxA: 500,
+        amountMaxB: 500,
+        liquidity: 1_234,
+      });
+
+      const args = clmm.increasePositionFromLiquidity!.mock.calls[0]?.[0];
+      expect(args.ownerPosition).toBe(position);
+      expect(args.liquidity.toString()).toBe('1234');
+      expect(args.amountMaxA.toString()).toBe('500');
+      expect(rawTransaction.mock.calls[0]?.[0].additionalSigners).toEqual([]);
+    });
+
+    it('should decrease all liquidity and close the position', async () => {
+      await builder.raydium.clmm.decreaseLiquidity({
+        pool: POOL,
+        user: USER,
+        position: position.nftMint,
+        amountMinA: 10,
+        amountMinB: 20,
+        closePosition: true,
+      });
+
+      const args = clmm.decreaseLiquidity!.mock.calls[0]?.[0];
+      expect(args.liquidity).toBe(position.liquidity);
+      expect(args.ownerInfo).toEqual({ useSOLBalance: true, closePosition: true });
+      expect(args.amountMinA.toString()).toBe('10');
+      expect(args.amountMinB.toString()).toBe('20');
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should close a position', async () => {
+      await builder.raydium.clmm.closePosition({
+        pool: POOL,
+        user: USER,
+        position: position.nftMint,
+      });
+
+      expect(clmm.closePosition!.mock.calls[0]?.[0]).toMatchObject({
+        poolInfo,
+        ownerPosition: position,
+      });
+      expect(rawTransaction).toHaveBeenCalledOnce();
+    });
+
+    it('should reject positions of another pool', async () => {
+      position.poolId = Keypair.generate().publicKey;
+
+      await expect(
+        builder.raydium.clmm.closePosition({ pool: POOL, user: USER, position: position.nftMint })
+      ).rejects.toThrow('does not belong to pool');
+      expect(clmm.closePosition).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Unit Tests for Raydium LaunchPad
+ *
+ * Tests ExactOut quotes and swap slippage handling with a mocked Raydium instance
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import type { AccountInfo } from '@solana/web3.js';
+import BN from 'bn.js';
+import { Curve, PlatformConfig } from '@raydium-io/raydium-sdk-v2';
+import { TransactionBuilder } from '../../src/builder';
+import type { LysFlash } from '../../src/client';
+import { RaydiumCache } from '../../src/raydium/cache';
+import type { RaydiumInstance } from '../../src/raydium/cache';
+import { RaydiumLaunchPadUtils } from '../../src/raydium/launchpad/utils';
+
+const POOL = Keypair.generate().publicKey;
+const USER = Keypair.generate().publicKey;
+const PLATFORM = Keypair.generate().publicKey;
+
+const poolInfo = {
+  mintA: Keypair.generate().publicKey,
+  mintB: Keypair.generate().publicKey,
+  virtualA: new BN(1_000_000_000_000),
+  virtualB: new BN(30_000_000_000),
+  realA: new BN(0),
+  realB: new BN(0),
+  platformId: PLATFORM,
+  configInfo: { tradeFeeRate: new BN(2_500) }, // 0.25%
+};
+
+describe('Raydium LaunchPad', () => {
+  let connection: Connection;
+  let buyToken: ReturnType<typeof vi.fn>;
+  let sellToken: ReturnType<typeof vi.fn>;
+  let platformFees: { feeRate: BN; creatorFeeRate: BN };
+
+  beforeEach(() => {
+    connection = new Connection('http://localhost:8899');
+    vi.spyOn(connection, 'getAccountInfo').mockImplementation((address) =>
+      Promise.resolve(
+        address.equals(PLATFORM) ? ({ data: Buffer.alloc(0) } as AccountInfo<Buffer>) : null
+      )
+    );
+    platformFees = { feeRate: new BN(0), creatorFeeRate: new BN(0) };
+    vi.spyOn(PlatformConfig, 'decode').mockImplementation(
+      () => platformFees as unknown as ReturnType<typeof PlatformConfig.decode>
+    );
+
+    buyToken = vi.fn().mockResolvedValue({ transaction: new Transaction() });
+    sellToken = vi.fn().mockResolvedValue({ transaction: new Transaction() });
+    const raydium = {
+      launchpad: {
+        getRpcPoolInfo: vi.fn().mockResolvedValue(poolInfo),
+        buyToken,
+        sellToken,
+      },
+    } as unknown as RaydiumInstance;
+    vi.spyOn(RaydiumCache.prototype, 'getRaydium').mockResolvedValue(raydium);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('RaydiumLaunchPadUtils.getQuoteExactOut()', () => {
+    it.each(['buy', 'sell'] as const)(
+      'should quote a %s input that just covers amountOut',
+      async (direction) => {
+        const amountOut = direction === 'buy' ? new BN(5_000_000_000) : new BN(150_000_000);
+
+        const quote = await RaydiumLaunchPadUtils.getQuoteExactOut(
+          connection,
+          POOL,
+          amountOut,
+          direction,
+          0
+        );
+        const enough = await RaydiumLaunchPadUtils.getQuote(
+          connection,
+          POOL,
+          quote.amountIn,
+          direction,
+          0
+        );
+        const short = await RaydiumLaunchPadUtils.getQuote(
+          connection,
+          POOL,
+          quote.amountIn.muln(9_999).divn(10_000),
+          direction,
+          0
+        );
+
+        expect(quote.amountOut.eq(amountOut)).toBe(true);
+        expect(enough.amountOut.gte(amountOut)).toBe(true);
+        expect(short.amountOut.lt(amountOut)).toBe(true);
+        expect(quote.fee.gtn(0)).toBe(true);
+      }
+    );
+
+    it('should add slippage to the maximum input', async () => {
+      const quote = await RaydiumLaunchPadUtils.getQuoteExactOut(
+        connection,
+        POOL,
+        5_000_000_000,
+        'buy',
+        100
+      );
+
+      expect(quote.maximumAmountIn.toString()).toBe(
+        quote.amountIn.muln(10_100).divn(10_000).toString()
+      );
+    });
+
+    it('should include the platform and creator fees in the maximum input', async () => {
+      const amountOut = new BN(5_000_000_000);
+      const withoutPlatformFee = await RaydiumLaunchPadUtils.getQuoteExactOut(
+        connection,
+        POOL,
+        amountOut,
+        'buy',
+        0
+      );
+      platformFees = { feeRate: new BN(10_000), creatorFeeRate: new BN(500) }; // 1%, 0.05%
+
+      const quote = await RaydiumLaunchPadUtils.getQuoteExactOut(
+        connection,
+        POOL,
+        amountOut,
+        'buy',
+        0
+      );
+
+      // Input the program requires for amountOut with every fee applied
+      const required = Curve.buyExactOut({
+        poolInfo: { ...poolInfo, totalSellA: new BN(1_000_000_000_000) },
+        amountA: amountOut,
+        protocolFeeRate: poolInfo.configInfo.tradeFeeRate,
+        platformFeeRate: platformFees.feeRate,
+        creatorFeeRate: platformFees.creatorFeeRate,
+        shareFeeRate: new BN(0),
+        curveType: 0,
+        slot: 0,
+      } as unknown as Parameters<typeof Curve.buyExactOut>[0]).amountB;
+
+      expect(withoutPlatformFee.maximumAmountIn.lt(required)).toBe(true);
+      expect(quote.maximumAmountIn.gte(required)).toBe(true);
+      expect(quote.maximumAmountIn.sub(required).lten(1)).toBe(true);
+      expect(quote.fee.gt(withoutPlatformFee.fee)).toBe(true);
+    });
+
+    it('should throw when the platform config is missing', async () => {
+      vi.spyOn(connection, 'getAccountInfo').mockResolvedValue(null);
+
+      await expect(
+        RaydiumLaunchPadUtils.getQuoteExactOut(connection, POOL, 1_000, 'buy')
+      ).rejects.toThrow('LaunchPad platform config not found');
+    });
+
+    it('should throw when the pool cannot provide amountOut', async () => {
+      await expect(
+        RaydiumLaunchPadUtils.getQuoteExactOut(connection, POOL, 30_000_000_000, 'sell')
+      ).rejects.toThrow('Insufficient LaunchPad liquidity');
+    });
+  });
+
+  describe('TransactionBuilder.raydium.launchpad', () => {
+    let builder: TransactionBuilder;
+
+    beforeEach(() => {
+      const client = {
+        requireConnection: () => connection,
+        getRaydiumCache: () => new RaydiumCache(connection),
+        getCommitment: () => 'confirmed',
+        getCluster: () => 'mainnet',
+        getTracer: () => undefined,
+      } as unknown as LysFlash;
+      builder = new TransactionBuilder(client);
+      vi.spyOn(builder, 'rawTransaction').mockReturnValue(builder);
+    });
+
+    it('should pass the minimum output to the SDK', async () => {
+      await builder.raydium.launchpad.buy({
+        pool: POOL,
+        user: USER,
+        solAmountIn: 1_000_000_000,
+        minTokensOut: 1_000_000,
+      });
+
+      const args = buyToken.mock.calls[0]?.[0];
+      expect(args.minMintAAmount.toString()).toBe('1000000');
+    });
+
+    it('should pass slippageBps when no minimum output is given', async () => {
+      await builder.raydium.launchpad.sell({
+        pool: POOL,
+        user: USER,
+        tokenAmountIn: 1_000_000,
+        slippageBps: 250,
+      });
+
+      const args = sellToken.mock.calls[0]?.[0];
+      expect(args.minAmountB).toBeUndefined();
+      expect(args.slippage.toString()).toBe('250');
+    });
+
+    it('should default to 1% slippage', async () => {
+      await builder.raydium.launchpad.buy({ pool: POOL, user: USER, solAmountIn: 1_000 });
+
+      expect(buyToken.mock.calls[0]?.[0].slippage.toString()).toBe('100');
+    });
+
+    it('should reject out-of-range slippage', async () => {
+      await expect(
+        builder.raydium.launchpad.buy({
+          pool: POOL,
+          user: USER,
+          solAmountIn: 1_000,
+          slippageBps: 10_001,
+        })
+      ).rejects.toThrow('Invalid slippageBps');
+      expect(buyToken).not.toHaveBeenCalled();
+    });
+  });
+});
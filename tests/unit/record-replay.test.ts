@@ -0,0 +1,308 @@
+/**
+ * Unit Tests for RecordingTransport and ReplayTransport
+ *
+ * Records real client traffic against the mock engine, then replays it offline
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import type { PublicKey } from '@solana/web3.js';
+import { TransactionBuilder } from '../../src/builder';
+import { LysFlash } from '../../src/client';
+import { ExecutionError, ErrorCode } from '../../src/errors';
+import {
+  MockExecutionEngine,
+  RecordingTransport,
+  ReplayTransport,
+  normalizeTransactionBytes,
+} from '../../src/testing';
+import type { TransportFixture } from '../../src/testing';
+
+const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+function rawTransactionRequest(timestamp: number): any {
+  const payer = Keypair.generate();
+  const transaction = new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: '11111111111111111111111111111111',
+  }).add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1_000_000,
+    })
+  );
+
+  return {
+    data: {
+      executionType: 'RAW_TRANSACTION',
+      eventType: 'EXECUTE',
+      transactionBytes: transaction.serialize({ requireAllSignatures: false }),
+      // Amount fields reach the transport as bigints
+      amount: BigInt(1_000_000),
+    },
+    feePayer: payer.publicKey.toBase58(),
+    priorityFeeLamports: 1_000_000,
+    bribeLamports: 0,
+    transport: 'VANILLA',
+    timestamp,
+  };
+}
+
+describe('RecordingTransport and ReplayTransport', () => {
+  let dir: string;
+  let fixturePath: string;
+  let engine: MockExecutionEngine;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lys-flash-fixture-'));
+    fixturePath = path.join(dir, 'nested', 'fixture.json');
+  });
+
+  afterEach(async () => {
+    await engine?.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record(requests: any[]): Promise<TransportFixture> {
+    engine = new MockExecutionEngine({ httpPort: false });
+    const { zmqAddress } = await engine.start();
+    engine.respondOnce({ success: true, signature: 'sig-1', transport: 'VANILLA', error: null });
+
+    let recorder: RecordingTransport | undefined;
+    const client = new LysFlash({
+      address: zmqAddress,
+      timeout: 200,
+      logger: silentLogger,
+      wrapTransport: (transport) => {
+        recorder = new RecordingTransport(transport, { path: fixturePath });
+        return recorder;
+      },
+    });
+
+    for (const request of requests) {
+      await client.execute(request).catch(() => undefined);
+    }
+    expect(recorder?.entries).toHaveLength(requests.length);
+    client.close();
+
+    return JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as TransportFixture;
+  }
+
+  function replayClient(replay: ReplayTransport): LysFlash {
+    return new LysFlash({ logger: silentLogger, wrapTransport: () => replay });
+  }
+
+  it('should record requests, including transaction bytes and bigints, to the fixture', async () => {
+    const request = rawTransactionRequest(1);
+
+    const fixture = await record([request]);
+
+    expect(fixture.version).toBe(1);
+    expect(fixture.entries).toHaveLength(1);
+    expect(fixture.entries[0]?.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(fixture.entries[0]?.request).toMatchObject({
+      data: {
+        executionType: 'RAW_TRANSACTION',
+        transactionBytes: { $bytes: Buffer.from(request.data.transactionBytes).toString('base64') },
+        amount: { $bigint: '1000000' },
+      },
+    });
+    expect(fixture.entries[0]?.response).toMatchObject({ success: true, signature: 'sig-1' });
+  });
+
+  it('should replay recorded responses without an engine', async () => {
+    const request = rawTransactionRequest(1);
+    await record([request]);
+    await engine.stop();
+
+    const replay = new ReplayTransport({ path: fixturePath });
+    const client = replayClient(replay);
+
+    await expect(client.execute(request)).resolves.toMatchObject({
+      success: true,
+      signature: 'sig-1',
+    });
+    // The last recorded response repeats
+    await expect(client.execute(request)).resolves.toMatchObject({ signature: 'sig-1' });
+    expect(replay.getUnusedEntries()).toEqual([]);
+    client.close();
+  });
+
+  it('should replay recorded errors with their error codes', async () => {
+    const request = rawTransactionRequest(1);
+    engine = new MockExecutionEngine({ httpPort: false });
+    const { zmqAddress } = await engine.start();
+    engine.injectError(ErrorCode.TIMEOUT);
+
+    const recording = new LysFlash({
+      address: zmqAddress,
+      timeout: 200,
+      logger: silentLogger,
+      wrapTransport: (transport) => new RecordingTransport(transport, { path: fixturePath }),
+    });
+    await expect(recording.execute(request)).rejects.toThrow();
+    await expect(recording.execute(request)).resolves.toMatchObject({ success: true });
+    recording.close();
+
+    const client = replayClient(new ReplayTransport({ path: fixturePath }));
+    try {
+      await client.execute(request);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExecutionError);
+      expect((error as ExecutionError).code).toBe(ErrorCode.TIMEOUT);
+    }
+    await expect(client.execute(request)).resolves.toMatchObject({ success: true });
+    client.close();
+  });
+
+  it('should reject requests that were not recorded', async () => {
+    const fixture = await record([rawTransactionRequest(1)]);
+    const replay = new ReplayTransport({ fixture });
+    const client = replayClient(replay);
+
+    try {
+      await client.execute(rawTransactionRequest(1));
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExecutionError);
+      expect((error as ExecutionError).code).toBe(ErrorCode.NOT_FOUND);
+      expect((error as ExecutionError).message).toContain('No recorded response');
+    }
+    expect(replay.getUnusedEntries()).toHaveLength(1);
+    client.close();
+  });
+
+  it('should match requests through the normalizer', async () => {
+    const request = rawTransactionRequest(1);
+    const fixture = await record([request]);
+    const normalize = (recorded: unknown) => ({ ...(recorded as object), timestamp: undefined });
+
+    const replay = new ReplayTransport({ fixture, normalize });
+    const client = replayClient(replay);
+
+    await expect(client.execute({ ...request, timestamp: 2 })).resolves.toMatchObject({
+      signature: 'sig-1',
+    });
+    client.close();
+  });
+
+  it('should replay DEX namespace transactions and miss changed ones', async () => {
+    const pool = Keypair.generate().publicKey;
+    const user = Keypair.generate().publicKey;
+    const positionNft = Keypair.generate().publicKey;
+    // The CP-AMM SDK builds createPosition without RPC calls
+    const connection = new Connection('http://127.0.0.1:1');
+
+    const createPosition = async (client: LysFlash, target: PublicKey) => {
+      const builder = await new TransactionBuilder(client).meteora.dammV2.createPosition({
+        pool: target,
+        user,
+        positionNft,
+      });
+      return builder
+        .setFeePayer(user.toBase58())
+        .setPriorityFee(1_000_000)
+        .setTransport('VANILLA')
+        .send();
+    };
+
+    engine = new MockExecutionEngine({ httpPort: false });
+    const { zmqAddress } = await engine.start();
+    engine.respondOnce({ success: true, signature: 'sig-1', transport: 'VANILLA', error: null });
+    const recording = new LysFlash({
+      address: zmqAddress,
+      connection,
+      logger: silentLogger,
+      wrapTransport: (transport) => new RecordingTransport(transport, { path: fixturePath }),
+    });
+    await createPosition(recording, pool);
+    recording.close();
+    await engine.stop();
+
+    const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as TransportFixture;
+    expect(normalizeTransactionBytes(fixture.entries[0]?.request)).toMatchObject({
+      data: {
+        executionType: 'RAW_TRANSACTION',
+        transactionBytes: {
+          feePayer: user.toBase58(),
+          instructions: [
+            expect.objectContaining({
+              programId: 'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG',
+              accounts: expect.arrayContaining(['$signer0', pool.toBase58()]),
+            }),
+          ],
+        },
+        additionalSigners: ['$signer0'],
+      },
+    });
+
+    const replay = new ReplayTransport({ fixture });
+    const client = new LysFlash({ connection, logger: silentLogger, wrapTransport: () => replay });
+    await expect(createPosition(client, pool)).resolves.toMatchObject({ signature: 'sig-1' });
+    expect(replay.getUnusedEntries()).toEqual([]);
+    await expect(createPosition(client, Keypair.generate().publicKey)).rejects.toMatchObject({
+      code: ErrorCode.NOT_FOUND,
+    });
+    client.close();
+  });
+
+  it('should ignore blockhashes, signatures and fresh signers but not amounts', async () => {
+    const payer = Keypair.generate();
+    const createAccount = (blockhash: string, lamports: number, sign: boolean): any => {
+      const account = Keypair.generate();
+      const transaction = new Transaction({
+        feePayer: payer.publicKey,
+        recentBlockhash: blockhash,
+      }).add(
+        SystemProgram.createAccount({
+          fromPubkey: payer.publicKey,
+          newAccountPubkey: account.publicKey,
+          lamports,
+          space: 0,
+          programId: SystemProgram.programId,
+        })
+      );
+      if (sign) {
+        transaction.partialSign(account);
+      }
+
+      return {
+        data: {
+          executionType: 'RAW_TRANSACTION',
+          eventType: 'EXECUTE',
+          transactionBytes: transaction.serialize({ requireAllSignatures: false }),
+          additionalSigners: [account.publicKey.toBase58()],
+        },
+        feePayer: payer.publicKey.toBase58(),
+        priorityFeeLamports: 1_000_000,
+        transport: 'VANILLA',
+      };
+    };
+
+    const fixture = await record([
+      createAccount(Keypair.generate().publicKey.toBase58(), 1_000_000, false),
+    ]);
+    const client = replayClient(new ReplayTransport({ fixture }));
+
+    await expect(
+      client.execute(createAccount(Keypair.generate().publicKey.toBase58(), 1_000_000, true))
+    ).resolves.toMatchObject({ signature: 'sig-1' });
+    await expect(
+      client.execute(createAccount(Keypair.generate().publicKey.toBase58(), 2_000_000, true))
+    ).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+    client.close();
+  });
+
+  it('should refuse fixtures with an unknown version', () => {
+    fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify({ version: 99, entries: [] }));
+
+    expect(() => new ReplayTransport({ path: fixturePath })).toThrow('Invalid transport fixture');
+    expect(() => new ReplayTransport({})).toThrow('requires a fixture');
+  });
+});
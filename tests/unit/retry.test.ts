@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for retry policy helpers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  getRetryDelay,
+  shouldRetry,
+  withRetry,
+} from '../../src/utils/retry';
+import { ExecutionError, ErrorCode } from '../../src/errors';
+
+describe('Retry policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('resolveRetryPolicy()', () => {
+    it('should resolve to a single attempt when no policy is given', () => {
+      expect(resolveRetryPolicy().maxAttempts).toBe(1);
+    });
+
+    it('should fill omitted fields with defaults', () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 5 });
+
+      expect(policy.maxAttempts).toBe(5);
+      expect(policy.initialDelay).toBe(DEFAULT_RETRY_POLICY.initialDelay);
+      expect(policy.retryableErrors).toEqual(DEFAULT_RETRY_POLICY.retryableErrors);
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(() => resolveRetryPolicy({ maxAttempts: 1.5 })).toThrow(ExecutionError);
+      expect(() => resolveRetryPolicy({ initialDelay: -1 })).toThrow(ExecutionError);
+      expect(() => resolveRetryPolicy({ backoffMultiplier: 0.5 })).toThrow(ExecutionError);
+      expect(() => resolveRetryPolicy({ jitter: 2 })).toThrow(ExecutionError);
+    });
+  });
+
+  describe('getRetryDelay()', () => {
+    it('should grow exponentially and cap at maxDelay', () => {
+      const policy = resolveRetryPolicy({ initialDelay: 100, maxDelay: 500, jitter: 0 });
+
+      expect(getRetryDelay(policy, 1)).toBe(100);
+      expect(getRetryDelay(policy, 2)).toBe(200);
+      expect(getRetryDelay(policy, 3)).toBe(400);
+      expect(getRetryDelay(policy, 4)).toBe(500);
+    });
+
+    it('should apply jitter within bounds', () => {
+      const policy = resolveRetryPolicy({ initialDelay: 100, jitter: 0.5 });
+
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      expect(getRetryDelay(policy, 1)).toBe(50);
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+      expect(getRetryDelay(policy, 1)).toBe(150);
+    });
+  });
+
+  describe('shouldRetry()', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3 });
+
+    it('should retry errors raised before the request was delivered', () => {
+      const error = new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'HTTP');
+      expect(shouldRetry(policy, error, 1)).toBe(true);
+    });
+
+    it('should not retry errors where the request may have landed', () => {
+      const timeout = new ExecutionError('timeout', ErrorCode.TIMEOUT, 'ZMQ');
+      const network = new ExecutionError('reset', ErrorCode.NETWORK_ERROR, 'ZMQ');
+
+      expect(shouldRetry(policy, timeout, 1)).toBe(false);
+      expect(shouldRetry(policy, network, 1)).toBe(false);
+    });
+
+    it('should retry possibly delivered errors when opted in', () => {
+      const optedIn = resolveRetryPolicy({ maxAttempts: 3, retryPossiblyDelivered: true });
+      const timeout = new ExecutionError('timeout', ErrorCode.TIMEOUT, 'ZMQ');
+
+      expect(shouldRetry(optedIn, timeout, 1)).toBe(true);
+    });
+
+    it('should not retry codes outside retryableErrors', () => {
+      const error = new ExecutionError('failed', ErrorCode.EXECUTION_FAILED, 'ZMQ');
+      expect(shouldRetry(policy, error, 1)).toBe(false);
+    });
+
+    it('should stop after maxAttempts', () => {
+      const error = new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'HTTP');
+      expect(shouldRetry(policy, error, 3)).toBe(false);
+    });
+
+    it('should defer to a custom predicate', () => {
+      const custom = resolveRetryPolicy({
+        maxAttempts: 3,
+        shouldRetry: (error) => error.code === ErrorCode.NONCE_POOL_EXHAUSTED,
+      });
+
+      expect(
+        shouldRetry(custom, new ExecutionError('busy', ErrorCode.NONCE_POOL_EXHAUSTED, 'ZMQ'), 1)
+      ).toBe(true);
+      expect(
+        shouldRetry(custom, new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'ZMQ'), 1)
+      ).toBe(false);
+    });
+  });
+
+  describe('withRetry()', () => {
+    it('should rethrow the last error once attempts are exhausted', async () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 2, initialDelay: 1 });
+      const onRetry = vi.fn();
+      const operation = vi
+        .fn()
+        .mockRejectedValue(new ExecutionError('refused', ErrorCode.CONNECTION_ERROR, 'HTTP'));
+
+      await expect(withRetry(operation, policy, onRetry)).rejects.toThrow('refused');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry non-ExecutionError failures', async () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 3, initialDelay: 1 });
+      const operation = vi.fn().mockRejectedValue(new Error('boom'));
+
+      await expect(withRetry(operation, policy)).rejects.toThrow('boom');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Unit Tests for the cross-DEX Router
+ *
+ * Tests split allocation and route selection with mocked DEX quotes
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import BN from 'bn.js';
+import { Router } from '../../src/router';
+import { allocateSplits } from '../../src/router/selection';
+import { TransactionBuilder } from '../../src/builder';
+import type { LysFlash } from '../../src/client';
+import { RaydiumCPMMUtils } from '../../src/raydium/cpmm/utils';
+import { RaydiumAMMv4Utils } from '../../src/raydium/ammv4/utils';
+import { DAMMv1Utils } from '../../src/meteora/damm-v1/utils';
+import { DAMMv2Utils } from '../../src/meteora/damm-v2/utils';
+
+const INPUT_MINT = Keypair.generate().publicKey;
+const OUTPUT_MINT = Keypair.generate().publicKey;
+const CPMM_POOL = Keypair.generate().publicKey;
+const AMMV4_POOL = Keypair.generate().publicKey;
+const DAMM_V2_POOL = Keypair.generate().publicKey;
+const USER = Keypair.generate().publicKey;
+
+const client = {
+  requireConnection: () => ({}),
+  getRaydiumCache: () => undefined,
+  getCommitment: () => 'confirmed',
+  getCluster: () => 'mainnet',
+  getTracer: () => undefined,
+} as unknown as LysFlash;
+
+/**
+ * Constant-product style quote: output = amountIn * rate / (1 + amountIn / depth)
+ */
+function mockRaydiumQuote(rate: number, depth: number) {
+  return (_connection: unknown, _pool: unknown, _mint: unknown, amountIn: number | BN) => {
+    const amount = new BN(amountIn.toString());
+    const input = Number(amount.toString());
+    const amountOut = new BN(Math.floor((input * rate) / (1 + input / depth)));
+    return Promise.resolve({
+      amountIn: amount,
+      amountOut,
+      minimumAmountOut: amountOut,
+      fee: amount.divn(400),
+      priceImpact: (input / depth) * 100,
+    });
+  };
+}
+
+describe('Router', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('allocateSplits()', () => {
+    it('should pick the single best pool when maxLegs is 1', () => {
+      const allocation = allocateSplits([[new BN(100)], [new BN(120)], [new BN(110)]], 1, 1);
+
+      expect(allocation).toEqual([0, 1, 0]);
+    });
+
+    it('should split chunks across pools to maximize output', () => {
+      const allocation = allocateSplits(
+        [
+          [new BN(100), new BN(180), new BN(240), new BN(280)],
+          [new BN(95), new BN(185), new BN(270), new BN(350)],
+        ],
+        4,
+        2
+      );
+
+      expect(allocation).toEqual([1, 3]);
+    });
+
+    it('should respect the maximum number of legs', () => {
+      const outputs = [
+        [new BN(100), new BN(150)],
+        [new BN(100), new BN(150)],
+        [new BN(100), new BN(150)],
+      ];
+
+      expect(allocateSplits(outputs, 2, 2)).toEqual([1, 1, 0]);
+      expect(allocateSplits(outputs, 2, 1)).toEqual([2, 0, 0]);
+    });
+
+    it('should prefer fewer legs on equal output', () => {
+      const allocation = allocateSplits(
+        [
+          [new BN(50), new BN(100)],
+          [new BN(50), new BN(100)],
+        ],
+        2,
+        2
+      );
+
+      expect(allocation).toEqual([2, 0]);
+    });
+
+    it('should skip unquotable amounts', () => {
+      const allocation = allocateSplits(
+        [
+          [new BN(100), null],
+          [new BN(10), new BN(20)],
+        ],
+        2,
+        2
+      );
+
+      expect(allocation).toEqual([1, 1]);
+    });
+
+    it('should return null when no allocation covers the input', () => {
+      expect(allocateSplits([[null, null]], 2, 1)).toBeNull();
+      expect(allocateSplits([], 1, 1)).toBeNull();
+    });
+  });
+
+  describe('quote()', () => {
+    it('should route through the pool with the highest output', async () => {
+      vi.spyOn(RaydiumCPMMUtils, 'getQuote').mockImplementation(mockRaydiumQuote(2, 1e12));
+      vi.spyOn(RaydiumAMMv4Utils, 'getQuote').mockImplementation(mockRaydiumQuote(1.9, 1e12));
+
+      const quote = await new Router(client).quote({
+        inputMint: INPUT_MINT,
+        outputMint: OUTPUT_MINT,
+        amountIn: 1_000_000,
+        slippageBps: 100,
+        pools: [
+          { dex: 'raydium-ammv4', address: AMMV4_POOL },
+          { dex: 'raydium-cpmm', address: CPMM_POOL.toBase58() },
+        ],
+      });
+
+      expect(quote.legs).toHaveLength(1);
+      expect(quote.legs[0]?.dex).toBe('raydium-cpmm');
+      expect(quote.legs[0]?.pool.equals(CPMM_POOL)).toBe(true);
+      expect(quote.amountIn.toString()).toBe('1000000');
+      expect(quote.amountOut.toString()).toBe(quote.legs[0]?.amountOut.toString());
+      expect(quote.minimumAmountOut.toString()).toBe(
+        quote.amountOut.muln(9_900).divn(10_000).toString()
+      );
+      expect(quote.candidates.map((leg) => leg.dex)).toEqual(['raydium-cpmm', 'raydium-ammv4']);
+    });
+
+    it('should skip pools whose quote fails', async () => {
+      vi.spyOn(RaydiumCPMMUtils, 'getQuote').mockRejectedValue(new Error('CPMM pool not found'));
+      vi.spyOn(RaydiumAMMv4Utils, 'getQuote').mockImplementation(mockRaydiumQuote(1.9, 1e12));
+
+      const quote = await new Router(client).quote({
+        inputMint: INPUT_MINT,
+        outputMint: OUTPUT_MINT,
+        amountIn: 1_000_000,
+        pools: [
+          { dex: 'raydium-cpmm', address: CPMM_POOL },
+          { dex: 'raydium-ammv4', address: AMMV4_POOL },
+        ],
+      });
+
+      expect(quote.legs.map((leg) => leg.dex)).toEqual(['raydium-ammv4']);
+      expect(quote.candidates).toHaveLength(1);
+    });
+
+    it('should split across shallow pools and cover the full input', async () => {
+      vi.spyOn(RaydiumCPMMUtils, 'getQuote').mockImplementation(mockRaydiumQuote(2, 1_000));
+      vi.spyOn(RaydiumAMMv4Utils, 'getQuote').mockImplementation(mockRaydiumQuote(2, 1_000));
+
+      const quote = await new Router(client).quote({
+        inputMint: INPUT_MINT,
+        outputMint: OUTPUT_MINT,
+        amountIn: 1_001,
+        maxSplits: 2,
+        pools: [
+          { dex: 'raydium-cpmm', address: CPMM_POOL },
+          { dex: 'raydium-ammv4', address: AMMV4_POOL },
+        ],
+      });
+
+      expect(quote.legs).toHaveLength(2);
+      expect(quote.legs.map((leg) => leg.amountIn.toString())).toEqual(['500', '501']);
+      expect(quote.amountOut.toString()).toBe(
+        quote.legs[0]?.amountOut.add(quote.legs[1]?.amountOut ?? new BN(0)).toString()
+      );
+    });
+
+    it('should normalize DAMM v1 slippage and price impact units', async () => {
+      const getSwapQuote = vi.spyOn(DAMMv1Utils, 'getSwapQuote').mockResolvedValue({
+        swapInAmount: new BN(1_000),
+        swapOutAmount: new BN(2_000),
+        minSwapOutAmount: new BN(1_980),
+        fee: new BN(3),
+        priceImpact: 0.015,
+      });
+
+      const quote = await new Router(client).quote({
+        inputMint: INPUT_MINT,
+        outputMint: OUTPUT_MINT,
+        amountIn: 1_000,
+        slippageBps: 50,
+        pools: [{ dex: 'meteora-damm-v1', address: Keypair.generate().publicKey }],
+      });
+
+      expect(getSwapQuote.mock.calls[0]?.[4]).toBe(0.5);
+      expect(quote.priceImpact).toBeCloseTo(1.5);
+      expect(quote.minimumAmountOut.toString()).toBe('1990');
+    });
+
+    it('should only quote the requested DEXes', async () => {
+      const cpmm = vi
+        .spyOn(RaydiumCPMMUtils, 'getQuote')
+        .mockImplementation(mockRaydiumQuote(2, 1e12));
+      const ammv4 = vi.spyOn(RaydiumAMMv4Utils, 'getQuote');
+
+      await new Router(client).quote({
+        inputMint: INPUT_MINT,
+        outputMint: OUTPUT_MINT,
+        amountIn: 1_000,
+        dexes: ['raydium-cpmm'],
+        pools: [
+          { dex: 'raydium-cpmm', address: CPMM_POOL },
+          { dex: 'raydium-ammv4', address: AMMV4_POOL },
+        ],
+      });
+
+      expect(cpmm).toHaveBeenCalledTimes(1);
+      expect(ammv4).not.toHaveBeenCalled();
+    });
+
+    it('should reject when no pool can be quoted', async () => {
+      vi.spyOn(RaydiumCPMMUtils, 'getQuote').mockRejectedValue(new Error('CPMM pool not found'));
+
+      await expect(
+        new Router(client).quote({
+          inputMint: INPUT_MINT,
+          outputMint: OUTPUT_MINT,
+          amountIn: 1_000,
+          pools: [{ dex: 'raydium-cpmm', address: CPMM_POOL }],
+        })
+      ).rejects.toThrow('No route found');
+    });
+
+    it('should reject a zero input amount', async () => {
+      await expect(
+        new Router(client).quote({
+          inputMint: INPUT_MINT,
+          outputMint: OUTPUT_MINT,
+          amountIn: 0,
+          pools: [{ dex: 'raydium-cpmm', address: CPMM_POOL }],
+        })
+      ).rejects.toThrow('amountIn must be greater than zero');
+    });
+  });
+
+  describe('swap()', () => {
+    it('should enqueue one swap per leg through the DEX namespaces', async () => {
+      vi.spyOn(RaydiumCPMMUtils, 'getQuote').mockImplementation(mockRaydiumQuote(2, 1_000));
+      vi.spyOn(DAMMv2Utils, 'getQuote').mockImplementation(
+        (_connection, _pool, _mint, amountIn) => {
+          const amount = new BN(amountIn.toString());
+          const input = Number(amount.toString());
+          return Promise.resolve({
+            amountIn: amount,
+            amountOut: new BN(Math.floor((input * 2) / (1 + input / 1_000))),
+            minimumAmountOut: new BN(0),
+            tradingFee: new BN(1),
+            protocolFee: new BN(0),
+            referralFee: new BN(0),
+            priceImpact: 0.5,
+          });
+        }
+      );
+
+      const builder = new TransactionBuilder(client);
+      const cpmmSwap = vi.spyOn(builder.raydium.cpmm, 'swap').mockResolvedValue(builder);
+      const dammV2Swap = vi.spyOn(builder.meteora.dammV2, 'swap').mockResolvedValue(builder);
+
+      const quote = await new Router(client).swap(builder, {
+        inputMint: INPUT_MINT,
+        outputMint: OUTPUT_MINT,
+        amountIn: 1_000,
+        user: USER,
+        maxSplits: 2,
+        pools: [
+          { dex: 'raydium-cpmm', address: CPMM_POOL },
+          { dex: 'meteora-damm-v2', address: DAMM_V2_POOL },
+        ],
+      });
+
+      expect(quote.legs).toHaveLength(2);
+      expect(cpmmSwap).toHaveBeenCalledTimes(1);
+      expect(dammV2Swap).toHaveBeenCalledTimes(1);
+
+      const cpmmLeg = quote.legs.find((leg) => leg.dex === 'raydium-cpmm');
+      const cpmmParams = cpmmSwap.mock.calls[0]?.[0];
+      expect(cpmmParams?.pool).toEqual(CPMM_POOL);
+      expect(cpmmParams?.user).toEqual(USER);
+      expect(cpmmParams?.inputMint).toEqual(INPUT_MINT);
+      expect(cpmmParams?.outputMint).toEqual(OUTPUT_MINT);
+      expect(cpmmParams?.amountIn.toString()).toBe(cpmmLeg?.amountIn.toString());
+      expect(cpmmParams?.minimumAmountOut.toString()).toBe(cpmmLeg?.minimumAmountOut.toString());
+    });
+  });
+});
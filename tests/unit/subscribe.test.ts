@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for transaction event subscriptions
+ *
+ * Streams events from a local SSE server and a local ZMQ publisher
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as zmq from 'zeromq';
+import { pack } from 'msgpackr';
+import { LysFlash } from '../../src/client';
+import { ExecutionError, ErrorCode } from '../../src/errors';
+import { parseTransactionEvent } from '../../src/utils/events';
+import type { TransactionEvent } from '../../src/types';
+
+const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const submitted = (signature: string, endpoint: string) => ({
+  type: 'submitted',
+  signature,
+  endpoint,
+  timestamp: 1_700_000_000_000,
+});
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('parseTransactionEvent()', () => {
+  it('should accept known event types', () => {
+    expect(
+      parseTransactionEvent({ type: 'landed', signature: 'sig', slot: 5, timestamp: 1 })
+    ).toEqual({ type: 'landed', signature: 'sig', slot: 5, timestamp: 1 });
+  });
+
+  it('should ignore unknown payloads', () => {
+    expect(parseTransactionEvent({ type: 'heartbeat', signature: 'sig' })).toBeUndefined();
+    expect(parseTransactionEvent({ type: 'landed' })).toBeUndefined();
+    expect(parseTransactionEvent('landed')).toBeUndefined();
+  });
+});
+
+describe('LysFlash.subscribe()', () => {
+  let client: LysFlash | undefined;
+
+  afterEach(() => {
+    client?.close();
+    client = undefined;
+  });
+
+  it('should require eventsAddress for ZMQ clients', () => {
+    client = new LysFlash({ address: 'tcp://127.0.0.1:5555', logger: silentLogger });
+
+    try {
+      client.subscribe(() => undefined);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExecutionError);
+      expect((error as ExecutionError).code).toBe(ErrorCode.INVALID_REQUEST);
+    }
+  });
+
+  describe('HTTP (Server-Sent Events)', () => {
+    let server: http.Server;
+    let requests: http.IncomingMessage[];
+    let responses: http.ServerResponse[];
+
+    async function startServer(status = 200): Promise<string> {
+      requests = [];
+      responses = [];
+      server = http.createServer((req, res) => {
+        requests.push(req);
+        if (status !== 200) {
+          res.writeHead(status).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(': connected\n\n');
+        responses.push(res);
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    afterEach(async () => {
+      client?.close();
+      client = undefined;
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should stream events from /api/events with the API key', async () => {
+      const address = await startServer();
+      client = new LysFlash({ address, apiKey: 'sk_test', logger: silentLogger });
+      const events: TransactionEvent[] = [];
+
+      const subscription = client.subscribe((event) => events.push(event), {
+        signatures: ['sigA'],
+      });
+      await waitFor(() => responses.length === 1);
+
+      const res = responses[0]!;
+      res.write(`id: 1\ndata: ${JSON.stringify(submitted('sigA', 'NOZOMI'))}\n\n`);
+      // Events may be split across chunks
+      const landed = JSON.stringify({ type: 'landed', signature: 'sigA', slot: 42, timestamp: 2 });
+      res.write(`id: 2\ndata: ${landed.slice(0, 10)}`);
+      res.write(`${landed.slice(10)}\n\n`);
+      await waitFor(() => events.length === 2);
+
+      expect(requests[0]!.url).toBe('/api/events?signatures=sigA');
+      expect(requests[0]!.headers['x-api-key']).toBe('sk_test');
+      expect(events[0]).toMatchObject({ type: 'submitted', endpoint: 'NOZOMI' });
+      expect(events[1]).toMatchObject({ type: 'landed', slot: 42 });
+      expect(subscription.active).toBe(true);
+
+      subscription.unsubscribe();
+      expect(subscription.active).toBe(false);
+    });
+
+    it('should filter events by signature and type', async () => {
+      const address = await startServer();
+      client = new LysFlash({ address, apiKey: 'sk_test', logger: silentLogger });
+      const events: TransactionEvent[] = [];
+
+      client.subscribe((event) => events.push(event), {
+        signatures: ['sigA'],
+        types: ['landed'],
+      });
+      await waitFor(() => responses.length === 1);
+
+      const res = responses[0]!;
+      res.write(`data: ${JSON.stringify(submitted('sigA', 'JITO'))}\n\n`);
+      res.write(`data: ${JSON.stringify({ type: 'landed', signature: 'sigB', slot: 1 })}\n\n`);
+      res.write(`data: ${JSON.stringify({ type: 'landed', signature: 'sigA', slot: 2 })}\n\n`);
+      await waitFor(() => events.length === 1);
+
+      expect(events[0]).toMatchObject({ signature: 'sigA', slot: 2 });
+    });
+
+    it('should reconnect with Last-Event-ID when the stream drops', async () => {
+      const address = await startServer();
+      client = new LysFlash({
+        address,
+        apiKey: 'sk_test',
+        reconnectDelay: 10,
+        logger: silentLogger,
+      });
+
+      client.subscribe(() => undefined);
+      await waitFor(() => responses.length === 1);
+
+      responses[0]!.write(`id: 7\ndata: ${JSON.stringify(submitted('sigA', 'NOZOMI'))}\n\n`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      responses[0]!.end();
+      await waitFor(() => responses.length === 2);
+
+      expect(requests[1]!.headers['last-event-id']).toBe('7');
+    });
+
+    it('should report rejected streams through onError', async () => {
+      const address = await startServer(401);
+      client = new LysFlash({ address, apiKey: 'sk_bad', logger: silentLogger });
+      const onError = vi.fn();
+
+      const subscription = client.subscribe(() => undefined, { onError });
+      await waitFor(() => onError.mock.calls.length === 1);
+
+      expect(onError.mock.calls[0]![0].code).toBe(ErrorCode.UNAUTHORIZED);
+      expect(subscription.active).toBe(false);
+    });
+  });
+
+  describe('ZMQ (PUB/SUB)', () => {
+    let publisher: zmq.Publisher;
+
+    afterEach(() => {
+      publisher.close();
+    });
+
+    it('should receive events for subscribed signatures', async () => {
+      publisher = new zmq.Publisher({ linger: 0 });
+      await publisher.bind('tcp://127.0.0.1:*');
+      client = new LysFlash({
+        address: 'tcp://127.0.0.1:5555',
+        eventsAddress: publisher.lastEndpoint as string,
+        logger: silentLogger,
+      });
+      const events: TransactionEvent[] = [];
+
+      client.subscribe((event) => events.push(event), { signatures: ['sigA'] });
+
+      // PUB drops messages until the subscription has propagated
+      const deadline = Date.now() + 2000;
+      while (events.length === 0 && Date.now() < deadline) {
+        await publisher.send(['sigB', pack(submitted('sigB', 'JITO'))]);
+        await publisher.send(['sigA', pack(submitted('sigA', 'NOZOMI'))]);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.every((event) => event.signature === 'sigA')).toBe(true);
+      expect(events[0]).toMatchObject({ type: 'submitted', endpoint: 'NOZOMI' });
+    });
+  });
+});
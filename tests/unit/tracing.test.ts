@@ -0,0 +1,297 @@
+/**
+ * Unit Tests for OpenTelemetry tracing hooks
+ *
+ * Records spans with an in-memory tracer; requests go to a local HTTP server
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AddressInfo } from 'net';
+import { Connection, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { LysFlash } from '../../src/client';
+import { TransactionBuilder } from '../../src/builder';
+import { withSpan, traceNamespace } from '../../src/utils/tracing';
+import type { SpanAttributes, SpanAttributeValue, Tracer, TracingSpan } from '../../src/types';
+
+const dlmm = vi.hoisted(() => ({ create: vi.fn() }));
+
+vi.mock('@meteora-ag/dlmm', () => ({ default: dlmm }));
+
+const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  parent?: string;
+  attributes: SpanAttributes;
+  status?: { code: number; message?: string };
+  exceptions: Array<Error | string>;
+  ended: boolean;
+}
+
+/**
+ * Tracer that records spans and tracks the active span across awaits like the OpenTelemetry
+ * context manager
+ */
+function createTracer(): { tracer: Tracer; spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  const context = new AsyncLocalStorage<RecordedSpan>();
+
+  const tracer: Tracer = {
+    startActiveSpan(name, options, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options.kind,
+        parent: context.getStore()?.name,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+
+      const span: TracingSpan = {
+        setAttribute: (key: string, value: SpanAttributeValue) => {
+          recorded.attributes[key] = value;
+        },
+        setStatus: (status) => {
+          recorded.status = status;
+        },
+        recordException: (exception) => {
+          recorded.exceptions.push(exception);
+        },
+        end: () => {
+          recorded.ended = true;
+        },
+      };
+
+      return context.run(recorded, () => fn(span)) as ReturnType<typeof fn>;
+    },
+  };
+
+  return { tracer, spans };
+}
+
+describe('withSpan()', () => {
+  it('should call the function without a span when tracing is disabled', () => {
+    const fn = vi.fn().mockReturnValue(42);
+
+    expect(withSpan(undefined, 'work', {}, fn)).toBe(42);
+    expect(fn).toHaveBeenCalledWith();
+  });
+
+  it('should end the span after the promise settles', async () => {
+    const { tracer, spans } = createTracer();
+
+    const result = withSpan(tracer, 'work', { key: 'value' }, async (span) => {
+      span?.setAttribute('extra', 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(spans[0]?.ended).toBe(false);
+      return 'done';
+    });
+
+    await expect(result).resolves.toBe('done');
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: 'lys_flash.work',
+        kind: 0,
+        attributes: { key: 'value', extra: 1 },
+        ended: true,
+      }),
+    ]);
+  });
+
+  it('should record errors and rethrow them', async () => {
+    const { tracer, spans } = createTracer();
+    const error = new Error('boom');
+
+    expect(() =>
+      withSpan(tracer, 'sync', {}, () => {
+        throw error;
+      })
+    ).toThrow(error);
+    await expect(withSpan(tracer, 'async', {}, () => Promise.reject(error))).rejects.toBe(error);
+
+    for (const span of spans) {
+      expect(span.status).toEqual({ code: 2, message: 'boom' });
+      expect(span.exceptions).toEqual([error]);
+      expect(span.ended).toBe(true);
+    }
+  });
+});
+
+describe('traceNamespace()', () => {
+  class ExampleNamespace {
+    calls = 0;
+
+    async buy(amount: number): Promise<number> {
+      return this.quote(amount);
+    }
+
+    async quote(amount: number): Promise<number> {
+      this.calls++;
+      return amount * 2;
+    }
+  }
+
+  it('should return the namespace unchanged when tracing is disabled', () => {
+    const namespace = new ExampleNamespace();
+
+    expect(traceNamespace(namespace, 'example', undefined)).toBe(namespace);
+  });
+
+  it('should trace public calls but not internal ones', async () => {
+    const { tracer, spans } = createTracer();
+    const namespace = traceNamespace(new ExampleNamespace(), 'dex.example', tracer);
+
+    await expect(namespace.buy(2)).resolves.toBe(4);
+
+    expect(namespace.calls).toBe(1);
+    expect(spans.map((span) => span.name)).toEqual(['lys_flash.dex.example.buy']);
+    expect(spans[0]?.attributes).toEqual({
+      'lys_flash.namespace': 'dex.example',
+      'lys_flash.method': 'buy',
+    });
+  });
+});
+
+describe('Client tracing', () => {
+  let server: http.Server | undefined;
+  let client: LysFlash | undefined;
+
+  afterEach(async () => {
+    client?.close();
+    client = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      server = undefined;
+    }
+  });
+
+  async function startServer(): Promise<string> {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({ success: true, signature: 'sig123', transport: 'NONCE', error: null })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it('should trace builder.send() down to the transport request', async () => {
+    const { tracer, spans } = createTracer();
+    const address = await startServer();
+    client = new LysFlash({
+      address,
+      apiKey: 'sk_test',
+      contentType: 'json',
+      logger: silentLogger,
+      tracer,
+    });
+    const wallet = Keypair.generate().publicKey;
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: wallet,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1_000_000,
+      })
+    );
+
+    const result = await new TransactionBuilder(client)
+      .rawTransaction({ transaction })
+      .setFeePayer(wallet.toBase58())
+      .setTransport('VANILLA')
+      .send();
+
+    expect(result.signature).toBe('sig123');
+    expect(spans.map((span) => [span.name, span.parent])).toEqual([
+      ['lys_flash.builder.send', undefined],
+      ['lys_flash.builder.serialize', 'lys_flash.builder.send'],
+      ['lys_flash.transport.request', 'lys_flash.builder.send'],
+    ]);
+    expect(spans[0]?.attributes).toMatchObject({
+      'lys_flash.transport_mode': 'VANILLA',
+      'lys_flash.execution_types': ['RAW_TRANSACTION'],
+      'lys_flash.operation_count': 1,
+      'lys_flash.signature': 'sig123',
+      'lys_flash.success': true,
+    });
+
+    const request = spans[2];
+    expect(request?.kind).toBe(2);
+    expect(request?.attributes).toMatchObject({
+      'lys_flash.transport': 'HTTP',
+      'server.address': address,
+      'lys_flash.transport_mode': 'VANILLA',
+      'lys_flash.execution_types': ['RAW_TRANSACTION'],
+      'lys_flash.signature': 'sig123',
+    });
+    expect(spans[1]?.attributes['lys_flash.payload_size']).toBe(
+      transaction.serialize({ requireAllSignatures: false }).length
+    );
+    expect(request?.attributes['lys_flash.payload_size']).toBeGreaterThan(0);
+    expect(spans.every((span) => span.ended)).toBe(true);
+  });
+
+  it('should trace DEX namespace methods', async () => {
+    const { tracer, spans } = createTracer();
+    client = new LysFlash({ logger: silentLogger, tracer });
+    const wallet = Keypair.generate().publicKey.toBase58();
+
+    // No connection configured, so the RPC step fails inside the span
+    await expect(
+      new TransactionBuilder(client).meteora.dlmm.buy({
+        pool: wallet,
+        user: wallet,
+        tokenMint: wallet,
+        solAmountIn: 1_000_000,
+        minTokensOut: 1,
+      })
+    ).rejects.toThrow();
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: 'lys_flash.meteora.dlmm.buy',
+        attributes: { 'lys_flash.namespace': 'meteora.dlmm', 'lys_flash.method': 'buy' },
+        status: expect.objectContaining({ code: 2 }),
+        ended: true,
+      }),
+    ]);
+  });
+
+  it('should trace the pool fetch and SDK build of DEX namespace methods', async () => {
+    const { tracer, spans } = createTracer();
+    client = new LysFlash({
+      connection: new Connection('http://127.0.0.1:1'),
+      logger: silentLogger,
+      tracer,
+    });
+    const wallet = Keypair.generate().publicKey.toBase58();
+    const pool = {
+      tokenX: { publicKey: Keypair.generate().publicKey.toBase58() },
+      getBinArrayForSwap: vi.fn().mockResolvedValue([]),
+      swap: vi.fn().mockResolvedValue(new Transaction()),
+    };
+    dlmm.create.mockResolvedValue(pool);
+
+    await new TransactionBuilder(client).meteora.dlmm.buy({
+      pool: wallet,
+      user: wallet,
+      tokenMint: wallet,
+      solAmountIn: 1_000_000,
+      minTokensOut: 1,
+    });
+
+    expect(spans.map((span) => [span.name, span.parent])).toEqual([
+      ['lys_flash.meteora.dlmm.buy', undefined],
+      ['lys_flash.meteora.dlmm.fetch_pool', 'lys_flash.meteora.dlmm.buy'],
+      ['lys_flash.meteora.dlmm.build', 'lys_flash.meteora.dlmm.buy'],
+    ]);
+    expect(spans[1]?.attributes).toEqual({ 'lys_flash.namespace': 'meteora.dlmm' });
+    expect(spans.every((span) => span.ended && !span.status)).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit Tests for operation schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import BN from 'bn.js';
+import { validateOperation, normalizeOperation } from '../../src/utils/validation';
+import { ValidationError, ExecutionError, ErrorCode } from '../../src/errors';
+
+const key = () => Keypair.generate().publicKey.toBase58();
+
+function pumpFunBuy(overrides: Record<string, unknown> = {}): any {
+  return {
+    executionType: 'PUMP_FUN',
+    eventType: 'BUY',
+    pool: key(),
+    tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+    poolAccounts: { coinCreator: key() },
+    user: key(),
+    solAmountIn: 1_000_000,
+    tokenAmountOut: 3_400_000_000,
+    mayhemModeEnabled: false,
+    ...overrides,
+  };
+}
+
+function pumpFunCreate(meta: Record<string, unknown>): any {
+  return {
+    executionType: 'PUMP_FUN',
+    eventType: 'CREATE',
+    user: key(),
+    pool: key(),
+    mintSecretKey: 'secret',
+    meta: { name: 'Token', symbol: 'TKN', uri: 'https://example.com/meta.json', ...meta },
+  };
+}
+
+function fieldOf(fn: () => void): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return (error as ValidationError).field;
+  }
+  return undefined;
+}
+
+describe('validateOperation()', () => {
+  it('should accept a well-formed operation', () => {
+    expect(() => validateOperation(pumpFunBuy())).not.toThrow();
+  });
+
+  it('should accept omitted fields that have defaults', () => {
+    const operation = pumpFunBuy({ tokenProgram: undefined, mayhemModeEnabled: undefined });
+
+    expect(() => validateOperation(operation)).not.toThrow();
+  });
+
+  it('should throw an INVALID_REQUEST ValidationError', () => {
+    expect(() => validateOperation(pumpFunBuy({ pool: 'not-a-key' }))).toThrow(ValidationError);
+
+    try {
+      validateOperation(pumpFunBuy({ pool: 'not-a-key' }));
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExecutionError);
+      expect((error as ValidationError).code).toBe(ErrorCode.INVALID_REQUEST);
+      expect((error as ValidationError).transport).toBe('CLIENT');
+      expect((error as ValidationError).message).toBe(
+        'Invalid data.pool: must be a base58 public key'
+      );
+    }
+  });
+
+  it('should reject malformed public keys', () => {
+    expect(fieldOf(() => validateOperation(pumpFunBuy({ user: 'x'.repeat(44) })))).toBe(
+      'data.user'
+    );
+    expect(fieldOf(() => validateOperation(pumpFunBuy({ user: 12345 })))).toBe('data.user');
+  });
+
+  it('should report nested field paths', () => {
+    const operation = pumpFunBuy({ poolAccounts: { coinCreator: 'bad' } });
+
+    expect(fieldOf(() => validateOperation(operation, 'data[2]'))).toBe(
+      'data[2].poolAccounts.coinCreator'
+    );
+    expect(() =>
+      validateOperation(pumpFunBuy({ poolAccounts: { coinCreator: null } }))
+    ).not.toThrow();
+  });
+
+  it.each([
+    ['negative', -1],
+    ['fractional', 1.5],
+    ['unsafe', Number.MAX_SAFE_INTEGER + 1],
+    ['non-numeric string', '1e9'],
+    ['negative string', '-1'],
+    ['negative bigint', BigInt(-1)],
+    ['negative BN', new BN(-1)],
+    ['above-u64 bigint', BigInt('18446744073709551616')],
+    ['above-u64 string', '18446744073709551616'],
+  ])('should reject %s amounts', (_label, solAmountIn) => {
+    expect(fieldOf(() => validateOperation(pumpFunBuy({ solAmountIn })))).toBe('data.solAmountIn');
+  });
+
+  it.each([
+    ['bigint', BigInt('18446744073709551615')],
+    ['BN', new BN('18000000000000000000')],
+    ['string', '18000000000000000000'],
+  ])('should accept %s amounts up to u64 max', (_label, solAmountIn) => {
+    expect(() => validateOperation(pumpFunBuy({ solAmountIn }))).not.toThrow();
+  });
+
+  it('should check SPL token decimals', () => {
+    const transfer = (decimals: unknown): any => ({
+      executionType: 'SPL_TOKEN',
+      eventType: 'TRANSFER_CHECKED',
+      mint: key(),
+      sourceOwner: key(),
+      destinationOwner: key(),
+      amount: 1_000_000,
+      decimals,
+    });
+
+    expect(() => validateOperation(transfer(9))).not.toThrow();
+    expect(fieldOf(() => validateOperation(transfer(256)))).toBe('data.decimals');
+  });
+
+  it('should enforce token metadata length limits', () => {
+    expect(() => validateOperation(pumpFunCreate({}))).not.toThrow();
+    expect(fieldOf(() => validateOperation(pumpFunCreate({ name: 'n'.repeat(33) })))).toBe(
+      'data.meta.name'
+    );
+    expect(fieldOf(() => validateOperation(pumpFunCreate({ symbol: 'SYMBOLTOOLONG' })))).toBe(
+      'data.meta.symbol'
+    );
+    expect(fieldOf(() => validateOperation(pumpFunCreate({ uri: 'u'.repeat(201) })))).toBe(
+      'data.meta.uri'
+    );
+    // Limits are in UTF-8 bytes
+    expect(fieldOf(() => validateOperation(pumpFunCreate({ name: 'é'.repeat(17) })))).toBe(
+      'data.meta.name'
+    );
+  });
+
+  it('should reject unsupported eventType combinations', () => {
+    const operation = { ...pumpFunBuy(), eventType: 'SYNC_NATIVE' };
+
+    expect(fieldOf(() => validateOperation(operation))).toBe('data.eventType');
+  });
+
+  it('should validate RAW_TRANSACTION bytes and signers', () => {
+    const raw = (overrides: Record<string, unknown>): any => ({
+      executionType: 'RAW_TRANSACTION',
+      eventType: 'EXECUTE',
+      transactionBytes: new Uint8Array(200),
+      ...overrides,
+    });
+
+    expect(() => validateOperation(raw({ additionalSigners: [key()] }))).not.toThrow();
+    expect(fieldOf(() => validateOperation(raw({ transactionBytes: new Uint8Array(50) })))).toBe(
+      'data.transactionBytes'
+    );
+    expect(fieldOf(() => validateOperation(raw({ additionalSigners: [key(), 'bad'] })))).toBe(
+      'data.additionalSigners[1]'
+    );
+  });
+});
+
+describe('normalizeOperation()', () => {
+  it('should convert amounts to numbers or bigints and leave other fields alone', () => {
+    const operation = pumpFunBuy({
+      solAmountIn: new BN(1_000_000),
+      tokenAmountOut: '18000000000000000000',
+    });
+
+    const normalized: any = normalizeOperation(operation);
+
+    expect(normalized.solAmountIn).toBe(1_000_000);
+    expect(normalized.tokenAmountOut).toBe(BigInt('18000000000000000000'));
+    expect(normalized.pool).toBe(operation.pool);
+    expect(operation.solAmountIn).toBeInstanceOf(BN);
+  });
+});
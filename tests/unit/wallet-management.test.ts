@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for the wallet management APIs
+ *
+ * List, balance, export, rotate and delete against the mock engine over ZMQ and HTTP
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { LysFlash } from '../../src/client';
+import { ErrorCode } from '../../src/errors';
+import { decryptWallet } from '../../src/utils/wallet';
+import { MockExecutionEngine } from '../../src/testing';
+import type { MockEngineOptions } from '../../src/testing';
+
+const silentLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+describe('Wallet management', () => {
+  let engine: MockExecutionEngine;
+  let client: LysFlash | undefined;
+  const user = Keypair.generate();
+  const userPublicKey = user.publicKey.toBase58();
+
+  afterEach(async () => {
+    client?.close();
+    client = undefined;
+    await engine.stop();
+  });
+
+  async function setup(
+    transport: 'ZMQ' | 'HTTP',
+    options: MockEngineOptions = {}
+  ): Promise<LysFlash> {
+    engine = new MockExecutionEngine(options);
+    const { zmqAddress, httpAddress } = await engine.start();
+    client = new LysFlash({
+      address: transport === 'ZMQ' ? zmqAddress : httpAddress,
+      apiKey: 'sk_test',
+      logger: silentLogger,
+    });
+    return client;
+  }
+
+  it('should list wallets and read balances over ZMQ', async () => {
+    const client = await setup('ZMQ');
+    const wallet = await client.createWallet(userPublicKey);
+
+    const { wallets } = await client.listWallets();
+    engine.respondOnce({ success: true, publicKey: wallet.publicKey, lamports: 5_000, slot: 42 });
+    const balance = await client.getWalletBalance(wallet.publicKey);
+
+    expect(wallets.map((entry) => entry.publicKey)).toEqual([wallet.publicKey]);
+    expect(wallets[0]?.createdAt).toEqual(expect.any(Number));
+    expect(balance).toMatchObject({ lamports: 5_000, slot: 42 });
+    expect(engine.requests.map((received) => received.body)).toMatchObject([
+      { type: 'WALLET_CREATE' },
+      { type: 'WALLET_LIST' },
+      { type: 'WALLET_BALANCE', wallet: wallet.publicKey },
+    ]);
+  });
+
+  it('should export a wallet re-encrypted to another key', async () => {
+    const client = await setup('HTTP');
+    const backup = Keypair.generate();
+    const wallet = await client.createWallet(userPublicKey);
+
+    const exported = await client.exportWallet(wallet.publicKey, backup.publicKey.toBase58());
+
+    expect(decryptWallet(exported, backup).publicKey.toBase58()).toBe(wallet.publicKey);
+    expect(() => decryptWallet(exported, user)).toThrow('Failed to decrypt');
+  });
+
+  it('should rotate a wallet to a new keypair', async () => {
+    const client = await setup('HTTP');
+    const wallet = await client.createWallet(userPublicKey);
+
+    const rotated = await client.rotateWallet(wallet.publicKey, userPublicKey);
+    const { wallets } = await client.listWallets();
+
+    expect(rotated.previousPublicKey).toBe(wallet.publicKey);
+    expect(rotated.publicKey).not.toBe(wallet.publicKey);
+    expect(decryptWallet(rotated, user).publicKey.toBase58()).toBe(rotated.publicKey);
+    expect(wallets.map((entry) => entry.publicKey)).toEqual([rotated.publicKey]);
+  });
+
+  it('should delete wallets and report unknown ones as WALLET_NOT_FOUND', async () => {
+    const client = await setup('ZMQ');
+    const wallet = await client.createWallet(userPublicKey);
+
+    await expect(client.deleteWallet(wallet.publicKey)).resolves.toEqual({
+      success: true,
+      publicKey: wallet.publicKey,
+    });
+    await expect(client.listWallets()).resolves.toMatchObject({ wallets: [] });
+    await expect(client.getWalletBalance(wallet.publicKey)).rejects.toMatchObject({
+      code: ErrorCode.WALLET_NOT_FOUND,
+    });
+  });
+
+  it('should map error responses on their code rather than their message', async () => {
+    const client = await setup('ZMQ');
+    const wallet = Keypair.generate().publicKey.toBase58();
+    engine
+      .respondOnce({ success: false, error: 'Wallet not found' })
+      .respondOnce({ success: false, code: ErrorCode.WALLET_NOT_FOUND, error: 'Unknown wallet' })
+      .respondOnce({ success: false, error: 'Engine busy' });
+
+    await expect(client.getWalletBalance(wallet)).rejects.toMatchObject({
+      code: ErrorCode.EXECUTION_FAILED,
+      message: 'Wallet not found',
+    });
+    await expect(client.deleteWallet(wallet)).rejects.toMatchObject({
+      code: ErrorCode.WALLET_NOT_FOUND,
+      message: 'Unknown wallet',
+    });
+    await expect(client.createWallet(userPublicKey)).rejects.toMatchObject({
+      code: ErrorCode.EXECUTION_FAILED,
+      message: 'Engine busy',
+    });
+  });
+
+  it('should reject missing arguments without sending a request', async () => {
+    const client = await setup('ZMQ');
+
+    await expect(client.exportWallet('', userPublicKey)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_REQUEST,
+    });
+    await expect(client.rotateWallet(userPublicKey, '')).rejects.toThrow('Missing userPublicKey');
+    expect(engine.requests).toHaveLength(0);
+  });
+
+  it('should sign wallet requests over HTTP', async () => {
+    const signer = Keypair.generate();
+    const client = await setup('HTTP', { signers: [signer.publicKey.toBase58()] });
+    const signingKeypair = { publicKey: signer.publicKey.toBytes(), secretKey: signer.secretKey };
+
+    await expect(client.listWallets(signingKeypair)).resolves.toMatchObject({ success: true });
+    await expect(client.listWallets()).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+
+    expect(engine.requests[0]).toMatchObject({ signatureValid: true, kind: 'wallet' });
+  });
+});